@@ -10,6 +10,9 @@
  * - populateScryfallCacheManual: HTTP trigger for manual/initial cache population
  * - buildCardIndex: Builds lightweight card index for fast filtering & pagination
  * - loadCardPage: Fetches full card objects by IDs with scryfall_cache join
+ * - evaluatePriceAlerts: Scheduled check of users' price alerts against MTGJSON prices
+ * - snapshotPortfolios: Daily server-side collection valuation (priceHistory) with gap backfill
+ * - refreshExchangeRates: Scheduled USD -> local currency rates (exchange_rates/latest)
  */
 
 const {setGlobalOptions} = require("firebase-functions");
@@ -18,6 +21,7 @@ const {onSchedule} = require("firebase-functions/scheduler");
 const logger = require("firebase-functions/logger");
 const admin = require("firebase-admin");
 const cheerio = require("cheerio");
+const zlib = require("zlib");
 const { parseImagePath, storagePath: cardImageStoragePath, scryfallUrl: cardImageScryfallUrl, createThrottle } = require("./lib/cardImage");
 const { mapWithConcurrency } = require("./lib/concurrency");
 // TASK-245: single definition of a card_index entry (and of the
@@ -35,6 +39,17 @@ const { isDualFaced, buildIndexEntry } = require("./lib/cardIndexEntry");
 // can drift). This file only wires the self-only onCall wrapper below.
 const { reconcilePublicCardIndexForUser } = require("./lib/publicCardIndexReconciler");
 const { queryPublicCardIndexForUser } = require("./lib/publicCardIndexQuery");
+const {
+  planGiverSide,
+  planReceiverSide,
+  docsAfterGiving,
+  settleSameDocWrites,
+  tradeActivityEntry,
+} = require("./lib/tradeCompletion");
+const { cleanLot } = require("./lib/acquisitions");
+const { evaluateAlert, priceFor, setsToResolve } = require("./lib/priceAlerts");
+const { ckPricesFrom, valueCollection, dateKey, missingDates, priceAsOf } = require("./lib/portfolioValuation");
+const { pickRates, pickInformalRate } = require("./lib/exchangeRates");
 
 // Initialize Firebase Admin SDK
 admin.initializeApp();
@@ -391,6 +406,322 @@ exports.fetchPriceMovers = onSchedule(
   },
 );
 
+// ========== EXCHANGE RATES ==========
+
+const FX_OFFICIAL_URL = 'https://open.er-api.com/v6/latest/USD';
+const FX_INFORMAL_ARS_URL = 'https://dolarapi.com/v1/dolares/blue';
+
+async function fetchJson(url) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  return res.json();
+}
+
+/**
+ * refreshExchangeRates — Scheduled every 6 hours, same cadence as
+ * fetchPriceMovers. Writes exchange_rates/latest: USD -> local currency
+ * rates the client uses to show prices in the user's currency, plus the
+ * informal ARS rate ("dólar blue") the user can opt into from Settings.
+ * Merged, so a source that fails (or drops a currency) keeps its last good
+ * rate instead of blanking it. See functions/lib/exchangeRates.js.
+ */
+exports.refreshExchangeRates = onSchedule(
+  { schedule: 'every 6 hours', maxInstances: 1, timeoutSeconds: 60 },
+  async () => {
+    logger.info('Starting refreshExchangeRates...');
+    const update = {};
+
+    try {
+      const rates = pickRates(await fetchJson(FX_OFFICIAL_URL));
+      if (Object.keys(rates).length > 0) {
+        update.rates = rates;
+        update.source = 'open.er-api.com';
+      }
+    } catch (err) {
+      logger.error('Official exchange rates failed:', err.message);
+    }
+
+    try {
+      const blue = pickInformalRate(await fetchJson(FX_INFORMAL_ARS_URL));
+      if (blue !== null) update.informal = { ARS: blue };
+    } catch (err) {
+      logger.warn('Informal ARS rate failed:', err.message);
+    }
+
+    if (Object.keys(update).length === 0) {
+      logger.warn('refreshExchangeRates: nothing to write, keeping previous rates');
+      return;
+    }
+    await db.doc('exchange_rates/latest').set(
+      { ...update, base: 'USD', updatedAt: admin.firestore.FieldValue.serverTimestamp() },
+      { merge: true },
+    );
+    logger.info('refreshExchangeRates completed.', update);
+  },
+);
+
+// ========== PRICE ALERTS ==========
+
+const MTGJSON_API = 'https://mtgjson.com/api/v5';
+const PRICE_ALERT_BATCH_SIZE = 400;
+// scryfallId -> MTGJSON uuid, one doc per set ({ map, updatedAt }). A set
+// file is several MB; the map of the same set is a few KB, so scheduled jobs
+// read this instead of re-downloading sets every run. Server-only
+// (default-deny in firestore.rules).
+const MTGJSON_UUID_MAP_COLLECTION = 'mtgjson_uuid_map';
+const MTGJSON_UUID_MAP_TTL_MS = 7 * 24 * 60 * 60 * 1000; // same as the client's SetList refresh
+
+/** MTGJSON serves raw .gz files (not Content-Encoding), so gunzip by hand. */
+async function fetchMtgjsonGz(path) {
+  const res = await fetch(`${MTGJSON_API}/${path}`);
+  if (!res.ok) throw new Error(`MTGJSON ${path} returned ${res.status}`);
+  const buffer = Buffer.from(await res.arrayBuffer());
+  return JSON.parse(zlib.gunzipSync(buffer).toString('utf8'));
+}
+
+/**
+ * Returns resolve(bySet) -> Map<scryfallId, uuid> for the ids grouped by
+ * setsToResolve(). Set maps are memoized for the life of the resolver (one
+ * scheduled run), so many users sharing a set cost one read.
+ */
+function createMtgjsonUuidResolver() {
+  const setMaps = new Map(); // UPPER set -> { [scryfallId]: uuid }
+
+  const loadSet = async (setCode) => {
+    if (setMaps.has(setCode)) return setMaps.get(setCode);
+    const ref = db.collection(MTGJSON_UUID_MAP_COLLECTION).doc(setCode);
+    const cached = await ref.get();
+    const updatedAt = cached.exists ? cached.get('updatedAt')?.toMillis?.() ?? 0 : 0;
+    let map = cached.exists ? cached.get('map') || {} : null;
+    if (!map || Date.now() - updatedAt > MTGJSON_UUID_MAP_TTL_MS) {
+      try {
+        const set = await fetchMtgjsonGz(`${setCode}.json.gz`);
+        map = {};
+        for (const card of set.data?.cards || []) {
+          const scryfallId = card.identifiers?.scryfallId;
+          if (card.uuid && scryfallId) map[scryfallId] = card.uuid;
+        }
+        await ref.set({ map, updatedAt: admin.firestore.FieldValue.serverTimestamp() });
+        await sleep(200);
+      } catch (err) {
+        logger.warn(`MTGJSON set ${setCode} failed:`, err.message);
+        map = map || {};
+      }
+    }
+    setMaps.set(setCode, map);
+    return map;
+  };
+
+  return async (bySet) => {
+    const out = new Map();
+    for (const [setCode, scryfallIds] of bySet) {
+      const map = await loadSet(setCode);
+      for (const id of scryfallIds) {
+        if (map[id]) out.set(id, map[id]);
+      }
+    }
+    return out;
+  };
+}
+
+/**
+ * evaluatePriceAlerts — Scheduled every 6 hours, same cadence as
+ * fetchPriceMovers. Checks every active users/{uid}/price_alerts doc against
+ * the MTGJSON prices the client shows (services/mtgjson.ts). A fired alert
+ * goes inactive (the user re-arms it from the card) and leaves an entry in
+ * users/{uid}/price_alert_events, which is what the notifications bell reads.
+ *
+ * Alerts normally carry the MTGJSON uuid the client resolved when saving;
+ * the ones that don't are resolved through mtgjson_uuid_map once and the
+ * uuid is written back onto the alert.
+ */
+exports.evaluatePriceAlerts = onSchedule(
+  { schedule: 'every 6 hours', maxInstances: 1, timeoutSeconds: 540, memory: '2GiB' },
+  async () => {
+    logger.info('Starting evaluatePriceAlerts...');
+
+    const snapshot = await db.collectionGroup('price_alerts').where('active', '==', true).get();
+    if (snapshot.empty) {
+      logger.info('evaluatePriceAlerts: no active alerts.');
+      return;
+    }
+
+    const resolveUuids = createMtgjsonUuidResolver();
+    const uuidByScryfallId = await resolveUuids(setsToResolve(snapshot.docs.map((d) => d.data())));
+
+    const prices = (await fetchMtgjsonGz('AllPricesToday.json.gz')).data || {};
+
+    let batch = db.batch();
+    let ops = 0;
+    let fired = 0;
+    let unresolved = 0;
+    const flush = async () => {
+      if (ops === 0) return;
+      await batch.commit();
+      batch = db.batch();
+      ops = 0;
+    };
+
+    for (const doc of snapshot.docs) {
+      const alert = doc.data();
+      const uuid = alert.mtgjsonUuid || uuidByScryfallId.get(alert.scryfallId);
+      if (!uuid) {
+        unresolved++;
+        continue;
+      }
+      const price = priceFor(prices[uuid], alert.source, !!alert.foil);
+      const result = evaluateAlert(alert, price);
+      const now = admin.firestore.FieldValue.serverTimestamp();
+
+      const update = { lastCheckedAt: now };
+      if (price !== null) update.lastPrice = price;
+      if (!alert.mtgjsonUuid) update.mtgjsonUuid = uuid;
+      if (result) {
+        update.active = false;
+        update.firedAt = now;
+        const userRef = doc.ref.parent.parent;
+        batch.set(userRef.collection('price_alert_events').doc(), {
+          alertId: doc.id,
+          scryfallId: alert.scryfallId,
+          cardName: alert.cardName || '',
+          setCode: alert.setCode || '',
+          image: alert.image || '',
+          foil: !!alert.foil,
+          source: alert.source || 'cardkingdom',
+          direction: result.direction,
+          threshold: result.threshold,
+          price: result.price,
+          read: false,
+          createdAt: now,
+        });
+        ops++;
+        fired++;
+      }
+      batch.update(doc.ref, update);
+      ops++;
+      if (ops >= PRICE_ALERT_BATCH_SIZE) await flush();
+    }
+    await flush();
+
+    logger.info(`evaluatePriceAlerts completed: ${snapshot.size} active, ${fired} fired, ${unresolved} without MTGJSON uuid.`);
+  },
+);
+
+// ========== PORTFOLIO SNAPSHOTS ==========
+
+const PORTFOLIO_USER_PAGE_SIZE = 200;
+const PORTFOLIO_USER_CONCURRENCY = 3;
+const PORTFOLIO_BACKFILL_DAYS = 30;
+// A backfilled day needs a known price for this share of the owned card docs;
+// below that the total would be an undervalued guess, so the day stays empty.
+const PORTFOLIO_BACKFILL_MIN_COVERAGE = 0.9;
+const PORTFOLIO_CARD_FIELDS = ['scryfallId', 'setCode', 'quantity', 'status', 'price'];
+
+/**
+ * Today's snapshot for one user plus, if the last PORTFOLIO_BACKFILL_DAYS
+ * have holes, the days that can be rebuilt from users/{uid}/cardPriceHistory
+ * (the per-card prices the client stores): current holdings × the last known
+ * price of each card on that day, flagged `backfilled: true`.
+ */
+async function snapshotPortfolioForUser(uid, today, prices, resolveUuids) {
+  const cardsSnap = await db.collection(`users/${uid}/cards`).select(...PORTFOLIO_CARD_FIELDS).get();
+  if (cardsSnap.empty) return { written: false, backfilled: 0 };
+  const cards = cardsSnap.docs.map((d) => d.data());
+
+  const uuids = await resolveUuids(setsToResolve(cards));
+  const value = valueCollection(cards, (card) => {
+    const uuid = uuids.get(card.scryfallId);
+    return uuid ? ckPricesFrom(prices[uuid]) : null;
+  });
+  // Same rule as the old client-side saveSnapshot: no empty snapshots.
+  if (value.tcg === 0 && value.ck === 0 && value.buylist === 0) return { written: false, backfilled: 0 };
+
+  const historyCol = db.collection(`users/${uid}/priceHistory`);
+  const now = admin.firestore.FieldValue.serverTimestamp();
+  await historyCol.doc(today).set({
+    tcg: value.tcg, ck: value.ck, buylist: value.buylist,
+    cards: value.cards, unique: value.unique,
+    source: 'server', updatedAt: now,
+  });
+
+  const recent = await historyCol
+    .orderBy(admin.firestore.FieldPath.documentId(), 'desc')
+    .limit(PORTFOLIO_BACKFILL_DAYS + 1)
+    .select()
+    .get();
+  const gaps = missingDates(recent.docs.map((d) => d.id), today, PORTFOLIO_BACKFILL_DAYS);
+  if (gaps.length === 0) return { written: true, backfilled: 0 };
+
+  const cardHistory = new Map();
+  const historySnap = await db.collection(`users/${uid}/cardPriceHistory`).get();
+  for (const d of historySnap.docs) cardHistory.set(d.id, d.data());
+
+  const batch = db.batch();
+  let backfilled = 0;
+  for (const day of gaps) {
+    const past = valueCollection(cards, (card) => priceAsOf(cardHistory.get(card.scryfallId), day));
+    if (past.owned === 0 || past.priced / past.owned < PORTFOLIO_BACKFILL_MIN_COVERAGE) continue;
+    batch.set(historyCol.doc(day), {
+      tcg: past.tcg, ck: past.ck, buylist: past.buylist,
+      cards: past.cards, unique: past.unique,
+      source: 'server', backfilled: true, updatedAt: now,
+    });
+    backfilled++;
+  }
+  if (backfilled > 0) await batch.commit();
+  return { written: true, backfilled };
+}
+
+/**
+ * snapshotPortfolios — Scheduled daily. Values every user's collection and
+ * writes users/{uid}/priceHistory/{YYYY-MM-DD} (UTC) server-side, so the
+ * value chart no longer depends on the user opening the app that day (the
+ * old client write was gated per device through localStorage). Also fills
+ * recent gaps where the per-card price history allows it — see
+ * snapshotPortfolioForUser.
+ */
+exports.snapshotPortfolios = onSchedule(
+  { schedule: 'every day 05:00', timeZone: 'UTC', maxInstances: 1, timeoutSeconds: 1800, memory: '2GiB' },
+  async () => {
+    logger.info('Starting snapshotPortfolios...');
+    const today = dateKey(new Date());
+    const prices = (await fetchMtgjsonGz('AllPricesToday.json.gz')).data || {};
+    const resolveUuids = createMtgjsonUuidResolver();
+
+    let users = 0;
+    let written = 0;
+    let backfilled = 0;
+    let failed = 0;
+    let lastDoc = null;
+    for (;;) {
+      let q = db.collection('users')
+        .orderBy(admin.firestore.FieldPath.documentId())
+        .select()
+        .limit(PORTFOLIO_USER_PAGE_SIZE);
+      if (lastDoc) q = q.startAfter(lastDoc);
+      const page = await q.get();
+      if (page.empty) break;
+
+      await mapWithConcurrency(page.docs, PORTFOLIO_USER_CONCURRENCY, async (userDoc) => {
+        users++;
+        try {
+          const result = await snapshotPortfolioForUser(userDoc.id, today, prices, resolveUuids);
+          if (result.written) written++;
+          backfilled += result.backfilled;
+        } catch (err) {
+          failed++;
+          logger.warn(`snapshotPortfolios: user ${userDoc.id} failed:`, err.message);
+        }
+      });
+
+      lastDoc = page.docs[page.docs.length - 1];
+      if (page.size < PORTFOLIO_USER_PAGE_SIZE) break;
+    }
+
+    logger.info(`snapshotPortfolios completed: ${users} users, ${written} snapshots, ${backfilled} backfilled days, ${failed} failed.`);
+  },
+);
+
 /**
  * refreshMarketData — HTTP trigger for manual refresh.
  * Query param: ?type=staples|movers|all
@@ -457,6 +788,7 @@ const USER_CARD_FIELDS = new Set([
   'price', 'language', 'name', 'edition', 'setCode', 'image', 'deckName',
   'cmc', 'type_line', 'colors', 'rarity', 'power', 'toughness',
   'full_art', 'produced_mana', 'keywords', 'legalities', 'oracle_text',
+  'acquisitions',
 ]);
 
 exports.bulkImportCards = onCall(
@@ -502,7 +834,9 @@ exports.bulkImportCards = onCall(
         // Write only user-specific fields + convenience copies to user doc
         const userFields = {};
         for (const [key, value] of Object.entries(cardData)) {
-          if (USER_CARD_FIELDS.has(key)) {
+          if (key === 'acquisitions') {
+            userFields[key] = (Array.isArray(value) ? value : []).map(cleanLot).filter(Boolean);
+          } else if (USER_CARD_FIELDS.has(key)) {
             userFields[key] = value;
           }
         }
@@ -570,6 +904,267 @@ exports.bulkImportCards = onCall(
   }
 );
 
+// ============================================================
+// COMPLETE TRADE
+// Moves the cards of an accepted trade_proposals document between both
+// collections in ONE transaction: the giver's docs are decremented or
+// deleted and the receiver gets the same printing/condition/foil/language
+// merged into a collection doc or created as a new one. If either side no
+// longer holds what the latest revision promised, nothing is written and
+// the caller gets failed-precondition with the shortages in `details`.
+//
+// What is decided lives in functions/lib/tradeCompletion.js (executed by
+// tests/unit/functions/tradeCompletion.test.ts); this block is the reads,
+// the writes and the index follow-up.
+//
+// card_index and the public-profile index are NOT part of the transaction
+// — both are chunked/derived and have their own writers. They are patched
+// afterwards, best-effort, through the same mechanisms every other writer
+// uses (applyCardIndexDelta's handler, reconcilePublicCardIndexForUser).
+// If that follow-up fails, the collections are still correct and the
+// client's stale-index check rebuilds card_index on the next load.
+// public_cards docs of the giver ARE written in the transaction: a sold-out
+// listing must not outlive the card it advertises.
+// ============================================================
+const TRADE_QUERY_IN_LIMIT = 30; // Firestore 'in' filter limit
+
+async function readTradeCards(tx, userId, scryfallIds) {
+  const docs = [];
+  for (let i = 0; i < scryfallIds.length; i += TRADE_QUERY_IN_LIMIT) {
+    const slice = scryfallIds.slice(i, i + TRADE_QUERY_IN_LIMIT);
+    const snap = await tx.get(
+      db.collection(`users/${userId}/cards`).where('scryfallId', 'in', slice)
+    );
+    snap.docs.forEach((d) => docs.push({ id: d.id, data: d.data() }));
+  }
+  return docs;
+}
+
+const isListedCard = (data) =>
+  (data.status === 'sale' || data.status === 'trade') && data.public !== false;
+
+exports.completeTrade = onCall(
+  { maxInstances: 5, timeoutSeconds: 300, memory: '2GiB' },
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'Must be logged in');
+    }
+    const callerId = request.auth.uid;
+    const proposalId = request.data?.proposalId;
+    if (typeof proposalId !== 'string' || !proposalId) {
+      throw new HttpsError('invalid-argument', 'proposalId is required');
+    }
+
+    const proposalRef = db.collection('trade_proposals').doc(proposalId);
+    const initial = await proposalRef.get();
+    if (!initial.exists) {
+      throw new HttpsError('not-found', 'Trade proposal not found');
+    }
+    const { initiatorId, recipientId } = initial.data();
+    if (callerId !== initiatorId && callerId !== recipientId) {
+      throw new HttpsError('permission-denied', 'Not a participant of this trade');
+    }
+
+    // Sticky chunkId for the docs the receivers gain — same rule as
+    // bulkImportCards, counted outside the transaction (aggregation queries
+    // can't run inside one). Off by a few under concurrent writes is fine:
+    // chunkId is a placement hint, applyCardIndexDelta falls back to a scan.
+    const positions = {
+      [initiatorId]: (await db.collection(`users/${initiatorId}/cards`).count().get()).data().count,
+      [recipientId]: (await db.collection(`users/${recipientId}/cards`).count().get()).data().count,
+    };
+
+    const indexMutations = { [initiatorId]: [], [recipientId]: [] };
+    const publicChanged = new Set();
+
+    await db.runTransaction(async (tx) => {
+      // Reset on retry — the transaction body can run more than once.
+      indexMutations[initiatorId] = [];
+      indexMutations[recipientId] = [];
+      publicChanged.clear();
+
+      const snap = await tx.get(proposalRef);
+      const proposal = snap.exists ? snap.data() : null;
+      if (!proposal || proposal.status !== 'accepted') {
+        throw new HttpsError('failed-precondition', 'Trade proposal is not accepted', {
+          reason: proposal ? proposal.status : 'missing',
+        });
+      }
+      const revisions = proposal.revisions || [];
+      const revision = revisions[revisions.length - 1];
+      if (!revision) {
+        throw new HttpsError('failed-precondition', 'Trade proposal has no revisions');
+      }
+      // 'accepted' alone proves nothing: it has to come from the participant
+      // who did NOT write the revision on the table (the rules only let that
+      // one set acceptedBy). Otherwise an initiator could accept their own
+      // offer and take the recipient's cards.
+      const acceptedBy = proposal.acceptedBy;
+      if (
+        (acceptedBy !== initiatorId && acceptedBy !== recipientId)
+        || acceptedBy === revision.authorId
+      ) {
+        throw new HttpsError('failed-precondition', 'Trade proposal was not accepted by the other participant', {
+          reason: 'not-accepted',
+        });
+      }
+
+      const scryfallIds = [...new Set(
+        [...revision.initiatorCards, ...revision.recipientCards].map((c) => c.scryfallId).filter(Boolean)
+      )];
+      const initiatorDocs = await readTradeCards(tx, initiatorId, scryfallIds);
+      const recipientDocs = await readTradeCards(tx, recipientId, scryfallIds);
+
+      const fromInitiator = planGiverSide(revision.initiatorCards, initiatorDocs);
+      const fromRecipient = planGiverSide(revision.recipientCards, recipientDocs);
+      const shortages = [
+        ...fromInitiator.shortages.map((s) => ({ ...s, userId: initiatorId })),
+        ...fromRecipient.shortages.map((s) => ({ ...s, userId: recipientId })),
+      ];
+      if (shortages.length > 0) {
+        throw new HttpsError('failed-precondition', 'Not enough copies to complete the trade', {
+          reason: 'shortage',
+          shortages,
+        });
+      }
+
+      // public_cards reads must happen before any write in the transaction.
+      const listedUpdates = [];
+      for (const [userId, plan] of [[initiatorId, fromInitiator], [recipientId, fromRecipient]]) {
+        for (const u of plan.updates) {
+          if (!isListedCard(u.data)) continue;
+          const ref = db.collection('public_cards').doc(`${userId}_${u.id}`);
+          listedUpdates.push({ userId, ref, quantity: u.quantity, snap: await tx.get(ref) });
+        }
+      }
+
+      const tradeDate = new Date().toISOString().slice(0, 10);
+      // Receivers plan against their docs AFTER giving, and a doc both given
+      // from and merged into is written once (see settleSameDocWrites).
+      const initiatorSide = settleSameDocWrites(fromInitiator, planReceiverSide(
+        fromRecipient.transfers, docsAfterGiving(initiatorDocs, fromInitiator), USER_CARD_FIELDS,
+        { counterparty: proposal.recipientUsername || '', date: tradeDate },
+      ));
+      const recipientSide = settleSameDocWrites(fromRecipient, planReceiverSide(
+        fromInitiator.transfers, docsAfterGiving(recipientDocs, fromRecipient), USER_CARD_FIELDS,
+        { counterparty: proposal.initiatorUsername || '', date: tradeDate },
+      ));
+      const givenByInitiator = initiatorSide.given;
+      const givenByRecipient = recipientSide.given;
+      const toInitiator = initiatorSide.received;
+      const toRecipient = recipientSide.received;
+      const now = admin.firestore.FieldValue.serverTimestamp();
+
+      for (const [userId, plan] of [[initiatorId, givenByInitiator], [recipientId, givenByRecipient]]) {
+        const colRef = db.collection(`users/${userId}/cards`);
+        for (const u of plan.updates) {
+          tx.update(colRef.doc(u.id), {
+            quantity: u.quantity,
+            ...(u.acquisitions ? { acquisitions: u.acquisitions } : {}),
+            updatedAt: now,
+          });
+          indexMutations[userId].push({ cardId: u.id, action: 'update' });
+        }
+        for (const d of plan.deletes) {
+          tx.delete(colRef.doc(d.id));
+          indexMutations[userId].push({ cardId: d.id, action: 'delete' });
+          if (isListedCard(d.data)) {
+            tx.delete(db.collection('public_cards').doc(`${userId}_${d.id}`));
+            publicChanged.add(userId);
+          }
+        }
+      }
+      for (const l of listedUpdates) {
+        if (!l.snap.exists) continue;
+        tx.update(l.ref, { quantity: l.quantity, updatedAt: admin.firestore.Timestamp.now() });
+        publicChanged.add(l.userId);
+      }
+
+      const created = { [initiatorId]: [], [recipientId]: [] };
+      for (const [userId, plan] of [[initiatorId, toInitiator], [recipientId, toRecipient]]) {
+        const colRef = db.collection(`users/${userId}/cards`);
+        for (const m of plan.merges) {
+          tx.update(colRef.doc(m.id), { quantity: m.quantity, acquisitions: m.acquisitions, updatedAt: now });
+          indexMutations[userId].push({ cardId: m.id, action: 'update' });
+        }
+        let position = positions[userId];
+        for (const data of plan.creates) {
+          const ref = colRef.doc();
+          tx.set(ref, {
+            ...data,
+            chunkId: Math.floor(position / INDEX_CHUNK_SIZE),
+            createdAt: now,
+            updatedAt: now,
+          });
+          position += 1;
+          indexMutations[userId].push({ cardId: ref.id, action: 'update', allowInsert: true });
+          created[userId].push({ id: ref.id, data });
+        }
+      }
+
+      // Activity log entry per side (users/{uid}/activity), in the same
+      // transaction so it can never describe a trade that did not happen.
+      for (const [userId, given, received] of [
+        [initiatorId, givenByInitiator, toInitiator],
+        [recipientId, givenByRecipient, toRecipient],
+      ]) {
+        const entry = tradeActivityEntry(given, { merges: received.merges, created: created[userId] });
+        if (!entry) continue;
+        const entryRef = db.collection(`users/${userId}/activity`).doc();
+        for (const part of entry.parts) {
+          tx.set(entryRef.collection('changes').doc(String(part.index)), part);
+        }
+        tx.set(entryRef, { ...entry.header, createdAt: now });
+      }
+
+      tx.update(proposalRef, {
+        status: 'completed',
+        completedBy: callerId,
+        completedAt: now,
+        updatedAt: now,
+      });
+    });
+
+    logger.info(`[completeTrade] ${proposalId} completed by ${callerId}`);
+
+    // Index follow-up, best-effort (see header). applyCardIndexDelta is
+    // invoked through its handler with each owner's uid: this is a trusted
+    // server-side call, never reachable with a client-chosen userId.
+    for (const userId of [initiatorId, recipientId]) {
+      const mutations = indexMutations[userId];
+      if (mutations.length === 0) continue;
+      try {
+        await exports.applyCardIndexDelta.run({ auth: { uid: userId }, data: { mutations } });
+      } catch (err) {
+        logger.warn(`[completeTrade] card_index patch failed for ${userId} (next load rebuilds):`, err.message);
+      }
+    }
+    for (const userId of publicChanged) {
+      try {
+        await reconcilePublicCardIndexForUser({
+          db,
+          userId,
+          documentIdOrderBy: admin.firestore.FieldPath.documentId(),
+          log: (msg) => logger.info(msg),
+          logError: (msg) => logger.error(msg),
+          cacheStampAt: admin.firestore.Timestamp.now(),
+          overrideHint: 'run scripts/reconcile-public-card-index.mjs --uid=' + userId,
+        });
+      } catch (err) {
+        logger.warn(`[completeTrade] public index reconcile failed for ${userId}:`, err.message);
+      }
+    }
+
+    return {
+      ok: true,
+      touchedCards: {
+        [initiatorId]: indexMutations[initiatorId].length,
+        [recipientId]: indexMutations[recipientId].length,
+      },
+    };
+  }
+);
+
 // ============================================================
 // LOAD COLLECTION CHUNK
 // Server-side paginated read — 100k cards in ~20s vs 2+ min from browser
@@ -913,8 +1508,11 @@ exports.populateScryfallCacheManual = onRequest(
 // ============================================================
 
 const INDEX_CHUNK_SIZE = 2000;
-const INDEX_VERSION = 3; // Bump when index format changes — client auto-rebuilds stale indexes
+const INDEX_VERSION = 6; // Bump when index format changes — client auto-rebuilds stale indexes
 // v3 (2026-04-27): added `e` (edition / set_name) — fixes SCRUM-35 duplicate bug where stale `sc` uppercase clobbered set_name canon
+// v4 (2026-10-18): added `cb` (cost basis [qty, cost]) — acquisitions only live on the full card doc
+// v5 (2026-10-18): added `lc` (storage location) — filterable server-side
+// v6 (2026-10-18): added `po` (fixed sale/trade price) — the public listing price needs it
 
 /**
  * toIndexCard / mergeScryfallMetadata / isDualFaced moved to
@@ -986,6 +1584,12 @@ exports.buildCardIndex = onCall(
       'colors', 'rarity', 'type_line', 'foil', 'setCode', 'edition', 'power',
       'toughness', 'full_art', 'produced_mana', 'keywords', 'legalities',
       'createdAt', 'condition', 'public', 'image',
+      // v4 `cb` (cost basis) is computed from the purchase lots.
+      'acquisitions',
+      // v5 `lc` (storage location).
+      'location',
+      // v6 `po` (fixed sale/trade price).
+      'priceOverride',
       // TASK-232 HIGH (verification-round finding): without this, the Phase 1
       // projected read strips chunkId off every card, so allRawCards[i].data.chunkId
       // is always undefined and the "only rewrite what actually drifted" comparison
@@ -1721,6 +2325,12 @@ function filterIndexCards(cards, filters) {
     result = result.filter(c => conditionSet.has(c.cn.toUpperCase()));
   }
 
+  // Location (exact, OR across locations; '' = cards without a location)
+  if (filters.location && filters.location.length > 0) {
+    const locationSet = new Set(filters.location);
+    result = result.filter(c => locationSet.has(c.lc || ''));
+  }
+
   // Price range
   if (filters.minPrice !== undefined && filters.minPrice !== null) {
     result = result.filter(c => c.p >= filters.minPrice);
@@ -1800,7 +2410,7 @@ function paginateResults(cards, page, pageSize, mode) {
  *
  * Input:
  *   filters: { search?, status?[], edition?[], color?[], rarity?[],
- *              type?[], foil?, condition?[], minPrice?, maxPrice? }
+ *              type?[], foil?, condition?[], location?[], minPrice?, maxPrice? }
  *   sort: { field, direction }
  *   page: number             - 0-based
  *   pageSize: number         - default 50, max 100
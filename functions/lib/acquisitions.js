@@ -0,0 +1,109 @@
+/**
+ * acquisitions — cost basis of a user card document.
+ *
+ * A card doc carries `acquisitions`: purchase lots
+ * { quantity, unitPrice, date, source, counterparty }, oldest first. Copies
+ * leave FIFO (oldest lot first), whether through a trade, a sale or a plain
+ * quantity edit. `unitPrice: null` means the price paid is unknown — those
+ * copies are tracked but never counted as cost.
+ *
+ * Mirrored on the client by src/utils/costBasis.ts (same rules, tested
+ * against each other in tests/unit/functions/acquisitions.test.ts).
+ * Dependency-free CommonJS, same reason as cardIndexEntry.js.
+ */
+
+const SOURCES = new Set(['buy', 'pack', 'trade', 'gift', 'import', 'other']);
+
+const round2 = (n) => Math.round(n * 100) / 100;
+
+/** One lot, coerced; null when it holds no copies. */
+function cleanLot(lot) {
+  if (!lot || typeof lot !== 'object') return null;
+  const quantity = Math.floor(Number(lot.quantity) || 0);
+  if (quantity <= 0) return null;
+  const price = Number(lot.unitPrice);
+  return {
+    quantity,
+    unitPrice: lot.unitPrice !== null && lot.unitPrice !== undefined && Number.isFinite(price) && price >= 0 ? round2(price) : null,
+    date: typeof lot.date === 'string' ? lot.date : '',
+    source: SOURCES.has(lot.source) ? lot.source : 'other',
+    counterparty: typeof lot.counterparty === 'string' ? lot.counterparty : '',
+  };
+}
+
+/**
+ * Take `quantity` copies out of `lots`, oldest first.
+ *
+ * @returns {{consumed: Array<object>, remaining: Array<object>}} consumed
+ *   may hold fewer copies than asked when the lots don't cover them all
+ */
+function consumeLots(lots, quantity) {
+  const sorted = (Array.isArray(lots) ? lots : [])
+    .map(cleanLot)
+    .filter(Boolean)
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  const consumed = [];
+  const remaining = [];
+  let left = Math.max(0, Math.floor(Number(quantity) || 0));
+  for (const lot of sorted) {
+    if (left === 0) {
+      remaining.push(lot);
+      continue;
+    }
+    const take = Math.min(left, lot.quantity);
+    consumed.push({ ...lot, quantity: take });
+    if (take < lot.quantity) remaining.push({ ...lot, quantity: lot.quantity - take });
+    left -= take;
+  }
+  return { consumed, remaining };
+}
+
+/**
+ * Lots still backing a doc that holds `quantity` copies: when the lots add
+ * up to more than that, the surplus left at some point and goes FIFO.
+ */
+function effectiveLots(lots, quantity) {
+  const { remaining } = consumeLots(lots, 0);
+  const total = remaining.reduce((sum, l) => sum + l.quantity, 0);
+  const held = Math.max(0, Math.floor(Number(quantity) || 0));
+  return total > held ? consumeLots(remaining, total - held).remaining : remaining;
+}
+
+/** Copies with a known price and what they cost in total. */
+function lotsCost(lots) {
+  let quantity = 0;
+  let cost = 0;
+  for (const lot of lots) {
+    if (lot.unitPrice === null) continue;
+    quantity += lot.quantity;
+    cost += lot.unitPrice * lot.quantity;
+  }
+  return { quantity, cost: round2(cost) };
+}
+
+/**
+ * Compact cost basis for a card_index entry (`cb`): [copies with known
+ * cost, total cost], or undefined when nothing is known — most cards.
+ */
+function indexCostBasis(data) {
+  const { quantity, cost } = lotsCost(effectiveLots(data.acquisitions, data.quantity));
+  return quantity > 0 ? [quantity, cost] : undefined;
+}
+
+/**
+ * The lot a received copy gets: the trade's counterparty and, as price, the
+ * value the card carried when it changed hands (the giver's stored price —
+ * what the receiver "paid" in cards).
+ */
+function tradeLot(data, quantity, counterparty, date) {
+  const price = Number(data.price);
+  return {
+    quantity,
+    unitPrice: Number.isFinite(price) && price > 0 ? round2(price) : null,
+    date,
+    source: 'trade',
+    counterparty: counterparty || '',
+  };
+}
+
+module.exports = { cleanLot, consumeLots, effectiveLots, lotsCost, indexCostBasis, tradeLot };
@@ -23,6 +23,8 @@
  *     real sensor, not a source-text assertion.
  */
 
+const { indexCostBasis } = require('./acquisitions');
+
 /**
  * Compact index-entry shape. Short keys to minimize doc size (~170 bytes
  * per card). Moved verbatim from functions/index.js (TASK-245) — behavior
@@ -54,6 +56,8 @@ function toIndexCard(id, data) {
     }
   }
 
+  const cb = indexCostBasis(data);
+
   return {
     i: id,
     s: data.scryfallId || '',
@@ -77,6 +81,12 @@ function toIndexCard(id, data) {
     ca,
     cn: data.condition || 'NM',
     pb: data.public !== false,
+    // v4: cost basis summary, only present when some purchase price is known
+    ...(cb ? { cb } : {}),
+    // v5: storage location, only present when the card has one
+    ...(data.location ? { lc: data.location } : {}),
+    // v6: fixed sale/trade price, only present when the card has one
+    ...(typeof data.priceOverride === 'number' ? { po: data.priceOverride } : {}),
     df: (() => {
       try { return !!(JSON.parse(data.image || '').card_faces?.length > 1); }
       catch { return false; }
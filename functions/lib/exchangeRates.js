@@ -0,0 +1,57 @@
+/**
+ * exchangeRates — what refreshExchangeRates keeps in exchange_rates/latest.
+ *
+ * Every price in the app is USD (Card Kingdom, TCGplayer, market_data). The
+ * client converts for display with the rates stored here, so this module only
+ * has to turn the two upstream payloads into clean numbers. Dependency-free
+ * CommonJS for the same reason as priceAlerts.js: vitest can require() and
+ * execute it without firebase-admin.
+ *
+ *   - Official rates: open.er-api.com/v6/latest/USD ({ result, rates }).
+ *   - Informal ARS rate ("dólar blue"): dolarapi.com/v1/dolares/blue
+ *     ({ compra, venta }). `venta` is what a buyer pays per dollar, which is
+ *     the side a peso price should be quoted on.
+ *
+ * A currency the payload doesn't carry (or carries as junk) is left out
+ * rather than written as 0 — the writer merges, so the previous good rate
+ * stays until the upstream recovers.
+ */
+
+const FX_CURRENCIES = ['ARS', 'MXN', 'CLP', 'COP', 'EUR', 'BRL'];
+
+function positiveRate(value) {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/**
+ * Supported rates from an open.er-api.com response.
+ *
+ * @param {object} payload
+ * @returns {Record<string, number>} only the currencies with a usable rate
+ */
+function pickRates(payload) {
+  if (!payload || payload.result !== 'success' || !payload.rates || typeof payload.rates !== 'object') return {};
+  const rates = {};
+  for (const code of FX_CURRENCIES) {
+    const rate = positiveRate(payload.rates[code]);
+    if (rate !== null) rates[code] = rate;
+  }
+  return rates;
+}
+
+/**
+ * Informal ARS rate from a dolarapi.com response, or null.
+ *
+ * @param {object} payload
+ * @returns {number|null}
+ */
+function pickInformalRate(payload) {
+  if (!payload || typeof payload !== 'object') return null;
+  return positiveRate(payload.venta);
+}
+
+module.exports = {
+  FX_CURRENCIES,
+  pickRates,
+  pickInformalRate,
+};
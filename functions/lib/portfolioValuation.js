@@ -0,0 +1,123 @@
+/**
+ * portfolioValuation — the daily users/{uid}/priceHistory snapshot, computed
+ * server-side by snapshotPortfolios (functions/index.js).
+ *
+ * The totals mirror useCollectionTotals on the client so a server snapshot
+ * and the number in CollectionTotalsPanel agree:
+ *   - tcg     = card.price (Scryfall USD stored on the card) × quantity
+ *   - ck      = Card Kingdom retail (non-foil, as the client reads it) × quantity
+ *   - buylist = Card Kingdom buylist × quantity
+ * summed over owned cards only (collection/sale/trade — wishlist is not
+ * owned), while `cards`/`unique` count every card doc like the client did.
+ *
+ * Dependency-free CommonJS (same reason as cardIndexEntry.js): vitest runs it
+ * directly without firebase-admin.
+ */
+
+const { latestPrice } = require('./priceAlerts');
+
+const OWNED_STATUSES = new Set(['collection', 'sale', 'trade']);
+
+const round2 = (n) => Math.round(n * 100) / 100;
+const num = (v) => (typeof v === 'number' && Number.isFinite(v) ? v : 0);
+
+/** Card Kingdom retail/buylist out of an AllPricesToday entry, or null. */
+function ckPricesFrom(formats) {
+  const ck = formats && formats.paper && formats.paper.cardkingdom;
+  if (!ck) return null;
+  return {
+    ck: latestPrice(ck.retail && ck.retail.normal),
+    buylist: latestPrice(ck.buylist && ck.buylist.normal),
+  };
+}
+
+/**
+ * Value a collection.
+ *
+ * @param {Array<object>} cards card docs' data ({ scryfallId, quantity, status, price })
+ * @param {(card: object) => ({tcg?: number|null, ck: number|null, buylist: number|null}|null)} pricesFor
+ *   prices for one card; `tcg` overrides card.price when present (backfill
+ *   uses the per-card history for it). null = nothing known about the card.
+ * @returns {{tcg: number, ck: number, buylist: number, cards: number, unique: number, owned: number, priced: number}}
+ *   `owned`/`priced` are card docs owned / owned with a price, for coverage checks.
+ */
+function valueCollection(cards, pricesFor) {
+  const out = { tcg: 0, ck: 0, buylist: 0, cards: 0, unique: 0, owned: 0, priced: 0 };
+  for (const card of cards) {
+    const qty = num(card.quantity);
+    out.cards += qty;
+    out.unique++;
+    if (!OWNED_STATUSES.has(card.status)) continue;
+    out.owned++;
+    const prices = pricesFor(card);
+    if (prices) out.priced++;
+    const tcg = prices && prices.tcg !== undefined && prices.tcg !== null ? prices.tcg : card.price;
+    out.tcg += num(tcg) * qty;
+    out.ck += num(prices && prices.ck) * qty;
+    out.buylist += num(prices && prices.buylist) * qty;
+  }
+  out.tcg = round2(out.tcg);
+  out.ck = round2(out.ck);
+  out.buylist = round2(out.buylist);
+  return out;
+}
+
+/** YYYY-MM-DD in UTC — the snapshot doc id. */
+function dateKey(date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(key, days) {
+  const d = new Date(`${key}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return dateKey(d);
+}
+
+/**
+ * Days in the last `windowDays` (today excluded) that have no snapshot but
+ * come after the user's first one — a history is only filled in, never
+ * extended backwards past where it started.
+ *
+ * @param {Iterable<string>} existing snapshot doc ids (YYYY-MM-DD)
+ * @param {string} today
+ * @param {number} windowDays
+ * @returns {string[]} ascending
+ */
+function missingDates(existing, today, windowDays) {
+  const have = new Set(existing);
+  const earlier = [...have].filter((d) => d < today).sort();
+  if (earlier.length === 0) return [];
+  const first = earlier[0];
+  const out = [];
+  for (let i = windowDays; i >= 1; i--) {
+    const day = addDays(today, -i);
+    if (day > first && !have.has(day)) out.push(day);
+  }
+  return out;
+}
+
+/**
+ * Last known prices of a card on or before `date`, from its
+ * users/{uid}/cardPriceHistory doc ({ 'YYYY-MM-DD': [tcg, ck, buylist] }).
+ */
+function priceAsOf(history, date) {
+  if (!history) return null;
+  let best = null;
+  for (const [day, arr] of Object.entries(history)) {
+    if (day > date || !Array.isArray(arr) || arr.length < 3) continue;
+    if (best === null || day > best) best = day;
+  }
+  if (best === null) return null;
+  const [tcg, ck, buylist] = history[best];
+  return { tcg: num(tcg), ck: num(ck), buylist: num(buylist) };
+}
+
+module.exports = {
+  OWNED_STATUSES,
+  ckPricesFrom,
+  valueCollection,
+  dateKey,
+  addDays,
+  missingDates,
+  priceAsOf,
+};
@@ -0,0 +1,101 @@
+/**
+ * priceAlerts — evaluates users/{uid}/price_alerts against MTGJSON prices.
+ *
+ * evaluatePriceAlerts (functions/index.js) downloads AllPricesToday once per
+ * run and hands each alert plus its card's price entry here. Dependency-free
+ * CommonJS for the same reason as cardIndexEntry.js: vitest can require() and
+ * execute it without firebase-admin.
+ *
+ * An alert watches ONE printing (scryfallId + foil) on ONE source and holds
+ * up to two absolute USD thresholds:
+ *   - below: fire when the price drops to or under it (wishlist target,
+ *     "tell me when Ragavan drops below $40 CK"), and
+ *   - above: fire when it climbs to or over it (owned cards).
+ * Either may be null. Percent thresholds are converted to absolute ones by
+ * the client when the alert is saved, so this side only compares numbers.
+ */
+
+const PRICE_ALERT_SOURCES = ['cardkingdom', 'tcgplayer', 'cardmarket'];
+const DEFAULT_SOURCE = 'cardkingdom';
+
+// Same rules as coercePrice in src/services/mtgjson.ts: numbers and numeric
+// strings only, anything else is "no price" rather than a made-up 0/1.
+function coercePrice(value) {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if (trimmed === '') return null;
+    const parsed = Number(trimmed);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/** Latest value of a MTGJSON date -> price map (getLatestPrice on the client). */
+function latestPrice(pricePoint) {
+  if (!pricePoint || typeof pricePoint !== 'object') return null;
+  const dates = Object.keys(pricePoint).sort((a, b) => b.localeCompare(a));
+  if (dates.length === 0) return null;
+  return coercePrice(pricePoint[dates[0]]);
+}
+
+/**
+ * Retail price of a card for the alert's source and finish.
+ *
+ * @param {object|undefined} formats AllPricesToday entry for the card's uuid
+ * @param {string} source one of PRICE_ALERT_SOURCES
+ * @param {boolean} foil
+ * @returns {number|null}
+ */
+function priceFor(formats, source, foil) {
+  const src = PRICE_ALERT_SOURCES.includes(source) ? source : DEFAULT_SOURCE;
+  const list = formats && formats.paper && formats.paper[src];
+  if (!list || !list.retail) return null;
+  return latestPrice(foil ? list.retail.foil : list.retail.normal);
+}
+
+const isThreshold = (v) => typeof v === 'number' && Number.isFinite(v) && v > 0;
+
+/**
+ * Decide whether an alert fires at `price`.
+ *
+ * @param {{active?: boolean, below?: number|null, above?: number|null}} alert
+ * @param {number|null} price
+ * @returns {{direction: 'below'|'above', threshold: number, price: number}|null}
+ */
+function evaluateAlert(alert, price) {
+  if (!alert || alert.active === false || price === null || price === undefined) return null;
+  if (isThreshold(alert.below) && price <= alert.below) {
+    return { direction: 'below', threshold: alert.below, price };
+  }
+  if (isThreshold(alert.above) && price >= alert.above) {
+    return { direction: 'above', threshold: alert.above, price };
+  }
+  return null;
+}
+
+/**
+ * Set codes whose MTGJSON file is needed to map scryfallId -> uuid, i.e. the
+ * alerts that were saved before the client could resolve their uuid.
+ *
+ * @param {Array<object>} alerts alert docs' data
+ * @returns {Map<string, Set<string>>} UPPERCASE set code -> scryfallIds
+ */
+function setsToResolve(alerts) {
+  const bySet = new Map();
+  for (const alert of alerts) {
+    if (alert.mtgjsonUuid || !alert.setCode || !alert.scryfallId) continue;
+    const set = String(alert.setCode).toUpperCase();
+    if (!bySet.has(set)) bySet.set(set, new Set());
+    bySet.get(set).add(alert.scryfallId);
+  }
+  return bySet;
+}
+
+module.exports = {
+  PRICE_ALERT_SOURCES,
+  latestPrice,
+  priceFor,
+  evaluateAlert,
+  setsToResolve,
+};
@@ -308,6 +308,10 @@ function buildPublicEntry(publicCardDoc, scryfallCacheDoc) {
     // WITHOUT this flag. Independent of `x`: a cache doc can exist and
     // still carry no usable color source.
     ...(colors === null ? { cu: 1 } : {}),
+    // The price is the seller's own (pricing rules or a fixed per-card
+    // price, src/services/listingPrices.ts), not the market one — the cart
+    // keeps it instead of upgrading to Card Kingdom retail.
+    ...(data.sellerPriced === true ? { sp: 1 } : {}),
   };
 }
 
@@ -261,8 +261,12 @@ const PUBLIC_INDEX_CARD_FIELDS = [
  * is 3.1 ms at the 600 Kbps this project budgets against, against a ~13.9 KB
  * page. Omitting it when empty is free and strictly better, so that is what
  * this does.
+ *
+ * `sp` (seller-priced flag, `1` or absent) follows the same rule: the cart
+ * needs it to keep the seller's price instead of re-pricing at Card Kingdom
+ * retail, and most rows do not carry it.
  */
-const PUBLIC_INDEX_CARD_OPTIONAL_FIELDS = ['pm'];
+const PUBLIC_INDEX_CARD_OPTIONAL_FIELDS = ['pm', 'sp'];
 
 const COLOR_LETTERS = ['W', 'U', 'B', 'R', 'G'];
 /** The pseudo-letter for "genuinely colourless", distinct from "colour unknown". */
@@ -445,7 +449,7 @@ function toPublicIndexCard(entry) {
     // eslint-disable-next-line security/detect-object-injection
     const value = entry[field];
     // eslint-disable-next-line security/detect-object-injection
-    if (Array.isArray(value) && value.length > 0) row[field] = value;
+    if ((Array.isArray(value) && value.length > 0) || value === 1) row[field] = value;
   }
   return row;
 }
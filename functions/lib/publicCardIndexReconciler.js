@@ -55,7 +55,7 @@ const {
 // entries for the same card).
 const PUBLIC_CARD_FIELDS = [
   'scryfallId', 'cardId', 'cardName', 'cardNameLower', 'quantity', 'price',
-  'status', 'foil', 'condition', 'setCode', 'edition', 'updatedAt',
+  'status', 'foil', 'condition', 'setCode', 'edition', 'updatedAt', 'sellerPriced',
 ];
 
 const READ_CHUNK = 2000;
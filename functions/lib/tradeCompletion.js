@@ -0,0 +1,307 @@
+/**
+ * tradeCompletion — which card documents an accepted trade proposal
+ * decrements, deletes and creates on each side.
+ *
+ * completeTrade (functions/index.js) reads both collections inside one
+ * transaction and hands the snapshots here; everything this module returns
+ * is written back in that same transaction, so either both collections move
+ * or neither does. Kept as its own dependency-free CommonJS module for the
+ * same reason as cardIndexEntry.js: it can be require()'d and EXECUTED by
+ * vitest without firebase-admin (functions/ has no emulator harness).
+ *
+ * A trade line is a MatchCard as stored on the proposal revision:
+ * { scryfallId, name, condition, foil, quantity }. It names a printing, not
+ * a document — the giver may hold that printing split across several docs
+ * (different language, one copy for sale and two in the binder...), and any
+ * of them can cover the line.
+ */
+
+const { effectiveLots, tradeLot } = require('./acquisitions');
+
+const DEFAULT_CONDITION = 'NM';
+
+const normCondition = (c) => c || DEFAULT_CONDITION;
+const normLanguage = (l) => l || 'en';
+
+/** Same identity the client uses for a proposal line (tradeCardKey). */
+function lineKey(card) {
+  return `${card.scryfallId}|${normCondition(card.condition)}|${card.foil ? 'f' : 'n'}`;
+}
+
+/** Receiver-side identity: a line lands on a doc of the same language too. */
+function receiverKey(card) {
+  return `${lineKey(card)}|${normLanguage(card.language)}`;
+}
+
+// Copies that are listed go first: a trade proposal is built from the
+// giver's sale/trade cards, so those are the copies the other side saw.
+const STATUS_PRIORITY = { trade: 0, sale: 1, collection: 2 };
+const statusRank = (status) => STATUS_PRIORITY[status] ?? 3;
+
+/**
+ * Plan the giver's side.
+ *
+ * @param {Array<object>} lines trade lines this user gives away
+ * @param {Array<{id: string, data: object}>} docs the giver's card docs for
+ *   the scryfallIds involved (any status; wishlist is ignored here)
+ * @returns {{
+ *   updates: Array<{id: string, data: object, quantity: number, acquisitions?: Array<object>}>,
+ *   deletes: Array<{id: string, data: object}>,
+ *   transfers: Array<{data: object, quantity: number}>,
+ *   shortages: Array<{scryfallId: string, name: string, condition: string, foil: boolean, requested: number, available: number}>
+ * }}
+ */
+function planGiverSide(lines, docs) {
+  const remaining = new Map(); // docId -> quantity still held
+  const byKey = new Map(); // lineKey -> [{ id, data }]
+  for (const doc of docs) {
+    if (!doc.data || doc.data.status === 'wishlist') continue;
+    const qty = Number(doc.data.quantity) || 0;
+    if (qty <= 0) continue;
+    remaining.set(doc.id, qty);
+    const key = lineKey(doc.data);
+    if (!byKey.has(key)) byKey.set(key, []);
+    byKey.get(key).push(doc);
+  }
+  for (const list of byKey.values()) {
+    list.sort((a, b) => statusRank(a.data.status) - statusRank(b.data.status));
+  }
+
+  const transfers = [];
+  const shortages = [];
+  const touched = new Map(); // docId -> data
+
+  for (const line of lines) {
+    const requested = Number(line.quantity) || 0;
+    if (requested <= 0) continue;
+    const candidates = byKey.get(lineKey(line)) || [];
+    const available = candidates.reduce((sum, d) => sum + remaining.get(d.id), 0);
+    if (available < requested) {
+      shortages.push({
+        scryfallId: line.scryfallId,
+        name: line.name || '',
+        condition: normCondition(line.condition),
+        foil: !!line.foil,
+        requested,
+        available,
+      });
+      continue;
+    }
+    let left = requested;
+    for (const doc of candidates) {
+      if (left === 0) break;
+      const take = Math.min(left, remaining.get(doc.id));
+      if (take === 0) continue;
+      remaining.set(doc.id, remaining.get(doc.id) - take);
+      touched.set(doc.id, doc.data);
+      transfers.push({ data: doc.data, quantity: take });
+      left -= take;
+    }
+  }
+
+  const updates = [];
+  const deletes = [];
+  for (const [id, data] of touched) {
+    const quantity = remaining.get(id);
+    if (quantity === 0) deletes.push({ id, data });
+    // Copies leave oldest lot first; docs without lots stay without them.
+    else if (Array.isArray(data.acquisitions)) updates.push({ id, data, quantity, acquisitions: effectiveLots(data.acquisitions, quantity) });
+    else updates.push({ id, data, quantity });
+  }
+  return { updates, deletes, transfers, shortages };
+}
+
+/**
+ * Plan the receiver's side. A transfer merges into an existing
+ * `collection` doc of the same printing, condition, foil and language;
+ * otherwise it becomes a new private `collection` doc. Received copies never
+ * land in a sale/trade doc — that would publish them on the receiver's
+ * profile without the receiver asking for it.
+ *
+ * @param {Array<{data: object, quantity: number}>} transfers from planGiverSide
+ * @param {Array<{id: string, data: object}>} docs the receiver's card docs
+ * Every received copy gets an acquisition lot (source 'trade') — the
+ * giver's own lots never travel with the card.
+ *
+ * @param {Set<string>} fields user card fields to copy onto a new doc
+ * @param {{counterparty: string, date: string}} acquisition who the copies
+ *   came from and when (YYYY-MM-DD)
+ * @returns {{
+ *   merges: Array<{id: string, data: object, quantity: number, acquisitions: Array<object>}>,
+ *   creates: Array<object>
+ * }}
+ */
+function planReceiverSide(transfers, docs, fields, acquisition = { counterparty: '', date: '' }) {
+  const existing = new Map(); // receiverKey -> { id, data, quantity }
+  for (const doc of docs) {
+    if (!doc.data || doc.data.status !== 'collection') continue;
+    const key = receiverKey(doc.data);
+    if (!existing.has(key)) {
+      const quantity = Number(doc.data.quantity) || 0;
+      existing.set(key, { id: doc.id, data: doc.data, quantity, acquisitions: effectiveLots(doc.data.acquisitions, quantity) });
+    }
+  }
+
+  const merged = new Map(); // docId -> entry
+  const created = new Map(); // receiverKey -> new doc data
+  for (const { data, quantity } of transfers) {
+    const key = receiverKey(data);
+    const lot = tradeLot(data, quantity, acquisition.counterparty, acquisition.date);
+    const target = existing.get(key);
+    if (target) {
+      target.quantity += quantity;
+      target.acquisitions.push(lot);
+      merged.set(target.id, target);
+      continue;
+    }
+    const pending = created.get(key);
+    if (pending) {
+      pending.quantity += quantity;
+      pending.acquisitions.push(lot);
+      continue;
+    }
+    const copy = {};
+    for (const [k, v] of Object.entries(data)) {
+      if (fields.has(k) && v !== undefined) copy[k] = v;
+    }
+    delete copy.deckName;
+    created.set(key, {
+      ...copy,
+      acquisitions: [lot],
+      condition: normCondition(data.condition),
+      foil: !!data.foil,
+      language: normLanguage(data.language),
+      quantity,
+      status: 'collection',
+      public: false,
+    });
+  }
+
+  return {
+    merges: [...merged.values()].map(({ id, data, quantity, acquisitions }) => ({ id, data, quantity, acquisitions })),
+    creates: [...created.values()],
+  };
+}
+
+/**
+ * A user's card docs as they stand after their own side of the trade:
+ * deleted docs are gone and decremented ones carry the new quantity and
+ * lots. planReceiverSide must plan against this, not the snapshot — a
+ * `collection` doc the user gives copies from can also be the doc the
+ * copies they receive merge into.
+ *
+ * @param {Array<{id: string, data: object}>} docs the user's card docs
+ * @param {{updates: Array<object>, deletes: Array<object>}} given planGiverSide
+ * @returns {Array<{id: string, data: object}>}
+ */
+function docsAfterGiving(docs, given) {
+  const deleted = new Set(given.deletes.map((d) => d.id));
+  const updated = new Map(given.updates.map((u) => [u.id, u]));
+  return docs
+    .filter((doc) => !deleted.has(doc.id))
+    .map((doc) => {
+      const u = updated.get(doc.id);
+      if (!u) return doc;
+      return {
+        id: doc.id,
+        data: { ...doc.data, quantity: u.quantity, ...(u.acquisitions ? { acquisitions: u.acquisitions } : {}) },
+      };
+    });
+}
+
+/**
+ * One write per doc. A merge planned on docsAfterGiving already holds the
+ * final quantity and lots of a doc the user also gave from, so that giver
+ * update is dropped; the merge keeps the ORIGINAL data so the activity log
+ * records the doc's real before.
+ *
+ * @param {{updates: Array<object>, deletes: Array<object>}} given planGiverSide
+ * @param {{merges: Array<object>, creates: Array<object>}} received planReceiverSide
+ * @returns {{given: object, received: object}}
+ */
+function settleSameDocWrites(given, received) {
+  const updatesById = new Map(given.updates.map((u) => [u.id, u]));
+  const mergedIds = new Set(received.merges.map((m) => m.id));
+  return {
+    given: { ...given, updates: given.updates.filter((u) => !mergedIds.has(u.id)) },
+    received: {
+      ...received,
+      merges: received.merges.map((m) => (updatesById.has(m.id) ? { ...m, data: updatesById.get(m.id).data } : m)),
+    },
+  };
+}
+
+// Same format as the client's activity log (src/utils/activityLog.ts): the
+// entry is written here, but undone/restored from the app.
+const ACTIVITY_PART_SIZE = 200;
+const ACTIVITY_PREVIEW_NAMES = 5;
+const ACTIVITY_VOLATILE_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'costBasis', 'chunkId']);
+
+function activityCardData(data) {
+  const out = {};
+  for (const [k, v] of Object.entries(data || {})) {
+    if (v !== undefined && !ACTIVITY_VOLATILE_FIELDS.has(k)) out[k] = v;
+  }
+  return out;
+}
+
+function quantityChange(id, data, quantity, acquisitions) {
+  const before = { quantity: Number(data.quantity) || 0 };
+  const after = { quantity };
+  if (acquisitions) {
+    before.acquisitions = data.acquisitions ?? null;
+    after.acquisitions = acquisitions;
+  }
+  return { cardId: id, name: data.name || '', before, after };
+}
+
+/**
+ * One user's activity entry for a completed trade: the copies they gave
+ * (planGiverSide) and the ones they received (planReceiverSide, with the
+ * ids completeTrade assigned to the created docs).
+ *
+ * @param {{updates: Array<object>, deletes: Array<object>}} given
+ * @param {{merges: Array<object>, created: Array<{id: string, data: object}>}} received
+ * @returns {{header: object, parts: Array<{index: number, changes: string}>} | null}
+ *   null when the user's collection did not change
+ */
+function tradeActivityEntry(given, received) {
+  const changes = [
+    ...given.updates.map((u) => quantityChange(u.id, u.data, u.quantity, u.acquisitions)),
+    ...given.deletes.map((d) => ({ cardId: d.id, name: d.data.name || '', before: activityCardData(d.data), after: null })),
+    ...received.merges.map((m) => quantityChange(m.id, m.data, m.quantity, m.acquisitions)),
+    ...received.created.map((c) => ({ cardId: c.id, name: c.data.name || '', before: null, after: activityCardData(c.data) })),
+  ];
+  if (changes.length === 0) return null;
+
+  const fields = new Set();
+  for (const c of changes) {
+    if (c.before && c.after) Object.keys(c.after).forEach((k) => fields.add(k));
+  }
+  const parts = [];
+  for (let i = 0; i < changes.length; i += ACTIVITY_PART_SIZE) {
+    parts.push({ index: parts.length, changes: JSON.stringify(changes.slice(i, i + ACTIVITY_PART_SIZE)) });
+  }
+  return {
+    header: {
+      kind: 'trade',
+      bulk: false,
+      count: changes.length,
+      names: [...new Set(changes.map((c) => c.name))].slice(0, ACTIVITY_PREVIEW_NAMES),
+      fields: [...fields].sort(),
+      parts: parts.length,
+      restoredCardIds: [],
+      undoneAt: null,
+    },
+    parts,
+  };
+}
+
+module.exports = {
+  lineKey,
+  planGiverSide,
+  planReceiverSide,
+  docsAfterGiving,
+  settleSameDocWrites,
+  tradeActivityEntry,
+};
@@ -1,6 +1,7 @@
 import { computed, type ComputedRef, onScopeDispose, ref, type Ref, watch } from 'vue'
 import { useI18n } from './useI18n'
 import { getAllSets } from '../services/scryfall'
+import { collectLocations } from '../utils/storageLocation'
 
 // Minimal shape a card must satisfy to be filterable
 export interface FilterableCard {
@@ -22,6 +23,7 @@ export interface FilterableCard {
   legalities?: Record<string, string>
   full_art?: boolean
   produced_mana?: string[]
+  location?: string
 }
 
 /** Get a card's timestamp for sorting by date (handles createdAt or addedAt fields) */
@@ -219,6 +221,8 @@ export function useCardFilter<T extends FilterableCard>(
   const advToughnessMin = ref<number | undefined>(undefined)
   const advToughnessMax = ref<number | undefined>(undefined)
   const advSelectedCreatureTypes = ref<string[]>([])
+  // Ubicaciones físicas; '' = cartas sin ubicación
+  const advSelectedLocations = ref<string[]>([])
 
   // Reset chip filters when groupBy goes to 'none'
   watch(groupBy, (val) => {
@@ -267,6 +271,12 @@ export function useCardFilter<T extends FilterableCard>(
     else advSelectedCreatureTypes.value.push(type)
   }
 
+  const toggleAdvLocation = (location: string) => {
+    const idx = advSelectedLocations.value.indexOf(location)
+    if (idx > -1) advSelectedLocations.value.splice(idx, 1)
+    else advSelectedLocations.value.push(location)
+  }
+
   // --- Chip filter check ---
   // Signature uses FilterableCard (not T) so callers like DeckView/BinderView
   // can apply chip filtering to a different card type (DisplayDeckCard) than
@@ -330,6 +340,11 @@ export function useCardFilter<T extends FilterableCard>(
     return advSelectedCreatureTypes.value.some(ct => subtypes.includes(ct.toLowerCase()))
   }
 
+  const passesLocations = (card: FilterableCard): boolean => {
+    if (advSelectedLocations.value.length === 0) return true
+    return advSelectedLocations.value.includes(card.location ?? '')
+  }
+
   const passesFullArt = (card: FilterableCard): boolean => {
     return !advFullArtOnly.value || !!card.full_art
   }
@@ -352,6 +367,7 @@ export function useCardFilter<T extends FilterableCard>(
       && passesFormats(card)
       && passesCreatureTypes(card)
       && passesFullArt(card)
+      && passesLocations(card)
       && passesStatRange(card.power, advPowerMin.value, advPowerMax.value)
       && passesStatRange(card.toughness, advToughnessMin.value, advToughnessMax.value)
   }
@@ -371,6 +387,7 @@ export function useCardFilter<T extends FilterableCard>(
       || advSelectedKeywords.value.length > 0
       || advSelectedFormats.value.length > 0
       || advSelectedCreatureTypes.value.length > 0
+      || advSelectedLocations.value.length > 0
       || advFullArtOnly.value
       || advPowerMin.value !== undefined
       || advPowerMax.value !== undefined
@@ -386,6 +403,7 @@ export function useCardFilter<T extends FilterableCard>(
     if (advSelectedKeywords.value.length > 0) count++
     if (advSelectedFormats.value.length > 0) count++
     if (advSelectedCreatureTypes.value.length > 0) count++
+    if (advSelectedLocations.value.length > 0) count++
     if (advFullArtOnly.value) count++
     if (advPowerMin.value !== undefined || advPowerMax.value !== undefined) count++
     if (advToughnessMin.value !== undefined || advToughnessMax.value !== undefined) count++
@@ -419,6 +437,9 @@ export function useCardFilter<T extends FilterableCard>(
       .map(([type, count]) => ({ value: type, label: type.charAt(0).toUpperCase() + type.slice(1), count }))
   })
 
+  // Ubicaciones físicas en uso en las cartas del usuario
+  const collectionLocations = computed(() => collectLocations(cards.value))
+
   const resetAdvancedFilters = () => {
     advPriceMin.value = undefined
     advPriceMax.value = undefined
@@ -427,6 +448,7 @@ export function useCardFilter<T extends FilterableCard>(
     advSelectedKeywords.value = []
     advSelectedFormats.value = []
     advSelectedCreatureTypes.value = []
+    advSelectedLocations.value = []
     advFullArtOnly.value = false
     advPowerMin.value = undefined
     advPowerMax.value = undefined
@@ -590,6 +612,7 @@ export function useCardFilter<T extends FilterableCard>(
     advSelectedKeywords,
     advSelectedFormats,
     advSelectedCreatureTypes,
+    advSelectedLocations,
     advFullArtOnly,
     advPowerMin,
     advPowerMax,
@@ -601,6 +624,7 @@ export function useCardFilter<T extends FilterableCard>(
     toggleAdvKeyword,
     toggleAdvFormat,
     toggleAdvCreatureType,
+    toggleAdvLocation,
 
     // Computed
     hasActiveFilters,
@@ -608,6 +632,7 @@ export function useCardFilter<T extends FilterableCard>(
     advancedFilterCount,
     collectionSets,
     collectionCreatureTypes,
+    collectionLocations,
     filteredCards,
     groupedCards,
 
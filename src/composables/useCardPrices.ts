@@ -2,8 +2,9 @@
  * Composable for fetching and displaying card prices from multiple sources
  */
 import { computed, ref } from 'vue'
-import { type CardPrices, formatPrice, getCardPrices } from '../services/mtgjson'
+import { type CardPrices, getCardPrices } from '../services/mtgjson'
 import { getCardById } from '../services/scryfallCache'
+import { useCurrencyStore } from '../stores/currency'
 
 export interface PriceDisplay {
   source: string
@@ -24,6 +25,10 @@ export function useCardPrices(scryfallId: () => string | undefined, setCode: ()
   const loading = ref(false)
   const error = ref<string | null>(null)
   const prices = ref<CardPrices | null>(null)
+  const currencyStore = useCurrencyStore()
+
+  // Precios en la moneda del usuario (USD si no eligió otra)
+  const formatPrice = (price: unknown): string => currencyStore.format(price)
 
   // Fetch prices when scryfallId changes
   const fetchPrices = async () => {
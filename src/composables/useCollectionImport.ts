@@ -14,17 +14,16 @@ import type { CreateBinderInput } from '../types/binder'
 import type { ToastType } from '../stores/toast'
 import type { ConfirmOptions } from '../stores/confirm'
 import { getCardsByIds, type ScryfallCard, searchCards } from '../services/scryfallCache'
-import { cleanCardName, type ParsedCsvCard } from '../utils/cardHelpers'
+import type { ParsedCsvCard } from '../utils/cardHelpers'
 import {
-  buildCollectionCardFromScryfall,
   buildMoxfieldCardWithScryfall,
   buildRawCsvCard,
   type ExtractedScryfallData,
   type ImportCardData,
   type MoxfieldImportCard,
-  parseTextImportLine,
 } from '../utils/importHelpers'
 import { cancelPriceFetch } from '../composables/useCollectionTotals'
+import { DEFAULT_IMPORT_MERGE, type ImportMergeOptions, type ImportMergePlan } from '../utils/importMerge'
 
 // ============================================================
 // Module-scoped flags (survive remounts — per D-05)
@@ -57,7 +56,8 @@ export interface ImportState {
 export interface UseCollectionImportOptions {
   collectionStore: {
     importing: boolean
-    confirmImport: (cards: ImportCardData[], triggerRefresh?: boolean, onProgress?: (current: number, total: number) => void) => Promise<string[]>
+    confirmImport: (cards: ImportCardData[], triggerRefresh?: boolean, onProgress?: (current: number, total: number) => void, mergePlan?: ImportMergePlan) => Promise<string[]>
+    planImport: (cards: ImportCardData[], options: ImportMergeOptions) => ImportMergePlan
     refreshCards: () => void
     enrichCardsWithMissingMetadata: () => Promise<void>
   }
@@ -97,6 +97,7 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     decksStore,
     binderStore,
     toastStore,
+    confirmStore,
     t,
     deckFilter,
     binderFilter,
@@ -244,94 +245,35 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     }
   }
 
-  /** Helper: Search for a card on Scryfall */
-  const fetchCardFromScryfall = async (cardName: string, setCode?: string): Promise<ExtractedScryfallData | null> => {
-    try {
-      const cleanName = cleanCardName(cardName)
-      if (setCode) {
-        const results = await searchCards(`"${cleanName}" e:${setCode}`)
-        const card = results[0]
-        if (card) {
-          const extracted = extractScryfallCardData(card)
-          if (extracted.price > 0 && extracted.image) {
-            return extracted
-          }
-        }
-      }
-      const allResults = await searchCards(`!"${cleanName}"`)
-      if (allResults.length > 0) {
-        const printWithPrice = allResults.find(r =>
-          r.prices?.usd && Number.parseFloat(r.prices.usd) > 0 &&
-          (r.image_uris?.normal ?? r.card_faces?.[0]?.image_uris?.normal)
-        ) ?? allResults.find(r => r.prices?.usd && Number.parseFloat(r.prices.usd) > 0) ?? allResults[0]
-        if (!printWithPrice) return null
-        return extractScryfallCardData(printWithPrice)
-      }
-    } catch (_e) {
-      console.warn(`No se pudo obtener datos de Scryfall para: ${cardName}`)
+  /**
+   * Cruza el import con la colección y enseña el resumen antes de escribir
+   * nada. Devuelve el plan para confirmImport, o null si el usuario cancela.
+   */
+  const confirmMergePlan = async (cards: ImportCardData[], merge: ImportMergeOptions): Promise<ImportMergePlan | null> => {
+    const plan = collectionStore.planImport(cards, merge)
+    const { summary } = plan
+    const lines = [
+      t('common.import.merge.summary.new', { cards: summary.newCards, copies: summary.newCopies }),
+      t('common.import.merge.summary.updated', { cards: summary.updatedCards, added: summary.copiesAdded }),
+      t('common.import.merge.summary.unchanged', { cards: summary.unchangedCards }),
+    ]
+    if (merge.mode === 'replaceSnapshot') {
+      lines.push(t('common.import.merge.summary.removed', { cards: summary.removedCards, copies: summary.copiesRemoved }))
     }
-    return null
+    const confirmed = await confirmStore.show({
+      title: t('common.import.merge.title'),
+      message: `${t(`common.import.merge.modes.${merge.mode}`)}\n\n${lines.join('\n')}`,
+      confirmText: t('common.import.merge.confirm'),
+      cancelText: t('common.actions.cancel'),
+      confirmVariant: summary.copiesRemoved > 0 ? 'danger' : 'primary',
+    })
+    return confirmed ? plan : null
   }
 
   // ============================================================
   // Import entry points
   // ============================================================
 
-  /** Import deck from text list */
-  const handleImport = async (opts2: {
-    deckText: string, condition: CardCondition, includeSideboard: boolean,
-    deckName?: string, makePublic?: boolean, format?: DeckFormat, commander?: string, status?: CardStatus,
-  }) => {
-    const { deckText, condition, includeSideboard, deckName, makePublic, format, commander, status } = opts2
-    const finalDeckName = deckName ?? `Deck${Date.now()}`
-    if (showImportDeckModal) showImportDeckModal.value = false
-    toastStore.show(t('common.import.importing', { name: finalDeckName }), 'info')
-
-    const lines = deckText.split('\n').filter(l => l.trim())
-    const collectionCardsToAdd: ImportCardData[] = []
-    let inSideboard = false
-
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (!trimmed) continue
-      if (trimmed.toLowerCase().includes('sideboard')) { inSideboard = true; continue }
-
-      const parsed = parseTextImportLine(trimmed)
-      if (!parsed) continue
-      if (inSideboard && !includeSideboard) continue
-
-      const scryfallData = await fetchCardFromScryfall(parsed.cardName, parsed.setCode ?? undefined)
-      const cardData = buildCollectionCardFromScryfall({
-        cardName: parsed.cardName, quantity: parsed.quantity, condition, isFoil: parsed.isFoil, setCode: parsed.setCode,
-        scryfallData, status, makePublic: makePublic ?? false, isInSideboard: inSideboard,
-      })
-      collectionCardsToAdd.push(cardData)
-    }
-
-    const deckId = await decksStore.createDeck({
-      name: finalDeckName,
-      format: format ?? 'custom',
-      description: '',
-      colors: [],
-      commander: commander ?? '',
-    })
-
-    if (collectionCardsToAdd.length > 0) {
-      await collectionStore.confirmImport(collectionCardsToAdd)
-
-      if (deckId) {
-        // Upstream handles card-to-deck allocation via exact match; no items mapped here
-        await decksStore.bulkAllocateCardsToDeck(deckId, [])
-      }
-    }
-
-    toastStore.show(t('common.import.deckComplete', { name: finalDeckName, count: collectionCardsToAdd.length }), 'success')
-    if (deckId && deckFilter) {
-      deckFilter.value = deckId
-    }
-    if (viewMode) viewMode.value = 'decks'
-  }
-
   /** Import deck from Moxfield (optimized with batch API and progress tracking) */
   const handleImportDirect = async (
     cards: MoxfieldImportCard[],
@@ -340,7 +282,8 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     makePublic?: boolean,
     format?: DeckFormat,
     commander?: string,
-    status?: CardStatus
+    status?: CardStatus,
+    merge: ImportMergeOptions = DEFAULT_IMPORT_MERGE
   ) => {
     // Prevent duplicate executions
     if (isImportRunning) {
@@ -357,43 +300,6 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     try {
       collectionStore.importing = true
 
-      // PASO 1: Create deck first
-      progressToast.update(5, t('common.import.creatingDeck', { name: finalDeckName }))
-      const deckId = await decksStore.createDeck({
-        name: finalDeckName,
-        format: format ?? 'custom',
-        description: '',
-        colors: [],
-        commander: commander ?? '',
-      })
-
-      if (!deckId) {
-        progressToast.error(t('common.import.errorCreatingDeck'))
-        isImportRunning = false
-        return
-      }
-
-      // Initialize import state
-      const initialState: ImportState = {
-        deckId,
-        deckName: finalDeckName,
-        status: 'fetching',
-        totalCards: cards.length,
-        currentCard: 0,
-        cards: [],
-        cardMeta: [],
-        createdCardIds: [],
-        allocatedCount: 0,
-      }
-      saveImportState(initialState)
-
-      // Switch to decks mode to show progress
-      if (viewMode) viewMode.value = 'decks'
-      deckFilter.value = deckId
-
-      // Cancel price fetch to free write stream
-      cancelPriceFetch()
-
       // PASO 1.5: Batch-fetch Scryfall metadata upfront. The /cards/collection
       // endpoint accepts identifiers mixed as `{id}` and `{name}`. We send an `id`
       // for every Moxfield card that has a scryfall_id, and a `name` for the rest
@@ -456,7 +362,6 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
 
       // PASO 2: Build cards with Scryfall metadata when available, raw otherwise
       progressToast.update(15, t('common.import.processing'))
-      saveImportState({ ...initialState, status: 'processing' })
 
       const collectionCardsToAdd: ImportCardData[] = []
       const cardMeta: { quantity: number; isInSideboard: boolean }[] = []
@@ -478,6 +383,53 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
         }
       }
 
+      // Resumen del merge con la colección: nada se escribe (ni el mazo)
+      // hasta que el usuario lo acepta
+      const mergePlan = await confirmMergePlan(collectionCardsToAdd, merge)
+      if (!mergePlan) {
+        progressToast.error(t('common.import.merge.cancelled'))
+        collectionStore.importing = false
+        isImportRunning = false
+        return
+      }
+
+      // PASO 2.5: Create deck (only once the merge is confirmed)
+      progressToast.update(42, t('common.import.creatingDeck', { name: finalDeckName }))
+      const deckId = await decksStore.createDeck({
+        name: finalDeckName,
+        format: format ?? 'custom',
+        description: '',
+        colors: [],
+        commander: commander ?? '',
+      })
+
+      if (!deckId) {
+        progressToast.error(t('common.import.errorCreatingDeck'))
+        isImportRunning = false
+        return
+      }
+
+      // Initialize import state
+      const initialState: ImportState = {
+        deckId,
+        deckName: finalDeckName,
+        status: 'fetching',
+        totalCards: cards.length,
+        currentCard: 0,
+        cards: [],
+        cardMeta: [],
+        createdCardIds: [],
+        allocatedCount: 0,
+      }
+      saveImportState(initialState)
+
+      // Switch to decks mode to show progress
+      if (viewMode) viewMode.value = 'decks'
+      deckFilter.value = deckId
+
+      // Cancel price fetch to free write stream
+      cancelPriceFetch()
+
       // PASO 3: Import cards to collection
       progressToast.update(45, t('common.import.saving', { count: collectionCardsToAdd.length }))
       saveImportState({
@@ -497,7 +449,7 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
         const createdCardIds = await collectionStore.confirmImport(collectionCardsToAdd, true, (current, total) => {
           const pct = 45 + Math.round((current / total) * 25)
           progressToast.update(pct, t('common.import.savingProgress', { current, total }))
-        })
+        }, mergePlan)
         collectionCardsToAdd.length = 0
 
         // PASO 4: Allocate cards to deck
@@ -562,7 +514,8 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     makePublic?: boolean,
     format?: DeckFormat,
     commander?: string,
-    status?: CardStatus
+    status?: CardStatus,
+    merge: ImportMergeOptions = DEFAULT_IMPORT_MERGE
   ) => {
     const finalDeckName = deckName ?? `CSV Import ${Date.now()}`
     if (showImportDeckModal) showImportDeckModal.value = false
@@ -571,7 +524,33 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     const progressToast = toastStore.showProgress(t('common.import.importing', { name: finalDeckName }), 0)
 
     try {
-      progressToast.update(5, t('common.import.creatingDeck', { name: finalDeckName }))
+      progressToast.update(15, t('common.import.processing'))
+      const collectionCardsToAdd: ImportCardData[] = []
+      const cardMeta: { quantity: number; isInSideboard: boolean }[] = []
+
+      for (let i = 0; i < cards.length; i++) {
+        // eslint-disable-next-line security/detect-object-injection
+        const card = cards[i]
+        if (!card) continue
+        collectionCardsToAdd.push(buildRawCsvCard(card, status, makePublic ?? false))
+        cardMeta.push({ quantity: card.quantity, isInSideboard: false })
+
+        if (i % 100 === 0) {
+          const pct = 15 + Math.round((i / cards.length) * 25)
+          progressToast.update(pct, t('common.import.processingProgress', { current: i + 1, total: cards.length }))
+        }
+      }
+
+      // Resumen del merge con la colección: nada se escribe (ni el mazo)
+      // hasta que el usuario lo acepta
+      const mergePlan = await confirmMergePlan(collectionCardsToAdd, merge)
+      if (!mergePlan) {
+        progressToast.error(t('common.import.merge.cancelled'))
+        collectionStore.importing = false
+        return
+      }
+
+      progressToast.update(42, t('common.import.creatingDeck', { name: finalDeckName }))
       const deckId = await decksStore.createDeck({
         name: finalDeckName,
         format: format ?? 'custom',
@@ -591,23 +570,6 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
 
       cancelPriceFetch()
 
-      progressToast.update(15, t('common.import.processing'))
-      const collectionCardsToAdd: ImportCardData[] = []
-      const cardMeta: { quantity: number; isInSideboard: boolean }[] = []
-
-      for (let i = 0; i < cards.length; i++) {
-        // eslint-disable-next-line security/detect-object-injection
-        const card = cards[i]
-        if (!card) continue
-        collectionCardsToAdd.push(buildRawCsvCard(card, status, makePublic ?? false))
-        cardMeta.push({ quantity: card.quantity, isInSideboard: false })
-
-        if (i % 100 === 0) {
-          const pct = 15 + Math.round((i / cards.length) * 25)
-          progressToast.update(pct, t('common.import.processingProgress', { current: i + 1, total: cards.length }))
-        }
-      }
-
       progressToast.update(45, t('common.import.saving', { count: collectionCardsToAdd.length }))
       let allocatedCount = 0
 
@@ -615,7 +577,7 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
         const createdCardIds = await collectionStore.confirmImport(collectionCardsToAdd, true, (current, total) => {
           const pct = 45 + Math.round((current / total) * 25)
           progressToast.update(pct, t('common.import.savingProgress', { current, total }))
-        })
+        }, mergePlan)
         collectionCardsToAdd.length = 0
 
         progressToast.update(75, t('common.import.allocatingToDeck'))
@@ -651,55 +613,6 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     }
   }
 
-  /** Import binder from text list */
-  const handleImportBinder = async (opts2: {
-    deckText: string, condition: CardCondition, includeSideboard: boolean,
-    deckName?: string, makePublic?: boolean, format?: DeckFormat, commander?: string, status?: CardStatus,
-  }) => {
-    const { deckText, condition, includeSideboard, deckName, makePublic, status } = opts2
-    const finalName = deckName ?? `Binder${Date.now()}`
-    if (showImportBinderModal) showImportBinderModal.value = false
-    toastStore.show(t('common.import.importing', { name: finalName }), 'info')
-
-    const lines = deckText.split('\n').filter(l => l.trim())
-    const collectionCardsToAdd: ImportCardData[] = []
-    let inSideboard = false
-
-    for (const line of lines) {
-      const trimmed = line.trim()
-      if (!trimmed) continue
-      if (trimmed.toLowerCase().includes('sideboard')) { inSideboard = true; continue }
-
-      const parsed = parseTextImportLine(trimmed)
-      if (!parsed) continue
-      if (inSideboard && !includeSideboard) continue
-
-      const scryfallData = await fetchCardFromScryfall(parsed.cardName, parsed.setCode ?? undefined)
-      const cardData = buildCollectionCardFromScryfall({
-        cardName: parsed.cardName, quantity: parsed.quantity, condition, isFoil: parsed.isFoil, setCode: parsed.setCode,
-        scryfallData, status, makePublic: makePublic ?? false, isInSideboard: false,
-      })
-      collectionCardsToAdd.push(cardData)
-    }
-
-    const binderId = await binderStore.createBinder({ name: finalName, description: '' })
-
-    if (collectionCardsToAdd.length > 0) {
-      await collectionStore.confirmImport(collectionCardsToAdd)
-
-      if (binderId) {
-        const bulkItems: { cardId: string; quantity: number }[] = []
-        await binderStore.bulkAllocateCardsToBinder(binderId, bulkItems)
-      }
-    }
-
-    toastStore.show(t('common.import.binderComplete', { name: finalName, count: collectionCardsToAdd.length }), 'success')
-    if (binderId) {
-      if (viewMode) viewMode.value = 'binders'
-      binderFilter.value = binderId
-    }
-  }
-
   /** Import binder from Moxfield (batch API) */
   const handleImportBinderDirect = async (
     cards: MoxfieldImportCard[],
@@ -708,7 +621,8 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     makePublic?: boolean,
     _format?: DeckFormat,
     _commander?: string,
-    status?: CardStatus
+    status?: CardStatus,
+    merge: ImportMergeOptions = DEFAULT_IMPORT_MERGE
   ) => {
     const finalName = deckName ?? `Binder${Date.now()}`
     if (showImportBinderModal) showImportBinderModal.value = false
@@ -789,6 +703,13 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
         }
       }
 
+      const mergePlan = await confirmMergePlan(collectionCardsToAdd, merge)
+      if (!mergePlan) {
+        progressToast.error(t('common.import.merge.cancelled'))
+        collectionStore.importing = false
+        return
+      }
+
       progressToast.update(45, t('common.import.saving', { count: collectionCardsToAdd.length }))
       let allocatedCount = 0
 
@@ -796,7 +717,7 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
         const createdCardIds = await collectionStore.confirmImport(collectionCardsToAdd, true, (current, total) => {
           const pct = 45 + Math.round((current / total) * 25)
           progressToast.update(pct, t('common.import.savingProgress', { current, total }))
-        })
+        }, mergePlan)
         progressToast.update(75, t('common.import.allocatingToBinder'))
 
         const bulkItems = createdCardIds
@@ -824,6 +745,7 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
           const binderId = await binderStore.createBinder({ name: finalName, description: '' })
           if (binderId) {
             allocatedCount = await binderStore.bulkAllocateCardsToBinder(binderId, bulkItems)
+            binderFilter.value = binderId
           }
         }
         collectionCardsToAdd.length = 0
@@ -852,7 +774,8 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     makePublic?: boolean,
     _format?: DeckFormat,
     _commander?: string,
-    status?: CardStatus
+    status?: CardStatus,
+    merge: ImportMergeOptions = DEFAULT_IMPORT_MERGE
   ) => {
     const finalName = deckName ?? `Binder CSV ${Date.now()}`
     if (showImportBinderModal) showImportBinderModal.value = false
@@ -880,6 +803,13 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
         }
       }
 
+      const mergePlan = await confirmMergePlan(collectionCardsToAdd, merge)
+      if (!mergePlan) {
+        progressToast.error(t('common.import.merge.cancelled'))
+        collectionStore.importing = false
+        return
+      }
+
       progressToast.update(45, t('common.import.saving', { count: collectionCardsToAdd.length }))
       let allocatedCount = 0
 
@@ -887,7 +817,7 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
         const createdCardIds = await collectionStore.confirmImport(collectionCardsToAdd, true, (current, total) => {
           const pct = 45 + Math.round((current / total) * 25)
           progressToast.update(pct, t('common.import.savingProgress', { current, total }))
-        })
+        }, mergePlan)
         progressToast.update(75, t('common.import.allocatingToBinder'))
 
         const bulkItems = createdCardIds
@@ -914,6 +844,7 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
           const binderId = await binderStore.createBinder({ name: finalName, description: '' })
           if (binderId) {
             allocatedCount = await binderStore.bulkAllocateCardsToBinder(binderId, bulkItems)
+            binderFilter.value = binderId
           }
         }
         collectionCardsToAdd.length = 0
@@ -1066,10 +997,8 @@ export function useCollectionImport(opts: UseCollectionImportOptions) {
     importProgress,
     isDeckImporting,
     getImportProgress,
-    handleImport,
     handleImportDirect,
     handleImportCsv,
-    handleImportBinder,
     handleImportBinderDirect,
     handleImportBinderCsv,
     resumeImport,
@@ -20,6 +20,7 @@ export interface PaginationFilterState {
   selectedRarities: Ref<Set<string>>
   advFoilFilter: Ref<string>
   advSelectedSets: Ref<string[]>
+  advSelectedLocations: Ref<string[]>
   advPriceMin: Ref<number | undefined>
   advPriceMax: Ref<number | undefined>
 }
@@ -48,6 +49,7 @@ export function useCollectionPagination(opts: UseCollectionPaginationOptions) {
       filterQuery: filterState.filterQuery.value,
       advFoilFilter: filterState.advFoilFilter.value as PaginationFilterParams['advFoilFilter'],
       advSelectedSets: filterState.advSelectedSets.value,
+      advSelectedLocations: filterState.advSelectedLocations.value,
       advPriceMin: filterState.advPriceMin.value,
       advPriceMax: filterState.advPriceMax.value,
     }
@@ -76,6 +78,7 @@ export function useCollectionPagination(opts: UseCollectionPaginationOptions) {
       filterState.selectedRarities,
       filterState.advFoilFilter,
       filterState.advSelectedSets,
+      filterState.advSelectedLocations,
       filterState.advPriceMin,
       filterState.advPriceMax,
     ],
@@ -7,6 +7,7 @@ import { type CardPrices, formatPrice, getCardPrices, preloadSetMappings } from
 import { getCardById, searchCards } from '../services/scryfallCache'
 import { useCollectionStore } from '../stores/collection'
 import { cleanCardName } from '../utils/cardHelpers'
+import { collectionGain, type GainLoss } from '../utils/costBasis'
 import type { Card } from '../types/card'
 
 // Cache for prices by scryfallId
@@ -366,12 +367,25 @@ export function useCollectionTotals(cards: () => Card[]) {
     return result
   })
 
+  // Ganancia/pérdida no realizada por fuente de precio, sobre las copias con
+  // costo de compra conocido. CK/buylist se saltean las cartas aún sin precio.
+  const unrealized = computed((): Record<'tcg' | 'ck' | 'buylist', GainLoss | null> => {
+    const cardList = cards()
+    const ck = (card: Card) => cardPrices.value.get(card.id)?.cardKingdom
+    return {
+      tcg: collectionGain(cardList, card => card.price || 0),
+      ck: collectionGain(cardList, card => ck(card)?.retail ?? null),
+      buylist: collectionGain(cardList, card => ck(card)?.buylist ?? null),
+    }
+  })
+
   return {
     loading,
     progress,
     totalCards,
     processedCards,
     totals,
+    unrealized,
     cardPrices,
     fetchAllPrices,
     formatPrice,
@@ -14,6 +14,7 @@ import type {
   DisplayDeckCard,
   HydratedDeckCard,
 } from '../types/deck'
+import { isCommanderFormat as isCommanderDeckFormat } from '../utils/deckFormats'
 
 interface UseDeckDisplayCardsOptions {
   selectedDeck: ComputedRef<Deck | null>
@@ -29,7 +30,7 @@ export function useDeckDisplayCards({
   // ============================================================
   // Commander detection
   // ============================================================
-  const isCommanderFormat = computed(() => selectedDeck.value?.format === 'commander')
+  const isCommanderFormat = computed(() => isCommanderDeckFormat(selectedDeck.value?.format))
 
   const commanderNames = computed((): string[] => {
     if (!selectedDeck.value || !isCommanderFormat.value || !selectedDeck.value.commander) return []
@@ -0,0 +1,54 @@
+/**
+ * useDeckLegality — checks the deck against its format (utils/deckLegality).
+ *
+ * Cards are validated straight away with their indexed data, then again once
+ * the full Scryfall legalities / colour identity arrive
+ * (services/deckLegalityHydration). Same watch-by-signature pattern as
+ * useDeckManaCosts.
+ */
+
+import { computed, type ComputedRef, ref, watch } from 'vue'
+import { type CardLegalityData, hydrateLegalityData } from '@/services/deckLegalityHydration'
+import type { DeckFormat, DisplayDeckCard } from '@/types/deck'
+import { type DeckLegalityReport, type LegalityCardInput, validateDeck } from '@/utils/deckLegality'
+
+export function useDeckLegality(
+    cards: ComputedRef<DisplayDeckCard[]>,
+    format: ComputedRef<DeckFormat | undefined>,
+    commanderNames: ComputedRef<string[]>,
+) {
+    const dataById = ref<Map<string, CardLegalityData>>(new Map())
+
+    watch(
+        () => (format.value && format.value !== 'custom'
+            ? Array.from(new Set(cards.value.map(c => c.scryfallId).filter(Boolean))).sort().join('|')
+            : ''),
+        async (signature) => {
+            if (!signature) return
+            const fresh = await hydrateLegalityData(signature.split('|'))
+            const next = new Map(dataById.value)
+            for (const [k, v] of fresh) next.set(k, v)
+            dataById.value = next
+        },
+        { immediate: true }
+    )
+
+    const report = computed<DeckLegalityReport | null>(() => {
+        if (!format.value) return null
+        const inputs = cards.value.map((card): LegalityCardInput => {
+            const data = dataById.value.get(card.scryfallId)
+            return {
+                name: card.name,
+                quantity: card.allocatedQuantity,
+                isInSideboard: card.isInSideboard,
+                type_line: data?.type_line ?? card.type_line,
+                oracle_text: data?.oracle_text ?? card.oracle_text,
+                legalities: data?.legalities ?? card.legalities,
+                colorIdentity: data?.colorIdentity,
+            }
+        })
+        return validateDeck(format.value, inputs, commanderNames.value)
+    })
+
+    return { report }
+}
@@ -0,0 +1,139 @@
+/**
+ * useImportReview — paso de revisión del ImportDeckModal.
+ *
+ * Cruza las filas a importar con Scryfall (utils/importReconciliation) y
+ * guarda la elección del usuario para cada fila ambigua o sin match. Nada se
+ * escribe aquí: el modal emite el import ya resuelto cuando `canCommit`.
+ */
+
+import { computed, ref } from 'vue'
+import { getAllSets, getCardsByIds, getCardSuggestions, type ScryfallCard, searchCards } from '../services/scryfallCache'
+import {
+  buildSetCodeLookup,
+  canCommitReview,
+  type ImportCandidate,
+  type ImportReviewRow,
+  type ImportRowSource,
+  namesToRetry,
+  rankCandidates,
+  reconcileRows,
+  resolveSetNames,
+  reviewSummary,
+  rowIdentifier,
+} from '../utils/importReconciliation'
+import { logSanitizedError } from '../utils/logSanitizedError'
+
+/** Cuántos nombres del autocompletado se expanden a impresiones para una fila sin match. */
+const SUGGESTION_NAMES = 3
+
+export function useImportReview() {
+  const rows = ref<ImportReviewRow[]>([])
+  const reviewing = ref(false)
+  /** Fila cuyas candidatas se están buscando (una a la vez: Scryfall limita el ritmo). */
+  const loadingKey = ref<number | null>(null)
+
+  const summary = computed(() => reviewSummary(rows.value))
+  const canCommit = computed(() => canCommitReview(rows.value))
+
+  // Token de generación (mismo patrón que useSearchSuggestions): si el usuario
+  // cierra o vuelve a analizar mientras Scryfall responde, el resultado viejo
+  // no pisa la revisión nueva.
+  let reviewGen = 0
+
+  const findRow = (key: number) => rows.value.find(row => row.key === key)
+
+  /**
+   * Cruza `sources` con Scryfall: primero la impresión pedida, luego solo el
+   * nombre de lo que falló. Las filas con nombre de set pero sin código
+   * (Deckbox, Delver Lens) lo resuelven antes contra la lista de sets.
+   */
+  const startReview = async (rowSources: ImportRowSource[]): Promise<void> => {
+    const gen = ++reviewGen
+    reviewing.value = true
+    rows.value = []
+    let sources = rowSources
+    try {
+      if (sources.some(source => source.setName && !source.setCode)) {
+        sources = resolveSetNames(sources, buildSetCodeLookup(await getAllSets()))
+      }
+      const seen = new Set<string>()
+      const identifiers = sources.map(rowIdentifier).filter(ident => {
+        const key = JSON.stringify(ident).toLowerCase()
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+      const found: ScryfallCard[] = await getCardsByIds(identifiers)
+      const retry = namesToRetry(sources, found)
+      if (retry.length > 0) found.push(...await getCardsByIds(retry.map(name => ({ name }))))
+      if (gen !== reviewGen) return
+      rows.value = reconcileRows(sources, found)
+    } catch (err) {
+      logSanitizedError('[ImportReview] Scryfall lookup failed', err, 'warn')
+      if (gen === reviewGen) rows.value = reconcileRows(sources, [])
+    } finally {
+      if (gen === reviewGen) reviewing.value = false
+    }
+  }
+
+  /**
+   * Busca impresiones para una fila. Sin `query`: las de la misma carta si es
+   * ambigua, o las de los nombres que sugiere el autocompletado si no hubo
+   * match. Con `query`: búsqueda manual por nombre.
+   */
+  const loadCandidates = async (key: number, query?: string): Promise<void> => {
+    const row = findRow(key)
+    if (!row) return
+    const gen = reviewGen
+    loadingKey.value = key
+    try {
+      const name = query?.trim() || (row.status === 'ambiguous' ? row.candidates[0]?.name : undefined)
+      let cards = name ? await searchCards(`!"${name}"`) : []
+      if (cards.length === 0) {
+        const suggestions = await getCardSuggestions(query?.trim() || row.source.name)
+        for (const suggestion of suggestions.slice(0, SUGGESTION_NAMES)) {
+          cards = cards.concat(await searchCards(`!"${suggestion}"`))
+        }
+      }
+      if (gen !== reviewGen) return
+      const target = findRow(key)
+      if (target) target.candidates = rankCandidates(row.source, cards)
+    } catch (err) {
+      logSanitizedError('[ImportReview] candidate search failed', err, 'warn')
+    } finally {
+      if (loadingKey.value === key) loadingKey.value = null
+    }
+  }
+
+  const chooseCandidate = (key: number, candidate: ImportCandidate) => {
+    const row = findRow(key)
+    if (!row) return
+    row.choice = candidate
+    row.skipped = false
+  }
+
+  const setSkipped = (key: number, skipped: boolean) => {
+    const row = findRow(key)
+    if (row) row.skipped = skipped
+  }
+
+  const resetReview = () => {
+    reviewGen++
+    rows.value = []
+    reviewing.value = false
+    loadingKey.value = null
+  }
+
+  return {
+    rows,
+    reviewing,
+    loadingKey,
+    summary,
+    canCommit,
+    startReview,
+    loadCandidates,
+    chooseCandidate,
+    setSkipped,
+    resetReview,
+  }
+}
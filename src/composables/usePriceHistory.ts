@@ -1,4 +1,4 @@
-import { collection, doc, getDoc, getDocs, limit, orderBy, query, setDoc, writeBatch } from 'firebase/firestore'
+import { collection, doc, getDoc, getDocs, limit, orderBy, query, writeBatch } from 'firebase/firestore'
 import { auth } from '../services/firebase'
 import { db } from '../services/firestore'
 import { useToastStore } from '../stores/toast'
@@ -6,12 +6,13 @@ import type { Card } from '../types/card'
 import type { CardPrices } from '../services/mtgjson'
 
 export interface PriceSnapshot {
-  date: string   // YYYY-MM-DD
+  date: string   // YYYY-MM-DD (UTC, written by snapshotPortfolios)
   tcg: number
   ck: number
   buylist: number
   cards: number
   unique: number
+  backfilled?: boolean  // rebuilt later from per-card history (current holdings × last known prices)
 }
 
 export interface CardHistoryPoint {
@@ -21,7 +22,6 @@ export interface CardHistoryPoint {
   buylist: number
 }
 
-const STORAGE_KEY = 'cranial_snapshot_date'
 const CARD_STORAGE_KEY = 'cranial_card_snapshot_date'
 
 function getTodayStr(): string {
@@ -35,59 +35,36 @@ function getTodayStr(): string {
 export function usePriceHistory() {
   const toastStore = useToastStore()
 
-  /**
-   * Save a daily snapshot — gated by localStorage so at most 1 write/day.
-   * Fire-and-forget: caller should NOT await this.
-   */
-  const saveSnapshot = (totals: { tcg: number; ck: number; buylist: number }, cardCount: number, uniqueCount: number) => {
-    const uid = auth.currentUser?.uid
-    if (!uid) return
-
-    const today = getTodayStr()
-
-    // localStorage gate — skip if already saved today
-    try {
-      if (localStorage.getItem(STORAGE_KEY) === today) return
-    } catch {
-      // localStorage unavailable — proceed to write
-    }
-
-    // Don't save empty snapshots
-    if (totals.tcg === 0 && totals.ck === 0 && totals.buylist === 0) return
-
-    const data: Omit<PriceSnapshot, 'date'> = {
-      tcg: Math.round(totals.tcg * 100) / 100,
-      ck: Math.round(totals.ck * 100) / 100,
-      buylist: Math.round(totals.buylist * 100) / 100,
-      cards: cardCount,
-      unique: uniqueCount,
-    }
-
-    setDoc(doc(db, 'users', uid, 'priceHistory', today), data)
-      .then(() => {
-        try { localStorage.setItem(STORAGE_KEY, today) } catch { /* noop */ }
-      })
-      .catch((e: unknown) => {
-        console.warn('Failed to save price snapshot:', e)
-        toastStore.show('Error guardando historial de precios', 'error')
-      })
-  }
+  // Collection-level daily snapshots (priceHistory) are written server-side by
+  // the snapshotPortfolios scheduled function — the old client write here was
+  // gated per device through localStorage and only ran on days the app was
+  // opened, which left holes in the chart.
 
   /**
-   * Load up to 90 daily snapshots, ordered chronologically by doc ID.
+   * Load the most recent `maxDays` daily snapshots (default 90), returned in
+   * chronological order. Reads newest-first so a long history returns its last
+   * days, not its first ones.
    */
-  const loadHistory = async (): Promise<PriceSnapshot[]> => {
+  const loadHistory = async (maxDays = 90): Promise<PriceSnapshot[]> => {
     const uid = auth.currentUser?.uid
     if (!uid) return []
 
     const colRef = collection(db, 'users', uid, 'priceHistory')
-    const q = query(colRef, orderBy('__name__'), limit(90))
+    const q = query(colRef, orderBy('__name__', 'desc'), limit(maxDays))
     const snap = await getDocs(q)
 
-    return snap.docs.map(d => ({
-      date: d.id,
-      ...(d.data() as Omit<PriceSnapshot, 'date'>),
-    }))
+    return snap.docs.map(d => {
+      const data = d.data() as Omit<PriceSnapshot, 'date'>
+      return {
+        date: d.id,
+        tcg: data.tcg,
+        ck: data.ck,
+        buylist: data.buylist,
+        cards: data.cards,
+        unique: data.unique,
+        backfilled: data.backfilled === true,
+      }
+    }).reverse()
   }
 
   /**
@@ -190,5 +167,5 @@ export function usePriceHistory() {
     return points
   }
 
-  return { saveSnapshot, loadHistory, saveCardPrices, loadCardHistory }
+  return { loadHistory, saveCardPrices, loadCardHistory }
 }
@@ -15,6 +15,8 @@
  *   pw = power         to = toughness     fa = full_art
  *   pm = produced_mana kw = keywords      lg = legalities (legal format names)
  *   ca = createdAt(ms) cn = condition     pb = public
+ *   cb = cost basis [qty with known cost, total cost] (optional, v4+)
+ *   lc = storage location (optional, v5+)
  *   df = dual-faced
  */
 
@@ -41,6 +43,8 @@ export interface IndexCard {
   ca: number
   cn: string
   pb: boolean
+  cb?: [number, number]
+  lc?: string
   df: boolean
 }
 
@@ -59,6 +63,7 @@ export interface QueryFilters {
   type?: string[]
   foil?: boolean
   condition?: string[]
+  location?: string[]
   minPrice?: number
   maxPrice?: number
 }
@@ -107,7 +112,7 @@ export function expandIndexCards(chunks: IndexChunk[]): IndexCard[] {
 /**
  * Apply filters to an array of index cards. All filters use AND logic
  * (a card must pass every active filter). Within array-valued filters
- * (status, edition, color, rarity, type, condition), OR logic is used
+ * (status, edition, color, rarity, type, condition, location), OR logic is used
  * (card must match at least one value in the array).
  */
 export function filterIndexCards(cards: IndexCard[], filters: QueryFilters): IndexCard[] {
@@ -174,6 +179,12 @@ export function filterIndexCards(cards: IndexCard[], filters: QueryFilters): Ind
     result = result.filter(c => conditionSet.has(c.cn.toUpperCase()))
   }
 
+  // Location filter: exact match, '' selects cards without a location
+  if (filters.location && filters.location.length > 0) {
+    const locationSet = new Set(filters.location)
+    result = result.filter(c => locationSet.has(c.lc ?? ''))
+  }
+
   // Price range filter
   if (filters.minPrice !== undefined && filters.minPrice !== null) {
     result = result.filter(c => c.p >= filters.minPrice!)
@@ -147,6 +147,22 @@ const router = createRouter({
             component: () => import('../views/UserProfileView.vue'),
             meta: { title: 'seo.pages.userProfile.title', description: 'seo.pages.userProfile.description' },
         },
+        {
+            // Escaparate de un binder: el mismo perfil con esa sección abierta
+            // (lee /public_binders, la copia que publica el dueño).
+            path: '/@:username/binders/:binderId',
+            name: 'binderStorefront',
+            component: () => import('../views/UserProfileView.vue'),
+            meta: { title: 'seo.pages.userProfile.title', description: 'seo.pages.userProfile.description' },
+        },
+        {
+            // Read-only deck page, shareable by link. Public like /@:username:
+            // reads /public_decks, the snapshot the owner publishes when sharing.
+            path: '/@:username/decks/:deckId',
+            name: 'publicDeck',
+            component: () => import('../views/PublicDeckView.vue'),
+            meta: { title: 'seo.pages.publicDeck.fallbackTitle', description: 'seo.pages.publicDeck.fallbackDescription' },
+        },
         // Help & Legal pages (public)
         {
             path: '/guide/card-conditions',
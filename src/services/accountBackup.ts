@@ -0,0 +1,121 @@
+/**
+ * Account backup service — Firestore side of src/utils/accountBackup.ts.
+ *
+ * Export reads every source-of-truth subcollection of users/{uid} (paged, so
+ * a 60k-card collection doesn't land in a single getDocs). Restore writes the
+ * archive back with the original doc ids and, in 'replace' mode, deletes what
+ * the archive doesn't have. Rebuilding card_index afterwards is the caller's
+ * job (SettingsView), via buildCardIndex — the index is never restored from
+ * the file, it is always derived again from the restored cards.
+ */
+
+import {
+  collection,
+  doc,
+  documentId,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  type Query,
+  type QueryDocumentSnapshot,
+  type QuerySnapshot,
+  startAfter,
+  Timestamp,
+  writeBatch,
+} from 'firebase/firestore'
+import { db } from './firestore'
+import { chunkArray } from '../utils/chunkArray'
+import {
+  BACKUP_COLLECTIONS,
+  type BackupArchive,
+  type BackupCollection,
+  buildBackupArchive,
+  decodeBackupValue,
+  planRestore,
+  type RestoreMode,
+} from '../utils/accountBackup'
+
+const READ_PAGE = 2000
+// writeBatch admite 500 operaciones
+const WRITE_BATCH = 500
+
+type ProgressFn = (done: number, total: number) => void
+
+const readAllDocs = async (userId: string, name: BackupCollection) => {
+  const ref = collection(db, 'users', userId, name)
+  const out: { id: string; data: Record<string, unknown> }[] = []
+  let last: QueryDocumentSnapshot | null = null
+  for (;;) {
+    const page: Query = last
+      ? query(ref, orderBy(documentId()), startAfter(last), limit(READ_PAGE))
+      : query(ref, orderBy(documentId()), limit(READ_PAGE))
+    const snapshot: QuerySnapshot = await getDocs(page)
+    for (const d of snapshot.docs) out.push({ id: d.id, data: d.data() })
+    if (snapshot.docs.length < READ_PAGE) break
+    last = snapshot.docs[snapshot.docs.length - 1] ?? null
+  }
+  return out
+}
+
+/** Reads the whole account into a versioned archive. */
+export const exportAccountData = async (
+  user: { id: string; username: string },
+  onProgress?: ProgressFn,
+): Promise<BackupArchive> => {
+  const docs = new Map<BackupCollection, { id: string; data: Record<string, unknown> }[]>()
+  let done = 0
+  for (const name of BACKUP_COLLECTIONS) {
+    docs.set(name, await readAllDocs(user.id, name))
+    onProgress?.(++done, BACKUP_COLLECTIONS.length)
+  }
+  return buildBackupArchive(user, docs)
+}
+
+export interface RestoreResult {
+  written: number
+  deleted: number
+}
+
+/**
+ * Writes `archive` into the signed-in account. Docs are `set` whole (not
+ * merged field by field): a restored card is exactly the card in the file.
+ */
+export const restoreAccountData = async (
+  userId: string,
+  archive: BackupArchive,
+  mode: RestoreMode,
+  onProgress?: ProgressFn,
+): Promise<RestoreResult> => {
+  const existingIds = new Map<BackupCollection, string[]>()
+  if (mode === 'replace') {
+    for (const name of BACKUP_COLLECTIONS) {
+      existingIds.set(name, (await readAllDocs(userId, name)).map(d => d.id))
+    }
+  }
+
+  const plan = planRestore(archive, existingIds, mode)
+  const ops = [
+    ...plan.writes.map(w => ({ kind: 'set' as const, ...w })),
+    ...plan.deletes.map(d => ({ kind: 'delete' as const, ...d, data: null })),
+  ]
+  const revive = (millis: number) => Timestamp.fromMillis(millis)
+
+  let done = 0
+  for (const chunk of chunkArray(ops, WRITE_BATCH)) {
+    const batch = writeBatch(db)
+    for (const op of chunk) {
+      const ref = doc(db, 'users', userId, op.collection, op.id)
+      if (op.kind === 'set') {
+        batch.set(ref, decodeBackupValue(op.data, revive) as Record<string, unknown>)
+      } else {
+        batch.delete(ref)
+      }
+    }
+    await batch.commit()
+    done += chunk.length
+    onProgress?.(done, ops.length)
+  }
+
+  return { written: plan.writes.length, deleted: plan.deletes.length }
+}
@@ -148,6 +148,27 @@ export async function bulkImportCards(
   return result.data
 }
 
+/**
+ * Complete an accepted trade proposal: moves the cards between both
+ * collections in one server-side transaction. Fails with
+ * functions/failed-precondition (details.reason === 'shortage') when either
+ * side no longer holds what the last revision promised.
+ */
+export interface CompleteTradeResponse {
+  ok: boolean
+  touchedCards: Record<string, number>
+}
+
+export async function completeTrade(proposalId: string): Promise<CompleteTradeResponse> {
+  const callable = httpsCallable<{ proposalId: string }, CompleteTradeResponse>(
+    functions,
+    'completeTrade',
+    { timeout: 120000 }
+  )
+  const result = await callable({ proposalId })
+  return result.data
+}
+
 /**
  * Load a chunk of the user's card collection via Cloud Function.
  * Server-side read is ~100x faster than browser SDK for large collections.
@@ -362,6 +383,7 @@ export interface QueryCardIndexRequest {
     type?: string[]
     foil?: boolean
     condition?: string[]
+    location?: string[]
     minPrice?: number
     maxPrice?: number
   }
@@ -462,6 +484,7 @@ export interface PublicIndexCard {
    * where it means something.
    */
   pm?: string[]
+  sp?: 1      // seller-priced: the price comes from the seller's pricing rules or a fixed price
 }
 
 export interface QueryPublicCardIndexRequest {
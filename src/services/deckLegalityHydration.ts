@@ -0,0 +1,69 @@
+/**
+ * Legality data hydration via Scryfall (cached).
+ *
+ * The deck legality check needs the FULL Scryfall `legalities` (banned vs
+ * restricted vs not_legal) and `color_identity`. `card_index` only keeps the
+ * formats where a card is `legal` and no colour identity, so — same approach
+ * as `manaCostHydration.ts` — we fetch on demand via
+ * `scryfallCache.getCardsByIds` (L1 in-memory + L2 Firestore).
+ *
+ * Failure mode: any fetch error resolves to an empty map (no rethrow); the
+ * validator then falls back to the indexed legalities.
+ */
+
+import { getCardsByIds, type ScryfallCard } from './scryfallCache'
+import { colorIdentityOf } from '../utils/deckLegality'
+
+export interface CardLegalityData {
+    legalities?: Record<string, string>
+    colorIdentity: string[]
+    type_line?: string
+    oracle_text?: string
+}
+
+// scryfallId -> data (null = "fetched but Scryfall didn't return it")
+const sessionCache = new Map<string, CardLegalityData | null>()
+
+/** Test-only helper. Resets the module-level cache between test cases. */
+export function __resetLegalityCache(): void {
+    sessionCache.clear()
+}
+
+const toLegalityData = (card: ScryfallCard): CardLegalityData => ({
+    legalities: card.legalities,
+    colorIdentity: card.color_identity ?? colorIdentityOf(card),
+    type_line: card.type_line,
+    oracle_text: card.oracle_text,
+})
+
+/**
+ * Given a list of scryfallIds, returns a Map<scryfallId, CardLegalityData>
+ * for the ones Scryfall knows. Unknown ids are cached as misses so they are
+ * not re-fetched forever.
+ */
+export async function hydrateLegalityData(
+    scryfallIds: string[]
+): Promise<Map<string, CardLegalityData>> {
+    const uniqueIds = Array.from(new Set(scryfallIds.filter(Boolean)))
+    const unknownIds = uniqueIds.filter(id => !sessionCache.has(id))
+
+    if (unknownIds.length > 0) {
+        try {
+            const cards: ScryfallCard[] = await getCardsByIds(unknownIds.map(id => ({ id })))
+            const byId = new Map(cards.filter(card => card?.id).map(card => [card.id, toLegalityData(card)]))
+            for (const id of unknownIds) {
+                sessionCache.set(id, byId.get(id) ?? null)
+            }
+        } catch (error) {
+            console.warn('[legalityHydration] Scryfall fetch failed, returning empty map:', error)
+            return new Map()
+        }
+    }
+
+    const result = new Map<string, CardLegalityData>()
+    for (const id of uniqueIds) {
+        const value = sessionCache.get(id)
+        if (value) result.set(id, value)
+    }
+    return result
+}
@@ -0,0 +1,34 @@
+import { doc, getDoc } from 'firebase/firestore'
+import { db } from './firestore'
+import type { CurrencyCode, ExchangeRates } from '../types/currency'
+import { isCurrencyCode } from '../utils/currency'
+
+// Solo se aceptan monedas conocidas y tasas positivas: el documento lo escribe
+// una Cloud Function a partir de APIs de terceros.
+const cleanRates = (raw: unknown): Map<CurrencyCode, number> => {
+    const rates = new Map<CurrencyCode, number>()
+    if (!raw || typeof raw !== 'object') return rates
+    for (const [code, value] of Object.entries(raw)) {
+        if (isCurrencyCode(code) && typeof value === 'number' && Number.isFinite(value) && value > 0) {
+            rates.set(code, value)
+        }
+    }
+    return rates
+}
+
+/** exchange_rates/latest (refreshExchangeRates), o null si no existe o falla. */
+export async function getExchangeRates(): Promise<ExchangeRates | null> {
+    try {
+        const snap = await getDoc(doc(db, 'exchange_rates', 'latest'))
+        if (!snap.exists()) return null
+        const data = snap.data() as { rates?: unknown; informal?: unknown; updatedAt?: { toDate?: () => Date } }
+        return {
+            rates: cleanRates(data.rates),
+            informal: cleanRates(data.informal),
+            updatedAt: data.updatedAt?.toDate?.() ?? null,
+        }
+    } catch (error) {
+        console.error('Error fetching exchange rates:', error)
+        return null
+    }
+}
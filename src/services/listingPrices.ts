@@ -0,0 +1,33 @@
+import type { Card } from '../types/card'
+import type { PricedCard, PricingRules } from '../types/pricing'
+import { type CardPrices, getCardPrices, preloadSetMappings } from './mtgjson'
+import { listingPrice, ruleForCard } from '../utils/pricingRules'
+
+/**
+ * Resuelve el precio del vendedor (precio fijo o regla) de cada carta antes
+ * de escribirla en public_cards. Solo consulta Card Kingdom para las cartas
+ * cuya regla parte de CK; sin reglas ni precios fijos devuelve las mismas
+ * cartas sin tocar.
+ */
+export async function priceCardsForListing(
+    cards: Card[],
+    rules: PricingRules | null | undefined,
+): Promise<PricedCard[]> {
+    const needsCk = cards.filter(card =>
+        card.scryfallId && card.priceOverride == null && ruleForCard(card, rules)?.base === 'ck',
+    )
+
+    const ckPrices = new Map<string, CardPrices | null>()
+    if (needsCk.length > 0) {
+        await preloadSetMappings([...new Set(needsCk.map(c => c.setCode).filter(Boolean))] as string[])
+        for (const card of needsCk) {
+            if (ckPrices.has(card.scryfallId)) continue
+            ckPrices.set(card.scryfallId, await getCardPrices(card.scryfallId, card.setCode))
+        }
+    }
+
+    return cards.map(card => {
+        const price = listingPrice(card, rules, ckPrices.get(card.scryfallId))
+        return price === null ? card : { ...card, listingPrice: price }
+    })
+}
@@ -620,6 +620,15 @@ export async function getCardPrices(scryfallId: string, setCode?: string): Promi
   }
 }
 
+/**
+ * MTGJSON uuid of a card, if this session already mapped it (getCardPrices
+ * loads the mapping). Price alerts store it so evaluatePriceAlerts doesn't
+ * have to download the set file again; '' when unknown.
+ */
+export function getMtgjsonUuid(scryfallId: string): string {
+  return scryfallToUuidMap.get(scryfallId) ?? ''
+}
+
 /**
  * Preload set mappings in parallel batches.
  * Turns ~300 sequential set downloads into ~60 parallel batches of 5.
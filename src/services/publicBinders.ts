@@ -0,0 +1,94 @@
+/**
+ * Public Binders Service
+ *
+ * users/{uid}/binders and users/{uid}/cards are owner-only (TASK-215 /
+ * TASK-087), so a public binder is published as a denormalized snapshot —
+ * same approach as public_decks:
+ * - /public_binders/{userId}_{binderId} - name, description, binder price
+ *   (% of CK) and the cards the binder holds; the profile renders each one as
+ *   a storefront at /@:username/binders/:binderId
+ *
+ * Anonymous-readable (storefronts are for buyers without an account), so the
+ * snapshot carries no email or location — only what the storefront shows.
+ */
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  where,
+} from 'firebase/firestore'
+import { db } from './firestore'
+import type { Binder, PublicBinder, PublicBinderCard } from '../types/binder'
+import { publicBinderCardCount } from '../utils/binderStorefront'
+
+interface FirestorePublicBinder extends Omit<PublicBinder, 'updatedAt'> {
+  updatedAt?: { toDate: () => Date }
+}
+
+const publicBinderRef = (userId: string, binderId: string) =>
+  doc(db, 'public_binders', `${userId}_${binderId}`)
+
+const fromFirestore = (data: FirestorePublicBinder): PublicBinder => ({
+  ...data,
+  description: data.description ?? '',
+  forSale: data.forSale ?? true,
+  ckPricePercent: data.ckPricePercent ?? null,
+  cards: data.cards ?? [],
+  updatedAt: data.updatedAt?.toDate() ?? new Date(),
+})
+
+/**
+ * Write (or overwrite) the public snapshot of a binder. `cards` come from
+ * buildPublicBinderCards (the binder's allocations over the owner's collection).
+ */
+export async function syncBinderToPublic(
+  binder: Binder,
+  cards: PublicBinderCard[],
+  username: string
+): Promise<void> {
+  await setDoc(publicBinderRef(binder.userId, binder.id), {
+    binderId: binder.id,
+    userId: binder.userId,
+    username,
+    name: binder.name,
+    description: binder.description ?? '',
+    forSale: binder.forSale,
+    ckPricePercent: binder.ckPricePercent ?? null,
+    cards,
+    cardCount: publicBinderCardCount(cards),
+    updatedAt: Timestamp.now(),
+  })
+}
+
+/**
+ * Remove a binder's public snapshot
+ */
+export async function removeBinderFromPublic(binderId: string, userId: string): Promise<void> {
+  await deleteDoc(publicBinderRef(userId, binderId)).catch(() => { /* doc may not exist */ })
+}
+
+/**
+ * Ids of every binder snapshot a user has online, empty ones included (to
+ * clean up after a restore).
+ */
+export async function loadUserPublicBinderIds(userId: string): Promise<string[]> {
+  const snapshot = await getDocs(query(collection(db, 'public_binders'), where('userId', '==', userId)))
+  return snapshot.docs.map(d => (d.data() as FirestorePublicBinder).binderId)
+}
+
+/**
+ * All public binders of a user, by name (profile storefronts). Empty
+ * snapshots are left out: a storefront with nothing in it is not a storefront.
+ */
+export async function loadUserPublicBinders(userId: string): Promise<PublicBinder[]> {
+  const snapshot = await getDocs(query(collection(db, 'public_binders'), where('userId', '==', userId)))
+  return snapshot.docs
+    .map(d => fromFirestore(d.data() as FirestorePublicBinder))
+    .filter(b => b.cards.length > 0)
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
@@ -37,6 +37,8 @@ import type {
 } from './cloudFunctions'
 import { db } from './firestore'
 import type { Card } from '../types/card'
+import type { PricedCard } from '../types/pricing'
+import type { PreferenceType } from '../types/preferences'
 import { cardImageProxyUrl } from '../utils/cardImageUrl'
 import { logSanitizedError } from '../utils/logSanitizedError'
 
@@ -110,6 +112,7 @@ export interface PublicCard {
   image: string
   location?: string
   email?: string
+  sellerPriced?: boolean // precio de las reglas del vendedor o precio fijo, no el de mercado
   updatedAt: Timestamp
 }
 
@@ -120,6 +123,12 @@ export interface PreferenceInput {
   scryfallId?: string
   maxPrice?: number
   minCondition?: string
+  // Buylist (type 'COMPRO'): cash offer per copy, copies wanted and the
+  // buyer's total budget, denormalized onto every entry for matching.
+  type?: PreferenceType
+  offerPrice?: number
+  quantity?: number
+  budget?: number | null
 }
 
 export interface PublicPreference {
@@ -132,6 +141,10 @@ export interface PublicPreference {
   scryfallId: string
   maxPrice?: number
   minCondition?: string
+  type?: PreferenceType // missing on wishlist entries (= BUSCO)
+  offerPrice?: number
+  quantity?: number
+  budget?: number
   location?: string
   email?: string
   updatedAt: Timestamp
@@ -190,9 +203,14 @@ function isPublicCard(card: Card): boolean {
  * practice every caller resolves location from authStore.user.location,
  * which is always a string (defaulted to '' at signup — see
  * stores/auth.ts), so this was latent, not a live bug.
+ *
+ * `price` is the seller's listing price when the card arrives priced
+ * (services/listingPrices — pricing rules or a per-card fixed price), and
+ * only then is `sellerPriced` written, so the cart knows not to re-price it
+ * at Card Kingdom retail. Cards without one keep the plain 17-field shape.
  */
 export function buildPublicCardDoc(
-  card: Card,
+  card: PricedCard,
   userId: string,
   username: string,
   userLocation?: string,
@@ -208,13 +226,14 @@ export function buildPublicCardDoc(
     scryfallId: card.scryfallId,
     setCode: card.setCode ?? '',
     status: card.status as 'trade' | 'sale',
-    price: card.price || 0,
+    price: card.listingPrice ?? (card.price || 0),
     edition: card.edition || '',
     condition: card.condition || 'NM',
     foil: card.foil || false,
     quantity: card.quantity || 1,
     image: card.image || '',
     location: userLocation ?? '',
+    ...(card.listingPrice !== undefined ? { sellerPriced: true } : {}),
     updatedAt: Timestamp.now(),
   }
 }
@@ -416,7 +435,7 @@ function flushIndexReconcileNow(): void {
  * Only syncs cards with status 'trade' or 'sale' AND public: true
  */
 export async function syncCardToPublic(
-  card: Card,
+  card: PricedCard,
   userId: string,
   username: string,
   userLocation?: string,
@@ -463,7 +482,7 @@ export async function syncCardToPublic(
  * Much faster than individual syncCardToPublic calls for bulk operations
  */
 export async function batchSyncCardsToPublic(
-  cards: Card[],
+  cards: PricedCard[],
   userId: string,
   username: string,
   userLocation?: string,
@@ -541,21 +560,7 @@ export async function syncPreferenceToPublic(
   const publicPrefId = `${userId}_${preference.id}`
   const publicPrefRef = doc(db, 'public_preferences', publicPrefId)
 
-  // Filter out undefined values (Firestore doesn't accept them)
-  const publicPref: Record<string, string | number | Timestamp | null> = {
-    prefId: preference.id,
-    userId,
-    username,
-    avatarUrl: userAvatarUrl ?? null,
-    cardName: preference.cardName ?? preference.name ?? '',
-    scryfallId: preference.scryfallId ?? '',
-    updatedAt: Timestamp.now(),
-  }
-  if (preference.maxPrice !== undefined) publicPref.maxPrice = preference.maxPrice
-  if (preference.minCondition !== undefined) publicPref.minCondition = preference.minCondition
-  if (userLocation) publicPref.location = userLocation
-  // TASK-169: sin email, ver syncCardToPublic
-  await setDoc(publicPrefRef, publicPref)
+  await setDoc(publicPrefRef, buildPreferenceData(preference, userId, username, userAvatarUrl, userLocation))
 }
 
 /**
@@ -571,7 +576,7 @@ export async function removePreferenceFromPublic(prefId: string, userId: string)
  * Used on initial setup or when user updates profile
  */
 export async function syncAllUserCards(
-  cards: Card[],
+  cards: PricedCard[],
   userId: string,
   username: string,
   userLocation?: string,
@@ -643,8 +648,13 @@ function buildPreferenceData(
     scryfallId: pref.scryfallId ?? '',
     updatedAt: Timestamp.now(),
   }
+  // Filter out undefined values (Firestore doesn't accept them)
   if (pref.maxPrice !== undefined) data.maxPrice = pref.maxPrice
   if (pref.minCondition !== undefined) data.minCondition = pref.minCondition
+  if (pref.type !== undefined) data.type = pref.type
+  if (pref.offerPrice !== undefined) data.offerPrice = pref.offerPrice
+  if (pref.quantity !== undefined) data.quantity = pref.quantity
+  if (pref.budget != null) data.budget = pref.budget
   if (userLocation) data.location = userLocation
   // TASK-169: sin email, ver syncCardToPublic
   return data
@@ -657,16 +667,22 @@ export async function syncAllUserPreferences(
   userLocation?: string,
   userAvatarUrl?: string | null
 ): Promise<void> {
-  // First, remove all existing public preferences for this user
+  // First, remove all existing public preferences for this user. Buylist
+  // entries (type 'COMPRO') are kept unless they're being rewritten here:
+  // they're managed one by one from Settings and the wishlist sync doesn't
+  // know about them.
   const existingQuery = query(
     collection(db, 'public_preferences'),
     where('userId', '==', userId)
   )
   const existingDocs = await getDocs(existingQuery)
+  const rewritesBuylist = preferences.some(p => p.type === 'COMPRO')
 
   // Delete in batches of 400
   const BATCH_SIZE = 400
-  const docsToDelete = existingDocs.docs
+  const docsToDelete = existingDocs.docs.filter(d =>
+    rewritesBuylist || (d.data() as Partial<PublicPreference>).type !== 'COMPRO'
+  )
 
   for (let i = 0; i < docsToDelete.length; i += BATCH_SIZE) {
     const batch = writeBatch(db)
@@ -868,6 +884,23 @@ export async function getUserPublicPreferences(userId: string): Promise<PublicPr
   return snapshot.docs.map(d => ({ ...d.data(), docId: d.id } as PublicPreference))
 }
 
+/**
+ * A user's buylist ("I buy" on the public profile). Unlike the rest of
+ * public_preferences it is readable without an account — the query has to
+ * filter on type for the security rule to allow it.
+ */
+export async function getUserPublicBuylist(userId: string): Promise<PublicPreference[]> {
+  const q = query(
+    collection(db, 'public_preferences'),
+    where('userId', '==', userId),
+    where('type', '==', 'COMPRO')
+  )
+  const snapshot = await getDocs(q)
+  return snapshot.docs
+    .map(d => ({ ...d.data(), docId: d.id } as PublicPreference))
+    .sort((a, b) => a.cardName.localeCompare(b.cardName))
+}
+
 /**
  * Shape of a public_cards search result — matches the inline interface
  * formerly defined in src/views/DashboardView.vue.
@@ -1021,6 +1054,7 @@ export function publicIndexCardToCard(row: PublicIndexCard): Card {
     // (getCardColorCategory/passesColorFilter, which read produced_mana, not
     // colors) has nothing to work with.
     ...(row.pm && row.pm.length > 0 ? { produced_mana: row.pm } : {}),
+    ...(row.sp === 1 ? { sellerPriced: true } : {}),
     rarity: RARITY_BY_INITIAL[row.r],
     // The index stores `ca` (updatedAt) but deliberately does not ship it —
     // it exists to SORT on the server, and the grid never renders it. A
@@ -0,0 +1,97 @@
+/**
+ * Public Decks Service
+ *
+ * users/{uid}/decks and users/{uid}/cards are owner-only (TASK-215 /
+ * TASK-087), so a shared deck is published as a denormalized snapshot —
+ * same approach as public_cards:
+ * - /public_decks/{userId}_{deckId} - list, format, commander and prices of a
+ *   deck whose owner turned sharing on
+ *
+ * Anonymous-readable (the link is meant for people without an account), so
+ * the snapshot carries no email or location — only what the page shows.
+ */
+
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  Timestamp,
+  where,
+} from 'firebase/firestore'
+import { db } from './firestore'
+import type { Deck, DisplayDeckCard, PublicDeck, PublicDeckCard } from '../types/deck'
+import { buildPublicDeckCards, publicDeckCardCount, publicDeckTotalPrice } from '../utils/publicDeck'
+
+interface FirestorePublicDeck extends Omit<PublicDeck, 'updatedAt'> {
+  updatedAt?: { toDate: () => Date }
+}
+
+const publicDeckRef = (userId: string, deckId: string) =>
+  doc(db, 'public_decks', `${userId}_${deckId}`)
+
+const fromFirestore = (data: FirestorePublicDeck): PublicDeck => ({
+  ...data,
+  description: data.description ?? '',
+  colors: data.colors ?? [],
+  commander: data.commander ?? '',
+  thumbnail: data.thumbnail ?? '',
+  cards: data.cards ?? [],
+  updatedAt: data.updatedAt?.toDate() ?? new Date(),
+})
+
+/**
+ * Write (or overwrite) the public snapshot of a deck. `cards` are the owner's
+ * display cards — mainboard and sideboard, owned and wishlist.
+ */
+export async function syncDeckToPublic(
+  deck: Deck,
+  cards: readonly DisplayDeckCard[],
+  username: string
+): Promise<void> {
+  const publicCards: PublicDeckCard[] = buildPublicDeckCards(cards)
+  await setDoc(publicDeckRef(deck.userId, deck.id), {
+    deckId: deck.id,
+    userId: deck.userId,
+    username,
+    name: deck.name,
+    format: deck.format ?? 'custom',
+    description: deck.description ?? '',
+    colors: deck.colors ?? [],
+    commander: deck.commander ?? '',
+    thumbnail: deck.thumbnail ?? '',
+    cards: publicCards,
+    cardCount: publicDeckCardCount(publicCards),
+    totalPrice: publicDeckTotalPrice(publicCards),
+    updatedAt: Timestamp.now(),
+  })
+}
+
+/**
+ * Remove a deck's public snapshot
+ */
+export async function removeDeckFromPublic(deckId: string, userId: string): Promise<void> {
+  await deleteDoc(publicDeckRef(userId, deckId)).catch(() => { /* doc may not exist */ })
+}
+
+/**
+ * Load one public deck. null when the owner never shared it or stopped sharing.
+ */
+export async function loadPublicDeck(userId: string, deckId: string): Promise<PublicDeck | null> {
+  const snap = await getDoc(publicDeckRef(userId, deckId))
+  if (!snap.exists()) return null
+  return fromFirestore(snap.data() as FirestorePublicDeck)
+}
+
+/**
+ * All public decks of a user, most recently updated first (profile list).
+ */
+export async function loadUserPublicDecks(userId: string): Promise<PublicDeck[]> {
+  const snapshot = await getDocs(query(collection(db, 'public_decks'), where('userId', '==', userId)))
+  return snapshot.docs
+    .map(d => fromFirestore(d.data() as FirestorePublicDeck))
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+}
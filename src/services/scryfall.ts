@@ -63,6 +63,7 @@ export interface ScryfallCard {
     mana_cost?: string
     cmc?: number
     colors?: string[]
+    color_identity?: string[]
     power?: string
     toughness?: string
     image_uris?: {
@@ -377,6 +378,35 @@ export const getCardsBySet = async (setCode: string): Promise<ScryfallCard[]> =>
     })
 }
 
+/**
+ * Checklist completo de un set para el tracker de completitud: getCardsBySet
+ * trae solo la primera página (175), acá se siguen todas las páginas.
+ * Orden por número de colección, como la lista impresa del set.
+ */
+export const getSetChecklist = async (setCode: string): Promise<ScryfallCard[]> => {
+    try {
+        const cards: ScryfallCard[] = []
+        let page = 1
+        let hasMore = true
+        while (hasMore) {
+            const meta = await fetchSearch(buildSearchParams(`e:${setCode}`, {
+                unique: 'prints',
+                order: 'set',
+                dir: 'asc',
+                page,
+            }))
+            cards.push(...meta.results)
+            hasMore = meta.hasMore && meta.results.length > 0
+            page++
+        }
+        console.info(`Checklist de ${setCode}: ${cards.length} cartas`)
+        return cards
+    } catch (error) {
+        console.error('Error en getSetChecklist:', error)
+        return []
+    }
+}
+
 /**
  * Obtener cartas dentro de rango de precio
  * ✅ NUEVO: Filtro por precio
@@ -487,12 +517,23 @@ export const getCardsByPowerToughness = async (
     )
 }
 
+/**
+ * Identificadores que acepta /cards/collection. `{ name, set }` y
+ * `{ set, collector_number }` piden una impresión concreta; `{ name }` deja
+ * que Scryfall elija la impresión por defecto.
+ */
+export type ScryfallIdentifier =
+    | { id: string }
+    | { name: string }
+    | { name: string; set: string }
+    | { set: string; collector_number: string }
+
 /**
  * ✅ NUEVO: Obtener múltiples cartas en un solo request (hasta 75 por batch)
  * Usa el endpoint /cards/collection de Scryfall
  */
 async function fetchCollectionBatch(
-    batch: ({ id: string } | { name: string })[]
+    batch: ScryfallIdentifier[]
 ): Promise<ScryfallCard[]> {
     let retries = 3
 
@@ -535,7 +576,7 @@ async function fetchCollectionBatch(
 }
 
 export const getCardsByIds = async (
-    identifiers: ({ id: string } | { name: string })[],
+    identifiers: ScryfallIdentifier[],
     onProgress?: (current: number, total: number) => void
 ): Promise<ScryfallCard[]> => {
     if (identifiers.length === 0) return []
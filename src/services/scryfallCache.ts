@@ -12,6 +12,7 @@ import {
   getCardById as rawGetCardById,
   getCardsByIds as rawGetCardsByIds,
   type ScryfallCard,
+  type ScryfallIdentifier,
 } from './scryfall'
 
 // Re-export everything unchanged
@@ -23,6 +24,7 @@ export {
   getCardsByColor,
   getCardsByType,
   getCardsBySet,
+  getSetChecklist,
   getCardsByPrice,
   getCardsByKeyword,
   getCardsByManaValue,
@@ -34,7 +36,7 @@ export {
   getAllSets,
 } from './scryfall'
 
-export type { ScryfallCard, ScryfallSet } from './scryfall'
+export type { ScryfallCard, ScryfallIdentifier, ScryfallSet } from './scryfall'
 
 // ── Constants ──────────────────────────────────────────────────────────────────
 
@@ -131,18 +133,18 @@ export async function getCardById(id: string): Promise<ScryfallCard | null> {
 }
 
 export async function getCardsByIds(
-  identifiers: ({ id: string } | { name: string })[],
+  identifiers: ScryfallIdentifier[],
   onProgress?: (current: number, total: number) => void
 ): Promise<ScryfallCard[]> {
   if (identifiers.length === 0) return []
 
   const results: ScryfallCard[] = []
-  const nameIdentifiers: { name: string }[] = []
+  const nameIdentifiers: Exclude<ScryfallIdentifier, { id: string }>[] = []
   const l2Needed: { id: string }[] = []
 
-  // Partition: L1 hits, name-based (→ Scryfall), id-based L1 misses (→ L2)
+  // Partition: L1 hits, name/set-based (→ Scryfall), id-based L1 misses (→ L2)
   for (const ident of identifiers) {
-    if ('name' in ident) {
+    if (!('id' in ident)) {
       nameIdentifiers.push(ident)
       continue
     }
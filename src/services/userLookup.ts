@@ -1,6 +1,7 @@
-import { collection, doc, getDoc, getDocs, limit, query, where } from 'firebase/firestore';
+import { collection, doc, documentId, getDoc, getDocs, limit, query, where } from 'firebase/firestore';
 import { db } from './firestore';
 import { normalizeUsername } from '../utils/username';
+import { normalizeStructuredLocation, normalizeTradeReach, parseLocationLabel, type ReachParty } from '../utils/tradeReach';
 
 /**
  * Deterministic username → uid resolution (D-10, UNIQ-04).
@@ -37,3 +38,33 @@ export async function resolveUsernameToUid(
   // 3. Unresolved.
   return null;
 }
+
+// Firestore 'in' admite hasta 30 valores por consulta.
+const USERS_IN_LIMIT = 30;
+
+/**
+ * Ubicación estructurada y alcance de cambio de varios usuarios, para el
+ * matching por distancia. Lee users/{uid} (de lectura pública) de a 30 ids;
+ * un usuario que no aparece queda fuera del Map.
+ */
+export async function loadUserReachProfiles(uids: string[]): Promise<Map<string, ReachParty>> {
+  const unique = [...new Set(uids.filter(Boolean))];
+  const chunks: string[][] = [];
+  for (let i = 0; i < unique.length; i += USERS_IN_LIMIT) chunks.push(unique.slice(i, i + USERS_IN_LIMIT));
+
+  const snapshots = await Promise.all(chunks.map(chunk =>
+    getDocs(query(collection(db, 'users'), where(documentId(), 'in', chunk)))
+  ));
+
+  const profiles = new Map<string, ReachParty>();
+  for (const snapshot of snapshots) {
+    for (const userDoc of snapshot.docs) {
+      const data = userDoc.data() as { location?: string; locationInfo?: unknown; tradeReach?: unknown };
+      profiles.set(userDoc.id, {
+        location: normalizeStructuredLocation(data.locationInfo) ?? parseLocationLabel(data.location),
+        reach: normalizeTradeReach(data.tradeReach),
+      });
+    }
+  }
+  return profiles;
+}
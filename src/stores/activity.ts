@@ -0,0 +1,200 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import {
+  arrayUnion,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore'
+import { db } from '../services/firestore'
+import { useAuthStore } from './auth'
+import { useCollectionStore } from './collection'
+import {
+  buildActivityHeader,
+  canUndoActivity,
+  parseActivityChanges,
+  splitActivityChanges,
+} from '../utils/activityLog'
+import { chunkArray } from '../utils/chunkArray'
+import { logSanitizedError } from '../utils/logSanitizedError'
+import type { ActivityChange, ActivityEntry, ActivityKind } from '../types/activity'
+
+// Partes por writeBatch (límite de Firestore: 500 escrituras)
+const PART_BATCH_SIZE = 400
+
+const ACTIVITY_KINDS: ActivityKind[] = ['add', 'update', 'delete', 'import', 'trade']
+
+const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate()
+  }
+  return new Date()
+}
+
+const toStringArray = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : []
+
+export const parseActivityEntry = (id: string, data: Record<string, unknown>): ActivityEntry => ({
+  id,
+  kind: ACTIVITY_KINDS.includes(data.kind as ActivityKind) ? data.kind as ActivityKind : 'update',
+  bulk: data.bulk === true,
+  count: typeof data.count === 'number' ? data.count : 0,
+  names: toStringArray(data.names),
+  fields: toStringArray(data.fields),
+  parts: typeof data.parts === 'number' ? data.parts : 0,
+  restoredCardIds: toStringArray(data.restoredCardIds),
+  undoneAt: data.undoneAt ? toDate(data.undoneAt) : null,
+  createdAt: toDate(data.createdAt),
+})
+
+export const useActivityStore = defineStore('activity', () => {
+  const entries = ref<ActivityEntry[]>([])
+  const loading = ref(false)
+  const loaded = ref(false)
+  /** Última operación masiva de esta sesión: la que ofrece la barra de "deshacer". */
+  const lastBulk = ref<ActivityEntry | null>(null)
+  const restoring = ref(false)
+
+  const authStore = useAuthStore()
+
+  const activityCol = (uid: string) => collection(db, 'users', uid, 'activity')
+
+  const patchEntry = (id: string, patch: Partial<ActivityEntry>) => {
+    entries.value = entries.value.map(e => e.id === id ? { ...e, ...patch } : e)
+    if (lastBulk.value?.id === id) lastBulk.value = { ...lastBulk.value, ...patch }
+  }
+
+  /**
+   * Deja una entrada en el registro. Best-effort: la operación de la colección
+   * ya ocurrió, así que un fallo acá se loguea y nada más. Las partes se
+   * escriben primero y la cabecera al final, para que nunca haya una entrada
+   * visible sin sus cambios.
+   */
+  const record = async (kind: ActivityKind, changes: ActivityChange[], bulk = false): Promise<ActivityEntry | null> => {
+    if (!authStore.user || changes.length === 0) return null
+    try {
+      const entryRef = doc(activityCol(authStore.user.id))
+      const parts = splitActivityChanges(changes).map((part, index) => ({ index, part }))
+      for (const group of chunkArray(parts, PART_BATCH_SIZE)) {
+        const batch = writeBatch(db)
+        for (const { index, part } of group) {
+          batch.set(doc(entryRef, 'changes', String(index)), { index, changes: JSON.stringify(part) })
+        }
+        await batch.commit()
+      }
+
+      const header = buildActivityHeader(kind, changes, bulk)
+      const createdAt = new Date()
+      await setDoc(entryRef, { ...header, restoredCardIds: [], undoneAt: null, createdAt })
+
+      const entry: ActivityEntry = { id: entryRef.id, ...header, restoredCardIds: [], undoneAt: null, createdAt }
+      if (loaded.value) entries.value = [entry, ...entries.value]
+      if (bulk) lastBulk.value = entry
+      return entry
+    } catch (err) {
+      logSanitizedError('recordActivity error', err, 'warn')
+      return null
+    }
+  }
+
+  const loadEntries = async (max = 50): Promise<void> => {
+    if (!authStore.user) return
+    loading.value = true
+    try {
+      const snapshot = await getDocs(query(activityCol(authStore.user.id), orderBy('createdAt', 'desc'), limit(max)))
+      entries.value = snapshot.docs.map(d => parseActivityEntry(d.id, d.data() as Record<string, unknown>))
+      loaded.value = true
+    } catch (err) {
+      logSanitizedError('loadActivity error', err, 'warn')
+    } finally {
+      loading.value = false
+    }
+  }
+
+  const loadChanges = async (entryId: string): Promise<ActivityChange[]> => {
+    if (!authStore.user) return []
+    try {
+      const snapshot = await getDocs(collection(db, 'users', authStore.user.id, 'activity', entryId, 'changes'))
+      return snapshot.docs
+        .map(d => d.data() as { index?: number; changes?: unknown })
+        .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+        .flatMap(part => parseActivityChanges(part.changes))
+    } catch (err) {
+      logSanitizedError('loadActivityChanges error', err, 'warn')
+      return []
+    }
+  }
+
+  /** Deshace la operación entera (solo masivas, dentro de ACTIVITY_UNDO_WINDOW_MS). */
+  const undoEntry = async (entry: ActivityEntry): Promise<boolean> => {
+    if (!authStore.user || restoring.value || !canUndoActivity(entry)) return false
+    restoring.value = true
+    try {
+      const changes = await loadChanges(entry.id)
+      if (changes.length === 0) return false
+      const ok = await useCollectionStore().restoreActivityChanges(changes)
+      if (!ok) return false
+      const undoneAt = new Date()
+      await updateDoc(doc(activityCol(authStore.user.id), entry.id), { undoneAt })
+      patchEntry(entry.id, { undoneAt })
+      if (lastBulk.value?.id === entry.id) lastBulk.value = null
+      return true
+    } catch (err) {
+      logSanitizedError('undoActivity error', err)
+      return false
+    } finally {
+      restoring.value = false
+    }
+  }
+
+  /** Devuelve una sola carta de la entrada a como estaba antes. Sin límite de tiempo. */
+  const restoreChange = async (entry: ActivityEntry, cardId: string): Promise<boolean> => {
+    if (!authStore.user || restoring.value) return false
+    restoring.value = true
+    try {
+      const changes = (await loadChanges(entry.id)).filter(c => c.cardId === cardId)
+      if (changes.length === 0) return false
+      const ok = await useCollectionStore().restoreActivityChanges(changes)
+      if (!ok) return false
+      await updateDoc(doc(activityCol(authStore.user.id), entry.id), { restoredCardIds: arrayUnion(cardId) })
+      patchEntry(entry.id, { restoredCardIds: [...new Set([...entry.restoredCardIds, cardId])] })
+      return true
+    } catch (err) {
+      logSanitizedError('restoreActivityChange error', err)
+      return false
+    } finally {
+      restoring.value = false
+    }
+  }
+
+  const dismissLastBulk = () => {
+    lastBulk.value = null
+  }
+
+  const clear = () => {
+    entries.value = []
+    loaded.value = false
+    lastBulk.value = null
+  }
+
+  return {
+    entries,
+    loading,
+    lastBulk,
+    restoring,
+    record,
+    loadEntries,
+    loadChanges,
+    undoEntry,
+    restoreChange,
+    dismissLastBulk,
+    clear,
+  }
+})
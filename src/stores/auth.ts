@@ -6,10 +6,17 @@ import type * as FirebaseFirestoreNS from 'firebase/firestore';
 import type * as FirebaseServicesNS from '../services/firebase';
 import type * as FirestoreServiceNS from '../services/firestore';
 import { type User } from '../types/user';
+import type { CurrencyCode } from '../types/currency';
+import type { PricingRules } from '../types/pricing';
+import type { DetectedLocation, StructuredLocation, TradeReach } from '../types/location';
 import { useToastStore } from './toast';
 import { t, useI18n } from '../composables/useI18n';
 import { setLastKnownAuthState } from '../utils/authLastKnown';
 import { formatDate } from '../utils/formatDate';
+import { isCurrencyCode } from '../utils/currency';
+import { normalizePricingRules } from '../utils/pricingRules';
+import { normalizeBuylistBudget } from '../utils/buylist';
+import { buildStructuredLocation, normalizeStructuredLocation, normalizeTradeReach, parseLocationLabel } from '../utils/tradeReach';
 import { getErrorCode, logSanitizedError } from '../utils/logSanitizedError';
 import { PAINTED_CONTENT_SELECTOR } from '../utils/paintSignal';
 import { isValidUsername, normalizeUsername } from '../utils/username';
@@ -300,6 +307,12 @@ export const useAuthStore = defineStore('auth', () => {
                     lastUsernameChange?: { toDate: () => Date } | null;
                     avatarUrl?: string | null;
                     tourCompleted?: boolean;
+                    currency?: string;
+                    fxRateOverride?: number | null;
+                    pricingRules?: unknown;
+                    buylistBudget?: unknown;
+                    locationInfo?: unknown;
+                    tradeReach?: unknown;
                 };
                 user.value = {
                     id: userId,
@@ -314,10 +327,17 @@ export const useAuthStore = defineStore('auth', () => {
                     email: auth.currentUser?.email ?? '',
                     username: data.username,
                     location: data.location,
+                    // Cuentas anteriores a la ubicación estructurada: se deduce del texto
+                    locationInfo: normalizeStructuredLocation(data.locationInfo) ?? parseLocationLabel(data.location),
+                    tradeReach: normalizeTradeReach(data.tradeReach),
                     createdAt: data.createdAt.toDate(),
                     lastUsernameChange: data.lastUsernameChange?.toDate() ?? null,
                     avatarUrl: data.avatarUrl ?? null,
                     tourCompleted: data.tourCompleted ?? false,
+                    currency: isCurrencyCode(data.currency) ? data.currency : 'USD',
+                    fxRateOverride: data.fxRateOverride ?? null,
+                    pricingRules: normalizePricingRules(data.pricingRules),
+                    buylistBudget: normalizeBuylistBudget(data.buylistBudget),
                 };
 
                 // TASK-169: mantener contact_info/{uid} al dia. Es donde vive el
@@ -878,9 +898,9 @@ export const useAuthStore = defineStore('auth', () => {
     };
 
     /**
-     * Change user location
+     * Change display currency and optional manual rate (null = official rate)
      */
-    const changeLocation = async (newLocation: string): Promise<boolean> => {
+    const changeCurrency = async (currency: CurrencyCode, fxRateOverride: number | null): Promise<boolean> => {
         if (!user.value) {
             toastStore.show(t('auth.messages.notAuthenticated'), 'error');
             return false;
@@ -889,10 +909,88 @@ export const useAuthStore = defineStore('auth', () => {
         try {
             const { firestoreFns, db } = await loadFirebaseDeps();
             await firestoreFns.updateDoc(firestoreFns.doc(db, 'users', user.value.id), {
-                location: newLocation
+                currency,
+                fxRateOverride,
+            });
+
+            user.value.currency = currency;
+            user.value.fxRateOverride = fxRateOverride;
+            toastStore.show(t('settings.currency.success'), 'success');
+            return true;
+        } catch (error) {
+            logSanitizedError('Error changing currency', error);
+            toastStore.show(t('settings.currency.error'), 'error');
+            return false;
+        }
+    };
+
+    /**
+     * Save the seller's pricing rules. Only the rules: repricing the public
+     * cards is the collection store's job (repricePublicCards).
+     */
+    const changePricingRules = async (pricingRules: PricingRules): Promise<boolean> => {
+        if (!user.value) {
+            toastStore.show(t('auth.messages.notAuthenticated'), 'error');
+            return false;
+        }
+
+        try {
+            const { firestoreFns, db } = await loadFirebaseDeps();
+            await firestoreFns.updateDoc(firestoreFns.doc(db, 'users', user.value.id), { pricingRules });
+
+            user.value.pricingRules = pricingRules;
+            return true;
+        } catch (error) {
+            logSanitizedError('Error saving pricing rules', error);
+            toastStore.show(t('settings.pricingRules.error'), 'error');
+            return false;
+        }
+    };
+
+    /**
+     * Save the buylist budget (null = no cap). Re-publishing the buylist
+     * entries with it is the preferences store's job (setBuylistBudget).
+     */
+    const changeBuylistBudget = async (buylistBudget: number | null): Promise<boolean> => {
+        if (!user.value) {
+            toastStore.show(t('auth.messages.notAuthenticated'), 'error');
+            return false;
+        }
+
+        try {
+            const { firestoreFns, db } = await loadFirebaseDeps();
+            await firestoreFns.updateDoc(firestoreFns.doc(db, 'users', user.value.id), { buylistBudget });
+
+            user.value.buylistBudget = buylistBudget;
+            return true;
+        } catch (error) {
+            logSanitizedError('Error saving buylist budget', error);
+            toastStore.show(t('settings.buylist.error'), 'error');
+            return false;
+        }
+    };
+
+    /**
+     * Change user location. `details` is the structured location that came
+     * with a detected one; a typed location is parsed from its text (no
+     * coordinates, so distance matching falls back to same city/country).
+     */
+    const changeLocation = async (newLocation: string, details?: StructuredLocation | null): Promise<boolean> => {
+        if (!user.value) {
+            toastStore.show(t('auth.messages.notAuthenticated'), 'error');
+            return false;
+        }
+
+        try {
+            const locationInfo = details ?? parseLocationLabel(newLocation);
+            const { firestoreFns, db } = await loadFirebaseDeps();
+            await firestoreFns.updateDoc(firestoreFns.doc(db, 'users', user.value.id), {
+                location: newLocation,
+                locationInfo,
             });
 
             user.value.location = newLocation;
+            user.value.locationInfo = locationInfo;
             toastStore.show(t('settings.changeLocation.success'), 'success');
             return true;
         } catch (error) {
@@ -902,25 +1000,62 @@ export const useAuthStore = defineStore('auth', () => {
         }
     };
 
+    /**
+     * Save how far the user trades: in person within a radius, national or
+     * international shipping.
+     */
+    const changeTradeReach = async (tradeReach: TradeReach): Promise<boolean> => {
+        if (!user.value) {
+            toastStore.show(t('auth.messages.notAuthenticated'), 'error');
+            return false;
+        }
+
+        try {
+            const { firestoreFns, db } = await loadFirebaseDeps();
+            await firestoreFns.updateDoc(firestoreFns.doc(db, 'users', user.value.id), { tradeReach });
+
+            user.value.tradeReach = tradeReach;
+            toastStore.show(t('settings.tradeReach.success'), 'success');
+            return true;
+        } catch (error) {
+            logSanitizedError('Error saving trade reach', error);
+            toastStore.show(t('settings.tradeReach.error'), 'error');
+            return false;
+        }
+    };
+
     /**
      * Detect location using IP only (silent, no permission needed)
      * Used for automatic suggestions
      */
-    const detectLocationSilent = async (): Promise<string | null> => {
+    const detectLocationSilent = async (): Promise<DetectedLocation | null> => {
+        // Las dos APIs devuelven los mismos nombres de campo; geojs manda las
+        // coordenadas como string.
         interface GeoLocationResponse {
             city?: string;
+            region?: string;
             country?: string;
+            country_code?: string;
+            latitude?: number | string;
+            longitude?: number | string;
         }
 
+        const parse = (data: GeoLocationResponse): DetectedLocation | null => {
+            if (!data.city || !data.country) return null;
+            const details = buildStructuredLocation({
+                city: data.city,
+                region: data.region,
+                country: data.country,
+                countryCode: data.country_code,
+                lat: data.latitude,
+                lon: data.longitude,
+            });
+            return details ? { label: `${data.city}, ${data.country}`, details } : null;
+        };
+
         const apis = [
-            {
-                url: 'https://ipwho.is/',
-                parse: (data: GeoLocationResponse) => data.city && data.country ? `${data.city}, ${data.country}` : null
-            },
-            {
-                url: 'https://get.geojs.io/v1/ip/geo.json',
-                parse: (data: GeoLocationResponse) => data.city && data.country ? `${data.city}, ${data.country}` : null
-            }
+            { url: 'https://ipwho.is/', parse },
+            { url: 'https://get.geojs.io/v1/ip/geo.json', parse },
         ];
 
         for (const api of apis) {
@@ -946,7 +1081,7 @@ export const useAuthStore = defineStore('auth', () => {
      * Detect user location using browser Geolocation API (GPS/WiFi)
      * Asks for permission - use only when user explicitly requests detection
      */
-    const detectLocation = async (): Promise<string | null> => {
+    const detectLocation = async (): Promise<DetectedLocation | null> => {
         // Try browser geolocation (more accurate - uses GPS/WiFi)
         try {
             const position = await new Promise<GeolocationPosition>((resolve, reject) => {
@@ -973,7 +1108,9 @@ export const useAuthStore = defineStore('auth', () => {
                     town?: string;
                     village?: string;
                     municipality?: string;
+                    state?: string;
                     country?: string;
+                    country_code?: string;
                 };
             }
             const data = await response.json() as NominatimResponse;
@@ -981,8 +1118,18 @@ export const useAuthStore = defineStore('auth', () => {
             if (data.address) {
                 const city = data.address.city ?? data.address.town ?? data.address.village ?? data.address.municipality ?? '';
                 const country = data.address.country ?? '';
-                if (city && country) {
-                    return `${city}, ${country}`;
+                const details = city && country
+                    ? buildStructuredLocation({
+                        city,
+                        region: data.address.state,
+                        country,
+                        countryCode: data.address.country_code,
+                        lat: latitude,
+                        lon: longitude,
+                    })
+                    : null;
+                if (details) {
+                    return { label: `${city}, ${country}`, details };
                 }
             }
         } catch (error) {
@@ -1141,6 +1288,10 @@ export const useAuthStore = defineStore('auth', () => {
         canChangeUsername,
         changeUsername,
         changeLocation,
+        changeCurrency,
+        changePricingRules,
+        changeBuylistBudget,
+        changeTradeReach,
         detectLocation,
         getAvatarUrl,
         changeAvatar,
@@ -11,6 +11,8 @@ import {
     updateDoc,
 } from 'firebase/firestore'
 import { db } from '../services/firestore'
+import { priceCardsForListing } from '../services/listingPrices'
+import { loadUserPublicBinderIds, removeBinderFromPublic, syncBinderToPublic } from '../services/publicBinders'
 import { useAuthStore } from './auth'
 import { useCollectionStore } from './collection'
 import { useDecksStore } from './decks'
@@ -20,11 +22,14 @@ import type { Card } from '../types/card'
 import type {
     Binder,
     BinderAllocation,
+    BinderLayout,
     BinderStats,
     CreateBinderInput,
 } from '../types/binder'
 import type { DisplayDeckCard } from '../types/deck'
 import { t } from '../composables/useI18n'
+import { buildPublicBinderCards, isBinderPublished } from '../utils/binderStorefront'
+import { DEFAULT_BINDER_PAGE_SIZE, normalizeBinderPageSize, reconcileBinderLayout } from '../utils/binderSlotDiff'
 
 // Helper to remove undefined values from objects (Firebase doesn't accept undefined)
 const removeUndefined = <T extends Record<string, unknown>>(obj: T): T => {
@@ -38,6 +43,7 @@ const removeUndefined = <T extends Record<string, unknown>>(obj: T): T => {
 const snapshotBinder = (binder: Binder): Binder => ({
     ...binder,
     allocations: binder.allocations ? binder.allocations.map(a => ({ ...a })) : [],
+    layout: [...(binder.layout ?? [])],
     stats: { ...binder.stats },
 })
 
@@ -60,6 +66,21 @@ export const deserializeAllocationMap = (data: string | null | undefined): Binde
     }
 }
 
+/** Serialize the page layout (pocket order) to a JSON string, stored next to allocationData */
+export const serializeLayout = (layout: BinderLayout): string => JSON.stringify(layout)
+
+/** Deserialize the page layout; anything that is not a cardId becomes an empty pocket */
+export const deserializeLayout = (data: string | null | undefined): BinderLayout => {
+    if (!data || typeof data !== 'string') return []
+    try {
+        const parsed: unknown = JSON.parse(data)
+        if (!Array.isArray(parsed)) return []
+        return parsed.map(slot => (typeof slot === 'string' && slot ? slot : null))
+    } catch {
+        return []
+    }
+}
+
 export const useBindersStore = defineStore('binders', () => {
     const authStore = useAuthStore()
     const toastStore = useToastStore()
@@ -188,7 +209,11 @@ export const useBindersStore = defineStore('binders', () => {
                     updatedAt?: { toDate: () => Date };
                     stats?: BinderStats;
                     isPublic?: boolean;
+                    publishedAt?: { toDate: () => Date } | null;
                     forSale?: boolean;
+                    ckPricePercent?: number | null;
+                    pageSize?: number;
+                    layoutData?: string;
                 }
                 const data = docSnap.data() as FirestoreBinderData
 
@@ -212,8 +237,12 @@ export const useBindersStore = defineStore('binders', () => {
                     createdAt: data.createdAt?.toDate() ?? new Date(),
                     updatedAt: data.updatedAt?.toDate() ?? new Date(),
                     stats: data.stats ?? { totalCards: 0, totalPrice: 0 },
-                    isPublic: data.isPublic ?? true,
+                    isPublic: data.isPublic ?? false,
+                    publishedAt: data.publishedAt?.toDate() ?? null,
                     forSale: data.forSale ?? true,
+                    ckPricePercent: data.ckPricePercent ?? null,
+                    pageSize: normalizeBinderPageSize(data.pageSize),
+                    layout: reconcileBinderLayout(deserializeLayout(data.layoutData), allocations),
                 } as Binder
             })
         } catch (error) {
@@ -240,12 +269,16 @@ export const useBindersStore = defineStore('binders', () => {
                 name: input.name,
                 description: input.description,
                 allocationData: '{}',
+                layoutData: '[]',
+                pageSize: DEFAULT_BINDER_PAGE_SIZE,
                 thumbnail: '',
                 createdAt: Timestamp.now(),
                 updatedAt: Timestamp.now(),
                 stats,
-                isPublic: true,
+                isPublic: false,
+                publishedAt: null,
                 forSale: true,
+                ckPricePercent: null,
             })
 
             const newBinder: Binder = {
@@ -258,8 +291,12 @@ export const useBindersStore = defineStore('binders', () => {
                 createdAt: new Date(),
                 updatedAt: new Date(),
                 stats,
-                isPublic: true,
+                isPublic: false,
+                publishedAt: null,
                 forSale: true,
+                ckPricePercent: null,
+                pageSize: DEFAULT_BINDER_PAGE_SIZE,
+                layout: [],
             }
 
             binders.value.push(newBinder)
@@ -274,7 +311,7 @@ export const useBindersStore = defineStore('binders', () => {
         }
     }
 
-    const updateBinder = async (binderId: string, updates: Partial<Pick<Binder, 'name' | 'description' | 'isPublic' | 'forSale'>>): Promise<boolean> => {
+    const updateBinder = async (binderId: string, updates: Partial<Pick<Binder, 'name' | 'description' | 'isPublic' | 'publishedAt' | 'forSale' | 'ckPricePercent' | 'pageSize'>>): Promise<boolean> => {
         if (!authStore.user?.id) return false
 
         try {
@@ -290,6 +327,8 @@ export const useBindersStore = defineStore('binders', () => {
                 updatedAt: Timestamp.now(),
             })
 
+            // Nombre, descripción, precio o visibilidad: todo sale en el escaparate
+            void refreshPublicBinder(binderId)
             return true
         } catch (error) {
             logSanitizedError('Error updating binder', error)
@@ -303,6 +342,7 @@ export const useBindersStore = defineStore('binders', () => {
         try {
             const binderRef = doc(db, 'users', authStore.user.id, 'binders', binderId)
             await deleteDoc(binderRef)
+            await removeBinderFromPublic(binderId, authStore.user.id)
 
             binders.value = binders.value.filter(b => b.id !== binderId)
             toastStore.show(t('binders.deleted'), 'success')
@@ -359,12 +399,14 @@ export const useBindersStore = defineStore('binders', () => {
 
             // Recalculate stats
             binder.stats = calculateStats(binder.allocations, collectionStore.cards)
+            binder.layout = reconcileBinderLayout(binder.layout ?? [], binder.allocations)
             binder.updatedAt = new Date()
 
             // Save to Firestore (compact map format + clean old array field)
             const binderRef = doc(db, 'users', authStore.user.id, 'binders', binderId)
             await updateDoc(binderRef, {
                 allocationData: serializeAllocations(binder.allocations),
+                layoutData: serializeLayout(binder.layout),
                 allocations: deleteField(),
                 stats: binder.stats,
                 updatedAt: Timestamp.now(),
@@ -437,11 +479,13 @@ export const useBindersStore = defineStore('binders', () => {
 
             // Single Firestore write
             binder.stats = calculateStats(binder.allocations, collectionStore.cards)
+            binder.layout = reconcileBinderLayout(binder.layout ?? [], binder.allocations)
             binder.updatedAt = new Date()
 
             const binderRef = doc(db, 'users', authStore.user.id, 'binders', binderId)
             await updateDoc(binderRef, {
                 allocationData: serializeAllocations(binder.allocations),
+                layoutData: serializeLayout(binder.layout),
                 allocations: deleteField(),
                 stats: binder.stats,
                 updatedAt: Timestamp.now(),
@@ -480,11 +524,13 @@ export const useBindersStore = defineStore('binders', () => {
             if (removed > 0) {
                 const collectionStore = useCollectionStore()
                 binder.stats = calculateStats(binder.allocations, collectionStore.cards)
+                binder.layout = reconcileBinderLayout(binder.layout ?? [], binder.allocations)
                 binder.updatedAt = new Date()
 
                 const binderRef = doc(db, 'users', authStore.user.id, 'binders', binderId)
                 await updateDoc(binderRef, {
                     allocationData: serializeAllocations(binder.allocations),
+                    layoutData: serializeLayout(binder.layout),
                     allocations: deleteField(),
                     stats: binder.stats,
                     updatedAt: Timestamp.now(),
@@ -515,11 +561,13 @@ export const useBindersStore = defineStore('binders', () => {
 
             const collectionStore = useCollectionStore()
             binder.stats = calculateStats(binder.allocations, collectionStore.cards)
+            binder.layout = reconcileBinderLayout(binder.layout ?? [], binder.allocations)
             binder.updatedAt = new Date()
 
             const binderRef = doc(db, 'users', authStore.user.id, 'binders', binderId)
             await updateDoc(binderRef, {
                 allocationData: serializeAllocations(binder.allocations),
+                layoutData: serializeLayout(binder.layout),
                 allocations: deleteField(),
                 stats: binder.stats,
                 updatedAt: Timestamp.now(),
@@ -576,11 +624,13 @@ export const useBindersStore = defineStore('binders', () => {
             alloc.quantity = newQuantity
 
             binder.stats = calculateStats(binder.allocations, collectionStore.cards)
+            binder.layout = reconcileBinderLayout(binder.layout ?? [], binder.allocations)
             binder.updatedAt = new Date()
 
             const binderRef = doc(db, 'users', authStore.user.id, 'binders', binderId)
             await updateDoc(binderRef, {
                 allocationData: serializeAllocations(binder.allocations),
+                layoutData: serializeLayout(binder.layout),
                 allocations: deleteField(),
                 stats: binder.stats,
                 updatedAt: Timestamp.now(),
@@ -601,6 +651,95 @@ export const useBindersStore = defineStore('binders', () => {
         }
     }
 
+    /**
+     * Persist the pocket order of page mode (drag-and-drop). The layout is
+     * reconciled against the allocations first, so a stale drag can never add
+     * or drop copies.
+     */
+    const saveBinderLayout = async (binderId: string, layout: BinderLayout): Promise<boolean> => {
+        if (!authStore.user?.id) return false
+
+        const binder = binders.value.find(b => b.id === binderId)
+        if (!binder) return false
+
+        const previous = binder.layout
+        binder.layout = reconcileBinderLayout(layout, binder.allocations ?? [])
+        binder.updatedAt = new Date()
+
+        const idx = binders.value.indexOf(binder)
+        if (idx !== -1) {
+            binders.value[idx] = snapshotBinder(binder)
+            binders.value = [...binders.value]
+        }
+
+        try {
+            const binderRef = doc(db, 'users', authStore.user.id, 'binders', binderId)
+            await updateDoc(binderRef, {
+                layoutData: serializeLayout(binder.layout),
+                updatedAt: Timestamp.now(),
+            })
+            return true
+        } catch (error) {
+            logSanitizedError('Error saving binder layout', error)
+            toastStore.show(t('binders.pages.saveError'), 'error')
+            const current = binders.value.find(b => b.id === binderId)
+            if (current) {
+                current.layout = previous
+                binders.value = [...binders.value]
+            }
+            return false
+        }
+    }
+
+    // ========================================================================
+    // STOREFRONT (/@:username/binders/:binderId)
+    // ========================================================================
+
+    /**
+     * Publish the binder's snapshot to /public_binders when the owner made it
+     * public, or remove it when not. Non-blocking: a failed write leaves the
+     * previous snapshot online.
+     */
+    const refreshPublicBinder = async (binderId: string): Promise<void> => {
+        const binder = binders.value.find(b => b.id === binderId)
+        if (!authStore.user?.id || !binder) return
+        try {
+            if (!isBinderPublished(binder)) {
+                await removeBinderFromPublic(binderId, authStore.user.id)
+                return
+            }
+            // Same price the seller shows in public_cards, only for this binder's cards
+            const allocated = new Set(binder.allocations.map(a => a.cardId))
+            const binderCards = useCollectionStore().cards.filter(c => allocated.has(c.id))
+            const cards = buildPublicBinderCards(binder, await priceCardsForListing(binderCards, authStore.user.pricingRules))
+            await syncBinderToPublic(binder, cards, authStore.user.username)
+        } catch (error) {
+            logSanitizedError('Error refreshing public binder', error, 'warn')
+        }
+    }
+
+    /**
+     * Rebuild every storefront (after restoring a backup): republish the
+     * published binders and remove snapshots of binders that are gone or no
+     * longer published.
+     */
+    const syncAllPublicBinders = async (): Promise<void> => {
+        const userId = authStore.user?.id
+        if (!userId) return
+        let online = new Set<string>()
+        try {
+            online = new Set(await loadUserPublicBinderIds(userId))
+            const current = new Set(binders.value.map(b => b.id))
+            await Promise.all([...online].filter(id => !current.has(id)).map(id => removeBinderFromPublic(id, userId)))
+        } catch (error) {
+            logSanitizedError('Error removing stale public binders', error, 'warn')
+        }
+        for (const binder of binders.value) {
+            // refreshPublicBinder publishes it or removes its snapshot
+            if (isBinderPublished(binder) || online.has(binder.id)) await refreshPublicBinder(binder.id)
+        }
+    }
+
     return {
         // State
         binders,
@@ -622,8 +761,15 @@ export const useBindersStore = defineStore('binders', () => {
         updateAllocation,
         getTotalAllocatedForCard,
 
+        // Page mode
+        saveBinderLayout,
+
         // Hydration & Stats
         hydrateBinderCards,
         calculateStats,
+
+        // Storefront
+        refreshPublicBinder,
+        syncAllPublicBinders,
     }
 })
@@ -1,13 +1,22 @@
 import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
-import { addDoc, collection, deleteDoc, doc, getDocs, updateDoc } from 'firebase/firestore'
+import { addDoc, collection, collectionGroup, deleteDoc, doc, getDoc, getDocs, limit, orderBy, query, updateDoc, where, writeBatch } from 'firebase/firestore'
 import { db } from '../services/firestore'
 import { useAuthStore } from './auth'
 import { useCollectionStore } from './collection'
-import { computeTotalValue, planFulfillment } from '../utils/buyRequest'
+import {
+  applyBuyRequestResponse,
+  computeTotalValue,
+  fulfillmentStatus,
+  isOpenBuyRequest,
+  itemUnitPrice,
+  planFulfillment,
+  summarizeRealizedSales,
+} from '../utils/buyRequest'
+import { realizeSale, todayDateKey } from '../utils/costBasis'
 import { logSanitizedError } from '../utils/logSanitizedError'
 import type { ExchangeCartItem } from '../types/exchangeCart'
-import type { BuyerContact, BuyRequest, BuyRequestStatus } from '../types/buyRequest'
+import type { BuyerContact, BuyRequest, BuyRequestItem, BuyRequestResponse, BuyRequestStatus, RealizedSale } from '../types/buyRequest'
 
 const toDate = (value: unknown): Date => {
   if (value instanceof Date) return value
@@ -17,20 +26,76 @@ const toDate = (value: unknown): Date => {
   return new Date()
 }
 
+const toNumberOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+export const parseRealizedSale = (id: string, data: Record<string, unknown>): RealizedSale => ({
+  id,
+  buyRequestId: (data.buyRequestId as string) ?? '',
+  cardId: (data.cardId as string) ?? '',
+  scryfallId: (data.scryfallId as string) ?? '',
+  cardName: (data.cardName as string) ?? '',
+  edition: (data.edition as string) ?? '',
+  foil: data.foil === true,
+  quantity: toNumberOrNull(data.quantity) ?? 0,
+  unitPrice: toNumberOrNull(data.unitPrice) ?? 0,
+  proceeds: toNumberOrNull(data.proceeds) ?? 0,
+  cost: toNumberOrNull(data.cost),
+  profit: toNumberOrNull(data.profit),
+  counterparty: (data.counterparty as string) ?? '',
+  soldAt: (data.soldAt as string) ?? '',
+  createdAt: toDate(data.createdAt),
+})
+
+/** Doc de /users/{ownerId}/buyRequests → BuyRequest (solicitudes viejas: sin respuesta ni dueño grabado). */
+export const parseBuyRequest = (id: string, ownerId: string, data: Record<string, unknown>): BuyRequest => ({
+  id,
+  buyerName: (data.buyerName as string) ?? 'Guest',
+  buyerPhone: (data.buyerPhone as string) ?? '',
+  buyerEmail: (data.buyerEmail as string) ?? '',
+  buyerId: (data.buyerId as string) ?? '',
+  buyerUsername: (data.buyerUsername as string) ?? '',
+  ownerId,
+  ownerUsername: (data.ownerUsername as string) ?? '',
+  items: (data.items as BuyRequestItem[]) ?? [],
+  totalValue: (data.totalValue as number) ?? 0,
+  status: (data.status as BuyRequestStatus) ?? 'pending',
+  ownerNote: (data.ownerNote as string) ?? '',
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt ?? data.createdAt),
+})
+
+const newestFirst = (a: BuyRequest, b: BuyRequest) => b.createdAt.getTime() - a.createdAt.getTime()
+
 export const useBuyRequestsStore = defineStore('buyRequests', () => {
   const buyRequests = ref<BuyRequest[]>([])
   const loading = ref(false)
+  const realizedSales = ref<RealizedSale[]>([])
+  // Lado comprador: lo que el usuario con sesión envió a otros perfiles
+  const sentRequests = ref<BuyRequest[]>([])
+  const loadingSent = ref(false)
 
   const authStore = useAuthStore()
 
   /** Pendientes (no vistos ni cumplidos) — para el badge de la pestaña. */
   const pendingCount = computed(() => buyRequests.value.filter(r => r.status === 'pending').length)
 
+  const realizedSummary = computed(() => summarizeRealizedSales(realizedSales.value))
+
   /**
    * SCRUM-70.1: un visitante (posiblemente anónimo) envía su carrito al dueño.
-   * Persiste bajo /users/{ownerUid}/buyRequests. NO depende de authStore.
+   * Persiste bajo /users/{ownerUid}/buyRequests. NO depende de authStore: si
+   * hay sesión, el llamador pasa `buyer` para que la compra quede asociada a
+   * una cuenta (es lo que después permite que ambos se reseñen y que el
+   * comprador la siga en "Mis solicitudes").
    */
-  const submitBuyRequest = async (ownerUid: string, contact: BuyerContact, items: ExchangeCartItem[]): Promise<{ ok: boolean; error?: string }> => {
+  const submitBuyRequest = async (
+    ownerUid: string,
+    contact: BuyerContact,
+    items: ExchangeCartItem[],
+    buyer?: { id: string; username: string } | null,
+    ownerUsername = '',
+  ): Promise<{ ok: boolean; error?: string }> => {
     if (!ownerUid) return { ok: false, error: 'no-owner-uid' }
     if (items.length === 0) return { ok: false, error: 'empty-cart' }
     try {
@@ -39,10 +104,15 @@ export const useBuyRequestsStore = defineStore('buyRequests', () => {
         buyerName: contact.name.trim() || 'Guest',
         buyerPhone: contact.phone.trim(),
         buyerEmail: contact.email.trim(),
+        buyerId: buyer?.id ?? '',
+        buyerUsername: buyer?.username ?? '',
+        ownerUsername,
         items,
         totalValue: computeTotalValue(items),
         status: 'pending' as BuyRequestStatus,
+        ownerNote: '',
         createdAt: new Date(),
+        updatedAt: new Date(),
       })
       return { ok: true }
     } catch (err) {
@@ -57,22 +127,11 @@ export const useBuyRequestsStore = defineStore('buyRequests', () => {
     if (!authStore.user) return
     loading.value = true
     try {
-      const snapshot = await getDocs(collection(db, 'users', authStore.user.id, 'buyRequests'))
+      const uid = authStore.user.id
+      const snapshot = await getDocs(collection(db, 'users', uid, 'buyRequests'))
       buyRequests.value = snapshot.docs
-        .map(d => {
-          const data = d.data() as Record<string, unknown>
-          return {
-            id: d.id,
-            buyerName: (data.buyerName as string) ?? 'Guest',
-            buyerPhone: (data.buyerPhone as string) ?? '',
-            buyerEmail: (data.buyerEmail as string) ?? '',
-            items: (data.items as ExchangeCartItem[]) ?? [],
-            totalValue: (data.totalValue as number) ?? 0,
-            status: (data.status as BuyRequestStatus) ?? 'pending',
-            createdAt: toDate(data.createdAt),
-          }
-        })
-        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+        .map(d => parseBuyRequest(d.id, uid, d.data() as Record<string, unknown>))
+        .sort(newestFirst)
     } catch (err) {
       logSanitizedError('loadBuyRequests error', err)
       buyRequests.value = []
@@ -86,13 +145,64 @@ export const useBuyRequestsStore = defineStore('buyRequests', () => {
     const target = buyRequests.value.find(r => r.id === requestId)
     if (target?.status !== 'pending') return
     try {
-      await updateDoc(doc(db, 'users', authStore.user.id, 'buyRequests', requestId), { status: 'seen' })
+      await updateDoc(doc(db, 'users', authStore.user.id, 'buyRequests', requestId), { status: 'seen', updatedAt: new Date() })
       target.status = 'seen'
     } catch (err) {
       logSanitizedError('markSeen error', err)
     }
   }
 
+  /**
+   * Relee la solicitud antes de contestarla o cumplirla: la copia en memoria
+   * puede ser vieja (el comprador la cancela desde "Mis solicitudes"). La copia
+   * local se pone al día y solo se devuelve si sigue abierta.
+   */
+  const readOpenRequest = async (uid: string, requestId: string): Promise<BuyRequest | null> => {
+    const snapshot = await getDoc(doc(db, 'users', uid, 'buyRequests', requestId))
+    if (!snapshot.exists()) return null
+    const fresh = parseBuyRequest(snapshot.id, uid, snapshot.data() as Record<string, unknown>)
+    const target = buyRequests.value.find(r => r.id === requestId)
+    if (target) Object.assign(target, fresh)
+    return isOpenBuyRequest(fresh.status) ? fresh : null
+  }
+
+  /**
+   * El dueño contesta: acepta o rechaza cada item, con contraoferta opcional y
+   * una nota. Se puede volver a contestar mientras la solicitud siga abierta.
+   */
+  const respondToRequest = async (requestId: string, response: BuyRequestResponse): Promise<boolean> => {
+    if (!authStore.user) return false
+    const target = buyRequests.value.find(r => r.id === requestId)
+    if (!target || !isOpenBuyRequest(target.status)) return false
+    const ownerNote = response.note.trim()
+    try {
+      const fresh = await readOpenRequest(authStore.user.id, requestId)
+      if (!fresh) return false
+      const { items, status } = applyBuyRequestResponse(fresh.items, response)
+      await updateDoc(doc(db, 'users', authStore.user.id, 'buyRequests', requestId), {
+        items,
+        status,
+        ownerNote,
+        updatedAt: new Date(),
+      })
+      Object.assign(target, { items, status, ownerNote, updatedAt: new Date() })
+      return true
+    } catch (err) {
+      logSanitizedError('respondToRequest error', err)
+      return false
+    }
+  }
+
+  /** Rechazar la solicitud entera (todos los items), con nota opcional. */
+  const declineRequest = (requestId: string, note = ''): Promise<boolean> => {
+    const target = buyRequests.value.find(r => r.id === requestId)
+    return respondToRequest(requestId, {
+      decisions: (target?.items ?? []).map(() => 'rejected' as const),
+      counterPrices: [],
+      note,
+    })
+  }
+
   const deleteRequest = async (requestId: string): Promise<boolean> => {
     if (!authStore.user) return false
     try {
@@ -109,29 +219,115 @@ export const useBuyRequestsStore = defineStore('buyRequests', () => {
    * SCRUM-70.3: marcar como vendido → descontar cada carta de la colección del
    * dueño (reutiliza updateCard/deleteCard) y marcar la solicitud como 'fulfilled'.
    * Devuelve la lista de cardIds faltantes (fallback) por si la UI quiere avisar.
+   *
+   * Cada línea vendida queda además en realizedSales con su ganancia realizada:
+   * las copias salen de los lotes de compra más antiguos (FIFO), y la carta
+   * que sigue en la colección se queda con los lotes restantes.
+   *
+   * Solo se venden los items no rechazados, a su precio vigente (contraoferta
+   * si la hubo). Si algo no se entrega entero la solicitud queda como
+   * 'partially_fulfilled'.
+   *
+   * Cada línea graba su venta y su soldQuantity en un mismo batch antes de
+   * descontar la carta. Si algo falla a mitad, la solicitud sigue abierta con
+   * las líneas ya vendidas marcadas, y reintentar solo vende las que faltan.
    */
   const fulfillRequest = async (requestId: string): Promise<{ ok: boolean; missing: string[] }> => {
     if (!authStore.user) return { ok: false, missing: [] }
     const target = buyRequests.value.find(r => r.id === requestId)
-    if (!target) return { ok: false, missing: [] }
+    if (!target || !isOpenBuyRequest(target.status)) return { ok: false, missing: [] }
+
+    let fresh: BuyRequest | null
+    try {
+      fresh = await readOpenRequest(authStore.user.id, requestId)
+    } catch (err) {
+      logSanitizedError('fulfillRequest error', err)
+      return { ok: false, missing: [] }
+    }
+    if (!fresh) return { ok: false, missing: [] }
 
     const collectionStore = useCollectionStore()
-    const plan = planFulfillment(target.items, (cardId) => collectionStore.getCardById(cardId))
+    const lines = fresh.items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => item.decision !== 'rejected')
+    const plan = planFulfillment(lines.map(l => l.item), (cardId) => collectionStore.getCardById(cardId))
+    const soldByIndex = new Map<number, number>()
     const missing: string[] = []
 
+    const uid = authStore.user.id
+    const soldAt = todayDateKey()
+    const counterparty = fresh.buyerUsername || fresh.buyerName
+
+    const requestRef = doc(db, 'users', uid, 'buyRequests', requestId)
+    const withSold = (): BuyRequestItem[] =>
+      fresh.items.map((item, index) => ({ ...item, soldQuantity: soldByIndex.get(index) ?? 0 }))
+
     try {
-      for (const step of plan) {
+      for (const [i, step] of plan.entries()) {
+        const line = lines.at(i)
+        if (!line) continue
+        const { item, index } = line
+        // Vendida en un intento anterior que se cortó: no se vuelve a vender
+        if ((item.soldQuantity ?? 0) > 0) {
+          soldByIndex.set(index, item.soldQuantity ?? 0)
+          continue
+        }
         if (step.action === 'missing') {
           missing.push(step.cardId)
-        } else if (step.action === 'delete') {
-          await collectionStore.deleteCard(step.cardId)
-        } else {
-          await collectionStore.updateCard(step.cardId, { quantity: step.newQuantity })
+          continue
         }
+        const card = collectionStore.getCardById(step.cardId)
+        // Los lotes solo viven en el doc completo (el card_index trae el resumen).
+        const full = await collectionStore.getFullCard(step.cardId)
+        const sold = Math.min(item.quantity, card?.quantity ?? 0)
+        const unitPrice = itemUnitPrice(item)
+        const sale = realizeSale(full?.acquisitions, sold, unitPrice)
+        soldByIndex.set(index, sold)
+
+        if (sold > 0) {
+          const saleRef = doc(collection(db, 'users', uid, 'realizedSales'))
+          const record = {
+            buyRequestId: requestId,
+            cardId: step.cardId,
+            scryfallId: item.scryfallId,
+            cardName: item.name,
+            edition: item.edition,
+            foil: item.foil,
+            quantity: sold,
+            unitPrice,
+            proceeds: sale.proceeds,
+            cost: sale.cost,
+            profit: sale.profit,
+            counterparty,
+            soldAt,
+            createdAt: new Date(),
+          }
+          // La venta y el avance de la línea van juntos; las reglas rechazan
+          // el batch si el comprador canceló mientras tanto.
+          const batch = writeBatch(db)
+          batch.set(saleRef, record)
+          batch.update(requestRef, { items: withSold(), updatedAt: new Date() })
+          await batch.commit()
+          realizedSales.value = [parseRealizedSale(saleRef.id, record), ...realizedSales.value]
+        }
+
+        const changed = step.action === 'delete'
+          ? await collectionStore.deleteCard(step.cardId)
+          : await collectionStore.updateCard(step.cardId, {
+            quantity: step.newQuantity,
+            ...(full?.acquisitions ? { acquisitions: sale.remaining } : {}),
+          })
+        if (!changed) throw new Error(`sold ${sold} of card ${step.cardId} but could not update it in the collection`)
       }
 
-      await updateDoc(doc(db, 'users', authStore.user.id, 'buyRequests', requestId), { status: 'fulfilled' })
-      target.status = 'fulfilled'
+      // Nada se pudo vender (todas las cartas ya no estaban): la solicitud
+      // sigue abierta en vez de quedar vendida en parte con cero unidades.
+      if (![...soldByIndex.values()].some(sold => sold > 0)) return { ok: false, missing }
+
+      const items = withSold()
+      const status = fulfillmentStatus(items)
+      await updateDoc(requestRef, { items, status, updatedAt: new Date() })
+      Object.assign(target, { items, status, updatedAt: new Date() })
       return { ok: true, missing }
     } catch (err) {
       logSanitizedError('fulfillRequest error', err)
@@ -139,14 +335,81 @@ export const useBuyRequestsStore = defineStore('buyRequests', () => {
     }
   }
 
+  /**
+   * "Mis solicitudes": lo que el usuario envió con sesión iniciada, en todos
+   * los perfiles (collection group sobre buyRequests filtrado por buyerId; las
+   * reglas solo dejan leer las propias).
+   */
+  const loadSentRequests = async (): Promise<void> => {
+    if (!authStore.user) return
+    loadingSent.value = true
+    try {
+      const snapshot = await getDocs(query(
+        collectionGroup(db, 'buyRequests'),
+        where('buyerId', '==', authStore.user.id),
+      ))
+      sentRequests.value = snapshot.docs
+        .map(d => parseBuyRequest(d.id, d.ref.parent.parent?.id ?? '', d.data() as Record<string, unknown>))
+        .sort(newestFirst)
+    } catch (err) {
+      logSanitizedError('loadSentRequests error', err)
+      sentRequests.value = []
+    } finally {
+      loadingSent.value = false
+    }
+  }
+
+  /** El comprador cancela una solicitud suya que sigue abierta. */
+  const cancelSentRequest = async (requestId: string): Promise<boolean> => {
+    if (!authStore.user) return false
+    const target = sentRequests.value.find(r => r.id === requestId)
+    if (!target?.ownerId || !isOpenBuyRequest(target.status)) return false
+    try {
+      await updateDoc(doc(db, 'users', target.ownerId, 'buyRequests', requestId), {
+        status: 'cancelled',
+        updatedAt: new Date(),
+      })
+      target.status = 'cancelled'
+      target.updatedAt = new Date()
+      return true
+    } catch (err) {
+      logSanitizedError('cancelSentRequest error', err)
+      return false
+    }
+  }
+
+  /** Ventas realizadas más recientes, para la ganancia realizada del portfolio. */
+  const loadRealizedSales = async (max = 500): Promise<void> => {
+    if (!authStore.user) return
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'users', authStore.user.id, 'realizedSales'),
+        orderBy('createdAt', 'desc'),
+        limit(max),
+      ))
+      realizedSales.value = snapshot.docs.map(d => parseRealizedSale(d.id, d.data() as Record<string, unknown>))
+    } catch (err) {
+      logSanitizedError('loadRealizedSales error', err, 'warn')
+    }
+  }
+
   return {
     buyRequests,
     loading,
     pendingCount,
+    realizedSales,
+    realizedSummary,
+    loadRealizedSales,
     submitBuyRequest,
     loadBuyRequests,
     markSeen,
+    respondToRequest,
+    declineRequest,
     deleteRequest,
     fulfillRequest,
+    sentRequests,
+    loadingSent,
+    loadSentRequests,
+    cancelSentRequest,
   }
 })
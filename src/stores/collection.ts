@@ -5,16 +5,20 @@ import {
     collection,
     deleteDoc,
     doc,
+    documentId,
     getCountFromServer,
     getDocs,
+    query,
     setDoc,
     Timestamp,
     updateDoc,
+    where,
     writeBatch,
 } from 'firebase/firestore'
 import { db } from '../services/firestore'
 import { useAuthStore } from './auth'
 import { useToastStore } from './toast'
+import { useActivityStore } from './activity'
 import { type Card, type CardCondition, type CardStatus } from '../types/card'
 import {
     batchSyncCardsToPublic,
@@ -24,6 +28,7 @@ import {
     syncAllUserPreferences,
     syncCardToPublic,
 } from '../services/publicCards'
+import { priceCardsForListing } from '../services/listingPrices'
 import { t } from '../composables/useI18n'
 import { getCardsByIds } from '../services/scryfallCache'
 import { buildEnrichmentPatch } from '../utils/cardEnrichment'
@@ -31,6 +36,21 @@ import { cardImageProxyUrl } from '../utils/cardImageUrl'
 import { logSanitizedError } from '../utils/logSanitizedError'
 import { getCardsNeedingPublicSync, isPossiblyPublicCard } from '../utils/publicSyncFilter'
 import { TimeoutError, withTimeout } from '../utils/withTimeout'
+import { costBasisOf } from '../utils/costBasis'
+import {
+    type ImportMergeOptions,
+    type ImportMergePlan,
+    type ImportMergeUpdate,
+    planImportMerge,
+    resolveImportTargets,
+} from '../utils/importMerge'
+import {
+    createdCardChanges,
+    deletedCardChanges,
+    planActivityRestore,
+    updatedCardChanges,
+} from '../utils/activityLog'
+import type { ActivityCardData, ActivityChange, ActivityKind } from '../types/activity'
 import type { CardIndexDeltaMutation, QueryCardIndexRequest } from '../services/cloudFunctions'
 
 /**
@@ -231,6 +251,9 @@ export interface IndexCard {
     ca: number     // createdAt (ms)
     cn: string     // condition
     pb: boolean    // public
+    cb?: [number, number] // cost basis: [copies with known cost, total cost]. v4+
+    lc?: string    // storage location. v5+, only present when set
+    po?: number    // fixed sale/trade price (priceOverride). v6+, only present when set
     df?: boolean   // dual-faced (has card_faces with separate images)
 }
 
@@ -260,6 +283,9 @@ function indexToCard(ic: IndexCard): Card {
         foil: ic.f,
         condition: ic.cn as CardCondition,
         public: ic.pb,
+        costBasis: ic.cb ? { quantity: ic.cb[0], cost: ic.cb[1] } : undefined,
+        location: ic.lc,
+        priceOverride: ic.po,
         power: ic.pw || undefined,
         toughness: ic.to || undefined,
         full_art: ic.fa,
@@ -301,6 +327,7 @@ function cardToIndex(card: Card): IndexCard {
         }
     }
     const rarity = card.rarity ? card.rarity.charAt(0) : ''
+    const cb = costBasisOf(card)
     return {
         i: card.id,
         s: card.scryfallId,
@@ -324,6 +351,9 @@ function cardToIndex(card: Card): IndexCard {
         ca: card.createdAt ? new Date(card.createdAt).getTime() : Date.now(),
         cn: card.condition,
         pb: card.public !== false,
+        ...(cb ? { cb: [cb.quantity, cb.cost] as [number, number] } : {}),
+        ...(card.location ? { lc: card.location } : {}),
+        ...(typeof card.priceOverride === 'number' ? { po: card.priceOverride } : {}),
         df: (() => {
             try { return ((JSON.parse(card.image || '') as { card_faces?: unknown[] }).card_faces?.length ?? 0) > 1 }
             catch { return false }
@@ -403,6 +433,40 @@ export const useCollectionStore = defineStore('collection', () => {
         }
     }
 
+    // Precio del vendedor (reglas de precio / precio fijo) resuelto antes de
+    // escribir en public_cards; sin reglas ni precios fijos no cambia nada.
+    const priceForListing = (list: Card[]) => priceCardsForListing(list, authStore.user?.pricingRules)
+
+    // Registro de actividad: best-effort y sin await, nunca frena ni hace
+    // fallar la operación que lo dispara (ver stores/activity.ts).
+    const logActivity = (kind: ActivityKind, changes: ActivityChange[], bulk = false) => {
+        if (changes.length === 0) return
+        void useActivityStore().record(kind, changes, bulk)
+    }
+
+    /**
+     * Full card documents for the activity log. What is in memory is usually
+     * the thin card_index projection (no acquisitions, language, notes...),
+     * and a deleted card is recreated from what was logged, so the documents
+     * are read before they go. A failed read logs nothing rather than a
+     * projection that would come back with those fields missing.
+     */
+    const readCardsForActivity = async (cardIds: string[]): Promise<Card[]> => {
+        if (!authStore.user || cardIds.length === 0) return []
+        const colRef = collection(db, 'users', authStore.user.id, 'cards')
+        try {
+            const fullCards: Card[] = []
+            for (const chunk of chunkArray(cardIds, 30)) {
+                const snapshot = await getDocs(query(colRef, where(documentId(), 'in', chunk)))
+                fullCards.push(...snapshot.docs.map(d => ({ ...d.data(), id: d.id }) as Card))
+            }
+            return fullCards
+        } catch (error) {
+            logSanitizedError('[Activity] Could not read cards before changing them — not logged', error, 'warn')
+            return []
+        }
+    }
+
     // ========================================================================
     // CORE OPERATIONS
     // ========================================================================
@@ -558,7 +622,7 @@ export const useCollectionStore = defineStore('collection', () => {
     }
 
     /** Expected index version — bump in Cloud Function when format changes */
-    const EXPECTED_INDEX_VERSION = 3
+    const EXPECTED_INDEX_VERSION = 6
 
     /**
      * Cards per card_index chunk. Must match INDEX_CHUNK_SIZE in the
@@ -1731,6 +1795,7 @@ export const useCollectionStore = defineStore('collection', () => {
             }
             cards.value = [...cards.value, newCard]
             cardsById.set(newCard.id, newCard)
+            logActivity('add', createdCardChanges([newCard]))
 
             // Sync index — queued instead if the index is still loading. Without
             // this, persisting a 1-entry cardIndexRaw rewrites chunk_0 and wipes
@@ -1781,7 +1846,8 @@ export const useCollectionStore = defineStore('collection', () => {
             // Sync to public collection (non-blocking, log-only on failure)
             const userInfo = getUserInfo()
             if (userInfo) {
-                syncCardToPublic(newCard, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl)
+                priceForListing([newCard])
+                    .then(([priced = newCard]) => syncCardToPublic(priced, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl))
                     .catch((err: unknown) => {
                         logSanitizedError('[PublicSync] Error syncing card', err)
                     })
@@ -1820,6 +1886,8 @@ export const useCollectionStore = defineStore('collection', () => {
      */
     const updateCard = async (cardId: string, updates: Partial<Card>): Promise<boolean> => {
         if (!authStore.user) return false
+        // getFullCard's copy would hide this edit (e.g. acquisitions) on the next detail open
+        fullCardCache.delete(cardId)
 
         // Optimistic update: apply to UI immediately
         const index = cards.value.findIndex((c) => c.id === cardId)
@@ -1869,6 +1937,9 @@ export const useCollectionStore = defineStore('collection', () => {
                 updatedAt: Timestamp.now(),
             }), CARD_WRITE_TIMEOUT_MS, 'updateDoc')
 
+            const previousCard = snapshot ?? paginatedSnapshot
+            if (previousCard) logActivity('update', updatedCardChanges([previousCard], updates))
+
             // Sync index — LOCAL in-memory only (syncIndexLocal). The
             // Firestore card_index chunk write moves server-side (TASK-232):
             // queue+debounce the same 2s window the old client persist used,
@@ -1898,7 +1969,8 @@ export const useCollectionStore = defineStore('collection', () => {
                 // bug this call exists to prevent.
                 const userInfo = getUserInfo()
                 if (userInfo && ((existingCard && isPossiblyPublicCard(existingCard)) || isPossiblyPublicCard(updatedCard))) {
-                    syncCardToPublic(updatedCard, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl)
+                    priceForListing([updatedCard])
+                        .then(([priced = updatedCard]) => syncCardToPublic(priced, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl))
                         .catch((err: unknown) => {
                             logSanitizedError('[PublicSync] Error syncing card update', err)
                         })
@@ -1950,9 +2022,18 @@ export const useCollectionStore = defineStore('collection', () => {
      * Batch update multiple cards at once (more efficient than individual updates)
      * Uses Firestore writeBatch for atomic operations (max 500 per batch)
      */
-    const batchUpdateCards = async (cardIds: string[], updates: Partial<Card>, onProgress?: (percent: number) => void): Promise<boolean> => {
+    const batchUpdateCards = async (cardIds: string[], updates: Partial<Card>, onProgress?: (percent: number) => void, recordActivity = true): Promise<boolean> => {
         if (!authStore.user || cardIds.length === 0) return false
 
+        // Valores previos para el registro de actividad — solo de las cartas
+        // que ya están en memoria (las que la grilla mostró o cargó el índice).
+        const cardsBefore = recordActivity
+            ? cardIds.flatMap(id => {
+                const card = cardsById.get(id) ?? paginatedCards.value.find(c => c.id === id)
+                return card ? [{ ...card }] : []
+            })
+            : []
+
         try {
             const chunks = chunkArray(cardIds, 500)
             const firestoreChunkCount = chunks.length
@@ -2042,6 +2123,10 @@ export const useCollectionStore = defineStore('collection', () => {
                 }
             }
 
+            if (recordActivity) {
+                logActivity('update', updatedCardChanges(cardsBefore.filter(c => !ghostCardIds.has(c.id)), updates), true)
+            }
+
             // Update local state
             const updatedCards = applyLocalCardUpdates(survivingCardIds, updates)
 
@@ -2123,7 +2208,8 @@ export const useCollectionStore = defineStore('collection', () => {
                 const progressCb = onProgress
                     ? (completed: number) => { onProgress(Math.round(((firestoreChunkCount + completed) / totalSteps) * 100)) }
                     : undefined
-                batchSyncCardsToPublic(cardsToSync, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl, progressCb)
+                priceForListing(cardsToSync)
+                    .then(priced => batchSyncCardsToPublic(priced, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl, progressCb))
                     .catch((err: unknown) => { logSanitizedError('[PublicSync] Batch sync failed (non-fatal)', err) })
             }
 
@@ -2219,6 +2305,7 @@ export const useCollectionStore = defineStore('collection', () => {
         // Sync with Firebase in background
         try {
             const cardRef = doc(db, 'users', authStore.user.id, 'cards', cardId)
+            const loggedCards = await readCardsForActivity([cardId])
 
             // TASK-232: resolve+remove the card_index entry server-side BEFORE
             // deleting the card doc — applyCardIndexDelta reads chunkId off the
@@ -2311,6 +2398,7 @@ export const useCollectionStore = defineStore('collection', () => {
             // already patched (or best-effort attempted) the server's
             // card_index directly.
             syncIndexOrQueue(deletedCard, 'delete')
+            logActivity('delete', deletedCardChanges(loggedCards))
 
             // Remove from public collection (non-blocking, log-only on failure).
             // TASK-247 tanda 2c review round 3 (MED-A), permissive guard as
@@ -2407,6 +2495,8 @@ export const useCollectionStore = defineStore('collection', () => {
                 }
             }
 
+            logActivity('delete', deletedCardChanges(docs.map(d => ({ ...d.data(), id: d.id }) as Card)), true)
+
             toastStore.show(t('collection.messages.allDeleted'), 'success')
             return true
         } catch (error) {
@@ -2421,12 +2511,15 @@ export const useCollectionStore = defineStore('collection', () => {
      * Delete multiple cards efficiently using Firestore batch
      * Optimistic UI: removes from UI immediately, then syncs with Firebase
      */
-    const batchDeleteCards = async (cardIds: string[], onProgress?: (percent: number) => void): Promise<{ success: boolean; deleted: number; failed: number }> => {
+    const batchDeleteCards = async (cardIds: string[], onProgress?: (percent: number) => void, recordActivity = true): Promise<{ success: boolean; deleted: number; failed: number }> => {
         if (!authStore.user || cardIds.length === 0) return { success: true, deleted: 0, failed: 0 }
 
         // Save cards for potential restore on error
         const idsToDelete = new Set(cardIds)
 
+        // Para el registro: los documentos completos, leídos antes de borrar
+        const loggedCardsPromise = recordActivity ? readCardsForActivity(cardIds) : Promise.resolve([])
+
         // Remove from UI in ONE operation (single reactive trigger instead of N splices)
         const deletedCards = cards.value.filter(card => idsToDelete.has(card.id))
         cards.value = cards.value.filter(card => !idsToDelete.has(card.id))
@@ -2455,6 +2548,8 @@ export const useCollectionStore = defineStore('collection', () => {
         const totalBatches = Math.ceil(cardIds.length / BATCH_SIZE) + Math.ceil(publicCardIds.length / BATCH_SIZE)
         let completedBatches = 0
 
+        const loggedCards = await loggedCardsPromise
+
         // Phase 0 (TASK-232): resolve+remove card_index entries server-side
         // BEFORE deleting the card docs in Phase 1 — applyCardIndexDelta
         // reads each doc's own chunkId, so the docs must still exist when
@@ -2567,9 +2662,90 @@ export const useCollectionStore = defineStore('collection', () => {
             refreshCurrentPage().catch(() => {})
         }
 
+        if (recordActivity) {
+            logActivity('delete', deletedCardChanges(loggedCards.filter(c => !failedIds.has(c.id))), true)
+        }
+
         return { success: totalFailed === 0, deleted: totalDeleted, failed: totalFailed }
     }
 
+    // ========================================================================
+    // ACTIVITY RESTORE
+    // ========================================================================
+
+    /**
+     * Re-create deleted cards under their original ids — decks and binders
+     * reference cards by id, so a restored card slots back into them.
+     * Mirrors confirmImport's tail: the index is rebuilt server-side instead
+     * of patched entry by entry (the recreated docs carry no chunkId).
+     */
+    const recreateCards = async (items: { cardId: string; data: ActivityCardData }[]): Promise<void> => {
+        if (!authStore.user || items.length === 0) return
+        const userId = authStore.user.id
+        const restored: Card[] = []
+
+        for (const chunk of chunkArray(items, 400)) {
+            const batch = writeBatch(db)
+            for (const { cardId, data } of chunk) {
+                batch.set(doc(db, 'users', userId, 'cards', cardId), {
+                    ...stripUndefined(data),
+                    createdAt: Timestamp.now(),
+                    updatedAt: Timestamp.now(),
+                })
+            }
+            await batch.commit()
+            restored.push(...chunk.map(({ cardId, data }) => ({ ...data, id: cardId, updatedAt: new Date() }) as Card))
+        }
+
+        const restoredIds = new Set(restored.map(c => c.id))
+        cards.value = [...cards.value.filter(c => !restoredIds.has(c.id)), ...restored]
+        for (const card of restored) cardsById.set(card.id, card)
+
+        const userInfo = getUserInfo()
+        const publicCards = restored.filter(c => isPossiblyPublicCard(c) && (c.status === 'sale' || c.status === 'trade'))
+        if (userInfo && publicCards.length > 0) {
+            priceForListing(publicCards)
+                .then(priced => batchSyncCardsToPublic(priced, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl))
+                .catch((err: unknown) => { logSanitizedError('[PublicSync] Restore sync failed (non-fatal)', err) })
+        }
+
+        const { buildCardIndex } = await import('../services/cloudFunctions')
+        try {
+            await buildCardIndex()
+        } catch (err) {
+            logSanitizedError('[Restore] Index rebuild failed', err, 'warn')
+        }
+        refreshCurrentPage().catch(() => {})
+    }
+
+    /**
+     * Put cards back to the `before` side of logged activity changes: created
+     * cards are deleted, edited ones get their previous values, deleted ones
+     * come back. The restore itself is not logged — the activity store marks
+     * the original entry as undone/restored instead.
+     */
+    const restoreActivityChanges = async (changes: ActivityChange[]): Promise<boolean> => {
+        if (!authStore.user || changes.length === 0) return false
+        const plan = planActivityRestore(changes)
+
+        try {
+            if (plan.remove.length > 0) {
+                const result = await batchDeleteCards(plan.remove, undefined, false)
+                if (!result.success) return false
+            }
+            for (const group of plan.revert) {
+                const ok = await batchUpdateCards(group.cardIds, group.updates as Partial<Card>, undefined, false)
+                if (!ok) return false
+            }
+            await recreateCards(plan.recreate)
+            return true
+        } catch (error) {
+            logSanitizedError('Error restoring activity changes', error)
+            toastStore.show(t('settings.activity.restoreError'), 'error')
+            return false
+        }
+    }
+
     // ========================================================================
     // SEARCH / FIND OPERATIONS
     // ========================================================================
@@ -2646,18 +2822,96 @@ export const useCollectionStore = defineStore('collection', () => {
     // ========================================================================
 
     /**
-     * Batch import cards - returns array of created card IDs
+     * Plan de un import contra la colección cargada (ver utils/importMerge).
+     * El caller lo muestra como resumen y, si el usuario acepta, lo pasa a
+     * confirmImport.
+     */
+    const planImport = (cardsToSave: Omit<Card, 'id'>[], options: ImportMergeOptions): ImportMergePlan =>
+        planImportMerge(cardsToSave, cards.value, options)
+
+    /**
+     * Cantidades (y lotes) de las impresiones que un import fusiona con cartas
+     * existentes. Un writeBatch por 500 docs; el card_index lo reconstruye
+     * confirmImport justo después, así que aquí no hay delta por chunk.
      */
-    const confirmImport = async (cardsToSave: Omit<Card, 'id'>[], silent = false, onProgress?: (current: number, total: number) => void): Promise<string[]> => {
+    const applyImportMergeUpdates = async (updates: ImportMergeUpdate[]): Promise<number> => {
+        if (!authStore.user || updates.length === 0) return 0
+        const userId = authStore.user.id
+        const applied = new Map<string, ImportMergeUpdate>()
+
+        for (const chunk of chunkArray(updates, 500)) {
+            const batch = writeBatch(db)
+            for (const update of chunk) {
+                batch.update(doc(db, 'users', userId, 'cards', update.cardId), {
+                    quantity: update.to,
+                    acquisitions: update.acquisitions,
+                    updatedAt: Timestamp.now(),
+                })
+            }
+            try {
+                await batch.commit()
+                for (const update of chunk) applied.set(update.cardId, update)
+            } catch (error) {
+                logSanitizedError('[Import] Merge update chunk failed', error)
+            }
+        }
+        if (applied.size === 0) return 0
+
+        const patch = (card: Card): Card => {
+            const update = applied.get(card.id)
+            return update ? { ...card, quantity: update.to, acquisitions: update.acquisitions, updatedAt: new Date() } : card
+        }
+        cards.value = cards.value.map(card => {
+            const patched = patch(card)
+            if (patched !== card) cardsById.set(card.id, patched)
+            return patched
+        })
+        paginatedCards.value = paginatedCards.value.map(patch)
+
+        // public_cards lleva la cantidad de lo que está en venta/cambio
+        const userInfo = getUserInfo()
+        const publicCards = cards.value.filter(c => applied.has(c.id) && isPossiblyPublicCard(c))
+        if (userInfo && publicCards.length > 0) {
+            priceForListing(publicCards)
+                .then(priced => batchSyncCardsToPublic(priced, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl))
+                .catch((err: unknown) => { logSanitizedError('[PublicSync] Import merge sync failed (non-fatal)', err) })
+        }
+        return applied.size
+    }
+
+    /**
+     * Guarda un import. Sin `mergePlan` cada fila es un doc nuevo (el resume
+     * de un import a medias sigue por ahí). Con plan, solo se crean las
+     * impresiones nuevas, las conocidas se actualizan o se dejan según el modo
+     * y, en replaceSnapshot + removeMissing, se borran las que faltan.
+     *
+     * Devuelve un id por fila de `cardsToSave` (el doc creado o el existente
+     * que la absorbió), que es lo que usa la asignación a mazo/carpeta. Las
+     * filas de un lote que no se pudo crear quedan con '' y el aviso de error
+     * sale aunque sea `silent`.
+     */
+    const confirmImport = async (
+        cardsToSave: Omit<Card, 'id'>[],
+        silent = false,
+        onProgress?: (current: number, total: number) => void,
+        mergePlan?: ImportMergePlan,
+    ): Promise<string[]> => {
         if (!authStore.user) return []
 
         try {
             const { bulkImportCards } = await import('../services/cloudFunctions')
             const CHUNK_SIZE = 500
             const createdIds: string[] = []
+            let failedCreates = 0
+            const toCreate = mergePlan
+                ? mergePlan.creates.flatMap(create => {
+                    const card = cardsToSave.at(create.index)
+                    return card ? [{ ...card, quantity: create.quantity, acquisitions: create.acquisitions }] : []
+                })
+                : cardsToSave
 
-            for (let i = 0; i < cardsToSave.length; i += CHUNK_SIZE) {
-                const chunk = cardsToSave.slice(i, i + CHUNK_SIZE)
+            for (let i = 0; i < toCreate.length; i += CHUNK_SIZE) {
+                const chunk = toCreate.slice(i, i + CHUNK_SIZE)
                 const cleanChunk = chunk.map(card => {
                     const record = card as Record<string, unknown>
                     const { id: _id, ...rest } = record
@@ -2669,24 +2923,57 @@ export const useCollectionStore = defineStore('collection', () => {
                     createdIds.push(...result.cardIds)
                 } catch (chunkError) {
                     logSanitizedError(`[Import] Chunk ${i} failed`, chunkError)
+                    // Un '' por fila: los ids siguen alineados con toCreate (y
+                    // con mergePlan.creates) para las filas de después.
+                    createdIds.push(...chunk.map(() => ''))
+                    failedCreates += chunk.length
                 }
 
-                onProgress?.(Math.min(i + CHUNK_SIZE, cardsToSave.length), cardsToSave.length)
+                onProgress?.(Math.min(i + CHUNK_SIZE, toCreate.length), toCreate.length)
             }
 
             // Push in-place so getCardById works for deck allocation
             // shallowRef does NOT detect push — zero reactive cascade
+            const createdCards: Card[] = []
             for (let k = 0; k < createdIds.length; k++) {
                 // eslint-disable-next-line security/detect-object-injection
                 const cardId = createdIds[k]
                 // eslint-disable-next-line security/detect-object-injection
-                const card = cardsToSave[k]
+                const card = toCreate[k]
                 if (cardId && card) {
                     const newCard = { ...card, id: cardId, updatedAt: new Date(), createdAt: new Date() } as Card
                     cards.value.push(newCard)
                     cardsById.set(cardId, newCard)
+                    createdCards.push(newCard)
+                }
+            }
+
+            // Las cartas que el merge reemplaza van en la misma entrada del
+            // registro, así deshacer la importación las devuelve también.
+            const removedCards: Card[] = []
+            const mergeChanges: ActivityChange[] = []
+            // Si faltan creaciones no se sigue con el merge: actualizar y borrar
+            // sobre un import incompleto deja la colección a medio reemplazar.
+            if (mergePlan && failedCreates === 0) {
+                const removalIds = mergePlan.removals.map(r => r.cardId)
+                const fullById = new Map((await readCardsForActivity([
+                    ...mergePlan.updates.map(u => u.cardId),
+                    ...removalIds,
+                ])).map(c => [c.id, c]))
+                for (const update of mergePlan.updates) {
+                    const card = fullById.get(update.cardId)
+                    if (card) mergeChanges.push(...updatedCardChanges([card], { quantity: update.to, acquisitions: update.acquisitions }))
+                }
+                await applyImportMergeUpdates(mergePlan.updates)
+                if (removalIds.length > 0) {
+                    removedCards.push(...removalIds.flatMap(id => {
+                        const card = fullById.get(id)
+                        return card ? [card] : []
+                    }))
+                    await batchDeleteCards(removalIds, undefined, false)
                 }
             }
+            logActivity('import', [...createdCardChanges(createdCards), ...mergeChanges, ...deletedCardChanges(removedCards)], true)
 
             // Rebuild index after bulk import (more efficient than individual syncs)
             import('../services/cloudFunctions').then(({ buildCardIndex }) => {
@@ -2697,10 +2984,12 @@ export const useCollectionStore = defineStore('collection', () => {
                 })
             }).catch(() => {})
 
-            if (!silent) {
+            if (failedCreates > 0) {
+                toastStore.show(t('collection.messages.importIncomplete', { count: failedCreates }), 'error')
+            } else if (!silent) {
                 toastStore.show(t('collection.messages.imported', { count: createdIds.length }), 'success')
             }
-            return createdIds
+            return mergePlan ? resolveImportTargets(mergePlan, createdIds) : createdIds
         } catch (error) {
             logSanitizedError('Error importing cards', error)
             toastStore.show(t('collection.messages.importError'), 'error')
@@ -2727,7 +3016,7 @@ export const useCollectionStore = defineStore('collection', () => {
 
             // Sync sale/trade cards to public_cards
             await syncAllUserCards(
-                cards.value,
+                await priceForListing(cards.value),
                 userInfo.userId,
                 userInfo.username,
                 userInfo.location,
@@ -2761,6 +3050,28 @@ export const useCollectionStore = defineStore('collection', () => {
         }
     }
 
+    /**
+     * Re-publish the sale/trade cards at the current pricing rules (after
+     * they change in Settings, or to pick up today's CK prices). Returns how
+     * many cards were re-priced; null if it failed.
+     */
+    const repricePublicCards = async (): Promise<number | null> => {
+        const userInfo = getUserInfo()
+        if (!userInfo) return null
+
+        try {
+            if (cards.value.length === 0) await loadCollection()
+            const listed = cards.value.filter(c => isPossiblyPublicCard(c) && (c.status === 'sale' || c.status === 'trade'))
+            if (listed.length > 0) {
+                await batchSyncCardsToPublic(await priceForListing(listed), userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl)
+            }
+            return listed.filter(c => c.public === true).length
+        } catch (error) {
+            logSanitizedError('[PublicSync] Error repricing public cards', error)
+            return null
+        }
+    }
+
     // ========================================================================
     // SELECT ALL — returns matching card IDs for bulk selection
     // ========================================================================
@@ -2986,6 +3297,9 @@ export const useCollectionStore = defineStore('collection', () => {
         deleteAllCards,
         batchDeleteCards,
 
+        // Activity log
+        restoreActivityChanges,
+
         // Search
         getCardById,
         getFullCard,
@@ -2998,11 +3312,13 @@ export const useCollectionStore = defineStore('collection', () => {
 
         // Import
         confirmImport,
+        planImport,
         enrichCardsWithMissingMetadata,
         refreshCards,
 
         // Public sync
         syncAllToPublic,
+        repricePublicCards,
 
         // Computed
         totalCards,
@@ -0,0 +1,70 @@
+import { defineStore } from 'pinia'
+import { computed, ref, watch } from 'vue'
+import { useAuthStore } from './auth'
+import type { CurrencyCode, ExchangeRates, MoneyDisplay } from '../types/currency'
+import { resolveRate, usdSourceLabel } from '../utils/currency'
+import { formatDollarChange, formatPrice } from '../utils/formatters'
+
+// Moneda de display del usuario. Los precios siguen siendo USD en todos lados
+// (Firestore, cálculos, alertas); este store solo decide cómo se muestran.
+export const useCurrencyStore = defineStore('currency', () => {
+    const authStore = useAuthStore()
+
+    const rates = ref<ExchangeRates | null>(null)
+    const loadingRates = ref(false)
+    let ratesPromise: Promise<void> | null = null
+
+    const currency = computed<CurrencyCode>(() => authStore.user?.currency ?? 'USD')
+    const rateOverride = computed(() => authStore.user?.fxRateOverride ?? null)
+    const rate = computed(() => resolveRate(currency.value, rates.value, rateOverride.value))
+
+    // null = se muestra USD (moneda USD, o las tasas todavía no cargaron)
+    const display = computed<MoneyDisplay | null>(() =>
+        currency.value !== 'USD' && rate.value !== null ? { currency: currency.value, rate: rate.value } : null,
+    )
+
+    const loadRates = async (): Promise<void> => {
+        if (rates.value) return
+        ratesPromise ??= (async () => {
+            loadingRates.value = true
+            try {
+                // Import dinámico: el SDK de Firestore solo hace falta si el
+                // usuario eligió otra moneda, y así importar este store (lo
+                // usan todas las tarjetas con precio) no lo arrastra.
+                const { getExchangeRates } = await import('../services/exchangeRates')
+                rates.value = await getExchangeRates()
+            } finally {
+                loadingRates.value = false
+                ratesPromise = null
+            }
+        })()
+        await ratesPromise
+    }
+
+    // Las tasas solo hacen falta si el usuario eligió otra moneda
+    watch(currency, (code) => {
+        if (code !== 'USD') void loadRates()
+    }, { immediate: true })
+
+    /** Precio USD (o lo que venga de Firestore) en la moneda del usuario; N/A si no es número. */
+    const format = (usd: unknown): string => formatPrice(usd, display.value)
+
+    /** Variación con signo (+/-) en la moneda del usuario. */
+    const formatChange = (usd: number): string => formatDollarChange(usd, display.value)
+
+    /** Tooltip con el USD de origen; undefined sin conversión. */
+    const usdTitle = (usd: unknown): string | undefined => usdSourceLabel(usd, display.value)
+
+    return {
+        rates,
+        loadingRates,
+        currency,
+        rateOverride,
+        rate,
+        display,
+        loadRates,
+        format,
+        formatChange,
+        usdTitle,
+    }
+})
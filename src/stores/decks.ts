@@ -12,6 +12,7 @@ import {
 } from 'firebase/firestore'
 import { db } from '../services/firestore'
 import { getCardsByIds } from '../services/scryfallCache'
+import { loadUserPublicDecks, removeDeckFromPublic, syncDeckToPublic } from '../services/publicDecks'
 import { useAuthStore } from './auth'
 import { useToastStore } from './toast'
 import { useCollectionStore } from './collection'
@@ -23,9 +24,12 @@ import type {
     DeckFormat,
     DeckStats,
     DeckWishlistItem,
+    DisplayDeckCard,
+    PublicDeck,
 } from '../types/deck'
 import { t } from '../composables/useI18n'
 import { logSanitizedError } from '../utils/logSanitizedError'
+import { planPublicDeckCopy } from '../utils/publicDeck'
 
 // Helper to remove undefined values from objects (Firebase doesn't accept undefined)
 const removeUndefined = <T extends Record<string, unknown>>(obj: T): T => {
@@ -565,8 +569,10 @@ export const useDecksStore = defineStore('decks', () => {
         if (!authStore.user?.id) return false
 
         try {
+            const wasPublic = decks.value.find(d => d.id === deckId)?.isPublic === true
             const deckRef = doc(db, 'users', authStore.user.id, 'decks', deckId)
             await deleteDoc(deckRef)
+            if (wasPublic) await removeDeckFromPublic(deckId, authStore.user.id)
 
             decks.value = decks.value.filter(d => d.id !== deckId)
 
@@ -584,6 +590,127 @@ export const useDecksStore = defineStore('decks', () => {
         }
     }
 
+    // ========================================================================
+    // PUBLIC SHARING (/@:username/decks/:deckId)
+    // ========================================================================
+
+    /**
+     * Share or stop sharing a deck. Sharing publishes a snapshot of `cards`
+     * (the deck's display cards) to /public_decks; stopping removes it.
+     */
+    const setDeckPublic = async (deckId: string, isPublic: boolean, cards: readonly DisplayDeckCard[]): Promise<boolean> => {
+        if (!authStore.user?.id) return false
+        const deck = decks.value.find(d => d.id === deckId)
+        if (!deck) return false
+
+        try {
+            if (isPublic) await syncDeckToPublic({ ...deck, isPublic }, cards, authStore.user.username)
+            else await removeDeckFromPublic(deckId, authStore.user.id)
+        } catch (error) {
+            logSanitizedError('Error syncing public deck', error)
+            toastStore.show(t('decks.public.syncError'), 'error')
+            return false
+        }
+        return updateDeck(deckId, { isPublic })
+    }
+
+    /**
+     * Refresh the snapshot of an already-shared deck after its list changed.
+     * Non-blocking: a failed refresh leaves the previous snapshot online.
+     */
+    const refreshPublicDeck = async (deckId: string, cards: readonly DisplayDeckCard[]): Promise<void> => {
+        const deck = decks.value.find(d => d.id === deckId)
+        if (!authStore.user?.id || !deck?.isPublic) return
+        try {
+            await syncDeckToPublic(deck, cards, authStore.user.username)
+        } catch (error) {
+            logSanitizedError('Error refreshing public deck', error, 'warn')
+        }
+    }
+
+    /**
+     * Rebuild every public snapshot (after restoring a backup): republish the
+     * shared decks and remove snapshots of decks that are gone or no longer
+     * shared. `cardsOf` builds each deck's list the way DeckView does.
+     */
+    const syncAllPublicDecks = async (cardsOf: (deck: Deck) => readonly DisplayDeckCard[]): Promise<void> => {
+        const userId = authStore.user?.id
+        if (!userId) return
+        const shared = new Set(decks.value.filter(d => d.isPublic).map(d => d.id))
+        try {
+            const stale = (await loadUserPublicDecks(userId)).filter(p => !shared.has(p.deckId))
+            await Promise.all(stale.map(p => removeDeckFromPublic(p.deckId, userId)))
+        } catch (error) {
+            logSanitizedError('Error removing stale public decks', error, 'warn')
+        }
+        for (const deck of decks.value) {
+            if (deck.isPublic) await refreshPublicDeck(deck.id, cardsOf(deck))
+        }
+    }
+
+    /**
+     * "Copy to my decks" from a public deck page: creates a deck with the same
+     * list, allocating the visitor's free copies and sending the rest to the
+     * wishlist (see planPublicDeckCopy). One deck write at the end.
+     */
+    const copyPublicDeck = async (source: PublicDeck): Promise<string | null> => {
+        if (!authStore.user?.id) return null
+
+        const deckId = await createDeck({
+            name: source.name,
+            format: source.format,
+            description: source.description,
+            colors: source.colors,
+            commander: source.commander,
+        })
+        if (!deckId) return null
+
+        try {
+            const deck = decks.value.find(d => d.id === deckId)
+            if (!deck) return null
+
+            const collectionStore = useCollectionStore()
+            const plan = planPublicDeckCopy(source.cards, collectionStore.cards, getTotalAllocatedForCard)
+
+            for (const alloc of plan.allocations) {
+                upsertAllocation(deck.allocations, alloc.cardId, alloc.quantity, alloc.isInSideboard)
+            }
+            for (const card of plan.wishlist) {
+                const wishCardId = await collectionStore.ensureCollectionWishlistCard({
+                    scryfallId: card.scryfallId,
+                    name: card.name,
+                    edition: card.edition,
+                    setCode: card.setCode,
+                    quantity: card.quantity,
+                    condition: 'NM',
+                    foil: false,
+                    price: card.price,
+                    image: card.image,
+                    cmc: card.cmc,
+                    type_line: card.type_line,
+                    colors: card.colors,
+                })
+                if (wishCardId) upsertAllocation(deck.allocations, wishCardId, card.quantity, card.isInSideboard)
+            }
+
+            deck.stats = calculateStats(deck.allocations, deck.wishlist, collectionStore.cards)
+            deck.updatedAt = new Date()
+            await updateDoc(doc(db, 'users', authStore.user.id, 'decks', deckId), {
+                allocations: deck.allocations,
+                stats: deck.stats,
+                updatedAt: Timestamp.now(),
+            })
+
+            decks.value = decks.value.map(d => (d.id === deckId ? snapshotDeck(deck) : d))
+            if (currentDeck.value?.id === deckId) currentDeck.value = snapshotDeck(deck)
+            return deckId
+        } catch (error) {
+            logSanitizedError('Error copying public deck', error)
+            toastStore.show(t('decks.public.copyError'), 'error')
+            return deckId
+        }
+    }
+
     // ========================================================================
     // ALLOCATION OPERATIONS
     // ========================================================================
@@ -1262,8 +1389,12 @@ export const useDecksStore = defineStore('decks', () => {
             const decksRef = collection(db, 'users', authStore.user.id, 'decks')
             const snapshot = await getDocs(decksRef)
 
-            // Delete all deck documents
-            await Promise.all(snapshot.docs.map(docSnap => deleteDoc(docSnap.ref)))
+            // Delete all deck documents (and the public snapshot of shared ones)
+            const userId = authStore.user.id
+            await Promise.all(snapshot.docs.map(async (docSnap) => {
+                await deleteDoc(docSnap.ref)
+                if ((docSnap.data() as FirestoreDeckData).isPublic) await removeDeckFromPublic(docSnap.id, userId)
+            }))
 
             decks.value = []
             currentDeck.value = null
@@ -1461,6 +1592,12 @@ export const useDecksStore = defineStore('decks', () => {
         deleteAllDecks,
         toggleCommander,
 
+        // Public sharing
+        setDeckPublic,
+        refreshPublicDeck,
+        syncAllPublicDecks,
+        copyPublicDeck,
+
         // Allocation operations
         allocateCardToDeck,
         bulkAllocateCardsToDeck,
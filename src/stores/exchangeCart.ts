@@ -2,6 +2,7 @@ import { defineStore } from 'pinia'
 import { reactive } from 'vue'
 import { getCardPrices } from '@/services/mtgjson'
 import type { ExchangeCart, ExchangeCartItem, ExchangeCartStorage } from '@/types/exchangeCart'
+import { applyCkPricePercent } from '@/utils/binderStorefront'
 
 const STORAGE_KEY = 'cranial_exchange_carts'
 const SEVEN_DAYS = 7 * 24 * 60 * 60 * 1000
@@ -49,7 +50,12 @@ export const useExchangeCartStore = defineStore('exchangeCart', () => {
   // retailFoil does NOT fall back to the non-foil retail (that would
   // misrepresent a foil card's price), so the captured TCG price wins
   // instead (owner decision). Non-foil items use retail as before.
+  // Items from a binder storefront priced at "% de CK" take that percentage
+  // of the CK retail (the captured price already carries it). Items the
+  // seller priced themselves (pricing rules or a fixed price) are never
+  // upgraded: that price is the one they sell at.
   async function _upgradePriceFromCK(username: string, scryfallId: string, cardId: string, setCode?: string) {
+    if (_findItem(username, scryfallId, cardId)?.sellerPriced) return
     try {
       const prices = await getCardPrices(scryfallId, setCode)
       const ck = prices?.cardKingdom
@@ -64,7 +70,7 @@ export const useExchangeCartStore = defineStore('exchangeCart', () => {
       // Guard against a 0/null CK price clobbering a real captured TCG price.
       if (ckRetail == null || ckRetail <= 0) return
 
-      item.price = ckRetail
+      item.price = applyCkPricePercent(ckRetail, item.ckPricePercent)
       _persist()
     } catch {
       // Network/parse failure — keep the captured TCG price, no toast spam.
@@ -73,7 +79,7 @@ export const useExchangeCartStore = defineStore('exchangeCart', () => {
 
   // ─── Public API ──────────────────────────────────────────────────────
 
-  function addItem(username: string, item: ExchangeCartItem, setCode?: string) {
+  function addItem(username: string, item: ExchangeCartItem, setCode?: string, buyerId?: string) {
     // eslint-disable-next-line security/detect-object-injection
     if (!state.carts[username]) {
       const now = Date.now()
@@ -86,6 +92,10 @@ export const useExchangeCartStore = defineStore('exchangeCart', () => {
       }
     }
 
+    // Un carrito con sesión ya es del comprador: no se ofrece convertirlo en matches
+    // eslint-disable-next-line security/detect-object-injection
+    if (buyerId) state.carts[username].buyerId = buyerId
+
     const existing = _findItem(username, item.scryfallId, item.cardId)
     if (existing) {
       existing.quantity = Math.min(existing.quantity + item.quantity, existing.maxQuantity)
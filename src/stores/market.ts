@@ -17,7 +17,7 @@ export const useMarketStore = defineStore('market', () => {
     const toastStore = useToastStore()
 
     // State
-    const activeTab = ref<'portfolio' | 'wishlist' | 'movers' | 'staples'>('portfolio')
+    const activeTab = ref<'portfolio' | 'wishlist' | 'movers' | 'staples' | 'sets'>('portfolio')
     const selectedFormat = ref<FormatKey>('modern')
     const staples = ref<FormatStaples | null>(null)
     const staplesLoading = ref(false)
@@ -18,6 +18,9 @@ import { t } from '../composables/useI18n';
 import { getMatchExpirationDate } from '../utils/matchExpiry';
 import { dedupeMatchesByIdentity, matchIdentityKey } from '../utils/matchDedup';
 import { logSanitizedError } from '../utils/logSanitizedError';
+import type { CashOffer } from '../types/preferences';
+import type { Proximity } from '../types/location';
+import type { MatchScoreFactor } from '../types/matchScore';
 
 export interface MatchCard {
     scryfallId: string;
@@ -59,7 +62,12 @@ export interface SimpleMatch {
     myTotalValue?: number;
     theirTotalValue?: number;
     valueDifference?: number;
-    compatibility?: number;
+    compatibility?: number;       // Equilibrio de valor 0–100 (priceMatchingHelper)
+    score?: number;               // Puntaje del match 0–100 (utils/matchScore); los matches viejos no lo tienen
+    scoreFactors?: MatchScoreFactor[]; // Desglose del puntaje
+    cashOffer?: CashOffer | null; // Lo que el otro pagaría en efectivo por mis cartas (su buylist)
+    distanceKm?: number | null;   // Entre geohashes; null si alguno no tiene coordenadas
+    proximity?: Proximity;
     createdAt: Date;
     status?: 'nuevo' | 'visto' | 'activo' | 'eliminado';
     lifeExpiresAt?: Date;
@@ -87,6 +95,11 @@ interface FirestoreMatchData {
     theirTotalValue?: number;
     valueDifference?: number;
     compatibility?: number;
+    score?: number;
+    scoreFactors?: MatchScoreFactor[];
+    cashOffer?: CashOffer | null;
+    distanceKm?: number | null;
+    proximity?: Proximity;
     status?: string;
     createdAt?: unknown;
     lifeExpiresAt?: unknown;
@@ -155,6 +168,7 @@ function createCleanMatchPayload(match: SimpleMatch, overrides: Record<string, u
         otherCard: cleanCard(match.otherCard),
         myPreference: cleanPref(match.myPreference),
         otherPreference: cleanPref(match.otherPreference),
+        cashOffer: match.cashOffer ?? null,
     };
 
     // Apply overrides
@@ -217,6 +231,11 @@ export const useMatchesStore = defineStore('matches', () => {
             theirTotalValue: data.theirTotalValue ?? 0,
             valueDifference: data.valueDifference ?? 0,
             compatibility: data.compatibility ?? 0,
+            score: data.score,
+            scoreFactors: data.scoreFactors,
+            cashOffer: data.cashOffer ?? null,
+            distanceKm: data.distanceKm ?? null,
+            proximity: data.proximity,
             createdAt,
             status: data.status as SimpleMatch['status'],
             lifeExpiresAt,
@@ -763,6 +782,11 @@ export const useMatchesStore = defineStore('matches', () => {
         theirTotalValue: number
         valueDifference: number
         compatibility: number
+        score?: number
+        scoreFactors?: MatchScoreFactor[]
+        cashOffer?: CashOffer | null
+        distanceKm?: number | null
+        proximity?: Proximity
         type: 'VENDO' | 'BUSCO' | 'BIDIRECTIONAL' | 'UNIDIRECTIONAL'
         createdAt: Date
         lifeExpiresAt: Date
@@ -796,6 +820,11 @@ export const useMatchesStore = defineStore('matches', () => {
                     theirTotalValue: match.theirTotalValue,
                     valueDifference: match.valueDifference,
                     compatibility: match.compatibility,
+                    ...(match.score != null ? { score: match.score } : {}),
+                    ...(match.scoreFactors ? { scoreFactors: match.scoreFactors } : {}),
+                    ...(match.cashOffer ? { cashOffer: match.cashOffer } : {}),
+                    ...(match.distanceKm != null ? { distanceKm: match.distanceKm } : {}),
+                    ...(match.proximity ? { proximity: match.proximity } : {}),
                     type: match.type,
                     status: 'nuevo',
                     createdAt: match.createdAt,
@@ -820,6 +849,8 @@ export const useMatchesStore = defineStore('matches', () => {
                         myTotalValue: match.myTotalValue,
                         theirTotalValue: match.theirTotalValue,
                         valueDifference: match.valueDifference,
+                        // Mi puntaje es personal (mi historial con el otro): al otro le
+                        // llega solo el equilibrio de valor, que es el mismo para los dos
                         compatibility: match.compatibility,
                         type: match.type as 'BIDIRECTIONAL' | 'UNIDIRECTIONAL',
                     });
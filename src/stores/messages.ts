@@ -4,9 +4,10 @@ import { collection, doc, getDoc, getDocs, onSnapshot, query, setDoc, Timestamp,
 import { db } from '../services/firestore';
 import { useAuthStore } from './auth';
 import { useToastStore } from './toast';
-import { type Conversation, type Message } from '../types/message';
+import { type Conversation, type Message, type MessageAttachment } from '../types/message';
 import { t } from '../composables/useI18n';
 import { countUnreadMessages } from '../utils/messageUnread';
+import { attachmentCardCount, parseMessageAttachment } from '../utils/messageAttachment';
 import { chunkArray } from '../utils/chunkArray';
 import { logSanitizedError } from '../utils/logSanitizedError';
 
@@ -84,15 +85,29 @@ export const useMessagesStore = defineStore('messages', () => {
     };
 
     /**
-     * Enviar mensaje en una conversación
+     * Texto de lastMessage para un mensaje que solo trae adjunto: la lista de
+     * conversaciones guarda texto plano (TASK-091), no el adjunto.
      */
-    const sendMessage = async (conversationId: string, otherUserId: string, content: string): Promise<boolean> => {
+    const attachmentPreview = (attachment: MessageAttachment): string =>
+        t(`messages.attachments.preview.${attachment.kind}`, { count: attachmentCardCount(attachment) });
+
+    /**
+     * Enviar mensaje en una conversación, opcionalmente con cartas adjuntas
+     * (un mensaje con adjunto puede ir sin texto).
+     */
+    const sendMessage = async (
+        conversationId: string,
+        otherUserId: string,
+        content: string,
+        attachment?: MessageAttachment,
+    ): Promise<boolean> => {
         if (!authStore.user?.id) {
             console.error('❌ No authenticated user');
             return false;
         }
 
-        if (!content.trim()) {
+        const hasAttachment = !!attachment && attachment.cards.length > 0;
+        if (!content.trim() && !hasAttachment) {
             console.warn('⚠️ Empty message');
             return false;
         }
@@ -106,6 +121,7 @@ export const useMessagesStore = defineStore('messages', () => {
                 senderUsername: authStore.user.username,
                 recipientId: otherUserId,
                 content: content.trim(),
+                ...(hasAttachment ? { attachment } : {}),
                 createdAt: Timestamp.now(),
                 read: false,
             };
@@ -115,7 +131,7 @@ export const useMessagesStore = defineStore('messages', () => {
             // ✅ Actualizar lastMessage en conversación
             const conversationRef = doc(db, 'conversations', conversationId);
             await setDoc(conversationRef, {
-                lastMessage: content.trim(),
+                lastMessage: content.trim() || (attachment ? attachmentPreview(attachment) : ''),
                 lastMessageTime: Timestamp.now(),
             }, { merge: true });
 
@@ -263,7 +279,8 @@ export const useMessagesStore = defineStore('messages', () => {
                     senderId: string;
                     senderUsername: string;
                     recipientId: string;
-                    content: string;
+                    content?: string;
+                    attachment?: unknown;
                     createdAt?: { toDate: () => Date };
                     read?: boolean;
                 }
@@ -275,7 +292,8 @@ export const useMessagesStore = defineStore('messages', () => {
                             senderId: data.senderId,
                             senderUsername: data.senderUsername,
                             recipientId: data.recipientId,
-                            content: data.content,
+                            content: data.content ?? '',
+                            attachment: parseMessageAttachment(data.attachment),
                             createdAt: data.createdAt?.toDate() ?? new Date(),
                             read: data.read ?? false,
                         } as Message;
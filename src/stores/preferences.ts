@@ -2,13 +2,17 @@ import { defineStore } from 'pinia'
 import { computed, ref } from 'vue'
 import { useAuthStore } from './auth'
 import { useToastStore } from './toast'
-import { addDoc, collection, getDocs } from 'firebase/firestore'
+import { addDoc, collection, deleteDoc, doc, getDocs, updateDoc } from 'firebase/firestore'
 import { db } from '../services/firestore'
 import { type Preference, type PreferenceType } from '../types/preferences'
+import type { CardCondition } from '../types/card'
 import {
+    type PreferenceInput,
+    removePreferenceFromPublic,
     syncAllUserPreferences,
     syncPreferenceToPublic,
 } from '../services/publicCards'
+import { t } from '../composables/useI18n'
 import { logSanitizedError } from '../utils/logSanitizedError'
 
 export const usePreferencesStore = defineStore('preferences', () => {
@@ -18,6 +22,7 @@ export const usePreferencesStore = defineStore('preferences', () => {
     const loading = ref(false)
 
     const preferences = computed(() => _preferences.value)
+    const buylist = computed(() => _preferences.value.filter(p => p.type === 'COMPRO'))
 
     // Helper to get user info for public sync
     const getUserInfo = () => {
@@ -31,6 +36,28 @@ export const usePreferencesStore = defineStore('preferences', () => {
         }
     }
 
+    // Lo que se publica de una preferencia. Las de buylist llevan además la
+    // oferta, la condición mínima, las copias y el presupuesto del usuario.
+    const toPublicInput = (pref: Preference): PreferenceInput => {
+        if (pref.type !== 'COMPRO') return pref
+        return {
+            id: pref.id,
+            name: pref.name,
+            scryfallId: pref.scryfallId,
+            type: 'COMPRO',
+            minCondition: pref.condition,
+            quantity: pref.quantity,
+            ...(pref.offerPrice !== undefined ? { offerPrice: pref.offerPrice } : {}),
+            budget: authStore.user?.buylistBudget ?? null,
+        }
+    }
+
+    const syncToPublic = (pref: Preference) => {
+        const userInfo = getUserInfo()
+        if (!userInfo) return Promise.resolve()
+        return syncPreferenceToPublic(toPublicInput(pref), userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl)
+    }
+
     /**
      * CARGAR preferencias desde Firestore
      * Ruta: users/{userId}/preferences/{preferenceId}
@@ -72,6 +99,7 @@ export const usePreferencesStore = defineStore('preferences', () => {
         condition: 'M' | 'NM' | 'LP' | 'MP' | 'HP' | 'PO'
         edition: string
         image: string
+        offerPrice?: number
     }) => {
         if (!authStore.user?.id) throw new Error('No user logged in')
 
@@ -86,14 +114,11 @@ export const usePreferencesStore = defineStore('preferences', () => {
             _preferences.value.push(newPref)
 
             // Sync to public (non-blocking, toast on failure)
-            const userInfo = getUserInfo()
-            if (userInfo) {
-                syncPreferenceToPublic(newPref, userInfo.userId, userInfo.username, userInfo.location, userInfo.avatarUrl)
-                    .catch((err: unknown) => {
-                        logSanitizedError('[PublicSync] Error syncing preference', err)
-                        toastStore.show('Error sincronizando preferencia', 'error')
-                    })
-            }
+            syncToPublic(newPref)
+                .catch((err: unknown) => {
+                    logSanitizedError('[PublicSync] Error syncing preference', err)
+                    toastStore.show('Error sincronizando preferencia', 'error')
+                })
 
             console.info('Preference added:', prefData.name)
             return newPref
@@ -103,6 +128,63 @@ export const usePreferencesStore = defineStore('preferences', () => {
         }
     }
 
+    /**
+     * ACTUALIZAR una entrada del buylist (oferta, copias, condición mínima)
+     */
+    const updateBuylistEntry = async (
+        prefId: string,
+        changes: { offerPrice: number; quantity: number; condition: CardCondition },
+    ): Promise<boolean> => {
+        const pref = _preferences.value.find(p => p.id === prefId)
+        if (!authStore.user?.id || pref?.type !== 'COMPRO') return false
+
+        try {
+            await updateDoc(doc(db, 'users', authStore.user.id, 'preferences', prefId), changes)
+            Object.assign(pref, changes)
+            await syncToPublic(pref)
+            return true
+        } catch (error) {
+            logSanitizedError('❌ Error updating buylist entry', error)
+            toastStore.show(t('settings.buylist.error'), 'error')
+            return false
+        }
+    }
+
+    /**
+     * ELIMINAR una preferencia (y su copia pública)
+     */
+    const removePreference = async (prefId: string): Promise<boolean> => {
+        if (!authStore.user?.id) return false
+
+        try {
+            await deleteDoc(doc(db, 'users', authStore.user.id, 'preferences', prefId))
+            _preferences.value = _preferences.value.filter(p => p.id !== prefId)
+            await removePreferenceFromPublic(prefId, authStore.user.id)
+            return true
+        } catch (error) {
+            logSanitizedError('❌ Error removing preference', error)
+            toastStore.show(t('settings.buylist.error'), 'error')
+            return false
+        }
+    }
+
+    /**
+     * Guardar el presupuesto del buylist y volver a publicar sus entradas,
+     * que lo llevan copiado para el matching.
+     */
+    const setBuylistBudget = async (budget: number | null): Promise<boolean> => {
+        if (!await authStore.changeBuylistBudget(budget)) return false
+
+        try {
+            await Promise.all(buylist.value.map(syncToPublic))
+            return true
+        } catch (error) {
+            logSanitizedError('[PublicSync] Error syncing buylist budget', error)
+            toastStore.show(t('settings.buylist.error'), 'error')
+            return false
+        }
+    }
+
     /**
      * Bulk sync all preferences to public collection
      * Call this once to migrate existing data
@@ -113,7 +195,7 @@ export const usePreferencesStore = defineStore('preferences', () => {
 
         try {
             await syncAllUserPreferences(
-                _preferences.value,
+                _preferences.value.map(toPublicInput),
                 userInfo.userId,
                 userInfo.username,
                 userInfo.location,
@@ -134,9 +216,13 @@ export const usePreferencesStore = defineStore('preferences', () => {
 
     return {
         preferences,
+        buylist,
         loading,
         loadPreferences,
         addPreference,
+        updateBuylistEntry,
+        removePreference,
+        setBuylistBudget,
         syncAllToPublic,
         clear,
     }
@@ -0,0 +1,213 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getCountFromServer,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore'
+import { db } from '../services/firestore'
+import { getMtgjsonUuid } from '../services/mtgjson'
+import { useAuthStore } from './auth'
+import { priceAlertDocId, type PriceAlertValidationError, validatePriceAlert } from '../utils/priceAlert'
+import { logSanitizedError } from '../utils/logSanitizedError'
+import type { PriceAlert, PriceAlertEvent, PriceAlertInput, PriceAlertOrigin, PriceAlertSource } from '../types/priceAlert'
+
+const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate()
+  }
+  return new Date()
+}
+
+const toNumberOrNull = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null
+
+export const parsePriceAlert = (id: string, data: Record<string, unknown>): PriceAlert => ({
+  id,
+  scryfallId: (data.scryfallId as string) ?? '',
+  cardName: (data.cardName as string) ?? '',
+  setCode: (data.setCode as string) ?? '',
+  edition: (data.edition as string) ?? '',
+  image: (data.image as string) ?? '',
+  foil: data.foil === true,
+  source: (data.source as PriceAlertSource) ?? 'cardkingdom',
+  origin: (data.origin as PriceAlertOrigin) ?? 'wishlist',
+  cardId: (data.cardId as string) ?? '',
+  deckId: (data.deckId as string) ?? '',
+  below: toNumberOrNull(data.below),
+  above: toNumberOrNull(data.above),
+  basePrice: toNumberOrNull(data.basePrice),
+  mtgjsonUuid: (data.mtgjsonUuid as string) ?? '',
+  active: data.active !== false,
+  lastPrice: toNumberOrNull(data.lastPrice),
+  firedAt: data.firedAt ? toDate(data.firedAt) : null,
+  createdAt: toDate(data.createdAt),
+})
+
+export const parsePriceAlertEvent = (id: string, data: Record<string, unknown>): PriceAlertEvent => ({
+  id,
+  alertId: (data.alertId as string) ?? '',
+  scryfallId: (data.scryfallId as string) ?? '',
+  cardName: (data.cardName as string) ?? '',
+  setCode: (data.setCode as string) ?? '',
+  image: (data.image as string) ?? '',
+  foil: data.foil === true,
+  source: (data.source as PriceAlertSource) ?? 'cardkingdom',
+  direction: data.direction === 'above' ? 'above' : 'below',
+  threshold: toNumberOrNull(data.threshold) ?? 0,
+  price: toNumberOrNull(data.price) ?? 0,
+  read: data.read === true,
+  createdAt: toDate(data.createdAt),
+})
+
+export const usePriceAlertsStore = defineStore('priceAlerts', () => {
+  const alerts = ref<PriceAlert[]>([])
+  const events = ref<PriceAlertEvent[]>([])
+  /** Sin leer según el servidor; se pide con un count() para la campanita. */
+  const unreadCount = ref(0)
+  const alertsLoaded = ref(false)
+
+  const authStore = useAuthStore()
+
+  const alertsCol = (uid: string) => collection(db, 'users', uid, 'price_alerts')
+  const eventsCol = (uid: string) => collection(db, 'users', uid, 'price_alert_events')
+
+  const activeAlerts = computed(() => alerts.value.filter(a => a.active))
+
+  const alertFor = (scryfallId: string, foil: boolean): PriceAlert | null => {
+    const id = priceAlertDocId(scryfallId, foil)
+    return alerts.value.find(a => a.id === id) ?? null
+  }
+
+  const loadAlerts = async (force = false): Promise<void> => {
+    if (!authStore.user || (alertsLoaded.value && !force)) return
+    try {
+      const snapshot = await getDocs(alertsCol(authStore.user.id))
+      alerts.value = snapshot.docs.map(d => parsePriceAlert(d.id, d.data() as Record<string, unknown>))
+      alertsLoaded.value = true
+    } catch (err) {
+      logSanitizedError('loadPriceAlerts error', err, 'warn')
+    }
+  }
+
+  /**
+   * Crea o reemplaza la alerta de esa impresión y la deja activa — guardar
+   * una alerta ya disparada es la forma de rearmarla.
+   */
+  const saveAlert = async (
+    input: PriceAlertInput,
+  ): Promise<{ ok: boolean; error?: PriceAlertValidationError | 'failed' }> => {
+    if (!authStore.user) return { ok: false, error: 'failed' }
+    const invalid = validatePriceAlert(input)
+    if (invalid) return { ok: false, error: invalid }
+
+    const id = priceAlertDocId(input.scryfallId, input.foil)
+    const data = {
+      scryfallId: input.scryfallId,
+      cardName: input.cardName,
+      setCode: input.setCode,
+      edition: input.edition,
+      image: input.image,
+      foil: input.foil,
+      source: input.source,
+      origin: input.origin,
+      cardId: input.cardId ?? '',
+      deckId: input.deckId ?? '',
+      below: input.below,
+      above: input.above,
+      basePrice: input.basePrice,
+      mtgjsonUuid: getMtgjsonUuid(input.scryfallId),
+      active: true,
+      lastPrice: input.basePrice,
+      firedAt: null,
+      createdAt: new Date(),
+    }
+    try {
+      await setDoc(doc(db, 'users', authStore.user.id, 'price_alerts', id), data)
+      const saved = parsePriceAlert(id, data)
+      alerts.value = [...alerts.value.filter(a => a.id !== id), saved]
+      return { ok: true }
+    } catch (err) {
+      logSanitizedError('savePriceAlert error', err)
+      return { ok: false, error: 'failed' }
+    }
+  }
+
+  const deleteAlert = async (id: string): Promise<boolean> => {
+    if (!authStore.user) return false
+    try {
+      await deleteDoc(doc(db, 'users', authStore.user.id, 'price_alerts', id))
+      alerts.value = alerts.value.filter(a => a.id !== id)
+      return true
+    } catch (err) {
+      logSanitizedError('deletePriceAlert error', err)
+      return false
+    }
+  }
+
+  /**
+   * Una sola lectura de agregado: la campanita monta en todas las rutas
+   * (ver TASK-148 en MatchNotificationsDropdown), así que el listado completo
+   * se deja para cuando se abre.
+   */
+  const loadUnreadCount = async (): Promise<void> => {
+    if (!authStore.user) return
+    try {
+      const snap = await getCountFromServer(query(eventsCol(authStore.user.id), where('read', '==', false)))
+      unreadCount.value = snap.data().count
+    } catch (err) {
+      logSanitizedError('loadPriceAlertUnreadCount error', err, 'warn')
+    }
+  }
+
+  const loadEvents = async (max = 10): Promise<void> => {
+    if (!authStore.user) return
+    try {
+      const snapshot = await getDocs(query(eventsCol(authStore.user.id), orderBy('createdAt', 'desc'), limit(max)))
+      events.value = snapshot.docs.map(d => parsePriceAlertEvent(d.id, d.data() as Record<string, unknown>))
+    } catch (err) {
+      logSanitizedError('loadPriceAlertEvents error', err, 'warn')
+    }
+  }
+
+  /** Marca como leídas las que están cargadas (las que el usuario acaba de ver). */
+  const markEventsRead = async (): Promise<void> => {
+    if (!authStore.user) return
+    const unread = events.value.filter(e => !e.read)
+    if (unread.length === 0) return
+    try {
+      const batch = writeBatch(db)
+      for (const e of unread) {
+        batch.update(doc(db, 'users', authStore.user.id, 'price_alert_events', e.id), { read: true })
+      }
+      await batch.commit()
+      events.value = events.value.map(e => ({ ...e, read: true }))
+      unreadCount.value = Math.max(0, unreadCount.value - unread.length)
+    } catch (err) {
+      logSanitizedError('markPriceAlertEventsRead error', err, 'warn')
+    }
+  }
+
+  return {
+    alerts,
+    events,
+    unreadCount,
+    activeAlerts,
+    alertFor,
+    loadAlerts,
+    saveAlert,
+    deleteAlert,
+    loadUnreadCount,
+    loadEvents,
+    markEventsRead,
+  }
+})
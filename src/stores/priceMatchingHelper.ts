@@ -1,6 +1,7 @@
 import { defineStore } from 'pinia'
 import { type Card } from '../types/card'
-import { type Preference } from '../types/preferences'
+import { type CashOffer, type Preference, type PreferenceType } from '../types/preferences'
+import { calculateCashOffer } from '../utils/buylist'
 import { logSanitizedError } from '../utils/logSanitizedError'
 
 interface MatchCalculation {
@@ -13,24 +14,33 @@ interface MatchCalculation {
     theirTotalValue: number
 
     valueDifference: number
+    /** Equilibrio de valor 0–100; el puntaje del match lo arma utils/matchScore. */
     compatibility: number
+    /** Cartas distintas cubiertas: las que busca el otro y le doy + las que busco yo y me da. */
+    wantedCovered: number
     isValid: boolean
     matchType: 'bidirectional' | 'unidirectional'
+
+    /** Lo que me pagarían en efectivo por mis cartas según su buylist (COMPRO). */
+    cashOffer: CashOffer | null
 }
 
+/** Preferencias que dicen "quiero esta carta": la busco o la compro. */
+const WANTED_TYPES = new Set<PreferenceType>(['BUSCO', 'COMPRO'])
+
 /**
- * Index the FIRST BUSCO preference per lowercased name.
+ * Index the FIRST wanted (BUSCO or COMPRO) preference per lowercased name.
  *
  * Replaces a `theirPreferences.find(...)` performed inside a loop over the whole
  * collection, which made the pass O(cards x preferences) — ~9M case-insensitive
  * comparisons per candidate user on a 59k collection, each allocating two
  * lowercased strings. "First wins" is deliberate: it is the behaviour `find`
- * already had, and a same-named non-BUSCO entry must not shadow a BUSCO one.
+ * already had, and a same-named CAMBIO/VENDO entry must not shadow a wanted one.
  */
-function indexFirstBuscoPreferenceByName(preferences: Preference[]): Map<string, Preference> {
+function indexFirstWantedPreferenceByName(preferences: Preference[]): Map<string, Preference> {
     const byName = new Map<string, Preference>()
     for (const pref of preferences) {
-        if (pref.type !== 'BUSCO' || !pref.name) continue
+        if (!WANTED_TYPES.has(pref.type) || !pref.name) continue
         const key = pref.name.toLowerCase()
         if (!byName.has(key)) byName.set(key, pref)
     }
@@ -55,6 +65,11 @@ function indexOfferableCardsByName(cards: Card[]): Map<string, Card[]> {
     return byName
 }
 
+/** Cartas distintas (por nombre) de una oferta. */
+function countDistinctNames(cards: Card[]): number {
+    return new Set(cards.map(c => c.name.toLowerCase())).size
+}
+
 export const usePriceMatchingStore = defineStore('priceMatching', () => {
 
     /**
@@ -71,7 +86,7 @@ export const usePriceMatchingStore = defineStore('priceMatching', () => {
     }
 
     /**
-     * Calcular compatibilidad basada en diferencia de precio
+     * Equilibrio de valor entre las dos partes (un factor del puntaje del match)
      * 100% = exacta, 90% = ~$10 de diferencia, etc
      */
     const calculateCompatibility = (myValue: number, theirValue: number): number => {
@@ -84,26 +99,29 @@ export const usePriceMatchingStore = defineStore('priceMatching', () => {
 
     /**
      * MATCH BIDIRECCIONAL:
-     * Yo tengo lo que él BUSCA AND él tiene lo que yo BUSCO
+     * Yo tengo lo que él BUSCA/COMPRA AND él tiene lo que yo BUSCO/COMPRO
+     * Si su buylist cubre mis cartas, cashOffer trae lo que me pagaría
+     * (theirBudget = su presupuesto de buylist, sin tope si no hay)
      */
     const calculateBidirectionalMatch = (
         myCards: Card[],
         myPreferences: Preference[],
         theirCards: Card[],
-        theirPreferences: Preference[]
+        theirPreferences: Preference[],
+        theirBudget?: number | null
     ): MatchCalculation | null => {
         const myOffering: Card[] = []
         let myValue = 0
 
-        // Indexed once per call — see indexFirstBuscoPreferenceByName.
-        const theirBuscoByName = indexFirstBuscoPreferenceByName(theirPreferences)
+        // Indexed once per call — see indexFirstWantedPreferenceByName.
+        const theirWantedByName = indexFirstWantedPreferenceByName(theirPreferences)
         const theirOfferableByName = indexOfferableCardsByName(theirCards)
 
-        // Mi oferta: cartas que ELLOS BUSCAN (solo BUSCO)
+        // Mi oferta: cartas que ELLOS BUSCAN o COMPRAN
         for (const myCard of myCards) {
             if (myCard.status === 'wishlist' || !myCard.name) continue
 
-            const matchingPref = theirBuscoByName.get(myCard.name.toLowerCase())
+            const matchingPref = theirWantedByName.get(myCard.name.toLowerCase())
 
             if (matchingPref) {
                 // Usar la cantidad que ELLOS BUSCAN, limitada a lo que YO TENGO
@@ -118,12 +136,12 @@ export const usePriceMatchingStore = defineStore('priceMatching', () => {
             }
         }
 
-        // Su oferta: cartas que YO BUSCO (solo BUSCO)
+        // Su oferta: cartas que YO BUSCO o COMPRO
         const theirOffering: Card[] = []
         let theirValue = 0
 
         for (const myPref of myPreferences) {
-            if (myPref.type !== 'BUSCO' || !myPref.name) continue
+            if (!WANTED_TYPES.has(myPref.type) || !myPref.name) continue
 
             const matching = theirOfferableByName.get(myPref.name.toLowerCase()) ?? []
 
@@ -158,14 +176,16 @@ export const usePriceMatchingStore = defineStore('priceMatching', () => {
 
             valueDifference: myValue - theirValue,
             compatibility: calculateCompatibility(myValue, theirValue),
+            wantedCovered: countDistinctNames(myOffering) + countDistinctNames(theirOffering),
             isValid: true,
             matchType: 'bidirectional',
+            cashOffer: calculateCashOffer(myCards, theirPreferences, theirBudget),
         }
     }
 
     /**
      * MATCH UNIDIRECCIONAL - SIMPLIFICADO:
-     * Yo tengo lo que él BUSCA
+     * Yo tengo lo que él BUSCA/COMPRA
      * O él tiene (en colección) lo que yo BUSCO/CAMBIO/VENDO
      *
      * NO importa el tipo de preferencia del otro usuario
@@ -175,21 +195,22 @@ export const usePriceMatchingStore = defineStore('priceMatching', () => {
         myCards: Card[],
         myPreferences: Preference[],
         theirCards: Card[],
-        theirPreferences: Preference[]
+        theirPreferences: Preference[],
+        theirBudget?: number | null
     ): MatchCalculation | null => {
         try {
             const myOffering: Card[] = []
             let myValue = 0
 
-            // Indexed once per call — see indexFirstBuscoPreferenceByName.
-            const theirBuscoByName = indexFirstBuscoPreferenceByName(theirPreferences)
+            // Indexed once per call — see indexFirstWantedPreferenceByName.
+            const theirWantedByName = indexFirstWantedPreferenceByName(theirPreferences)
             const theirOfferableByName = indexOfferableCardsByName(theirCards)
 
-            // Mi oferta: cartas que ELLOS BUSCAN (solo BUSCO)
+            // Mi oferta: cartas que ELLOS BUSCAN o COMPRAN
             for (const myCard of myCards) {
                 if (myCard.status === 'wishlist' || !myCard.name) continue
 
-                const matchingPref = theirBuscoByName.get(myCard.name.toLowerCase())
+                const matchingPref = theirWantedByName.get(myCard.name.toLowerCase())
 
                 if (matchingPref) {
                     // Usar la cantidad que ELLOS BUSCAN, limitada a lo que YO TENGO
@@ -241,8 +262,10 @@ export const usePriceMatchingStore = defineStore('priceMatching', () => {
 
                 valueDifference: myValue - theirValue,
                 compatibility: calculateCompatibility(myValue, theirValue),
+                wantedCovered: countDistinctNames(myOffering) + countDistinctNames(theirOffering),
                 isValid: true,
                 matchType: 'unidirectional',
+                cashOffer: calculateCashOffer(myCards, theirPreferences, theirBudget),
             }
         } catch (error) {
             logSanitizedError('Error en calculateUnidirectionalMatch', error)
@@ -0,0 +1,230 @@
+import { defineStore } from 'pinia'
+import { ref } from 'vue'
+import {
+  average,
+  collection,
+  count,
+  doc,
+  getAggregateFromServer,
+  getDoc,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  setDoc,
+  where,
+} from 'firebase/firestore'
+import { db } from '../services/firestore'
+import { useAuthStore } from './auth'
+import { useBuyRequestsStore } from './buyRequests'
+import { useTradeProposalsStore } from './tradeProposals'
+import { isValidRating, REVIEW_COMMENT_MAX, reviewDocId } from '../utils/reputation'
+import { isSoldBuyRequest } from '../utils/buyRequest'
+import { logSanitizedError } from '../utils/logSanitizedError'
+import type { ReputationSummary, ReviewableTrade, ReviewTradeType, TradeReview } from '../types/review'
+
+const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate()
+  }
+  return new Date()
+}
+
+export const parseReview = (id: string, data: Record<string, unknown>): TradeReview => ({
+  id,
+  tradeType: (data.tradeType as ReviewTradeType) ?? 'proposal',
+  tradeId: (data.tradeId as string) ?? '',
+  tradeOwnerId: (data.tradeOwnerId as string) ?? '',
+  reviewerId: (data.reviewerId as string) ?? '',
+  reviewerUsername: (data.reviewerUsername as string) ?? '',
+  revieweeId: (data.revieweeId as string) ?? '',
+  rating: (data.rating as number) ?? 0,
+  comment: (data.comment as string) ?? '',
+  createdAt: toDate(data.createdAt),
+})
+
+export const useReviewsStore = defineStore('reviews', () => {
+  /** Agregado por usuario, cacheado para listas (matches, hover cards). */
+  const reputations = ref<Record<string, ReputationSummary>>({})
+  /** reviewDocId de las reseñas que ya escribí (o que sé que existen). */
+  const reviewedIds = ref<Set<string>>(new Set())
+
+  const authStore = useAuthStore()
+
+  const reputationOf = (userId: string): ReputationSummary | null =>
+    // eslint-disable-next-line security/detect-object-injection
+    reputations.value[userId] ?? null
+
+  /**
+   * count() + average() del lado del servidor: dos lecturas de índice, no una
+   * por reseña, así que sirve igual para un perfil con 3 o con 3.000.
+   */
+  const loadReputation = async (userId: string, force = false): Promise<ReputationSummary | null> => {
+    if (!userId) return null
+    const cached = reputationOf(userId)
+    if (cached && !force) return cached
+    try {
+      const snap = await getAggregateFromServer(
+        query(collection(db, 'reviews'), where('revieweeId', '==', userId)),
+        { total: count(), avgRating: average('rating') },
+      )
+      const data = snap.data()
+      const summary: ReputationSummary = {
+        count: data.total,
+        average: data.avgRating === null ? 0 : Math.round(data.avgRating * 10) / 10,
+      }
+      reputations.value = { ...reputations.value, [userId]: summary }
+      return summary
+    } catch (err) {
+      logSanitizedError('loadReputation error', err, 'warn')
+      return null
+    }
+  }
+
+  /** Varias a la vez, solo las que no están en caché. */
+  const loadReputations = async (userIds: readonly string[]): Promise<void> => {
+    const missing = [...new Set(userIds)].filter(id => id && !reputationOf(id))
+    await Promise.all(missing.map(id => loadReputation(id)))
+  }
+
+  const loadRecentReviews = async (userId: string, max = 5): Promise<TradeReview[]> => {
+    if (!userId) return []
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'reviews'),
+        where('revieweeId', '==', userId),
+        orderBy('createdAt', 'desc'),
+        limit(max),
+      ))
+      return snapshot.docs.map(d => parseReview(d.id, d.data() as Record<string, unknown>))
+    } catch (err) {
+      logSanitizedError('loadRecentReviews error', err, 'warn')
+      return []
+    }
+  }
+
+  const hasReviewed = async (tradeType: ReviewTradeType, tradeId: string): Promise<boolean> => {
+    if (!authStore.user) return false
+    const id = reviewDocId(tradeType, tradeId, authStore.user.id)
+    if (reviewedIds.value.has(id)) return true
+    try {
+      const snap = await getDoc(doc(db, 'reviews', id))
+      if (snap.exists()) reviewedIds.value = new Set(reviewedIds.value).add(id)
+      return snap.exists()
+    } catch (err) {
+      logSanitizedError('hasReviewed error', err, 'warn')
+      return false
+    }
+  }
+
+  /**
+   * Intercambios con `otherUserId` que todavía puedo reseñar: propuestas
+   * completadas (store de propuestas) y solicitudes de compra cumplidas, en
+   * las dos direcciones — las que recibí yo como vendedor (store de buy
+   * requests) y las que mandé como comprador a su perfil (query por buyerId,
+   * que las reglas permiten al comprador).
+   */
+  const findReviewableTrades = async (otherUserId: string): Promise<ReviewableTrade[]> => {
+    if (!authStore.user || !otherUserId || otherUserId === authStore.user.id) return []
+    const me = authStore.user.id
+    const candidates: ReviewableTrade[] = []
+
+    const proposalsStore = useTradeProposalsStore()
+    if (proposalsStore.proposals.length === 0) await proposalsStore.loadProposals()
+    for (const p of proposalsStore.proposals) {
+      if (p.status !== 'completed' || !p.participantIds.includes(otherUserId)) continue
+      candidates.push({
+        tradeType: 'proposal',
+        tradeId: p.id,
+        tradeOwnerId: '',
+        revieweeId: otherUserId,
+        revieweeUsername: p.initiatorId === me ? p.recipientUsername : p.initiatorUsername,
+        date: p.completedAt ?? p.updatedAt,
+      })
+    }
+
+    const buyRequestsStore = useBuyRequestsStore()
+    if (buyRequestsStore.buyRequests.length === 0) await buyRequestsStore.loadBuyRequests()
+    for (const r of buyRequestsStore.buyRequests) {
+      if (!isSoldBuyRequest(r.status) || r.buyerId !== otherUserId) continue
+      candidates.push({
+        tradeType: 'buyRequest',
+        tradeId: r.id,
+        tradeOwnerId: me,
+        revieweeId: otherUserId,
+        revieweeUsername: r.buyerUsername || r.buyerName,
+        date: r.createdAt,
+      })
+    }
+
+    try {
+      const snapshot = await getDocs(query(
+        collection(db, 'users', otherUserId, 'buyRequests'),
+        where('buyerId', '==', me),
+        where('status', 'in', ['fulfilled', 'partially_fulfilled']),
+      ))
+      for (const d of snapshot.docs) {
+        const data = d.data() as Record<string, unknown>
+        candidates.push({
+          tradeType: 'buyRequest',
+          tradeId: d.id,
+          tradeOwnerId: otherUserId,
+          revieweeId: otherUserId,
+          revieweeUsername: '',
+          date: toDate(data.createdAt),
+        })
+      }
+    } catch (err) {
+      logSanitizedError('findReviewableTrades buyRequests error', err, 'warn')
+    }
+
+    const reviewed = await Promise.all(candidates.map(c => hasReviewed(c.tradeType, c.tradeId)))
+    return candidates
+      .filter((_, i) => reviewed.at(i) !== true)
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+  }
+
+  const submitReview = async (
+    trade: ReviewableTrade,
+    rating: number,
+    comment: string,
+  ): Promise<{ ok: boolean; error?: 'invalid' | 'already-reviewed' | 'failed' }> => {
+    if (!authStore.user || trade.revieweeId === authStore.user.id) return { ok: false, error: 'invalid' }
+    const text = comment.trim()
+    if (!isValidRating(rating) || text.length > REVIEW_COMMENT_MAX) return { ok: false, error: 'invalid' }
+    if (await hasReviewed(trade.tradeType, trade.tradeId)) return { ok: false, error: 'already-reviewed' }
+
+    const id = reviewDocId(trade.tradeType, trade.tradeId, authStore.user.id)
+    try {
+      await setDoc(doc(db, 'reviews', id), {
+        tradeType: trade.tradeType,
+        tradeId: trade.tradeId,
+        tradeOwnerId: trade.tradeOwnerId,
+        reviewerId: authStore.user.id,
+        reviewerUsername: authStore.user.username,
+        revieweeId: trade.revieweeId,
+        rating,
+        comment: text,
+        createdAt: new Date(),
+      })
+      reviewedIds.value = new Set(reviewedIds.value).add(id)
+      await loadReputation(trade.revieweeId, true)
+      return { ok: true }
+    } catch (err) {
+      logSanitizedError('submitReview error', err)
+      return { ok: false, error: 'failed' }
+    }
+  }
+
+  return {
+    reputations,
+    reputationOf,
+    loadReputation,
+    loadReputations,
+    loadRecentReviews,
+    hasReviewed,
+    findReviewableTrades,
+    submitReview,
+  }
+})
@@ -0,0 +1,231 @@
+import { defineStore } from 'pinia'
+import { computed, ref } from 'vue'
+import { addDoc, collection, doc, getDocs, query, runTransaction, where } from 'firebase/firestore'
+import { db } from '../services/firestore'
+import { completeTrade as completeTradeFn } from '../services/cloudFunctions'
+import { useAuthStore } from './auth'
+import { useCollectionStore } from './collection'
+import type { SimpleMatch } from './matches'
+import { canComplete, canPerform, draftToRevision, isDraftEmpty, TERMINAL_STATUS } from '../utils/tradeProposal'
+import { logSanitizedError } from '../utils/logSanitizedError'
+import type {
+  TradeDraft,
+  TradeProposal,
+  TradeProposalAction,
+  TradeProposalRevision,
+  TradeProposalStatus,
+  TradeShortage,
+} from '../types/tradeProposal'
+
+const toDate = (value: unknown): Date => {
+  if (value instanceof Date) return value
+  if (value && typeof value === 'object' && 'toDate' in value && typeof (value as { toDate: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate()
+  }
+  return new Date()
+}
+
+const parseRevision = (raw: Record<string, unknown>): TradeProposalRevision => ({
+  authorId: (raw.authorId as string) ?? '',
+  initiatorCards: (raw.initiatorCards as TradeProposalRevision['initiatorCards']) ?? [],
+  recipientCards: (raw.recipientCards as TradeProposalRevision['recipientCards']) ?? [],
+  cashAmount: (raw.cashAmount as number) ?? 0,
+  cashFromId: (raw.cashFromId as string | null) ?? null,
+  note: (raw.note as string) ?? '',
+  createdAt: toDate(raw.createdAt),
+})
+
+export const parseTradeProposal = (id: string, data: Record<string, unknown>): TradeProposal => ({
+  id,
+  matchId: (data.matchId as string) ?? '',
+  initiatorId: (data.initiatorId as string) ?? '',
+  initiatorUsername: (data.initiatorUsername as string) ?? '',
+  recipientId: (data.recipientId as string) ?? '',
+  recipientUsername: (data.recipientUsername as string) ?? '',
+  participantIds: (data.participantIds as string[]) ?? [],
+  status: (data.status as TradeProposalStatus) ?? 'open',
+  acceptedBy: (data.acceptedBy as string | undefined) ?? null,
+  revisions: ((data.revisions as Record<string, unknown>[]) ?? []).map(parseRevision),
+  createdAt: toDate(data.createdAt),
+  updatedAt: toDate(data.updatedAt),
+  completedAt: data.completedAt ? toDate(data.completedAt) : null,
+})
+
+export const useTradeProposalsStore = defineStore('tradeProposals', () => {
+  const proposals = ref<TradeProposal[]>([])
+  const loading = ref(false)
+
+  const authStore = useAuthStore()
+
+  /** Abiertas donde me toca responder — para el badge de la pestaña. */
+  const awaitingMeCount = computed(() => {
+    const uid = authStore.user?.id ?? ''
+    return proposals.value.filter(p => canPerform(p, uid, 'accept')).length
+  })
+
+  /** Propuesta abierta (o la más reciente) asociada a un match. */
+  const findByMatch = (matchId: string): TradeProposal | undefined =>
+    proposals.value.find(p => p.matchId === matchId && p.status === 'open')
+    ?? proposals.value.find(p => p.matchId === matchId)
+
+  const loadProposals = async (): Promise<void> => {
+    if (!authStore.user) return
+    loading.value = true
+    try {
+      const q = query(collection(db, 'trade_proposals'), where('participantIds', 'array-contains', authStore.user.id))
+      const snapshot = await getDocs(q)
+      proposals.value = snapshot.docs
+        .map(d => parseTradeProposal(d.id, d.data() as Record<string, unknown>))
+        .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    } catch (err) {
+      logSanitizedError('loadProposals error', err)
+      proposals.value = []
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /** Abre una propuesta a partir de un match con el borrador inicial. */
+  const createProposal = async (match: SimpleMatch, draft: TradeDraft): Promise<TradeProposal | null> => {
+    if (!authStore.user || !match.otherUserId) return null
+    if (isDraftEmpty(draft)) return null
+
+    const now = new Date()
+    const participants = { initiatorId: authStore.user.id, recipientId: match.otherUserId }
+    const revision = draftToRevision(draft, participants, authStore.user.id, now)
+    const payload = {
+      matchId: match.id ?? '',
+      initiatorId: participants.initiatorId,
+      initiatorUsername: authStore.user.username,
+      recipientId: participants.recipientId,
+      recipientUsername: match.otherUsername,
+      participantIds: [participants.initiatorId, participants.recipientId],
+      status: 'open' as TradeProposalStatus,
+      revisions: [revision],
+      createdAt: now,
+      updatedAt: now,
+      completedAt: null,
+    }
+
+    try {
+      const docRef = await addDoc(collection(db, 'trade_proposals'), payload)
+      const created: TradeProposal = { id: docRef.id, ...payload, acceptedBy: null }
+      proposals.value = [created, ...proposals.value]
+      return created
+    } catch (err) {
+      logSanitizedError('createProposal error', err)
+      return null
+    }
+  }
+
+  /**
+   * Aplica una acción (contraoferta o cierre) dentro de una transacción.
+   *
+   * Se relee el documento antes de escribir porque los dos participantes
+   * editan el mismo doc: si el otro contraofertó mientras yo miraba la versión
+   * anterior, aceptar sobre el estado local aceptaría algo que ya no está en la
+   * mesa. La transacción compara el número de revisiones y aborta si cambió.
+   */
+  const applyAction = async (
+    proposalId: string,
+    action: TradeProposalAction,
+    draft?: TradeDraft,
+  ): Promise<{ ok: boolean; error?: 'stale' | 'not-allowed' | 'failed' }> => {
+    if (!authStore.user) return { ok: false, error: 'not-allowed' }
+    const local = proposals.value.find(p => p.id === proposalId)
+    if (!local || !canPerform(local, authStore.user.id, action)) return { ok: false, error: 'not-allowed' }
+    if (action === 'counter' && (!draft || isDraftEmpty(draft))) return { ok: false, error: 'not-allowed' }
+
+    const uid = authStore.user.id
+    const expectedRevisions = local.revisions.length
+    const ref_ = doc(db, 'trade_proposals', proposalId)
+    const now = new Date()
+
+    try {
+      const updated = await runTransaction(db, async (tx) => {
+        const snap = await tx.get(ref_)
+        if (!snap.exists()) throw new Error('stale')
+        const current = parseTradeProposal(snap.id, snap.data() as Record<string, unknown>)
+        if (current.revisions.length !== expectedRevisions || !canPerform(current, uid, action)) {
+          throw new Error('stale')
+        }
+
+        const patch: Partial<TradeProposal> = { updatedAt: now }
+        if (action === 'counter' && draft) {
+          patch.revisions = [...current.revisions, draftToRevision(draft, current, uid, now)]
+        } else if (action !== 'counter') {
+          // eslint-disable-next-line security/detect-object-injection
+          patch.status = TERMINAL_STATUS[action]
+          // Las reglas solo dejan aceptar con acceptedBy = quien acepta
+          if (action === 'accept') patch.acceptedBy = uid
+        }
+        tx.update(ref_, patch)
+        return { ...current, ...patch }
+      })
+
+      proposals.value = proposals.value.map(p => (p.id === proposalId ? updated : p))
+      return { ok: true }
+    } catch (err) {
+      if (err instanceof Error && err.message === 'stale') {
+        await loadProposals()
+        return { ok: false, error: 'stale' }
+      }
+      logSanitizedError(`tradeProposal ${action} error`, err)
+      return { ok: false, error: 'failed' }
+    }
+  }
+
+  /**
+   * Mueve las cartas de una propuesta aceptada entre las dos colecciones.
+   * Todo pasa en la Cloud Function (una transacción sobre ambas colecciones);
+   * acá solo se traduce el resultado y se recarga la colección propia, que
+   * acaba de cambiar por fuera de este cliente.
+   */
+  const completeTrade = async (
+    proposalId: string,
+  ): Promise<{ ok: boolean; error?: 'shortage' | 'not-allowed' | 'failed'; shortages?: TradeShortage[] }> => {
+    if (!authStore.user) return { ok: false, error: 'not-allowed' }
+    const local = proposals.value.find(p => p.id === proposalId)
+    if (!local || !canComplete(local, authStore.user.id)) return { ok: false, error: 'not-allowed' }
+
+    try {
+      await completeTradeFn(proposalId)
+    } catch (err) {
+      const fnError = err as { code?: string; details?: { reason?: string; shortages?: TradeShortage[] } }
+      if (fnError.code === 'functions/failed-precondition' && fnError.details?.reason === 'shortage') {
+        return { ok: false, error: 'shortage', shortages: fnError.details.shortages ?? [] }
+      }
+      logSanitizedError('completeTrade error', err)
+      if (fnError.code === 'functions/failed-precondition') await loadProposals()
+      return { ok: false, error: 'failed' }
+    }
+
+    const now = new Date()
+    proposals.value = proposals.value.map(p =>
+      (p.id === proposalId ? { ...p, status: 'completed' as TradeProposalStatus, completedAt: now, updatedAt: now } : p),
+    )
+    useCollectionStore().loadCollection().catch((err: unknown) => {
+      logSanitizedError('completeTrade: collection reload failed', err, 'warn')
+    })
+    return { ok: true }
+  }
+
+  const counterOffer = (proposalId: string, draft: TradeDraft) => applyAction(proposalId, 'counter', draft)
+  const acceptProposal = (proposalId: string) => applyAction(proposalId, 'accept')
+  const declineProposal = (proposalId: string) => applyAction(proposalId, 'decline')
+  const withdrawProposal = (proposalId: string) => applyAction(proposalId, 'withdraw')
+
+  return {
+    proposals,
+    loading,
+    awaitingMeCount,
+    findByMatch,
+    loadProposals,
+    createProposal,
+    counterOffer,
+    acceptProposal,
+    declineProposal,
+    withdrawProposal,
+    completeTrade,
+  }
+})
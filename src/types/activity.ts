@@ -0,0 +1,41 @@
+/**
+ * Registro de actividad de la colección (users/{uid}/activity).
+ *
+ * Cada operación (alta, edición, borrado, importación, trade) deja UNA
+ * cabecera con el resumen y los cambios carta por carta en la subcolección
+ * activity/{id}/changes, partidos en documentos de ACTIVITY_PART_SIZE para
+ * no chocar con el límite de 1MB por documento cuando se borran miles de
+ * cartas. Con el `before` de cada cambio se puede deshacer la operación
+ * entera o restaurar una sola carta.
+ */
+export type ActivityKind = 'add' | 'update' | 'delete' | 'import' | 'trade'
+
+/** Campos de la carta tal como se guardan en su doc (sin id ni timestamps). */
+export type ActivityCardData = Record<string, unknown>
+
+export interface ActivityChange {
+  cardId: string
+  name: string
+  /** null = la carta no existía antes (alta, importación, carta recibida). */
+  before: ActivityCardData | null
+  /** null = la carta dejó de existir (borrado, carta entregada en un trade). */
+  after: ActivityCardData | null
+}
+
+export interface ActivityEntry {
+  id: string
+  kind: ActivityKind
+  /** Operación masiva (selección, borrar todo, importación): se puede deshacer entera por un rato. */
+  bulk: boolean
+  count: number
+  /** Hasta ACTIVITY_PREVIEW_NAMES nombres para el listado. */
+  names: string[]
+  /** Campos tocados por una edición (status, public, quantity...). */
+  fields: string[]
+  /** Cantidad de documentos en activity/{id}/changes. */
+  parts: number
+  /** Cartas restauradas una por una desde esta entrada. */
+  restoredCardIds: string[]
+  undoneAt: Date | null
+  createdAt: Date
+}
@@ -1,9 +1,17 @@
+import type { CardCondition, CardStatus } from './card'
+
 export interface BinderAllocation {
     cardId: string
     quantity: number
     addedAt: Date
 }
 
+/** Pockets per page of a physical binder sheet. */
+export type BinderPageSize = 9 | 12 | 16 | 18
+
+/** Pocket order for page mode: one pocket per copy (cardId), null = empty pocket. */
+export type BinderLayout = (string | null)[]
+
 export interface BinderStats {
     totalCards: number
     totalPrice: number
@@ -20,10 +28,51 @@ export interface Binder {
     updatedAt: Date
     stats: BinderStats
     isPublic: boolean
+    /** When the owner turned "Público" on. Only binders with a date are published to /public_binders. */
+    publishedAt: Date | null
     forSale: boolean
+    /** Storefront price as a percentage of Card Kingdom retail (80 = "todo al 80% CK"). null = precio de cada carta. */
+    ckPricePercent: number | null
+    pageSize: BinderPageSize
+    layout: BinderLayout
 }
 
 export interface CreateBinderInput {
     name: string
     description: string
 }
+
+/** One card of a public binder snapshot (/public_binders). `quantity` is what the binder holds, not the whole collection. */
+export interface PublicBinderCard {
+    cardId: string
+    scryfallId: string
+    name: string
+    edition: string
+    setCode?: string
+    quantity: number
+    condition: CardCondition
+    foil: boolean
+    language?: string
+    price: number
+    /** The price is the seller's (fixed price or pricing rule), not the market one. */
+    sellerPriced?: boolean
+    image: string
+    status: CardStatus
+    cmc?: number
+    type_line?: string
+    colors?: string[]
+    rarity?: string
+}
+
+export interface PublicBinder {
+    binderId: string
+    userId: string
+    username: string
+    name: string
+    description: string
+    forSale: boolean
+    ckPricePercent: number | null
+    cards: PublicBinderCard[]
+    cardCount: number
+    updatedAt: Date
+}
@@ -1,6 +1,33 @@
 import type { ExchangeCartItem } from './exchangeCart'
 
-export type BuyRequestStatus = 'pending' | 'seen' | 'fulfilled'
+/**
+ * pending → seen → accepted | declined → fulfilled | partially_fulfilled.
+ * 'accepted' puede ser parcial (algunos items rechazados); 'partially_fulfilled'
+ * es una venta cerrada que no entregó todo lo pedido. 'cancelled' lo pone el
+ * comprador mientras la solicitud sigue abierta.
+ */
+export type BuyRequestStatus =
+  | 'pending'
+  | 'seen'
+  | 'accepted'
+  | 'declined'
+  | 'partially_fulfilled'
+  | 'fulfilled'
+  | 'cancelled'
+
+/** Respuesta del dueño a un item: sin decisión todavía, aceptado o rechazado. */
+export type BuyRequestItemDecision = 'accepted' | 'rejected'
+
+/**
+ * Un item del carrito enviado, más la respuesta del dueño: decisión y, si
+ * quiere, un precio unitario distinto (contraoferta).
+ */
+export interface BuyRequestItem extends ExchangeCartItem {
+  decision?: BuyRequestItemDecision
+  counterPrice?: number
+  /** Copias entregadas al cumplir la solicitud. */
+  soldQuantity?: number
+}
 
 /**
  * SCRUM-70: un carrito que un visitante envía al dueño de un perfil, persistido
@@ -18,8 +45,47 @@ export interface BuyRequest {
   buyerName: string
   buyerPhone: string
   buyerEmail: string
-  items: ExchangeCartItem[]
+  /** uid del comprador si mandó el carrito con sesión iniciada; '' si fue anónimo. */
+  buyerId: string
+  buyerUsername: string
+  /** Dueño del perfil (el doc vive bajo su uid); el username es para la vista del comprador. */
+  ownerId: string
+  ownerUsername: string
+  items: BuyRequestItem[]
   totalValue: number
   status: BuyRequestStatus
+  /** Nota opcional del dueño al responder. */
+  ownerNote: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+/** Lo que el dueño contesta: decisión y contraoferta por índice de item, y una nota. */
+export interface BuyRequestResponse {
+  decisions: (BuyRequestItemDecision | undefined)[]
+  counterPrices: (number | null)[]
+  note: string
+}
+
+/**
+ * Una línea vendida al cumplir un buy request, en
+ * /users/{ownerUid}/realizedSales. `cost`/`profit` son null si no se sabía lo
+ * que se pagó por todas las copias vendidas.
+ */
+export interface RealizedSale {
+  id: string
+  buyRequestId: string
+  cardId: string
+  scryfallId: string
+  cardName: string
+  edition: string
+  foil: boolean
+  quantity: number
+  unitPrice: number
+  proceeds: number
+  cost: number | null
+  profit: number | null
+  counterparty: string
+  soldAt: string // YYYY-MM-DD
   createdAt: Date
 }
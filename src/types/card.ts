@@ -1,6 +1,23 @@
 // src/types/card.ts
 export type CardCondition = 'M' | 'NM' | 'LP' | 'MP' | 'HP' | 'PO';
 export type CardStatus = 'collection' | 'sale' | 'trade' | 'wishlist';
+export type AcquisitionSource = 'buy' | 'pack' | 'trade' | 'gift' | 'import' | 'other';
+
+// Un lote de compra: cuántas copias entraron, a qué precio y de dónde.
+// `unitPrice` null = no se sabe lo que se pagó (no cuenta para el costo).
+export interface AcquisitionLot {
+    quantity: number;
+    unitPrice: number | null;
+    date: string;               // YYYY-MM-DD
+    source: AcquisitionSource;
+    counterparty: string;       // Vendedor / usuario del trade, '' si no aplica
+}
+
+// Costo conocido de una carta: copias con precio de compra y lo que costaron
+export interface CostBasis {
+    quantity: number;
+    cost: number;
+}
 
 // Card in collection - Single Source of Truth
 export interface Card {
@@ -29,6 +46,11 @@ export interface Card {
     legalities?: Record<string, string>; // Format legality (e.g., { standard: "legal", modern: "legal" })
     full_art?: boolean;         // Whether the card is full art
     produced_mana?: string[];   // Colors of mana the card can produce (e.g., ["G", "U"] for Breeding Pool)
+    acquisitions?: AcquisitionLot[]; // Lotes de compra, más antiguo primero (FIFO)
+    location?: string;          // Ubicación física definida por el usuario ("Box A / row 3"), '' = sin asignar
+    priceOverride?: number | null; // Precio fijo de venta/cambio (USD); pisa las reglas de precio del vendedor
+    sellerPriced?: boolean;     // Solo en cartas de un perfil ajeno: el precio lo fijó el vendedor, no el mercado
+    costBasis?: CostBasis;      // Resumen del card_index (`cb`) — solo lectura, nunca se escribe al doc
     createdAt?: Date;
     updatedAt: Date;
 }
@@ -0,0 +1,16 @@
+// Monedas de display. Los precios se guardan y comparan siempre en USD; la
+// conversión es solo de presentación (ver utils/currency.ts).
+export type CurrencyCode = 'USD' | 'ARS' | 'MXN' | 'CLP' | 'COP' | 'EUR' | 'BRL'
+
+// exchange_rates/latest, escrito por refreshExchangeRates (functions/index.js)
+export interface ExchangeRates {
+    rates: Map<CurrencyCode, number>     // 1 USD = N en moneda local
+    informal: Map<CurrencyCode, number>  // Tasas informales (dólar blue para ARS)
+    updatedAt: Date | null
+}
+
+// Moneda elegida + tasa efectiva con la que se convierte
+export interface MoneyDisplay {
+    currency: CurrencyCode
+    rate: number
+}
@@ -1,6 +1,17 @@
 import type { CardCondition } from './card'
 
-export type DeckFormat = 'vintage' | 'modern' | 'commander' | 'standard' | 'custom'
+export type DeckFormat =
+    | 'vintage'
+    | 'modern'
+    | 'commander'
+    | 'standard'
+    | 'pioneer'
+    | 'legacy'
+    | 'pauper'
+    | 'premodern'
+    | 'brawl'
+    | 'oathbreaker'
+    | 'custom'
 
 // ============================================================================
 // NEW: Allocation-based types (Collection as single source of truth)
@@ -150,7 +161,7 @@ export interface Deck {
     format: DeckFormat
     description: string
     colors: string[]
-    commander?: string              // Commander name (for Commander format)
+    commander?: string              // Commander name (Commander / Brawl / Oathbreaker)
 
     // NEW: Reference-based storage
     allocations: DeckCardAllocation[]
@@ -175,5 +186,43 @@ export interface CreateDeckInput {
     format: DeckFormat
     description: string
     colors: string[]
-    commander?: string              // Commander name (for Commander format)
+    commander?: string              // Commander name (Commander / Brawl / Oathbreaker)
+}
+
+// ============================================================================
+// Public deck snapshot (/public_decks/{userId}_{deckId})
+// ============================================================================
+
+// users/{uid}/decks y users/{uid}/cards son solo del dueño, así que la página
+// pública lee una copia desnormalizada de la lista, igual que public_cards.
+export interface PublicDeckCard {
+    scryfallId: string
+    name: string
+    edition: string
+    setCode?: string
+    quantity: number
+    isInSideboard: boolean
+    price: number
+    image: string
+    cmc?: number
+    mana_cost?: string
+    type_line?: string
+    colors?: string[]
+    produced_mana?: string[]
+}
+
+export interface PublicDeck {
+    deckId: string
+    userId: string
+    username: string
+    name: string
+    format: DeckFormat
+    description: string
+    colors: string[]
+    commander: string
+    thumbnail: string
+    cards: PublicDeckCard[]
+    cardCount: number           // Mainboard (sideboard excluded)
+    totalPrice: number
+    updatedAt: Date
 }
@@ -12,11 +12,20 @@ export interface ExchangeCartItem {
   price: number
   image: string
   status: CardStatus
+  // Añadida desde el escaparate de un binder con precio "% de CK": el precio
+  // del item es ese porcentaje, también tras el upgrade a CK del carrito.
+  binderId?: string
+  ckPricePercent?: number
+  // Precio del vendedor (sus reglas de precio o un precio fijo): el carrito
+  // no lo reemplaza por el de CK.
+  sellerPriced?: boolean
 }
 
 export interface ExchangeCart {
   username: string
   items: ExchangeCartItem[]
+  /** uid del comprador si armó el carrito con sesión; sin él es un carrito anónimo. */
+  buyerId?: string
   createdAt: number
   expiresAt: number
 }
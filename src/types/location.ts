@@ -0,0 +1,29 @@
+// Ubicación estructurada (users/{uid}.locationInfo). El texto libre
+// `location` sigue siendo lo que se muestra; esto es lo que usa el matching
+// para filtrar y ordenar por distancia.
+export interface StructuredLocation {
+    country: string;
+    countryCode?: string; // ISO 3166-1 alpha-2, en mayúsculas
+    region?: string;      // provincia / estado
+    city?: string;
+    geohash?: string;     // 5 caracteres (~5 km): users/{uid} es de lectura pública
+}
+
+/** Resultado de detectLocation: el texto para mostrar y su versión estructurada. */
+export interface DetectedLocation {
+    label: string;
+    details: StructuredLocation;
+}
+
+// Hasta dónde cambia el usuario: en persona dentro de un radio, con envío
+// dentro del país o con envío internacional.
+export type ShippingReach = 'local' | 'national' | 'international';
+
+export interface TradeReach {
+    shipping: ShippingReach;
+    radiusKm: number;         // radio para cambiar en persona
+    minShippingValue: number; // USD; por debajo, un cambio que necesita envío no vale la pena
+}
+
+/** Qué tan cerca está el otro en un match: dentro de mi radio, mismo país, otro país o no se sabe. */
+export type Proximity = 'local' | 'national' | 'international' | 'unknown';
@@ -0,0 +1,13 @@
+// Puntaje de un match (0–100) y su desglose, que MatchCard muestra tal cual.
+export type MatchScoreFactorKey = 'balance' | 'coverage' | 'proximity' | 'recency' | 'reputation' | 'history';
+
+export interface MatchScoreFactor {
+    key: MatchScoreFactorKey;
+    points: number; // lo que aporta este factor
+    max: number;    // su peso: los de todos los factores suman 100
+}
+
+export interface MatchScore {
+    total: number;
+    factors: MatchScoreFactor[];
+}
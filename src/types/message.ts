@@ -1,9 +1,43 @@
+import type { CardCondition, CardStatus } from './card';
+
+/**
+ * Snapshot de una carta adjunta a un mensaje: fija la impresión exacta
+ * (edición, condición, foil, idioma) para no negociar por nombre.
+ */
+export interface MessageAttachmentCard {
+    /** id en la colección del dueño; '' si no se conoce (p.ej. cartas de un match viejo). */
+    cardId: string;
+    scryfallId: string;
+    name: string;
+    edition: string;
+    setCode?: string;
+    quantity: number;
+    condition: CardCondition;
+    foil: boolean;
+    language?: string;
+    price: number;
+    image: string;
+    status: CardStatus;
+    /** De quién es la carta: el carrito al que se agrega es el de este usuario. */
+    ownerUsername: string;
+}
+
+export type MessageAttachmentKind = 'cards' | 'match' | 'cart';
+
+export interface MessageAttachment {
+    kind: MessageAttachmentKind;
+    cards: MessageAttachmentCard[];
+    /** Solo kind 'match': SimpleMatch.id del que salió. */
+    matchId?: string;
+}
+
 export interface Message {
     id: string;
     senderId: string;
     senderUsername: string;
     recipientId: string;
     content: string;
+    attachment?: MessageAttachment;
     createdAt: Date;
     read: boolean;
 }
@@ -1,6 +1,8 @@
 import {type CardCondition} from "./card";
 
-export type PreferenceType = 'BUSCO' | 'CAMBIO' | 'VENDO';
+// COMPRO = buylist: el usuario compra la carta en efectivo a offerPrice, en
+// `condition` o mejor, hasta `quantity` copias.
+export type PreferenceType = 'BUSCO' | 'CAMBIO' | 'VENDO' | 'COMPRO';
 
 export interface Preference {
     id: string;
@@ -12,4 +14,24 @@ export interface Preference {
     edition: string;
     image: string;
     createdAt: Date;
-}
\ No newline at end of file
+    offerPrice?: number; // Solo COMPRO: USD por copia
+}
+
+/** Una carta mía que entra en el buylist de otro usuario. */
+export interface CashOfferLine {
+    cardId: string;
+    scryfallId: string;
+    name: string;
+    edition: string;
+    condition: CardCondition;
+    foil: boolean;
+    quantity: number;
+    offerPrice: number;
+}
+
+/** Lo que otro usuario me pagaría en efectivo por mis cartas según su buylist. */
+export interface CashOffer {
+    total: number;
+    lines: CashOfferLine[];
+    capped: boolean; // el presupuesto del comprador no alcanzó para todo
+}
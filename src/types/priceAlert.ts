@@ -0,0 +1,75 @@
+/**
+ * Alertas de precio (users/{uid}/price_alerts).
+ *
+ * Una alerta vigila UNA impresión (scryfallId + foil) en UNA fuente de
+ * MTGJSON. `below` es el precio objetivo de una carta que busco (wishlist o
+ * DeckWishlistItem); `above`/`below` juntos son el umbral de subida/bajada de
+ * una carta que ya tengo. evaluatePriceAlerts (functions/index.js) las evalúa
+ * cada 6 horas y, al dispararse, la apaga y deja un PriceAlertEvent.
+ */
+export type PriceAlertSource = 'cardkingdom' | 'tcgplayer' | 'cardmarket'
+
+/** De dónde salió la alerta, para volver a la carta desde la campanita. */
+export type PriceAlertOrigin = 'wishlist' | 'deckWishlist' | 'owned'
+
+export interface PriceAlert {
+  /** `${scryfallId}_${foil ? 'f' : 'n'}` — una alerta por impresión. */
+  id: string
+  scryfallId: string
+  cardName: string
+  setCode: string
+  edition: string
+  image: string
+  foil: boolean
+  source: PriceAlertSource
+  origin: PriceAlertOrigin
+  /** Card.id de la colección, si la alerta se creó desde una carta. */
+  cardId: string
+  /** Mazo desde el que se creó (solo origin 'deckWishlist'). */
+  deckId: string
+  /** USD; null = sin umbral en esa dirección. */
+  below: number | null
+  above: number | null
+  /** Precio al guardar la alerta (referencia para los umbrales en %). */
+  basePrice: number | null
+  /** Resuelto por el cliente al guardar; si falta lo resuelve el servidor. */
+  mtgjsonUuid: string
+  active: boolean
+  lastPrice: number | null
+  firedAt: Date | null
+  createdAt: Date
+}
+
+/** Datos que se piden al crear/editar una alerta. */
+export interface PriceAlertInput {
+  scryfallId: string
+  cardName: string
+  setCode: string
+  edition: string
+  image: string
+  foil: boolean
+  source: PriceAlertSource
+  origin: PriceAlertOrigin
+  cardId?: string
+  deckId?: string
+  below: number | null
+  above: number | null
+  basePrice: number | null
+}
+
+/** Alerta disparada (users/{uid}/price_alert_events), la escribe el servidor. */
+export interface PriceAlertEvent {
+  id: string
+  alertId: string
+  scryfallId: string
+  cardName: string
+  setCode: string
+  image: string
+  foil: boolean
+  source: PriceAlertSource
+  direction: 'below' | 'above'
+  threshold: number
+  price: number
+  read: boolean
+  createdAt: Date
+}
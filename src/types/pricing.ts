@@ -0,0 +1,25 @@
+import type { Card, CardCondition } from './card'
+
+// Reglas de precio del vendedor (users/{uid}.pricingRules). Deciden el precio
+// que se publica en public_cards para las cartas en venta/cambio; el
+// `Card.price` de mercado no se toca.
+export type PricingBase = 'ck' | 'tcg'
+
+export interface PricingRule {
+    enabled: boolean
+    base: PricingBase                              // Card Kingdom retail o el precio TCG de la carta
+    percent: number                                // % del precio base (90 = 90% de CK)
+    conditionMultipliers: Record<CardCondition, number>
+    foilMultiplier: number                         // Prima foil (1.2 = +20%)
+    roundUpTo: number                              // Redondeo hacia arriba en USD, 0 = sin redondeo
+    minPrice: number                               // Piso en USD, 0 = sin mínimo
+}
+
+export interface PricingRules {
+    sale: PricingRule
+    trade: PricingRule
+}
+
+// Carta lista para publicar: `listingPrice` es el precio del vendedor (regla o
+// precio fijo) ya resuelto; sin él se publica `price` tal cual.
+export type PricedCard = Card & { listingPrice?: number }
@@ -0,0 +1,42 @@
+/**
+ * Reseñas entre traders (reputación).
+ *
+ * Cada reseña cuelga de UN intercambio concreto: una propuesta completada
+ * (trade_proposals, status 'completed') o una solicitud de compra cumplida
+ * (users/{owner}/buyRequests, status 'fulfilled'). Solo se reseña a quien se
+ * le cambió o compró — firestore.rules relee el intercambio al crear.
+ */
+export type ReviewTradeType = 'proposal' | 'buyRequest'
+
+export interface TradeReview {
+  /** `${tradeType}_${tradeId}_${reviewerId}` — una reseña por parte y por intercambio. */
+  id: string
+  tradeType: ReviewTradeType
+  tradeId: string
+  /** Dueño de la solicitud de compra (solo tradeType 'buyRequest'); '' si no aplica. */
+  tradeOwnerId: string
+  reviewerId: string
+  reviewerUsername: string
+  revieweeId: string
+  /** Entero 1–5. */
+  rating: number
+  comment: string
+  createdAt: Date
+}
+
+/** Agregado que se muestra junto al username. */
+export interface ReputationSummary {
+  count: number
+  /** Promedio 1–5; 0 si no hay reseñas. */
+  average: number
+}
+
+/** Un intercambio que el usuario actual todavía puede reseñar. */
+export interface ReviewableTrade {
+  tradeType: ReviewTradeType
+  tradeId: string
+  tradeOwnerId: string
+  revieweeId: string
+  revieweeUsername: string
+  date: Date
+}
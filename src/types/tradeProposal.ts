@@ -0,0 +1,78 @@
+import type { MatchCard } from '../stores/matches'
+
+/**
+ * 'completed' solo lo escribe la Cloud Function completeTrade, cuando las
+ * cartas ya se movieron entre las dos colecciones.
+ */
+export type TradeProposalStatus = 'open' | 'accepted' | 'declined' | 'withdrawn' | 'completed'
+
+/**
+ * Una revisión de la propuesta (la oferta inicial o una contraoferta).
+ *
+ * Las cartas se guardan por DUEÑO (iniciador / destinatario), no por
+ * perspectiva: el mismo documento lo leen los dos participantes y cada uno lo
+ * proyecta a "doy / recibo" con revisionToDraft (utils/tradeProposal.ts).
+ */
+export interface TradeProposalRevision {
+  authorId: string
+  /** Cartas que entrega quien inició la propuesta. */
+  initiatorCards: MatchCard[]
+  /** Cartas que entrega el destinatario. */
+  recipientCards: MatchCard[]
+  /** Efectivo para compensar la diferencia de valor (siempre >= 0). */
+  cashAmount: number
+  /** Quién pone el efectivo; null si cashAmount es 0. */
+  cashFromId: string | null
+  note: string
+  createdAt: Date
+}
+
+/**
+ * Propuesta de intercambio editable por ambas partes, persistida en
+ * /trade_proposals/{proposalId}. Nace de un SimpleMatch y guarda cada
+ * revisión como historial; termina en accepted, declined o withdrawn. Una
+ * aceptada pasa a completed cuando se confirma el intercambio.
+ */
+export interface TradeProposal {
+  id: string
+  /** SimpleMatch.id del que salió la propuesta ('' si se creó desde cero). */
+  matchId: string
+  initiatorId: string
+  initiatorUsername: string
+  recipientId: string
+  recipientUsername: string
+  /** [initiatorId, recipientId] — para la query array-contains y las reglas. */
+  participantIds: string[]
+  status: TradeProposalStatus
+  /** Quién aceptó (las reglas exigen que sea quien no escribió la última revisión); null si no se aceptó. */
+  acceptedBy: string | null
+  revisions: TradeProposalRevision[]
+  createdAt: Date
+  updatedAt: Date
+  /** Cuándo completeTrade movió las cartas; null mientras no se completó. */
+  completedAt: Date | null
+}
+
+/** Una línea que ya no alcanza al intentar completar (viene de completeTrade). */
+export interface TradeShortage {
+  userId: string
+  scryfallId: string
+  name: string
+  condition: string
+  foil: boolean
+  requested: number
+  available: number
+}
+
+/**
+ * Una revisión vista desde un participante: lo que doy, lo que recibo y el
+ * efectivo con signo (positivo = lo pongo yo, negativo = lo recibo).
+ */
+export interface TradeDraft {
+  myCards: MatchCard[]
+  otherCards: MatchCard[]
+  cashFromMe: number
+  note: string
+}
+
+export type TradeProposalAction = 'counter' | 'accept' | 'decline' | 'withdraw'
@@ -1,10 +1,20 @@
+import type { CurrencyCode } from './currency';
+import type { StructuredLocation, TradeReach } from './location';
+import type { PricingRules } from './pricing';
+
 export interface User {
     id: string;
     email: string;
     username: string;
     location: string;
+    locationInfo?: StructuredLocation | null; // País/provincia/ciudad (+ geohash) para el matching por distancia
+    tradeReach?: TradeReach;   // En persona dentro de un radio, envío nacional o internacional
     createdAt: Date;
     lastUsernameChange?: Date | null;
     avatarUrl?: string | null; // Custom avatar URL, if null uses generated avatar
     tourCompleted?: boolean;   // Server-side onboarding flag (TASK-082)
+    currency?: CurrencyCode;   // Moneda de display; sin definir = USD
+    fxRateOverride?: number | null; // Tasa manual (1 USD = N) en vez de la oficial, p. ej. dólar blue
+    pricingRules?: PricingRules | null; // Reglas de precio para venta/cambio; null = precio de mercado
+    buylistBudget?: number | null; // Tope en USD de lo que compra con su buylist; null = sin tope
 }
\ No newline at end of file
@@ -0,0 +1,220 @@
+/**
+ * Backup de la cuenta: archivo JSON versionado con la FUENTE DE VERDAD del
+ * usuario (ver docs/discusion-backups-y-salvaguardas.md §1). Lo derivado
+ * —card_index, public_cards, scryfall_cache— no va en el archivo: después de
+ * restaurar se reconstruye con buildCardIndex / syncAllToPublic.
+ *
+ * Solo la parte pura (armar, validar y planear la restauración); la lectura
+ * y escritura en Firestore vive en services/accountBackup.ts.
+ */
+
+export const BACKUP_FORMAT = 'cranial-trading-backup'
+export const BACKUP_VERSION = 1
+
+/** Subcolecciones de users/{uid} que entran en el archivo, en orden de restauración. */
+export const BACKUP_COLLECTIONS = [
+  'cards',
+  'decks',
+  'binders',
+  'preferences',
+  'matches_guardados',
+  'contactos_guardados',
+  'realizedSales',
+] as const
+
+export type BackupCollection = typeof BACKUP_COLLECTIONS[number]
+
+export type RestoreMode = 'merge' | 'replace'
+
+export interface BackupDoc {
+  id: string
+  data: Record<string, unknown>
+}
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT
+  version: number
+  exportedAt: string
+  userId: string
+  username: string
+  collections: Record<BackupCollection, BackupDoc[]>
+}
+
+export type BackupParseError = 'invalidJson' | 'wrongFormat' | 'unsupportedVersion'
+
+export type BackupParseResult =
+  | { ok: true; archive: BackupArchive }
+  | { ok: false; error: BackupParseError }
+
+/**
+ * Campos derivados que no se guardan aunque estén en el doc: `chunkId` lo
+ * asigna buildCardIndex, y uno viejo apuntaría a un chunk que ya no existe.
+ */
+const DERIVED_FIELDS = new Map<BackupCollection, readonly string[]>([
+  ['cards', ['chunkId']],
+])
+
+/** Marca de un Timestamp/Date serializado: `{ $ts: millis }`. */
+const TIMESTAMP_KEY = '$ts'
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isTimestampLike = (value: unknown): value is { toMillis: () => number } =>
+  isPlainObject(value) && typeof (value as { toMillis?: unknown }).toMillis === 'function'
+
+/** Valor de Firestore → JSON. Timestamps y Dates pasan a `{ $ts }`. */
+export function encodeBackupValue(value: unknown): unknown {
+  if (value instanceof Date) return { [TIMESTAMP_KEY]: value.getTime() }
+  if (isTimestampLike(value)) return { [TIMESTAMP_KEY]: value.toMillis() }
+  if (Array.isArray(value)) return value.map(encodeBackupValue)
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, inner]) => inner !== undefined)
+        .map(([key, inner]) => [key, encodeBackupValue(inner)]),
+    )
+  }
+  return value
+}
+
+/** JSON → valor para Firestore; `toTimestamp` revive cada `{ $ts }`. */
+export function decodeBackupValue(value: unknown, toTimestamp: (millis: number) => unknown): unknown {
+  if (Array.isArray(value)) return value.map(v => decodeBackupValue(v, toTimestamp))
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+    const [only] = entries
+    if (entries.length === 1 && only?.[0] === TIMESTAMP_KEY && typeof only[1] === 'number' && Number.isFinite(only[1])) {
+      return toTimestamp(only[1])
+    }
+    return Object.fromEntries(entries.map(([key, inner]) => [key, decodeBackupValue(inner, toTimestamp)]))
+  }
+  return value
+}
+
+const encodeDoc = (collection: BackupCollection, id: string, data: Record<string, unknown>): BackupDoc => {
+  const skip = DERIVED_FIELDS.get(collection) ?? []
+  const kept = Object.fromEntries(Object.entries(data).filter(([key]) => !skip.includes(key)))
+  return { id, data: encodeBackupValue(kept) as Record<string, unknown> }
+}
+
+export function buildBackupArchive(
+  user: { id: string; username: string },
+  docs: ReadonlyMap<BackupCollection, { id: string; data: Record<string, unknown> }[]>,
+  now: Date = new Date(),
+): BackupArchive {
+  const collections = Object.fromEntries(
+    BACKUP_COLLECTIONS.map(name => [name, (docs.get(name) ?? []).map(d => encodeDoc(name, d.id, d.data))]),
+  ) as Record<BackupCollection, BackupDoc[]>
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: now.toISOString(),
+    userId: user.id,
+    username: user.username,
+    collections,
+  }
+}
+
+/**
+ * Un backup de otra cuenta (o sin dueño) no se restaura sin preguntar: copiaría
+ * las cartas, mazos y contactos de otra persona en la cuenta actual.
+ */
+export const isBackupFromOtherAccount = (archive: Pick<BackupArchive, 'userId'>, userId: string): boolean =>
+  archive.userId !== userId
+
+/** `cranial-backup-<usuario>-YYYY-MM-DD.json` */
+export const backupFileName = (username: string, now: Date = new Date()): string =>
+  `cranial-backup-${username.replace(/[^\w-]+/g, '_') || 'user'}-${now.toISOString().slice(0, 10)}.json`
+
+/** Un id de Firestore válido para doc(): no vacío, sin `/`, no `.`/`..`. */
+const isValidDocId = (id: unknown): id is string =>
+  typeof id === 'string' && id.length > 0 && id.length <= 1500 && !id.includes('/') && id !== '.' && id !== '..'
+
+/**
+ * Lee y valida un archivo de backup. Las entradas con id inválido o sin
+ * `data` se descartan; colecciones desconocidas se ignoran y las que faltan
+ * quedan vacías (un backup parcial sigue siendo restaurable).
+ */
+export function parseBackupArchive(text: string): BackupParseResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch {
+    return { ok: false, error: 'invalidJson' }
+  }
+  if (!isPlainObject(raw) || raw.format !== BACKUP_FORMAT || !isPlainObject(raw.collections)) {
+    return { ok: false, error: 'wrongFormat' }
+  }
+  if (typeof raw.version !== 'number' || raw.version < 1 || raw.version > BACKUP_VERSION) {
+    return { ok: false, error: 'unsupportedVersion' }
+  }
+
+  const source = new Map(Object.entries(raw.collections))
+  const collections = Object.fromEntries(BACKUP_COLLECTIONS.map(name => {
+    const entries = source.get(name)
+    const seen = new Set<string>()
+    const docs = (Array.isArray(entries) ? entries : []).filter((entry): entry is BackupDoc => {
+      if (!isPlainObject(entry) || !isValidDocId(entry.id) || !isPlainObject(entry.data)) return false
+      if (seen.has(entry.id)) return false
+      seen.add(entry.id)
+      return true
+    }).map(entry => ({ id: entry.id, data: entry.data }))
+    return [name, docs]
+  })) as Record<BackupCollection, BackupDoc[]>
+
+  return {
+    ok: true,
+    archive: {
+      format: BACKUP_FORMAT,
+      version: raw.version,
+      exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : '',
+      userId: typeof raw.userId === 'string' ? raw.userId : '',
+      username: typeof raw.username === 'string' ? raw.username : '',
+      collections,
+    },
+  }
+}
+
+export interface RestorePlan {
+  writes: { collection: BackupCollection; id: string; data: Record<string, unknown> }[]
+  deletes: { collection: BackupCollection; id: string }[]
+  /** Docs del archivo por colección (lo que el usuario confirma antes de restaurar). */
+  counts: Record<BackupCollection, number>
+}
+
+/**
+ * Qué escribir y qué borrar para restaurar `archive` sobre lo que ya existe.
+ *
+ * Los ids se conservan tal cual: los mazos y carpetas referencian cartas por
+ * id, y con ids nuevos esas referencias quedarían colgando.
+ *  - merge:   cada doc del archivo pisa al del mismo id; lo que no está en
+ *             el archivo queda como está.
+ *  - replace: además se borra todo lo que no está en el archivo, así la
+ *             cuenta queda exactamente como en el backup.
+ */
+export function planRestore(
+  archive: BackupArchive,
+  existingIds: ReadonlyMap<BackupCollection, readonly string[]>,
+  mode: RestoreMode,
+): RestorePlan {
+  const writes: RestorePlan['writes'] = []
+  const deletes: RestorePlan['deletes'] = []
+  const archived = new Map(Object.entries(archive.collections))
+
+  for (const name of BACKUP_COLLECTIONS) {
+    const docs = archived.get(name) ?? []
+    for (const d of docs) writes.push({ collection: name, id: d.id, data: d.data })
+    if (mode === 'replace') {
+      const keep = new Set(docs.map(d => d.id))
+      for (const id of existingIds.get(name) ?? []) {
+        if (!keep.has(id)) deletes.push({ collection: name, id })
+      }
+    }
+  }
+
+  const counts = Object.fromEntries(
+    BACKUP_COLLECTIONS.map(name => [name, archived.get(name)?.length ?? 0]),
+  ) as Record<BackupCollection, number>
+  return { writes, deletes, counts }
+}
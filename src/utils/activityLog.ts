@@ -0,0 +1,124 @@
+import type { Card } from '../types/card'
+import type { ActivityCardData, ActivityChange, ActivityEntry, ActivityKind } from '../types/activity'
+import { chunkArray } from './chunkArray'
+
+/** Cuánto dura el "deshacer" de la última operación masiva. */
+export const ACTIVITY_UNDO_WINDOW_MS = 10 * 60 * 1000
+
+/** Cambios por documento de activity/{id}/changes (una carta completa ronda 1-2KB). */
+export const ACTIVITY_PART_SIZE = 200
+
+export const ACTIVITY_PREVIEW_NAMES = 5
+
+// No se guardan ni se restauran: el id va en el cambio, los timestamps los
+// pone cada escritura y costBasis/chunkId los calcula el servidor.
+const VOLATILE_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'costBasis', 'chunkId'])
+
+/** Campos de la carta listos para guardar en el registro y volver a escribir. */
+export const activityCardData = (card: Card | Record<string, unknown>): ActivityCardData =>
+    Object.fromEntries(
+        Object.entries(card).filter(([key, value]) => value !== undefined && !VOLATILE_FIELDS.has(key)),
+    )
+
+export const createdCardChanges = (cards: Card[]): ActivityChange[] =>
+    cards.map(card => ({ cardId: card.id, name: card.name, before: null, after: activityCardData(card) }))
+
+export const deletedCardChanges = (cards: Card[]): ActivityChange[] =>
+    cards.map(card => ({ cardId: card.id, name: card.name, before: activityCardData(card), after: null }))
+
+/**
+ * Una edición guarda solo los campos tocados: el valor anterior de cada uno
+ * (null si la carta no lo tenía) y el nuevo. Cartas que ya tenían esos
+ * valores no dejan cambio.
+ */
+export function updatedCardChanges(cards: Card[], updates: Partial<Card>): ActivityChange[] {
+    const after = activityCardData(updates)
+    const keys = Object.keys(after)
+    if (keys.length === 0) return []
+
+    const changes: ActivityChange[] = []
+    for (const card of cards) {
+        const current = new Map(Object.entries(card))
+        const before = Object.fromEntries(keys.map(key => [key, current.get(key) ?? null]))
+        if (JSON.stringify(before) === JSON.stringify(after)) continue
+        changes.push({ cardId: card.id, name: card.name, before, after })
+    }
+    return changes
+}
+
+export type ActivityHeader = Pick<ActivityEntry, 'kind' | 'bulk' | 'count' | 'names' | 'fields' | 'parts'>
+
+export function buildActivityHeader(kind: ActivityKind, changes: ActivityChange[], bulk: boolean): ActivityHeader {
+    const names = [...new Set(changes.map(c => c.name))].slice(0, ACTIVITY_PREVIEW_NAMES)
+    const fields = new Set<string>()
+    for (const change of changes) {
+        if (!change.before || !change.after) continue
+        for (const key of Object.keys(change.after)) fields.add(key)
+    }
+    return {
+        kind,
+        bulk,
+        count: changes.length,
+        names,
+        fields: [...fields].sort(),
+        parts: Math.ceil(changes.length / ACTIVITY_PART_SIZE),
+    }
+}
+
+export const splitActivityChanges = (changes: ActivityChange[]): ActivityChange[][] =>
+    chunkArray(changes, ACTIVITY_PART_SIZE)
+
+const isChange = (value: unknown): value is ActivityChange => {
+    if (!value || typeof value !== 'object') return false
+    const change = value as Partial<ActivityChange>
+    return typeof change.cardId === 'string' && change.cardId !== ''
+        && (change.before === null || typeof change.before === 'object')
+        && (change.after === null || typeof change.after === 'object')
+}
+
+/** Lee el JSON de una parte; lo que no tenga forma de cambio se descarta. */
+export function parseActivityChanges(raw: unknown): ActivityChange[] {
+    if (typeof raw !== 'string' || !raw) return []
+    try {
+        const parsed: unknown = JSON.parse(raw)
+        return Array.isArray(parsed)
+            ? parsed.filter(isChange).map(c => ({ ...c, name: typeof c.name === 'string' ? c.name : '' }))
+            : []
+    } catch {
+        return []
+    }
+}
+
+/** Lo que hay que escribir para volver al `before` de cada cambio. */
+export interface ActivityRestorePlan {
+    /** Cartas borradas: se vuelven a crear con su mismo id (mazos y binders las referencian por id). */
+    recreate: { cardId: string; data: ActivityCardData }[]
+    /** Cartas creadas: se borran. */
+    remove: string[]
+    /** Cartas editadas, agrupadas por valores anteriores idénticos para ir en un solo batch. */
+    revert: { cardIds: string[]; updates: ActivityCardData }[]
+}
+
+export function planActivityRestore(changes: ActivityChange[]): ActivityRestorePlan {
+    const recreate: ActivityRestorePlan['recreate'] = []
+    const remove: string[] = []
+    const revertGroups = new Map<string, ActivityRestorePlan['revert'][number]>()
+
+    for (const change of changes) {
+        if (!change.before) {
+            remove.push(change.cardId)
+        } else if (!change.after) {
+            recreate.push({ cardId: change.cardId, data: change.before })
+        } else {
+            const key = JSON.stringify(change.before)
+            const group = revertGroups.get(key)
+            if (group) group.cardIds.push(change.cardId)
+            else revertGroups.set(key, { cardIds: [change.cardId], updates: change.before })
+        }
+    }
+    return { recreate, remove, revert: [...revertGroups.values()] }
+}
+
+/** El "deshacer" entero solo vale para operaciones masivas, una vez y dentro de la ventana. */
+export const canUndoActivity = (entry: ActivityEntry, now = Date.now()): boolean =>
+    entry.bulk && !entry.undoneAt && now - entry.createdAt.getTime() < ACTIVITY_UNDO_WINDOW_MS
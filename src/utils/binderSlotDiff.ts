@@ -5,6 +5,8 @@
 //
 // Mirrors deckSlotDiff.ts shape; kept separate because binders don't have mb/sb.
 
+import type { BinderLayout, BinderPageSize } from '../types/binder'
+
 export type BinderSlotOp =
   | { type: 'deallocate'; binderId: string; cardId: string }
   | { type: 'allocate'; binderId: string; cardId: string; quantity: number }
@@ -58,3 +60,71 @@ export const computeBinderSlotOps = ({
   }
   return ops
 }
+
+// ── Page layout (binder page mode) ───────────────────────────────────────────
+// A binder's physical order: one pocket per copy, `null` = empty pocket. The
+// allocations stay the source of truth for WHAT is in the binder; the layout
+// only says WHERE, and is reconciled against them after every allocation write.
+
+export const BINDER_PAGE_SIZES: readonly BinderPageSize[] = [9, 12, 16, 18]
+export const DEFAULT_BINDER_PAGE_SIZE: BinderPageSize = 9
+
+export const normalizeBinderPageSize = (value: unknown): BinderPageSize =>
+  BINDER_PAGE_SIZES.find(size => size === value) ?? DEFAULT_BINDER_PAGE_SIZE
+
+const trimTrailingEmpty = (layout: BinderLayout): BinderLayout => {
+  let end = layout.length
+  while (end > 0 && layout[end - 1] === null) end--
+  return layout.slice(0, end)
+}
+
+/**
+ * Makes the layout hold exactly `quantity` pockets per allocated card.
+ * Extra or deallocated copies become empty pockets (like pulling a card out
+ * of a real binder); copies without a pocket go after the last used one, so
+ * gaps the user left on purpose are never filled in.
+ */
+export const reconcileBinderLayout = (
+  layout: readonly (string | null)[],
+  allocations: readonly { cardId: string; quantity: number }[],
+): BinderLayout => {
+  const wanted = new Map<string, number>()
+  for (const a of allocations) {
+    if (a.quantity > 0) wanted.set(a.cardId, (wanted.get(a.cardId) ?? 0) + a.quantity)
+  }
+
+  const placed = new Map<string, number>()
+  const result: BinderLayout = layout.map(cardId => {
+    if (!cardId) return null
+    const count = placed.get(cardId) ?? 0
+    if (count >= (wanted.get(cardId) ?? 0)) return null
+    placed.set(cardId, count + 1)
+    return cardId
+  })
+
+  const trimmed = trimTrailingEmpty(result)
+  for (const [cardId, quantity] of wanted) {
+    for (let i = placed.get(cardId) ?? 0; i < quantity; i++) trimmed.push(cardId)
+  }
+  return trimmed
+}
+
+/** Drag-and-drop: moves a pocket onto another, swapping when the target is occupied. */
+export const moveBinderSlot = (layout: readonly (string | null)[], from: number, to: number): BinderLayout => {
+  if (from === to || from < 0 || to < 0 || from >= layout.length) return [...layout]
+  const result: BinderLayout = [...layout]
+  while (result.length <= to) result.push(null)
+  const moving = result.at(from) ?? null
+  result.splice(from, 1, result.at(to) ?? null)
+  result.splice(to, 1, moving)
+  return trimTrailingEmpty(result)
+}
+
+export const binderPageCount = (layout: readonly (string | null)[], pageSize: number): number =>
+  Math.max(1, Math.ceil(layout.length / pageSize))
+
+/** Pockets of one page (0-based), padded with empty pockets. */
+export const binderPageSlots = (layout: readonly (string | null)[], pageSize: number, page: number): (string | null)[] => {
+  const start = page * pageSize
+  return Array.from({ length: pageSize }, (_, i) => layout[start + i] ?? null)
+}
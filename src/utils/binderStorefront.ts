@@ -0,0 +1,151 @@
+/**
+ * Binder storefronts (`/@:username/binders/:binderId`).
+ *
+ * Binders and cards are owner-only in Firestore, so a public binder is
+ * published as a snapshot to /public_binders (services/publicBinders) and the
+ * profile renders each one as its own storefront section. This module holds
+ * the pure parts:
+ *  - the snapshot rows built from the binder's allocations;
+ *  - the binder-level price: a percentage of Card Kingdom retail ("todo este
+ *    binder al 80% CK") applied to what the grid shows and to the cart, so
+ *    BuyRequest.totalValue (sum of item prices) carries the discount;
+ *  - which storefront price applies to a card listed in more than one.
+ */
+
+import type { Binder, PublicBinder, PublicBinderCard } from '@/types/binder'
+import type { Card } from '@/types/card'
+import type { PricedCard } from '@/types/pricing'
+
+export const MIN_CK_PRICE_PERCENT = 1
+export const MAX_CK_PRICE_PERCENT = 100
+
+export const binderStorefrontPath = (username: string, binderId: string): string =>
+    `/@${encodeURIComponent(username)}/binders/${encodeURIComponent(binderId)}`
+
+/**
+ * Input from the owner's "% CK" field → stored value. Empty or not a number
+ * means no binder price (null); anything else is rounded and clamped to 1–100.
+ */
+export function normalizeCkPricePercent(value: unknown): number | null {
+    if (value === null || value === undefined || value === '') return null
+    const n = Number(value)
+    if (!Number.isFinite(n)) return null
+    return Math.min(MAX_CK_PRICE_PERCENT, Math.max(MIN_CK_PRICE_PERCENT, Math.round(n)))
+}
+
+/** `price` at the binder's percentage, in cents. Without a percentage the price is unchanged. */
+export const applyCkPricePercent = (price: number, percent: number | null | undefined): number =>
+    percent == null ? price : Math.round(price * percent) / 100
+
+// Firestore rejects undefined, the snapshot only keeps what is set
+const withoutUndefined = <T extends object>(obj: T): T =>
+    Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T
+
+/**
+ * Whether the binder goes out as a storefront: the owner turned "Público" on
+ * themselves (publishedAt). Binders created before storefronts carry
+ * `isPublic: true` as a default nobody chose, so that alone is not enough.
+ */
+export const isBinderPublished = (binder: Pick<Binder, 'isPublic' | 'publishedAt'>): boolean =>
+    binder.isPublic && binder.publishedAt != null
+
+// Same gate as services/publicCards' isPublicCard: /public_binders is read
+// without login, so only cards the owner listed for sale or trade and left
+// public go out. Collection cards and private listings stay home.
+const isStorefrontCard = (card: Card): boolean =>
+    (card.status === 'sale' || card.status === 'trade') && card.public === true
+
+/**
+ * Snapshot rows for a binder. Only public sale/trade cards are published;
+ * an allocation larger than what the collection still holds is capped. Cards
+ * that went through priceCardsForListing carry the seller's price (fixed
+ * price or pricing rule), same as public_cards.
+ */
+export function buildPublicBinderCards(
+    binder: Pick<Binder, 'allocations'>,
+    collectionCards: readonly PricedCard[],
+): PublicBinderCard[] {
+    const cardMap = new Map(collectionCards.map(c => [c.id, c]))
+    const rows: PublicBinderCard[] = []
+    for (const alloc of binder.allocations ?? []) {
+        const card = cardMap.get(alloc.cardId)
+        if (!card || !isStorefrontCard(card)) continue
+        const quantity = Math.min(alloc.quantity, card.quantity)
+        if (quantity <= 0) continue
+        rows.push(withoutUndefined({
+            cardId: card.id,
+            scryfallId: card.scryfallId,
+            name: card.name,
+            edition: card.edition,
+            setCode: card.setCode,
+            quantity,
+            condition: card.condition,
+            foil: card.foil,
+            language: card.language,
+            price: card.listingPrice ?? (card.price || 0),
+            ...(card.listingPrice !== undefined ? { sellerPriced: true } : {}),
+            image: card.image || '',
+            status: card.status,
+            cmc: card.cmc,
+            type_line: card.type_line,
+            colors: card.colors,
+            rarity: card.rarity,
+        }))
+    }
+    return rows.sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export const publicBinderCardCount = (cards: readonly PublicBinderCard[]): number =>
+    cards.reduce((sum, c) => sum + c.quantity, 0)
+
+/** Storefront total: every card at the binder's price. */
+export const storefrontTotal = (storefront: Pick<PublicBinder, 'cards' | 'ckPricePercent'>): number =>
+    Math.round(storefront.cards.reduce(
+        (sum, c) => sum + applyCkPricePercent(c.price, storefront.ckPricePercent) * c.quantity, 0,
+    ) * 100) / 100
+
+/**
+ * The storefront as cards for CollectionGrid, priced at the binder's
+ * percentage. The grid prices are the listed ones; the cart re-prices at the
+ * same percentage of CK once its lookup resolves.
+ */
+export function storefrontCards(storefront: Pick<PublicBinder, 'cards' | 'ckPricePercent' | 'updatedAt'>): Card[] {
+    return storefront.cards.map(card => ({
+        id: card.cardId,
+        scryfallId: card.scryfallId,
+        name: card.name,
+        edition: card.edition,
+        setCode: card.setCode,
+        quantity: card.quantity,
+        condition: card.condition,
+        foil: card.foil,
+        language: card.language,
+        price: applyCkPricePercent(card.price, storefront.ckPricePercent),
+        ...(card.sellerPriced ? { sellerPriced: true } : {}),
+        image: card.image,
+        status: card.status,
+        cmc: card.cmc,
+        type_line: card.type_line,
+        colors: card.colors,
+        rarity: card.rarity,
+        updatedAt: storefront.updatedAt,
+    }))
+}
+
+/**
+ * The for-sale storefront whose price applies to `cardId`, for a card added
+ * from the profile's general list. A card split across several binders gets
+ * the lowest percentage — the buyer sees the best price the seller offers.
+ */
+export function storefrontForCard(
+    storefronts: readonly PublicBinder[],
+    cardId: string,
+): PublicBinder | null {
+    let best: PublicBinder | null = null
+    for (const storefront of storefronts) {
+        if (!storefront.forSale || storefront.ckPricePercent == null) continue
+        if (!storefront.cards.some(c => c.cardId === cardId)) continue
+        if (!best || storefront.ckPricePercent < (best.ckPricePercent ?? MAX_CK_PRICE_PERCENT)) best = storefront
+    }
+    return best
+}
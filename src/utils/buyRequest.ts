@@ -1,12 +1,66 @@
 import type { ExchangeCartItem } from '@/types/exchangeCart'
+import type { BuyRequestItem, BuyRequestResponse, BuyRequestStatus, RealizedSale } from '@/types/buyRequest'
 
 /** SCRUM-70: valor total de un carrito (price * quantity por item). */
 export const computeTotalValue = (items: Pick<ExchangeCartItem, 'price' | 'quantity'>[]): number =>
   items.reduce((sum, item) => sum + item.price * item.quantity, 0)
 
+/** Solicitudes que el dueño todavía puede contestar/cumplir y el comprador cancelar. */
+export const OPEN_BUY_REQUEST_STATUSES: readonly BuyRequestStatus[] = ['pending', 'seen', 'accepted']
+
+export const isOpenBuyRequest = (status: BuyRequestStatus): boolean =>
+  OPEN_BUY_REQUEST_STATUSES.includes(status)
+
+/** Ventas cerradas (enteras o no): las que se pueden reseñar. */
+export const isSoldBuyRequest = (status: BuyRequestStatus): boolean =>
+  status === 'fulfilled' || status === 'partially_fulfilled'
+
+/** Precio unitario vigente de un item: la contraoferta del dueño, si la hizo. */
+export const itemUnitPrice = (item: Pick<BuyRequestItem, 'price' | 'counterPrice'>): number =>
+  item.counterPrice ?? item.price
+
+/** Valor de lo aceptado: items no rechazados, a su precio vigente. */
+export const computeAcceptedValue = (items: Pick<BuyRequestItem, 'price' | 'counterPrice' | 'quantity' | 'decision'>[]): number =>
+  items
+    .filter(item => item.decision !== 'rejected')
+    .reduce((sum, item) => sum + itemUnitPrice(item) * item.quantity, 0)
+
+/**
+ * Aplica la respuesta del dueño. Un item sin decisión se da por aceptado (el
+ * dueño contesta la solicitud entera); una contraoferta solo queda si es un
+ * precio válido y distinto del pedido. Todo rechazado = 'declined'.
+ * Los items salen sin claves undefined (Firestore no las acepta).
+ */
+export const applyBuyRequestResponse = (
+  items: BuyRequestItem[],
+  response: BuyRequestResponse,
+): { items: BuyRequestItem[]; status: 'accepted' | 'declined' } => {
+  const answered = items.map((item, i) => {
+    const { counterPrice: _previous, ...rest } = item
+    const decision = response.decisions.at(i) ?? 'accepted'
+    const counter = response.counterPrices.at(i)
+    const keepCounter = decision === 'accepted' && typeof counter === 'number'
+      && Number.isFinite(counter) && counter >= 0 && counter !== item.price
+    return keepCounter
+      ? { ...rest, decision, counterPrice: Math.round(counter * 100) / 100 }
+      : { ...rest, decision }
+  })
+  const status = answered.every(item => item.decision === 'rejected') ? 'declined' : 'accepted'
+  return { items: answered, status }
+}
+
+/**
+ * Estado final al cumplir: 'fulfilled' solo si se entregó todo lo pedido;
+ * con items rechazados, faltantes o entregados a medias es 'partially_fulfilled'.
+ */
+export const fulfillmentStatus = (
+  items: Pick<BuyRequestItem, 'quantity' | 'soldQuantity'>[],
+): 'fulfilled' | 'partially_fulfilled' =>
+  items.every(item => (item.soldQuantity ?? 0) >= item.quantity) ? 'fulfilled' : 'partially_fulfilled'
+
 export type FulfillAction =
-  | { cardId: string; action: 'update'; newQuantity: number }
-  | { cardId: string; action: 'delete' }
+  | { cardId: string; action: 'update'; newQuantity: number; location?: string }
+  | { cardId: string; action: 'delete'; location?: string }
   | { cardId: string; action: 'missing' }
 
 /**
@@ -15,16 +69,100 @@ export type FulfillAction =
  *  - 'delete'  → borrar la carta (la cantidad llega a 0 o menos),
  *  - 'missing' → la carta ya no existe (fallback: se omite el descuento).
  *
+ * Los pasos que tocan una carta llevan su ubicación física (si tiene) para
+ * armar la lista de picking.
+ *
  * Pura: recibe un lookup `getCard` en lugar de tocar el store.
  */
 export const planFulfillment = (
   items: Pick<ExchangeCartItem, 'cardId' | 'quantity'>[],
-  getCard: (cardId: string) => { quantity: number } | undefined,
+  getCard: (cardId: string) => { quantity: number; location?: string } | undefined,
 ): FulfillAction[] =>
   items.map(item => {
     const card = getCard(item.cardId)
     if (!card) return { cardId: item.cardId, action: 'missing' }
+    const location = card.location ? { location: card.location } : {}
     const newQuantity = card.quantity - item.quantity
-    if (newQuantity <= 0) return { cardId: item.cardId, action: 'delete' }
-    return { cardId: item.cardId, action: 'update', newQuantity }
+    if (newQuantity <= 0) return { cardId: item.cardId, action: 'delete', ...location }
+    return { cardId: item.cardId, action: 'update', newQuantity, ...location }
   })
+
+export interface PickListLine {
+  cardId: string
+  name: string
+  edition: string
+  condition: string
+  foil: boolean
+  quantity: number
+}
+
+/** Un grupo de la lista de picking; location '' = cartas sin ubicación. */
+export interface PickListGroup {
+  location: string
+  lines: PickListLine[]
+}
+
+/**
+ * Lista de picking de una venta: lo que hay que sacar de cada ubicación.
+ * `items` y `plan` van en el mismo orden (el plan sale de esos items); los
+ * faltantes no se listan. Ubicaciones en orden alfabético, las cartas sin
+ * ubicación al final.
+ */
+export const buildPickList = (
+  items: Pick<BuyRequestItem, 'cardId' | 'name' | 'edition' | 'condition' | 'foil' | 'quantity'>[],
+  plan: FulfillAction[],
+): PickListGroup[] => {
+  const groups = new Map<string, PickListLine[]>()
+  for (const [i, step] of plan.entries()) {
+    const item = items.at(i)
+    if (!item || step.action === 'missing') continue
+    const location = step.location ?? ''
+    const lines = groups.get(location) ?? []
+    lines.push({
+      cardId: item.cardId,
+      name: item.name,
+      edition: item.edition,
+      condition: item.condition,
+      foil: item.foil,
+      quantity: item.quantity,
+    })
+    groups.set(location, lines)
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => Number(a === '') - Number(b === '') || a.localeCompare(b))
+    .map(([location, lines]) => ({ location, lines: lines.sort((a, b) => a.name.localeCompare(b.name)) }))
+}
+
+/** Texto plano de la lista de picking (para copiar o imprimir). */
+export const formatPickList = (groups: PickListGroup[], unassignedLabel: string): string =>
+  groups
+    .map(group => [
+      `[${group.location || unassignedLabel}]`,
+      ...group.lines.map(line =>
+        `${line.quantity}x ${line.name} (${line.edition}) ${line.condition}${line.foil ? ' foil' : ''}`),
+    ].join('\n'))
+    .join('\n\n')
+
+/**
+ * Totales de ventas realizadas. La ganancia solo suma las ventas con costo
+ * conocido; `unknownCost` cuenta las que no lo tienen para avisarlo en la UI.
+ */
+export const summarizeRealizedSales = (
+  sales: Pick<RealizedSale, 'proceeds' | 'cost' | 'profit'>[],
+): { proceeds: number; cost: number; profit: number; unknownCost: number } => {
+  let proceeds = 0
+  let cost = 0
+  let profit = 0
+  let unknownCost = 0
+  for (const sale of sales) {
+    proceeds += sale.proceeds
+    if (sale.cost === null || sale.profit === null) {
+      unknownCost++
+      continue
+    }
+    cost += sale.cost
+    profit += sale.profit
+  }
+  const round = (n: number) => Math.round(n * 100) / 100
+  return { proceeds: round(proceeds), cost: round(cost), profit: round(profit), unknownCost }
+}
@@ -0,0 +1,91 @@
+import type { Card, CardCondition } from '../types/card'
+import type { CashOffer, CashOfferLine, Preference } from '../types/preferences'
+import { PRICING_CONDITIONS } from './pricingRules'
+
+// Buylist (preferencias COMPRO): qué compra un usuario en efectivo, a cuánto
+// por copia, en qué condición mínima y con qué presupuesto total. Precios en
+// USD, cuentas en centavos como en pricingRules.
+
+export type BuylistEntry = Pick<Preference, 'name' | 'type' | 'quantity' | 'condition' | 'offerPrice'>
+
+/** Precio de oferta válido (positivo, a centavos) o null. */
+export function normalizeOfferPrice(raw: unknown): number | null {
+    const n = typeof raw === 'number' ? raw : Number(raw)
+    if (!Number.isFinite(n) || n <= 0) return null
+    return Math.round(n * 100) / 100
+}
+
+/** Presupuesto del buylist; null = sin tope. */
+export function normalizeBuylistBudget(raw: unknown): number | null {
+    if (raw === null || raw === undefined || raw === '') return null
+    return normalizeOfferPrice(raw)
+}
+
+/** ¿La carta está en la condición pedida o mejor? Sin mínimo, cualquiera sirve. */
+export function meetsMinCondition(condition: CardCondition, minCondition: CardCondition | undefined): boolean {
+    if (!minCondition) return true
+    const rank = PRICING_CONDITIONS.indexOf(condition)
+    const minRank = PRICING_CONDITIONS.indexOf(minCondition)
+    return rank !== -1 && minRank !== -1 && rank <= minRank
+}
+
+/**
+ * Oferta en efectivo del dueño del buylist por mis cartas: cada carta que
+ * figura en su buylist (por nombre, cualquier edición), en la condición
+ * pedida o mejor, hasta las copias que compra. El presupuesto se va gastando
+ * en el orden de mis cartas; lo que no entra queda afuera y marca `capped`.
+ * null si ninguna carta entra.
+ */
+export function calculateCashOffer(
+    myCards: Card[],
+    theirBuylist: BuylistEntry[],
+    budget?: number | null,
+): CashOffer | null {
+    // Primera entrada COMPRO por nombre, con las copias que todavía compra
+    const wanted = new Map<string, { entry: BuylistEntry; offerCents: number; remaining: number }>()
+    for (const entry of theirBuylist) {
+        const offerPrice = normalizeOfferPrice(entry.offerPrice)
+        if (entry.type !== 'COMPRO' || !entry.name || offerPrice === null) continue
+        const key = entry.name.toLowerCase()
+        if (wanted.has(key)) continue
+        wanted.set(key, { entry, offerCents: Math.round(offerPrice * 100), remaining: entry.quantity || 1 })
+    }
+    if (wanted.size === 0) return null
+
+    const budgetCents = budget ? Math.round(budget * 100) : null
+    let spentCents = 0
+    let capped = false
+    const lines: CashOfferLine[] = []
+
+    for (const card of myCards) {
+        if (!card.name || card.status === 'wishlist' || !(card.quantity > 0)) continue
+        const slot = wanted.get(card.name.toLowerCase())
+        if (!slot || slot.remaining <= 0 || !meetsMinCondition(card.condition, slot.entry.condition)) continue
+
+        let quantity = Math.min(slot.remaining, card.quantity)
+        if (budgetCents !== null) {
+            const affordable = Math.floor((budgetCents - spentCents) / slot.offerCents)
+            if (affordable < quantity) {
+                capped = true
+                quantity = affordable
+            }
+        }
+        if (quantity <= 0) continue
+
+        slot.remaining -= quantity
+        spentCents += quantity * slot.offerCents
+        lines.push({
+            cardId: card.id,
+            scryfallId: card.scryfallId,
+            name: card.name,
+            edition: card.edition,
+            condition: card.condition,
+            foil: card.foil,
+            quantity,
+            offerPrice: slot.offerCents / 100,
+        })
+    }
+
+    if (lines.length === 0) return null
+    return { total: spentCents / 100, lines, capped }
+}
@@ -184,8 +184,9 @@ export const buildMoxfieldCsv = (cards: {
   price: number
   condition: CardCondition
   language?: string
+  location?: string
 }[]): string => {
-  const header = 'Count,Name,Edition,Condition,Language,Foil,Collector Number,Alter,Proxy,Purchase Price'
+  const header = 'Count,Name,Edition,Condition,Language,Foil,Collector Number,Alter,Proxy,Purchase Price,Location'
   const lines = [header]
 
   for (const card of cards) {
@@ -200,6 +201,7 @@ export const buildMoxfieldCsv = (cards: {
       '',                             // Alter
       '',                             // Proxy
       card.price ? card.price.toFixed(2) : '', // Purchase Price
+      escapeCsvField(card.location ?? ''), // Location (physical storage, not a Moxfield column)
     ].join(','))
   }
 
@@ -218,8 +220,9 @@ export const buildManaboxCsv = (cards: {
   price: number
   condition: CardCondition
   language?: string
+  location?: string
 }[]): string => {
-  const header = 'Name,Set code,Set name,Collector number,Foil,Rarity,Quantity,ManaBox ID,Scryfall ID,Purchase price,Misprint,Altered,Condition,Language,Purchase currency'
+  const header = 'Name,Set code,Set name,Collector number,Foil,Rarity,Quantity,ManaBox ID,Scryfall ID,Purchase price,Misprint,Altered,Condition,Language,Purchase currency,Location'
   const lines = [header]
 
   for (const card of cards) {
@@ -239,6 +242,7 @@ export const buildManaboxCsv = (cards: {
       conditionToManabox(card.condition),   // Condition
       (card.language ?? 'en').toLowerCase(), // Language
       '',                                   // Purchase currency
+      escapeCsvField(card.location ?? ''),  // Location (physical storage, not a ManaBox column)
     ].join(','))
   }
 
@@ -285,7 +289,12 @@ export interface ParsedCsvCard {
   language?: string
   scryfallId: string
   price: number
+  /** What was paid per copy, only from real cost columns ("Purchase price", "Price Bought"). Becomes the import lot. */
+  purchasePrice?: number
   condition: CardCondition
+  /** Set name when the CSV has no set code (Deckbox) or carries both. */
+  setName?: string
+  collectorNumber?: string
 }
 
 /**
@@ -373,16 +382,11 @@ export const isUrzasGathererCsv = (text: string): boolean => {
 }
 
 /**
- * Detect if text is a CSV export (ManaBox, Moxfield, or Urza's Gatherer)
+ * Detect if text is a CSV export — any layout detectCsvFormat knows (ManaBox,
+ * Moxfield, Urza's Gatherer, Deckbox, TCGplayer, Archidekt, Dragon Shield,
+ * Delver Lens) or a generic table with a name column.
  */
-export const isCsvFormat = (text: string): boolean => {
-  const firstLine = text.split('\n')[0]?.trim() ?? ''
-  // ManaBox: headers contain "Name,Set code" or "Scryfall ID"
-  // Moxfield: headers contain "Count,Name,Edition" or "Collector Number"
-  return firstLine.includes('Name,Set code') || firstLine.includes('Scryfall ID')
-    || firstLine.includes('Count,Name,Edition') || firstLine.includes('Collector Number')
-    || isUrzasGathererCsv(text)
-}
+export const isCsvFormat = (text: string): boolean => detectCsvFormat(text) !== null
 
 /**
  * Parse CSV text (ManaBox or Moxfield) into structured card data.
@@ -437,6 +441,7 @@ export const parseCsvDeckImport = (csvText: string): ParsedCsvCard[] => {
     if (!name || !quantity || quantity <= 0) continue
 
     const lang = getField(fields, languageIdx).trim().toLowerCase()
+    const price = Number.parseFloat(getField(fields, priceIdx) || '0') || 0
     cards.push({
       name,
       setCode: getField(fields, setCodeIdx).trim(),
@@ -444,7 +449,9 @@ export const parseCsvDeckImport = (csvText: string): ParsedCsvCard[] => {
       foil: getField(fields, foilIdx).trim().toLowerCase() === 'foil',
       language: lang || undefined,
       scryfallId: getField(fields, scryfallIdx).trim(),
-      price: Number.parseFloat(getField(fields, priceIdx) || '0') || 0,
+      price,
+      // ManaBox/Moxfield only export a purchase price: it is both
+      ...(price > 0 ? { purchasePrice: price } : {}),
       condition: conditionMapper(getField(fields, conditionIdx)),
     })
   }
@@ -556,3 +563,362 @@ export const parseUrzasGathererCsv = (csvText: string): ParsedCsvCard[] => {
 
   return cards
 }
+
+// ============ CSV (Deckbox / TCGplayer / Archidekt / Dragon Shield / Delver Lens) IMPORT ============
+
+/** Every CSV layout the importer recognises. 'generic' = unknown layout read through a column mapping. */
+export type CsvFormat =
+  | 'manabox'
+  | 'moxfield'
+  | 'urzasGatherer'
+  | 'deckbox'
+  | 'tcgplayer'
+  | 'archidekt'
+  | 'dragonShield'
+  | 'delverLens'
+  | 'generic'
+
+export const CSV_FORMAT_LABELS: Readonly<Record<CsvFormat, string>> = {
+  manabox: 'ManaBox',
+  moxfield: 'Moxfield',
+  urzasGatherer: "Urza's Gatherer",
+  deckbox: 'Deckbox',
+  tcgplayer: 'TCGplayer',
+  archidekt: 'Archidekt',
+  dragonShield: 'Dragon Shield',
+  delverLens: 'Delver Lens',
+  generic: 'CSV',
+}
+
+/** ParsedCsvCard fields a CSV column can feed. */
+export type CsvField =
+  | 'name'
+  | 'quantity'
+  | 'setCode'
+  | 'setName'
+  | 'collectorNumber'
+  | 'foil'
+  | 'condition'
+  | 'language'
+  | 'price'
+  | 'purchasePrice'
+  | 'scryfallId'
+
+export const CSV_FIELDS: readonly CsvField[] = [
+  'name', 'quantity', 'setCode', 'setName', 'collectorNumber', 'foil', 'condition', 'language', 'price', 'purchasePrice', 'scryfallId',
+]
+
+/** Column index per field (missing = the CSV doesn't have it). */
+export type CsvColumnMapping = Partial<Record<CsvField, number>>
+
+type ConditionVocabulary = ReadonlyMap<string, CardCondition>
+
+/** "Good (Lightly Played)" → "goodlightlyplayed": the vocabularies differ in spacing/case/underscores. */
+const conditionKey = (raw: string): string => raw.toLowerCase().replace(/[^a-z]/g, '')
+
+/**
+ * US grading (TCGplayer, Archidekt and the generic fallback), abbreviations
+ * included. Deliberately tolerant: anything that reads as a condition maps.
+ */
+const US_CONDITIONS: ConditionVocabulary = new Map<string, CardCondition>([
+  ['m', 'M'], ['mint', 'M'],
+  ['nm', 'NM'], ['nearmint', 'NM'], ['nmm', 'NM'],
+  ['lp', 'LP'], ['lightlyplayed', 'LP'], ['lightplayed', 'LP'], ['sp', 'LP'], ['slightlyplayed', 'LP'], ['ex', 'LP'], ['excellent', 'LP'], ['good', 'LP'],
+  ['mp', 'MP'], ['moderatelyplayed', 'MP'], ['played', 'MP'], ['pl', 'MP'],
+  ['hp', 'HP'], ['heavilyplayed', 'HP'],
+  ['d', 'PO'], ['dmg', 'PO'], ['damaged', 'PO'], ['po', 'PO'], ['poor', 'PO'],
+])
+
+/**
+ * European grading (Dragon Shield, Delver Lens — same scale as ManaBox and
+ * Urza's Gatherer above): "Light Played" sits BELOW Excellent/Good, so it is
+ * MP here, not LP as in the US scale.
+ */
+const EU_CONDITIONS: ConditionVocabulary = new Map<string, CardCondition>([
+  ['mint', 'M'],
+  ['nearmint', 'NM'],
+  ['excellent', 'LP'], ['good', 'LP'],
+  ['lightplayed', 'MP'],
+  ['played', 'HP'],
+  ['poor', 'PO'],
+])
+
+/** Deckbox: "Good (Lightly Played)" is its LP, and plain "Played" is MP. */
+const DECKBOX_CONDITIONS: ConditionVocabulary = new Map<string, CardCondition>([
+  ['mint', 'M'],
+  ['nearmint', 'NM'],
+  ['goodlightlyplayed', 'LP'], ['good', 'LP'],
+  ['played', 'MP'],
+  ['heavilyplayed', 'HP'],
+  ['poor', 'PO'],
+])
+
+const LANGUAGE_NAMES = new Map<string, string>([
+  ['english', 'en'], ['spanish', 'es'], ['portuguese', 'pt'], ['portuguesebrazil', 'pt'], ['brazilianportuguese', 'pt'],
+  ['french', 'fr'], ['german', 'de'], ['italian', 'it'], ['japanese', 'ja'], ['korean', 'ko'], ['russian', 'ru'],
+  ['chinese', 'zhs'], ['chinesesimplified', 'zhs'], ['simplifiedchinese', 'zhs'],
+  ['chinesetraditional', 'zht'], ['traditionalchinese', 'zht'],
+  ['hebrew', 'he'], ['latin', 'la'], ['ancientgreek', 'grc'], ['arabic', 'ar'], ['sanskrit', 'sa'], ['phyrexian', 'ph'],
+])
+
+/** Codes some apps use that aren't Scryfall's (JP/KR/CN/TW…). */
+const LANGUAGE_CODE_ALIASES = new Map<string, string>([
+  ['jp', 'ja'], ['kr', 'ko'], ['cn', 'zhs'], ['cs', 'zhs'], ['zh', 'zhs'], ['tw', 'zht'], ['ct', 'zht'], ['br', 'pt'],
+])
+
+/** "English" / "EN" / "JP" / "Chinese Simplified" → Scryfall language code. */
+export const normalizeCsvLanguage = (raw: string): string | undefined => {
+  const value = raw.trim().toLowerCase()
+  if (!value) return undefined
+  const byName = LANGUAGE_NAMES.get(value.replace(/[^a-z]/g, ''))
+  if (byName) return byName
+  if (!/^[a-z]{2,3}$/.test(value)) return undefined
+  return LANGUAGE_CODE_ALIASES.get(value) ?? value
+}
+
+/** Foil columns come as "foil", "Foil", "etched", "true", "1", "x"… and "Normal"/"Non-foil" for the rest. */
+const isFoilValue = (raw: string): boolean => {
+  const value = raw.trim().toLowerCase()
+  if (!value || /non-?foil/.test(value)) return false
+  return value.includes('foil') || value === 'etched' || ['true', 'yes', 'y', '1', 'x'].includes(value)
+}
+
+/** "$1.234,50" / "€ 2,5" / "3.99" → number (0 when unreadable). */
+const parseCsvPrice = (raw: string): number => {
+  let value = raw.replace(/[^\d.,-]/g, '')
+  if (value.includes(',') && value.includes('.')) {
+    // the last separator is the decimal one
+    value = value.lastIndexOf(',') > value.lastIndexOf('.')
+      ? value.replace(/\./g, '').replace(',', '.')
+      : value.replace(/,/g, '')
+  } else if (value.includes(',')) {
+    value = value.replace(',', '.')
+  }
+  return Number.parseFloat(value) || 0
+}
+
+/** Non-empty lines, BOM stripped and Excel's "sep=," preamble skipped. */
+const csvLines = (text: string): string[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).filter(l => l.trim())
+  const first = lines[0]?.trim() ?? ''
+  return first.startsWith('sep=') || first.startsWith('"sep=') ? lines.slice(1) : lines
+}
+
+/** Header row of a CSV as written (trimmed), for the column-mapping UI. */
+export const readCsvHeaders = (text: string): string[] => {
+  const headerLine = csvLines(text)[0]
+  return headerLine ? parseCsvLine(headerLine).map(h => h.trim()) : []
+}
+
+const headerKey = (header: string): string => header.trim().toLowerCase()
+
+interface CsvProfile {
+  detect: (headers: ReadonlySet<string>) => boolean
+  /** Candidate header names per field (lowercase), in order of preference. */
+  columns: Partial<Record<CsvField, readonly string[]>>
+  conditions: ConditionVocabulary
+  /** Per-format name cleanup (e.g. TCGplayer's "(Borderless)" suffixes). */
+  cleanName?: (name: string) => string
+}
+
+/**
+ * Layouts as each app exports them. Checked in this order, and BEFORE the
+ * ManaBox/Moxfield sniffing in isCsvFormat: Archidekt and Delver Lens both
+ * carry "Scryfall ID"/"Collector Number", which that check would claim.
+ */
+const CSV_PROFILES = new Map<Exclude<CsvFormat, 'manabox' | 'moxfield' | 'urzasGatherer' | 'generic'>, CsvProfile>([
+  // Count,Tradelist Count,Name,Edition,Card Number,Condition,Language,Foil,Signed,…,My Price
+  // Moxfield copies this layout (Tradelist Count included) but says "Collector Number" and puts
+  // a set CODE in Edition; Deckbox's Edition is the full set NAME and it has no set code at all.
+  ['deckbox', {
+    detect: h => h.has('tradelist count') && !h.has('collector number') && (h.has('card number') || h.has('my price') || h.has('artist proof')),
+    columns: {
+      name: ['name'], quantity: ['count'], setName: ['edition'], collectorNumber: ['card number'],
+      foil: ['foil'], condition: ['condition'], language: ['language'], price: ['my price', 'price'],
+    },
+    conditions: DECKBOX_CONDITIONS,
+  }],
+  // Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition,Language,Rarity,Product ID,SKU,Price
+  // "Name" carries the product treatment ("Lightning Bolt (Borderless)"); "Simple Name" is the
+  // card name. Foil lives in "Printing", and older exports fold it into the condition ("Near Mint Foil").
+  ['tcgplayer', {
+    detect: h => h.has('simple name') || (h.has('product id') && (h.has('printing') || h.has('sku'))),
+    columns: {
+      name: ['simple name', 'name', 'product name'], quantity: ['quantity', 'total quantity'], setCode: ['set code'],
+      setName: ['set', 'set name'], collectorNumber: ['card number', 'number'], foil: ['printing'],
+      condition: ['condition'], language: ['language'], price: ['price each', 'price', 'tcg market price'],
+    },
+    conditions: US_CONDITIONS,
+    cleanName: name => name.replace(/\s{1,5}\([^()]{1,40}\)$/, '').trim(),
+  }],
+  // Quantity,Name,Finish,Condition,Date Added,Language,Purchase Price,Tags,Edition Name,Edition Code,…,Scryfall ID,Collector Number
+  // Finish is Normal/Foil/Etched; condition and language are codes (NM, D, EN, JP…).
+  ['archidekt', {
+    detect: h => h.has('edition code') && (h.has('finish') || h.has('edition name')),
+    columns: {
+      name: ['name'], quantity: ['quantity'], setCode: ['edition code'], setName: ['edition name'],
+      collectorNumber: ['collector number'], foil: ['finish'], condition: ['condition'], language: ['language'],
+      price: ['price'], purchasePrice: ['purchase price'], scryfallId: ['scryfall id'],
+    },
+    conditions: US_CONDITIONS,
+  }],
+  // "sep=," then Folder Name,Quantity,Trade Quantity,Card Name,Set Code,Set Name,Card Number,Condition,Printing,Language,Price Bought,Date Bought,…
+  // Conditions are the European scale without spaces (NearMint, LightPlayed).
+  ['dragonShield', {
+    detect: h => (h.has('folder name') && h.has('card name')) || (h.has('trade quantity') && h.has('printing')),
+    columns: {
+      name: ['card name'], quantity: ['quantity'], setCode: ['set code'], setName: ['set name'],
+      collectorNumber: ['card number'], foil: ['printing'], condition: ['condition'], language: ['language'],
+      purchasePrice: ['price bought'],
+    },
+    conditions: EU_CONDITIONS,
+  }],
+  // Delver's export columns are user-configurable; these are the names its default template uses
+  // ("Collector's number" with the apostrophe, set NAME under "Edition"). Anything further off
+  // falls through to the generic column mapping.
+  ['delverLens', {
+    detect: h => h.has('collector\'s number') || (h.has('edition') && h.has('scryfall id') && !h.has('tradelist count')),
+    columns: {
+      name: ['name', 'card name'], quantity: ['quantity', 'count'], setCode: ['edition code', 'set code'],
+      setName: ['edition', 'set'], collectorNumber: ['collector\'s number', 'collector number'], foil: ['foil', 'finish'],
+      condition: ['condition'], language: ['language'], price: ['price'], scryfallId: ['scryfall id'],
+    },
+    conditions: EU_CONDITIONS,
+  }],
+])
+
+/** Header names the generic fallback tries per field, merged from every known layout plus common synonyms. */
+const GENERIC_COLUMNS: Readonly<Record<CsvField, readonly string[]>> = {
+  name: ['name', 'card name', 'card', 'simple name', 'product name', 'cardname', 'nombre', 'carta'],
+  quantity: ['quantity', 'qty', 'count', 'amount', 'copies', 'cantidad', 'quantidade'],
+  setCode: ['set code', 'edition code', 'setcode', 'set_code', 'code'],
+  setName: ['set name', 'set', 'edition', 'edition name', 'expansion', 'edicion', 'edición', 'coleccion', 'colección'],
+  collectorNumber: ['collector number', 'collector\'s number', 'card number', 'number', 'cn', '#'],
+  foil: ['foil', 'finish', 'printing', 'is foil'],
+  condition: ['condition', 'cond', 'grade', 'estado', 'condicion', 'condición'],
+  language: ['language', 'lang', 'idioma'],
+  price: ['price', 'my price', 'market price', 'precio'],
+  purchasePrice: ['purchase price', 'price bought'],
+  scryfallId: ['scryfall id', 'scryfallid', 'scryfall_id'],
+}
+
+const resolveColumns = (
+  headers: readonly string[],
+  columns: Partial<Record<CsvField, readonly string[]>>,
+): CsvColumnMapping => {
+  const byKey = new Map<string, number>()
+  headers.forEach((h, i) => {
+    const key = headerKey(h)
+    if (!byKey.has(key)) byKey.set(key, i)
+  })
+  const mapping: CsvColumnMapping = {}
+  const taken = new Set<number>()
+  for (const [field, candidates] of Object.entries(columns) as [CsvField, readonly string[]][]) {
+    for (const candidate of candidates) {
+      const idx = byKey.get(candidate)
+      if (idx !== undefined && !taken.has(idx)) {
+        mapping[field] = idx // eslint-disable-line security/detect-object-injection -- field comes from CsvField
+        taken.add(idx)
+        break
+      }
+    }
+  }
+  return mapping
+}
+
+/** Best-effort column mapping for an unrecognised CSV (the user can correct it in the import modal). */
+export const guessCsvColumnMapping = (headers: readonly string[]): CsvColumnMapping =>
+  resolveColumns(headers, GENERIC_COLUMNS)
+
+const parseMappedRows = (
+  text: string,
+  mapping: CsvColumnMapping,
+  conditions: ConditionVocabulary,
+  cleanName: (name: string) => string = n => n,
+): ParsedCsvCard[] => {
+  const lines = csvLines(text)
+  if (lines.length < 2 || mapping.name === undefined) return []
+
+  const getField = (fields: string[], idx: number | undefined): string => {
+    if (idx === undefined) return ''
+    // eslint-disable-next-line security/detect-object-injection
+    return (fields[idx] ?? '').trim()
+  }
+
+  const cards: ParsedCsvCard[] = []
+  for (const line of lines.slice(1)) {
+    const fields = parseCsvLine(line)
+    const name = cleanName(getField(fields, mapping.name))
+    // Sin columna de cantidad, cada fila es una copia
+    const quantity = mapping.quantity === undefined ? 1 : Number.parseInt(getField(fields, mapping.quantity) || '0', 10)
+    if (!name || !quantity || quantity <= 0) continue
+
+    // TCGplayer viejo: "Near Mint Foil" en la columna de condición
+    const rawCondition = getField(fields, mapping.condition)
+    const conditionFoil = /\bfoil\b/i.test(rawCondition) && !/non-?foil/i.test(rawCondition)
+    const setName = getField(fields, mapping.setName)
+    const collectorNumber = getField(fields, mapping.collectorNumber)
+    const purchasePrice = parseCsvPrice(getField(fields, mapping.purchasePrice))
+
+    cards.push({
+      name,
+      setCode: getField(fields, mapping.setCode).toUpperCase(),
+      quantity,
+      foil: isFoilValue(getField(fields, mapping.foil)) || conditionFoil,
+      language: normalizeCsvLanguage(getField(fields, mapping.language)),
+      scryfallId: getField(fields, mapping.scryfallId),
+      // Sin columna de precio se muestra lo pagado, como en ManaBox
+      price: mapping.price === undefined ? purchasePrice : parseCsvPrice(getField(fields, mapping.price)),
+      ...(purchasePrice > 0 ? { purchasePrice } : {}),
+      condition: conditions.get(conditionKey(rawCondition.replace(/\bfoil\b/i, ''))) ?? 'NM',
+      ...(setName ? { setName } : {}),
+      ...(collectorNumber ? { collectorNumber } : {}),
+    })
+  }
+  return cards
+}
+
+/** Reads any CSV through an explicit column mapping (the fallback for unrecognised layouts). */
+export const parseCsvWithMapping = (text: string, mapping: CsvColumnMapping): ParsedCsvCard[] =>
+  parseMappedRows(text, mapping, US_CONDITIONS)
+
+/**
+ * Which CSV layout `text` is, or null when it isn't a CSV at all.
+ * 'generic' = a table with a recognisable name column but no known layout.
+ */
+export const detectCsvFormat = (text: string): CsvFormat | null => {
+  if (isUrzasGathererCsv(text)) return 'urzasGatherer'
+  const headers = readCsvHeaders(text)
+  const keys = new Set(headers.map(headerKey))
+  for (const [format, profile] of CSV_PROFILES) {
+    if (profile.detect(keys)) return format
+  }
+  const firstLine = text.split('\n')[0]?.trim() ?? ''
+  // ManaBox: headers contain "Name,Set code" or "Scryfall ID"
+  if (firstLine.includes('Name,Set code') || firstLine.includes('Scryfall ID')) return 'manabox'
+  // Moxfield: headers contain "Count,Name,Edition" or "Collector Number"
+  if (firstLine.includes('Count,Name,Edition') || firstLine.includes('Collector Number')) return 'moxfield'
+  if (headers.length >= 2 && guessCsvColumnMapping(headers).name !== undefined) return 'generic'
+  return null
+}
+
+/**
+ * Parse a CSV of any supported layout into ParsedCsvCard[] (what
+ * handleImportCsv consumes). `mapping` only applies to 'generic' CSVs;
+ * without it the guessed mapping is used.
+ */
+export const parseCsvImport = (text: string, mapping?: CsvColumnMapping): ParsedCsvCard[] => {
+  const format = detectCsvFormat(text)
+  if (!format) return []
+  switch (format) {
+    case 'urzasGatherer': return parseUrzasGathererCsv(text)
+    case 'manabox':
+    case 'moxfield': return parseCsvDeckImport(text)
+    case 'generic': return parseCsvWithMapping(text, mapping ?? guessCsvColumnMapping(readCsvHeaders(text)))
+    default: {
+      const profile = CSV_PROFILES.get(format)
+      if (!profile) return []
+      return parseMappedRows(text, resolveColumns(readCsvHeaders(text), profile.columns), profile.conditions, profile.cleanName)
+    }
+  }
+}
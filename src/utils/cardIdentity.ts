@@ -30,3 +30,10 @@ export const findCardWithSamePrint = (
     c.status === identity.status,
   )
 }
+
+/**
+ * Same rule as findCardWithSamePrint, as a Map key — for bulk paths (import
+ * merge) where a `find` per row over a 60k-card collection is too slow.
+ */
+export const printIdentityKey = (identity: PrintIdentity): string =>
+  [identity.scryfallId, identity.edition, identity.condition, identity.foil ? 'foil' : '', identity.status].join('|')
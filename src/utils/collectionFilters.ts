@@ -20,6 +20,8 @@ export interface PaginationFilterParams {
   filterQuery: string
   advFoilFilter: 'any' | 'foil'
   advSelectedSets: string[]
+  /** Ubicaciones físicas seleccionadas ('' = sin ubicación) */
+  advSelectedLocations?: string[]
   advPriceMin: number | undefined
   advPriceMax: number | undefined
 }
@@ -71,6 +73,7 @@ export const buildPaginationFilters = (params: PaginationFilterParams): {
   type?: string[]
   foil?: boolean
   condition?: undefined
+  location?: string[]
   minPrice?: number
   maxPrice?: number
 } => {
@@ -82,6 +85,7 @@ export const buildPaginationFilters = (params: PaginationFilterParams): {
     filterQuery,
     advFoilFilter,
     advSelectedSets,
+    advSelectedLocations = [],
     advPriceMin,
     advPriceMax,
   } = params
@@ -128,6 +132,9 @@ export const buildPaginationFilters = (params: PaginationFilterParams): {
   // Map edition (advanced sets filter)
   const editionArr = advSelectedSets.length > 0 ? advSelectedSets : undefined
 
+  // Map physical storage locations
+  const locationArr = advSelectedLocations.length > 0 ? advSelectedLocations : undefined
+
   return {
     search: filterQuery.trim() || undefined,
     status: statusArr,
@@ -137,6 +144,7 @@ export const buildPaginationFilters = (params: PaginationFilterParams): {
     type: typeArr,
     foil: foilVal,
     condition: conditionArr,
+    location: locationArr,
     minPrice: advPriceMin,
     maxPrice: advPriceMax,
   }
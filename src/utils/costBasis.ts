@@ -0,0 +1,161 @@
+import type { AcquisitionLot, AcquisitionSource, Card, CostBasis } from '../types/card'
+
+/**
+ * Costo de compra por carta. Mismas reglas que functions/lib/acquisitions.js
+ * (el servidor las aplica en trades y en el card_index): las copias salen
+ * FIFO y un lote con `unitPrice: null` se cuenta como copia pero no como costo.
+ */
+
+export const ACQUISITION_SOURCES: readonly AcquisitionSource[] = ['buy', 'pack', 'trade', 'gift', 'import', 'other']
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100
+
+export const todayDateKey = (date: Date = new Date()): string => date.toISOString().slice(0, 10)
+
+export const cleanLot = (lot: Partial<AcquisitionLot> | null | undefined): AcquisitionLot | null => {
+  if (!lot) return null
+  const quantity = Math.floor(Number(lot.quantity) || 0)
+  if (quantity <= 0) return null
+  const price = Number(lot.unitPrice)
+  return {
+    quantity,
+    unitPrice: lot.unitPrice !== null && lot.unitPrice !== undefined && Number.isFinite(price) && price >= 0 ? roundCents(price) : null,
+    date: typeof lot.date === 'string' ? lot.date : '',
+    source: lot.source && ACQUISITION_SOURCES.includes(lot.source) ? lot.source : 'other',
+    counterparty: typeof lot.counterparty === 'string' ? lot.counterparty : '',
+  }
+}
+
+/** Lote de una carta importada: el precio de compra solo si el archivo lo trae. */
+export const importLot = (quantity: number, unitPrice?: number | null): AcquisitionLot[] =>
+  [cleanLot({ quantity, unitPrice: unitPrice && unitPrice > 0 ? unitPrice : null, date: todayDateKey(), source: 'import' })]
+    .filter((l): l is AcquisitionLot => l !== null)
+
+/**
+ * Lotes tras sumar `lot` a una carta que tenía `heldQuantity` copias
+ * (los lotes viejos se recortan primero a lo que de verdad quedaba).
+ */
+export const appendLot = (
+  lots: readonly Partial<AcquisitionLot>[] | undefined,
+  heldQuantity: number,
+  lot: AcquisitionLot,
+): AcquisitionLot[] => [...effectiveLots(lots, heldQuantity), lot]
+
+/** Saca `quantity` copias de los lotes, el más antiguo primero. */
+export function consumeLots(
+  lots: readonly Partial<AcquisitionLot>[] | undefined,
+  quantity: number,
+): { consumed: AcquisitionLot[]; remaining: AcquisitionLot[] } {
+  const sorted = (lots ?? [])
+    .map(cleanLot)
+    .filter((l): l is AcquisitionLot => l !== null)
+    .sort((a, b) => a.date.localeCompare(b.date))
+  const consumed: AcquisitionLot[] = []
+  const remaining: AcquisitionLot[] = []
+  let left = Math.max(0, Math.floor(quantity || 0))
+  for (const lot of sorted) {
+    if (left === 0) {
+      remaining.push(lot)
+      continue
+    }
+    const take = Math.min(left, lot.quantity)
+    consumed.push({ ...lot, quantity: take })
+    if (take < lot.quantity) remaining.push({ ...lot, quantity: lot.quantity - take })
+    left -= take
+  }
+  return { consumed, remaining }
+}
+
+/** Lotes que siguen respaldando `quantity` copias (el sobrante salió FIFO). */
+export function effectiveLots(lots: readonly Partial<AcquisitionLot>[] | undefined, quantity: number): AcquisitionLot[] {
+  const { remaining } = consumeLots(lots, 0)
+  const total = remaining.reduce((sum, l) => sum + l.quantity, 0)
+  const held = Math.max(0, Math.floor(quantity || 0))
+  return total > held ? consumeLots(remaining, total - held).remaining : remaining
+}
+
+export const lotsCost = (lots: readonly AcquisitionLot[]): CostBasis => {
+  let quantity = 0
+  let cost = 0
+  for (const lot of lots) {
+    if (lot.unitPrice === null) continue
+    quantity += lot.quantity
+    cost += lot.unitPrice * lot.quantity
+  }
+  return { quantity, cost: roundCents(cost) }
+}
+
+/**
+ * Costo conocido de una carta: de sus lotes si están cargados (doc completo),
+ * si no del resumen que trae el card_index. null si no se sabe nada.
+ */
+export function costBasisOf(card: Pick<Card, 'quantity' | 'acquisitions' | 'costBasis'>): CostBasis | null {
+  const basis = card.acquisitions
+    ? lotsCost(effectiveLots(card.acquisitions, card.quantity))
+    : card.costBasis ?? null
+  return basis && basis.quantity > 0 ? basis : null
+}
+
+export interface GainLoss {
+  /** Copias con costo conocido — la ganancia solo habla de esas. */
+  quantity: number
+  cost: number
+  value: number
+  gain: number
+  percent: number | null
+}
+
+/** Ganancia/pérdida no realizada de `basis` valuado a `unitValue` por copia. */
+export function unrealizedGain(basis: CostBasis | null, unitValue: number): GainLoss | null {
+  if (!basis || basis.quantity <= 0) return null
+  const value = roundCents(unitValue * basis.quantity)
+  const gain = roundCents(value - basis.cost)
+  return { quantity: basis.quantity, cost: basis.cost, value, gain, percent: basis.cost > 0 ? (gain / basis.cost) * 100 : null }
+}
+
+/**
+ * Resultado de vender `quantity` copias a `unitPrice`: consume los lotes FIFO.
+ * `cost`/`profit` son null si alguna copia vendida no tiene precio de compra
+ * conocido — un número parcial en los libros es peor que ninguno.
+ */
+export function realizeSale(
+  lots: readonly Partial<AcquisitionLot>[] | undefined,
+  quantity: number,
+  unitPrice: number,
+): { proceeds: number; cost: number | null; profit: number | null; remaining: AcquisitionLot[] } {
+  const { consumed, remaining } = consumeLots(lots, quantity)
+  const known = lotsCost(consumed)
+  const proceeds = roundCents(unitPrice * quantity)
+  const cost = known.quantity === quantity && quantity > 0 ? known.cost : null
+  return { proceeds, cost, profit: cost === null ? null : roundCents(proceeds - cost), remaining }
+}
+
+const OWNED_STATUSES = new Set(['collection', 'sale', 'trade'])
+
+/**
+ * Ganancia no realizada de toda la colección: suma las cartas poseídas con
+ * costo conocido, valuadas con `unitValue` (null = sin precio, se saltea).
+ */
+export function collectionGain<T extends Pick<Card, 'status' | 'quantity' | 'acquisitions' | 'costBasis'>>(
+  cards: readonly T[],
+  unitValue: (card: T) => number | null,
+): GainLoss | null {
+  let quantity = 0
+  let cost = 0
+  let value = 0
+  for (const card of cards) {
+    if (!OWNED_STATUSES.has(card.status)) continue
+    const basis = costBasisOf(card)
+    if (!basis) continue
+    const unit = unitValue(card)
+    if (unit === null) continue
+    quantity += basis.quantity
+    cost += basis.cost
+    value += unit * basis.quantity
+  }
+  if (quantity === 0) return null
+  const totalCost = roundCents(cost)
+  const totalValue = roundCents(value)
+  const gain = roundCents(totalValue - totalCost)
+  return { quantity, cost: totalCost, value: totalValue, gain, percent: totalCost > 0 ? (gain / totalCost) * 100 : null }
+}
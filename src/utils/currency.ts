@@ -0,0 +1,71 @@
+import type { CurrencyCode, ExchangeRates, MoneyDisplay } from '../types/currency'
+
+// Moneda local de display. Todos los precios de la app son USD (Card Kingdom,
+// TCGplayer, market_data); esto solo los convierte para mostrarlos. Sin
+// display (o sin tasa) se muestra USD tal cual, con el mismo `$12.34` de
+// siempre.
+
+export const CURRENCY_CODES: CurrencyCode[] = ['USD', 'ARS', 'MXN', 'CLP', 'COP', 'EUR', 'BRL']
+
+// Locale de formato y decimales por moneda. Los pesos van con código ("ARS
+// 17.400") y no con "$" para que no se confundan con un precio en dólares.
+const CURRENCY_FORMATS = new Map<CurrencyCode, { locale: string; digits: number; display: 'code' | 'symbol' }>([
+    ['ARS', { locale: 'es-AR', digits: 0, display: 'code' }],
+    ['MXN', { locale: 'es-MX', digits: 2, display: 'code' }],
+    ['CLP', { locale: 'es-CL', digits: 0, display: 'code' }],
+    ['COP', { locale: 'es-CO', digits: 0, display: 'code' }],
+    ['EUR', { locale: 'es-ES', digits: 2, display: 'symbol' }],
+    ['BRL', { locale: 'pt-BR', digits: 2, display: 'symbol' }],
+])
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+    typeof value === 'string' && (CURRENCY_CODES as string[]).includes(value)
+
+/**
+ * Tasa con la que se convierte: la manual del usuario si la puso (dólar blue,
+ * cripto, lo que use para cobrar), si no la oficial. null = no hay tasa y se
+ * muestra USD.
+ */
+export const resolveRate = (
+    currency: CurrencyCode,
+    rates: ExchangeRates | null,
+    override: number | null | undefined,
+): number | null => {
+    if (currency === 'USD') return 1
+    if (typeof override === 'number' && Number.isFinite(override) && override > 0) return override
+    return rates?.rates.get(currency) ?? null
+}
+
+const formatters = new Map<CurrencyCode, Intl.NumberFormat>()
+
+const formatIn = (amount: number, currency: CurrencyCode): string => {
+    const format = CURRENCY_FORMATS.get(currency)
+    if (!format) return `$${amount.toFixed(2)}`
+    let formatter = formatters.get(currency)
+    if (!formatter) {
+        formatter = new Intl.NumberFormat(format.locale, {
+            style: 'currency',
+            currency,
+            currencyDisplay: format.display,
+            minimumFractionDigits: format.digits,
+            maximumFractionDigits: format.digits,
+        })
+        formatters.set(currency, formatter)
+    }
+    return formatter.format(amount)
+}
+
+/** Un monto en USD, convertido a la moneda del display si hay uno. */
+export const formatMoney = (usd: number, display?: MoneyDisplay | null): string =>
+    display && display.currency !== 'USD' ? formatIn(usd * display.rate, display.currency) : `$${usd.toFixed(2)}`
+
+/**
+ * Texto del tooltip con el precio USD de origen ("US$12.34 · 1 USD = ARS
+ * 1.450"). undefined cuando no hay conversión, para que `:title` no ponga
+ * nada.
+ */
+export const usdSourceLabel = (usd: unknown, display?: MoneyDisplay | null): string | undefined => {
+    if (!display || display.currency === 'USD') return undefined
+    if (typeof usd !== 'number' || !Number.isFinite(usd)) return undefined
+    return `US$${usd.toFixed(2)} · 1 USD = ${formatIn(display.rate, display.currency)}`
+}
@@ -0,0 +1,53 @@
+/**
+ * Registry of the deck formats we support, in display order.
+ *
+ * Everything format-specific that isn't legality (utils/deckLegality) lives
+ * here: which formats are built around a commander, how a Moxfield format
+ * string maps to ours, and which Karsten table a deck uses.
+ */
+
+import type { DeckFormat } from '@/types/deck'
+import type { DeckSize } from './karstenThresholds'
+
+export const DECK_FORMATS: readonly DeckFormat[] = [
+    'standard',
+    'pioneer',
+    'modern',
+    'legacy',
+    'vintage',
+    'pauper',
+    'premodern',
+    'commander',
+    'brawl',
+    'oathbreaker',
+    'custom',
+]
+
+const COMMANDER_FORMATS = new Set<DeckFormat>(['commander', 'brawl', 'oathbreaker'])
+
+/** Formats where the deck has a commander (commander picker, no sideboard). */
+export const isCommanderFormat = (format: DeckFormat | undefined): boolean =>
+    format !== undefined && COMMANDER_FORMATS.has(format)
+
+const MOXFIELD_ALIASES = new Map<string, DeckFormat>([
+    ['edh', 'commander'],
+    ['historicbrawl', 'brawl'],
+    ['standardbrawl', 'brawl'],
+])
+
+/** Moxfield's `format` string ("pauper", "edh", "historicBrawl"…) → DeckFormat; unknown → custom. */
+export function formatFromMoxfield(raw: string | undefined): DeckFormat {
+    const key = (raw ?? '').trim().toLowerCase()
+    return MOXFIELD_ALIASES.get(key) ?? DECK_FORMATS.find(f => f === key) ?? 'custom'
+}
+
+/**
+ * Karsten table for a deck: 99 for the 100-card commander formats, 40 for a
+ * limited-sized custom deck (draft/sealed pools get filed as custom), 60 for
+ * everything else — Oathbreaker included.
+ */
+export function karstenDeckSize(format: DeckFormat | undefined, mainCount: number): DeckSize {
+    if (format === 'commander' || format === 'brawl') return 99
+    if (format === 'custom' && mainCount > 0 && mainCount <= 45) return 40
+    return 60
+}
@@ -0,0 +1,190 @@
+/**
+ * Deck legality per DeckFormat.
+ *
+ * `Deck.format` used to be only a label: nothing checked the deck against it
+ * and people turned up at events with a banned card nobody noticed. This
+ * validator flags, per format:
+ *  - banned / not-legal cards (and vintage restricted cards with >1 copy);
+ *  - main / sideboard size (60+/15 constructed, exactly 100 in commander and
+ *    brawl, exactly 60 in oathbreaker);
+ *  - copy limits (4 constructed, singleton commander formats — basics excepted);
+ *  - commander formats: the commander is in the deck and every card fits its
+ *    colour identity.
+ * Wishlist cards count: a deck is validated as planned, not as owned.
+ * `custom` has no rules and is never checked.
+ *
+ * Pure — the Scryfall data (full legalities, colour identity) is hydrated by
+ * useDeckLegality. The card_index only keeps `legal` formats, so the indexed
+ * `legalities` alone can't tell banned from restricted.
+ */
+
+import type { DeckFormat } from '@/types/deck'
+
+export interface LegalityCardInput {
+    name: string
+    quantity: number
+    isInSideboard: boolean
+    type_line?: string
+    oracle_text?: string
+    /** Scryfall legalities: format → legal | not_legal | banned | restricted */
+    legalities?: Record<string, string>
+    colorIdentity?: string[]
+}
+
+export type LegalityIssueKind =
+    | 'banned'
+    | 'notLegal'
+    | 'restricted'
+    | 'tooManyCopies'
+    | 'mainTooSmall'
+    | 'mainTooLarge'
+    | 'sideboardTooLarge'
+    | 'commanderMissing'
+    | 'colorIdentity'
+    | 'unverified'
+
+export interface LegalityIssue {
+    kind: LegalityIssueKind
+    /** error = the deck is not legal; warning = could not be checked. */
+    severity: 'error' | 'warning'
+    cardName?: string
+    count?: number
+    limit?: number
+}
+
+export interface DeckLegalityReport {
+    format: DeckFormat
+    /** false for `custom` (no rules) — the UI shows no badge. */
+    checked: boolean
+    legal: boolean
+    issues: LegalityIssue[]
+}
+
+interface FormatRules {
+    minMain: number
+    maxMain?: number
+    /** undefined = the sideboard isn't part of the deck (commander "maybeboard"). */
+    maxSideboard?: number
+    maxCopies: number
+    /** Commander / Brawl / Oathbreaker: commander present + colour identity. */
+    commander?: boolean
+}
+
+const CONSTRUCTED: FormatRules = { minMain: 60, maxSideboard: 15, maxCopies: 4 }
+
+export const FORMAT_RULES: Partial<Record<DeckFormat, FormatRules>> = {
+    standard: CONSTRUCTED,
+    pioneer: CONSTRUCTED,
+    modern: CONSTRUCTED,
+    legacy: CONSTRUCTED,
+    vintage: CONSTRUCTED,
+    pauper: CONSTRUCTED,
+    premodern: CONSTRUCTED,
+    commander: { minMain: 100, maxMain: 100, maxCopies: 1, commander: true },
+    brawl: { minMain: 100, maxMain: 100, maxCopies: 1, commander: true },
+    oathbreaker: { minMain: 60, maxMain: 60, maxCopies: 1, commander: true },
+}
+
+const COLOR_ORDER = ['W', 'U', 'B', 'R', 'G'] as const
+const SYMBOL_RX = /\{([^}]+)\}/g
+
+/**
+ * Colour identity from the printed data when Scryfall's `color_identity` is
+ * missing (partial scryfall_cache docs): colours + every WUBRG symbol in the
+ * cost and rules text, hybrid halves included.
+ */
+export function colorIdentityOf(card: { colors?: string[]; mana_cost?: string; oracle_text?: string }): string[] {
+    const found = new Set<string>(card.colors ?? [])
+    const text = `${card.mana_cost ?? ''} ${card.oracle_text ?? ''}`
+    for (const match of text.matchAll(SYMBOL_RX)) {
+        for (const part of (match[1] ?? '').toUpperCase().split('/')) {
+            if ((COLOR_ORDER as readonly string[]).includes(part)) found.add(part)
+        }
+    }
+    return COLOR_ORDER.filter(c => found.has(c))
+}
+
+/** Basics and "A deck can have any number of cards named …" skip the copy limit. */
+export const ignoresCopyLimit = (card: Pick<LegalityCardInput, 'type_line' | 'oracle_text'>): boolean =>
+    /\bBasic\b/.test(card.type_line ?? '') || /any number of cards named/i.test(card.oracle_text ?? '')
+
+const nameKey = (name: string): string => name.trim().toLowerCase()
+
+/** A deck card is the commander if its name (or one of its faces) is a commander name. */
+const isCommanderCard = (card: LegalityCardInput, commanders: Set<string>): boolean =>
+    [card.name, ...card.name.split(' // ')].some(n => commanders.has(nameKey(n)))
+
+export function validateDeck(
+    format: DeckFormat,
+    cards: readonly LegalityCardInput[],
+    commanderNames: readonly string[] = [],
+): DeckLegalityReport {
+    // eslint-disable-next-line security/detect-object-injection
+    const rules = FORMAT_RULES[format]
+    if (!rules) return { format, checked: false, legal: true, issues: [] }
+
+    const inDeck = rules.maxSideboard === undefined ? cards.filter(c => !c.isInSideboard) : [...cards]
+    const issues: LegalityIssue[] = []
+
+    // Size
+    const main = inDeck.filter(c => !c.isInSideboard).reduce((sum, c) => sum + c.quantity, 0)
+    const side = inDeck.filter(c => c.isInSideboard).reduce((sum, c) => sum + c.quantity, 0)
+    if (main < rules.minMain) issues.push({ kind: 'mainTooSmall', severity: 'error', count: main, limit: rules.minMain })
+    if (rules.maxMain !== undefined && main > rules.maxMain) {
+        issues.push({ kind: 'mainTooLarge', severity: 'error', count: main, limit: rules.maxMain })
+    }
+    if (rules.maxSideboard !== undefined && side > rules.maxSideboard) {
+        issues.push({ kind: 'sideboardTooLarge', severity: 'error', count: side, limit: rules.maxSideboard })
+    }
+
+    // Por nombre: la misma carta en varias ediciones/foil/tablero cuenta junta
+    const byName = new Map<string, { card: LegalityCardInput; copies: number }>()
+    for (const card of inDeck) {
+        const entry = byName.get(nameKey(card.name))
+        if (entry) entry.copies += card.quantity
+        else byName.set(nameKey(card.name), { card, copies: card.quantity })
+    }
+
+    for (const { card, copies } of byName.values()) {
+        // eslint-disable-next-line security/detect-object-injection
+        const status = card.legalities?.[format]
+        if (!card.legalities || Object.keys(card.legalities).length === 0) {
+            issues.push({ kind: 'unverified', severity: 'warning', cardName: card.name })
+        } else if (status === 'banned') {
+            issues.push({ kind: 'banned', severity: 'error', cardName: card.name })
+        } else if (status === 'restricted') {
+            if (copies > 1) issues.push({ kind: 'restricted', severity: 'error', cardName: card.name, count: copies, limit: 1 })
+        } else if (status !== 'legal') {
+            issues.push({ kind: 'notLegal', severity: 'error', cardName: card.name })
+        }
+        if (status !== 'restricted' && copies > rules.maxCopies && !ignoresCopyLimit(card)) {
+            issues.push({ kind: 'tooManyCopies', severity: 'error', cardName: card.name, count: copies, limit: rules.maxCopies })
+        }
+    }
+
+    if (rules.commander) issues.push(...commanderIssues(inDeck, commanderNames))
+
+    const order = (issue: LegalityIssue) => (issue.severity === 'error' ? 0 : 1)
+    issues.sort((a, b) => order(a) - order(b))
+    return { format, checked: true, legal: issues.every(i => i.severity !== 'error'), issues }
+}
+
+function commanderIssues(cards: readonly LegalityCardInput[], commanderNames: readonly string[]): LegalityIssue[] {
+    const wanted = new Set(commanderNames.map(nameKey).filter(Boolean))
+    const commanders = cards.filter(c => isCommanderCard(c, wanted))
+    if (commanders.length === 0) return [{ kind: 'commanderMissing', severity: 'error' }]
+
+    // Sin identidad conocida del comandante no se puede comprobar nada
+    if (commanders.some(c => !c.colorIdentity)) return []
+    const allowed = new Set(commanders.flatMap(c => c.colorIdentity ?? []))
+    const issues: LegalityIssue[] = []
+    const seen = new Set<string>()
+    for (const card of cards) {
+        if (!card.colorIdentity || seen.has(nameKey(card.name))) continue
+        seen.add(nameKey(card.name))
+        if (card.colorIdentity.some(c => !allowed.has(c))) {
+            issues.push({ kind: 'colorIdentity', severity: 'error', cardName: card.name })
+        }
+    }
+    return issues
+}
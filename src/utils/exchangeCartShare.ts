@@ -1,9 +1,12 @@
 import type { ExchangeCartItem } from '@/types/exchangeCart'
+import type { MoneyDisplay } from '@/types/currency'
+import { formatMoney } from '@/utils/currency'
 
 export function formatCartAsText(
   username: string,
   items: ExchangeCartItem[],
   baseUrl: string,
+  display?: MoneyDisplay | null,
 ): string {
   if (items.length === 0) return ''
 
@@ -16,15 +19,17 @@ export function formatCartAsText(
     if (item.price === 0) {
       pricePart = 'N/A'
     } else if (item.quantity > 1) {
-      pricePart = `$${item.price.toFixed(2)} each`
+      pricePart = `${formatMoney(item.price, display)} each`
     } else {
-      pricePart = `$${item.price.toFixed(2)}`
+      pricePart = formatMoney(item.price, display)
     }
     lines.push(`- ${item.quantity}x ${item.name} (${item.edition}) - ${pricePart}`)
   }
 
   const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0)
-  lines.push(`Total: $${total.toFixed(2)}`)
+  // En texto no hay tooltip: si se convirtió, el total en USD va al lado
+  const converted = display && display.currency !== 'USD'
+  lines.push(`Total: ${formatMoney(total, display)}${converted ? ` (US$${total.toFixed(2)})` : ''}`)
   lines.push(`View profile: ${baseUrl}/@${username}`)
 
   return lines.join('\n')
@@ -34,8 +39,9 @@ export async function shareCart(
   username: string,
   items: ExchangeCartItem[],
   baseUrl: string,
+  display?: MoneyDisplay | null,
 ): Promise<'shared' | 'copied' | 'error'> {
-  const text = formatCartAsText(username, items, baseUrl)
+  const text = formatCartAsText(username, items, baseUrl, display)
 
   if (navigator.share) {
     try {
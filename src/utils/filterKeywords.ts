@@ -421,6 +421,9 @@ export const formatOptions: KeywordOption[] = [
   { value: 'commander', label: 'Commander' },
   { value: 'pioneer', label: 'Pioneer' },
   { value: 'pauper', label: 'Pauper' },
+  { value: 'premodern', label: 'Premodern' },
+  { value: 'brawl', label: 'Brawl' },
+  { value: 'oathbreaker', label: 'Oathbreaker' },
 ]
 
 // All keywords flat list (for search)
@@ -1,3 +1,6 @@
+import type { MoneyDisplay } from '../types/currency'
+import { formatMoney } from './currency'
+
 /**
  * TASK-192 — punto paralelo de services/mtgjson.ts formatPrice (Regla 6).
  *
@@ -10,16 +13,19 @@
  * Un string numerico se acepta; cualquier otra cosa sale como N/A. NO se cierran
  * los casos raros al reves: Number([1]) o Number(true) mostrarian un precio
  * inventado, que es peor que un N/A.
+ *
+ * `display` convierte a la moneda del usuario (stores/currency.ts); sin él,
+ * USD como siempre.
  */
-export function formatPrice(price: unknown): string {
+export function formatPrice(price: unknown, display?: MoneyDisplay | null): string {
   if (typeof price === 'number') {
-    return Number.isFinite(price) ? `$${price.toFixed(2)}` : 'N/A'
+    return Number.isFinite(price) ? formatMoney(price, display) : 'N/A'
   }
   if (typeof price === 'string') {
     const trimmed = price.trim()
     if (trimmed !== '') {
       const parsed = Number(trimmed)
-      if (Number.isFinite(parsed)) return `$${parsed.toFixed(2)}`
+      if (Number.isFinite(parsed)) return formatMoney(parsed, display)
     }
   }
   return 'N/A'
@@ -30,8 +36,8 @@ export function formatPercent(pct: number): string {
   return `${sign}${pct.toFixed(1)}%`
 }
 
-export function formatDollarChange(val: number): string {
-  if (val > 0) return `+$${val.toFixed(2)}`
-  if (val < 0) return `-$${Math.abs(val).toFixed(2)}`
-  return '$0.00'
+export function formatDollarChange(val: number, display?: MoneyDisplay | null): string {
+  if (val > 0) return `+${formatMoney(val, display)}`
+  if (val < 0) return `-${formatMoney(Math.abs(val), display)}`
+  return formatMoney(0, display)
 }
@@ -0,0 +1,72 @@
+// Geohash mínimo (codificar, decodificar al centro de la celda) y distancia
+// en km. Lo justo para comparar ubicaciones sin guardar coordenadas exactas.
+
+const BASE32 = '0123456789bcdefghjkmnpqrstuvwxyz'
+const EARTH_RADIUS_KM = 6371
+
+export function encodeGeohash(lat: number, lon: number, precision: number): string {
+    let latMin = -90, latMax = 90
+    let lonMin = -180, lonMax = 180
+    let hash = ''
+    let bits = 0
+    let value = 0
+    let evenBit = true
+
+    while (hash.length < precision) {
+        value <<= 1
+        if (evenBit) {
+            const mid = (lonMin + lonMax) / 2
+            if (lon >= mid) { value |= 1; lonMin = mid } else lonMax = mid
+        } else {
+            const mid = (latMin + latMax) / 2
+            if (lat >= mid) { value |= 1; latMin = mid } else latMax = mid
+        }
+        evenBit = !evenBit
+        if (++bits === 5) {
+            hash += BASE32.charAt(value)
+            bits = 0
+            value = 0
+        }
+    }
+    return hash
+}
+
+/** Centro de la celda del geohash; null si no es un geohash válido. */
+export function decodeGeohash(hash: string): { lat: number; lon: number } | null {
+    if (!hash) return null
+    let latMin = -90, latMax = 90
+    let lonMin = -180, lonMax = 180
+    let evenBit = true
+
+    for (const char of hash.toLowerCase()) {
+        const value = BASE32.indexOf(char)
+        if (value === -1) return null
+        for (let bit = 4; bit >= 0; bit--) {
+            const on = ((value >> bit) & 1) === 1
+            if (evenBit) {
+                const mid = (lonMin + lonMax) / 2
+                if (on) lonMin = mid
+                else lonMax = mid
+            } else {
+                const mid = (latMin + latMax) / 2
+                if (on) latMin = mid
+                else latMax = mid
+            }
+            evenBit = !evenBit
+        }
+    }
+    return { lat: (latMin + latMax) / 2, lon: (lonMin + lonMax) / 2 }
+}
+
+/** Distancia en km entre dos geohashes (haversine); null si alguno no es válido. */
+export function geohashDistanceKm(a: string, b: string): number | null {
+    const from = decodeGeohash(a)
+    const to = decodeGeohash(b)
+    if (!from || !to) return null
+    const toRad = (deg: number) => deg * Math.PI / 180
+    const dLat = toRad(to.lat - from.lat)
+    const dLon = toRad(to.lon - from.lon)
+    const h = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.sin(dLon / 2) ** 2
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h))
+}
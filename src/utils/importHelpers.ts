@@ -5,9 +5,10 @@
  * Extracted from CollectionView.vue (Plan 03-A) for reuse by Plans B and C.
  */
 
-import type { CardCondition, CardStatus } from '../types/card'
+import type { AcquisitionLot, CardCondition, CardStatus } from '../types/card'
 import { cleanCardName, type ParsedCsvCard } from '../utils/cardHelpers'
 import { cardImageProxyUrl } from '../utils/cardImageUrl'
+import { importLot } from '../utils/costBasis'
 
 // ============================================================
 // Shared interfaces (moved here from CollectionView.vue)
@@ -50,6 +51,7 @@ export interface ImportCardData {
   legalities?: Record<string, string>
   full_art?: boolean
   produced_mana?: string[]
+  acquisitions?: AcquisitionLot[]
   updatedAt: Date
   /**
    * Opaque bundle of Scryfall metadata forwarded to `functions/index.js:bulkImportCards`
@@ -135,6 +137,7 @@ export const buildCollectionCardFromScryfall = (opts: {
     keywords: scryfallData?.keywords ?? [],
     legalities: scryfallData?.legalities,
     full_art: scryfallData?.full_art ?? false,
+    acquisitions: importLot(quantity),
     updatedAt: new Date(),
   }
   if (scryfallData?.setCode ?? setCode) {
@@ -201,6 +204,7 @@ export const buildRawMoxfieldCard = (
     image: card.scryfallId ? cardImageProxyUrl(card.scryfallId, 'thumb', 'front') : '',
     status: status ?? 'collection',
     public: makePublic,
+    acquisitions: importLot(card.quantity),
     updatedAt: new Date(),
   }
 }
@@ -259,7 +263,8 @@ export const buildRawCsvCard = (
   const cardData: ImportCardData = {
     scryfallId: card.scryfallId ?? '',
     name: card.name,
-    edition: card.setCode?.toUpperCase() ?? 'Unknown',
+    // Deckbox (y a veces Delver) trae el nombre del set en vez del código
+    edition: card.setCode ? card.setCode.toUpperCase() : (card.setName ?? 'Unknown'),
     quantity: card.quantity,
     condition: card.condition,
     foil: card.foil,
@@ -270,6 +275,8 @@ export const buildRawCsvCard = (
     image: card.scryfallId ? cardImageProxyUrl(card.scryfallId, 'thumb', 'front') : '',
     status: status ?? 'collection',
     public: makePublic,
+    // Solo lo que se pagó: el precio de mercado o de venta no es costo
+    acquisitions: importLot(card.quantity, card.purchasePrice),
     updatedAt: new Date(),
   }
   if (card.setCode) cardData.setCode = card.setCode.toUpperCase()
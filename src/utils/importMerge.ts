@@ -0,0 +1,185 @@
+/**
+ * Cómo entra un import en una colección que ya tiene cartas.
+ *
+ * Antes confirmImport creaba SIEMPRE un doc nuevo por fila, así que volver a
+ * importar el export semanal del escáner duplicaba la colección entera. Ahora
+ * cada fila se cruza con lo que ya hay por identidad de impresión (la misma
+ * regla que findCardWithSamePrint) y el usuario elige qué hacer:
+ *  - addQuantities:   las impresiones conocidas suman copias al doc existente;
+ *  - replaceSnapshot: el archivo ES la colección — cada impresión conocida
+ *                     queda con la cantidad del archivo y, si se pide
+ *                     (removeMissing), se borra lo que el archivo ya no trae;
+ *  - onlyNew:         las impresiones conocidas se dejan como están.
+ * Lo desconocido se crea en los tres modos.
+ *
+ * Solo el plan (puro); lo aplica collectionStore.confirmImport.
+ */
+
+import type { AcquisitionLot, Card, CardStatus } from '../types/card'
+import { printIdentityKey } from './cardIdentity'
+import { effectiveLots, importLot } from './costBasis'
+
+export type ImportMergeMode = 'addQuantities' | 'replaceSnapshot' | 'onlyNew'
+
+export const IMPORT_MERGE_MODES: readonly ImportMergeMode[] = ['addQuantities', 'replaceSnapshot', 'onlyNew']
+
+export interface ImportMergeOptions {
+  mode: ImportMergeMode
+  /** Solo replaceSnapshot: borrar las cartas que el archivo no trae. */
+  removeMissing: boolean
+}
+
+export const DEFAULT_IMPORT_MERGE: ImportMergeOptions = { mode: 'addQuantities', removeMissing: false }
+
+type MergeableCard = Pick<Card, 'scryfallId' | 'edition' | 'condition' | 'foil' | 'status' | 'quantity' | 'name' | 'acquisitions'>
+
+/** Adónde va a parar cada fila importada. */
+export type ImportRowTarget =
+  | { kind: 'existing'; cardId: string }
+  /** `leader`: fila que crea el doc (las repetidas del archivo se suman a ella). */
+  | { kind: 'create'; leader: number }
+
+export interface ImportMergeCreate {
+  index: number
+  quantity: number
+  acquisitions: AcquisitionLot[]
+}
+
+export interface ImportMergeUpdate {
+  cardId: string
+  name: string
+  from: number
+  to: number
+  acquisitions: AcquisitionLot[]
+}
+
+export interface ImportMergeRemoval {
+  cardId: string
+  name: string
+  quantity: number
+}
+
+export interface ImportMergeSummary {
+  newCards: number
+  newCopies: number
+  updatedCards: number
+  copiesAdded: number
+  copiesRemoved: number
+  unchangedCards: number
+  removedCards: number
+}
+
+export interface ImportMergePlan {
+  options: ImportMergeOptions
+  targets: ImportRowTarget[]
+  creates: ImportMergeCreate[]
+  updates: ImportMergeUpdate[]
+  removals: ImportMergeRemoval[]
+  summary: ImportMergeSummary
+}
+
+const lotsOf = (card: MergeableCard): AcquisitionLot[] => card.acquisitions ?? []
+
+/** Lotes tras pasar de `from` a `to` copias: FIFO al bajar, lote de import al subir. */
+const resizeLots = (existing: MergeableCard, to: number, imported: readonly AcquisitionLot[]): AcquisitionLot[] => {
+  const kept = effectiveLots(existing.acquisitions, Math.min(existing.quantity, to))
+  if (to <= existing.quantity) return kept
+  return [...kept, ...importLot(to - existing.quantity, imported[0]?.unitPrice)]
+}
+
+/**
+ * Plan de un import contra `existing` (la colección cargada). Las filas del
+ * archivo con la misma identidad se agrupan: suman cantidad y crean o tocan
+ * UN solo doc. Si la colección ya tenía la misma impresión repetida en varios
+ * docs, se usa el primero (igual que findCardWithSamePrint); con
+ * replaceSnapshot + removeMissing los demás se borran, porque el archivo dice
+ * cuántas copias hay en total.
+ *
+ * removeMissing solo mira cartas con algún status de los que trae el import:
+ * reemplazar la colección no debe vaciar la wishlist.
+ */
+export function planImportMerge(
+  imported: readonly MergeableCard[],
+  existing: readonly (MergeableCard & { id: string })[],
+  options: ImportMergeOptions,
+): ImportMergePlan {
+  const existingByKey = new Map<string, MergeableCard & { id: string }>()
+  for (const card of existing) {
+    const key = printIdentityKey(card)
+    if (!existingByKey.has(key)) existingByKey.set(key, card)
+  }
+
+  // Filas del archivo agrupadas por identidad, en orden de primera aparición
+  const groups = new Map<string, { leader: number; quantity: number; lots: AcquisitionLot[] }>()
+  imported.forEach((card, index) => {
+    const key = printIdentityKey(card)
+    const group = groups.get(key)
+    if (group) {
+      group.quantity += card.quantity
+      group.lots.push(...lotsOf(card))
+    } else {
+      groups.set(key, { leader: index, quantity: card.quantity, lots: [...lotsOf(card)] })
+    }
+  })
+
+  const targets: ImportRowTarget[] = []
+  const creates: ImportMergeCreate[] = []
+  const updates: ImportMergeUpdate[] = []
+  const matchedIds = new Set<string>()
+  const summary: ImportMergeSummary = {
+    newCards: 0, newCopies: 0, updatedCards: 0, copiesAdded: 0, copiesRemoved: 0, unchangedCards: 0, removedCards: 0,
+  }
+
+  for (const [key, group] of groups) {
+    const match = existingByKey.get(key)
+    if (!match) {
+      creates.push({ index: group.leader, quantity: group.quantity, acquisitions: group.lots })
+      summary.newCards++
+      summary.newCopies += group.quantity
+      continue
+    }
+    matchedIds.add(match.id)
+    let to = match.quantity
+    let acquisitions = lotsOf(match)
+    if (options.mode === 'addQuantities') {
+      to = match.quantity + group.quantity
+      acquisitions = [...effectiveLots(match.acquisitions, match.quantity), ...group.lots]
+    } else if (options.mode === 'replaceSnapshot') {
+      to = group.quantity
+      acquisitions = resizeLots(match, to, group.lots)
+    }
+    if (to === match.quantity) {
+      summary.unchangedCards++
+      continue
+    }
+    updates.push({ cardId: match.id, name: match.name, from: match.quantity, to, acquisitions })
+    summary.updatedCards++
+    if (to > match.quantity) summary.copiesAdded += to - match.quantity
+    else summary.copiesRemoved += match.quantity - to
+  }
+
+  imported.forEach((card) => {
+    const match = existingByKey.get(printIdentityKey(card))
+    const group = groups.get(printIdentityKey(card))
+    targets.push(match ? { kind: 'existing', cardId: match.id } : { kind: 'create', leader: group?.leader ?? 0 })
+  })
+
+  const removals: ImportMergeRemoval[] = []
+  if (options.mode === 'replaceSnapshot' && options.removeMissing) {
+    const statuses = new Set<CardStatus>(imported.map(card => card.status))
+    for (const card of existing) {
+      if (matchedIds.has(card.id) || !statuses.has(card.status)) continue
+      removals.push({ cardId: card.id, name: card.name, quantity: card.quantity })
+      summary.removedCards++
+      summary.copiesRemoved += card.quantity
+    }
+  }
+
+  return { options, targets, creates, updates, removals, summary }
+}
+
+/** Ids por fila importada, una vez creados los docs nuevos (`createdIds` alineado con plan.creates). */
+export function resolveImportTargets(plan: ImportMergePlan, createdIds: readonly string[]): string[] {
+  const createdByLeader = new Map(plan.creates.map((create, i) => [create.index, createdIds.at(i) ?? '']))
+  return plan.targets.map(target => target.kind === 'existing' ? target.cardId : createdByLeader.get(target.leader) ?? '')
+}
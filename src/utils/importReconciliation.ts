@@ -0,0 +1,250 @@
+/**
+ * Revisión previa a un import: cada fila del archivo/texto/mazo se cruza con
+ * Scryfall ANTES de escribir nada y queda como
+ *  - matched:   se encontró la impresión pedida (o la carta, si no se pidió
+ *               ninguna impresión concreta);
+ *  - ambiguous: la carta existe pero no la impresión pedida (set o número mal
+ *               escritos, id de Scryfall viejo) — hay que elegir una;
+ *  - unmatched: ni siquiera el nombre existe — hay que buscarla o saltarla.
+ *
+ * Antes estas filas terminaban como cartas con `edition: 'Unknown'` y sin
+ * imagen, o se perdían sin aviso. El import solo se confirma cuando toda fila
+ * está resuelta o saltada a propósito (canCommitReview).
+ *
+ * Solo la parte pura; las llamadas a Scryfall viven en useImportReview.
+ */
+
+import type { ScryfallCard, ScryfallIdentifier } from '../services/scryfall'
+import { cardImageProxyUrl } from './cardImageUrl'
+
+/** Lo mínimo de una fila de import que hace falta para buscarla. */
+export interface ImportRowSource {
+  name: string
+  quantity: number
+  setCode?: string
+  /** Nombre del set cuando el archivo no trae código (Deckbox, Delver Lens). */
+  setName?: string
+  collectorNumber?: string
+  scryfallId?: string
+}
+
+export type ImportRowStatus = 'matched' | 'ambiguous' | 'unmatched'
+
+/** Una impresión concreta que el usuario puede elegir para la fila. */
+export interface ImportCandidate {
+  scryfallId: string
+  name: string
+  /** Código de set tal como lo devuelve Scryfall (minúsculas). */
+  setCode: string
+  setName: string
+  collectorNumber: string
+  image: string
+  price: number
+}
+
+export interface ImportReviewRow {
+  /** Índice de la fila en la lista original: así se vuelve a la carta de origen. */
+  key: number
+  source: ImportRowSource
+  status: ImportRowStatus
+  candidates: ImportCandidate[]
+  /** Impresión que se va a importar; null mientras no esté resuelta. */
+  choice: ImportCandidate | null
+  skipped: boolean
+}
+
+export interface ImportReviewSummary {
+  matched: number
+  ambiguous: number
+  unmatched: number
+  skipped: number
+  /** Filas ambiguas o sin match que todavía no tienen elección ni están saltadas. */
+  pending: number
+}
+
+/** Una línea de lista de texto: `2 Arid Mesa (MH2) 244 *F*`. */
+export interface TextImportRow extends ImportRowSource {
+  foil: boolean
+  isInSideboard: boolean
+}
+
+const normalizeName = (name: string): string => name.trim().toLowerCase()
+
+/**
+ * Lee una lista de texto en filas. A diferencia de parseTextImportLine, el
+ * número de coleccionista solo se reconoce DESPUÉS de un `(SET)`, así que
+ * "1 Lightning Bolt" no pierde la segunda palabra del nombre. Todo lo que
+ * venga tras una línea con "sideboard" es banquillo.
+ */
+export function parseTextImportRows(text: string): TextImportRow[] {
+  const rows: TextImportRow[] = []
+  let inSideboard = false
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed) continue
+    if (trimmed.toLowerCase().includes('sideboard')) { inSideboard = true; continue }
+    // eslint-disable-next-line security/detect-unsafe-regex
+    const match = /^(\d+)x?\s+(.+?)(?:\s+\(([\w-]+)\)(?:\s+([\w★-]+))?)?(?:\s+\*[fF]\*?)?$/.exec(trimmed)
+    const quantity = Number.parseInt(match?.[1] ?? '', 10)
+    const name = match?.[2]?.trim()
+    if (!name || !(quantity > 0)) continue
+    rows.push({
+      name,
+      quantity,
+      setCode: match?.[3],
+      collectorNumber: match?.[4],
+      foil: /\*[fF]\*?$/.test(trimmed),
+      isInSideboard: inSideboard,
+    })
+  }
+  return rows
+}
+
+// "Commander 2021", "commander-2021" y "Commander: 2021" son el mismo set
+const normalizeSetName = (name: string): string => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+
+/** Nombre de set normalizado → código, a partir de la lista de sets de Scryfall. */
+export const buildSetCodeLookup = (sets: readonly { code: string; name: string }[]): Map<string, string> =>
+  new Map(sets.map(set => [normalizeSetName(set.name), set.code]))
+
+/**
+ * Completa el código de set de las filas que solo traen el nombre, para que
+ * rowIdentifier busque esa impresión y no cualquiera con el mismo nombre.
+ * Un nombre que no está en la lista deja la fila como estaba.
+ */
+export function resolveSetNames(sources: readonly ImportRowSource[], setCodes: ReadonlyMap<string, string>): ImportRowSource[] {
+  return sources.map(source => {
+    if (source.setCode?.trim() || !source.setName) return source
+    const setCode = setCodes.get(normalizeSetName(source.setName))
+    return setCode ? { ...source, setCode } : source
+  })
+}
+
+/** El identificador de /cards/collection más preciso que permite la fila. */
+export function rowIdentifier(source: ImportRowSource): ScryfallIdentifier {
+  if (source.scryfallId) return { id: source.scryfallId }
+  const set = source.setCode?.trim().toLowerCase()
+  if (set && source.collectorNumber?.trim()) return { set, collector_number: source.collectorNumber.trim() }
+  if (set) return { name: source.name.trim(), set }
+  return { name: source.name.trim() }
+}
+
+export function toCandidate(card: ScryfallCard): ImportCandidate {
+  const price = Number.parseFloat(card.prices?.usd ?? '')
+  return {
+    scryfallId: card.id,
+    name: card.name,
+    setCode: card.set,
+    setName: card.set_name,
+    collectorNumber: card.collector_number,
+    image: cardImageProxyUrl(card.id, 'thumb', 'front'),
+    price: price > 0 ? price : 0,
+  }
+}
+
+/**
+ * Índice de lo que devolvió Scryfall. Las cartas de dos caras se indexan
+ * también por cada cara: los CSV suelen traer solo "Delver of Secrets".
+ */
+const buildCardLookup = (cards: readonly ScryfallCard[]) => {
+  const byId = new Map<string, ScryfallCard>()
+  const byPrint = new Map<string, ScryfallCard>()
+  const byNameSet = new Map<string, ScryfallCard>()
+  const byName = new Map<string, ScryfallCard>()
+  for (const card of cards) {
+    byId.set(card.id, card)
+    byPrint.set(`${card.set}|${card.collector_number}`.toLowerCase(), card)
+    const names = [card.name, ...(card.card_faces ?? []).map(face => face.name)]
+    for (const name of names.map(normalizeName)) {
+      if (!byNameSet.has(`${name}|${card.set}`)) byNameSet.set(`${name}|${card.set}`, card)
+      if (!byName.has(name)) byName.set(name, card)
+    }
+  }
+  return { byId, byPrint, byNameSet, byName }
+}
+
+/**
+ * Clasifica cada fila contra las cartas que devolvió Scryfall (la consulta
+ * exacta de rowIdentifier más, opcionalmente, un reintento solo por nombre
+ * de las que fallaron). Una fila ambigua arranca sin elección: que exista la
+ * carta no dice qué impresión tiene el usuario en la mano.
+ */
+export function reconcileRows(sources: readonly ImportRowSource[], found: readonly ScryfallCard[]): ImportReviewRow[] {
+  const lookup = buildCardLookup(found)
+  return sources.map((source, key) => {
+    const ident = rowIdentifier(source)
+    const name = normalizeName(source.name)
+    let exact: ScryfallCard | undefined
+    if ('id' in ident) exact = lookup.byId.get(ident.id)
+    else if ('collector_number' in ident) exact = lookup.byPrint.get(`${ident.set}|${ident.collector_number}`.toLowerCase())
+    else if ('set' in ident) exact = lookup.byNameSet.get(`${name}|${ident.set}`)
+    else exact = lookup.byName.get(name)
+
+    if (exact) {
+      const choice = toCandidate(exact)
+      return { key, source, status: 'matched' as const, candidates: [choice], choice, skipped: false }
+    }
+    const sameName = lookup.byName.get(name)
+    if (sameName) {
+      return { key, source, status: 'ambiguous' as const, candidates: [toCandidate(sameName)], choice: null, skipped: false }
+    }
+    return { key, source, status: 'unmatched' as const, candidates: [], choice: null, skipped: false }
+  })
+}
+
+/**
+ * Candidatas para elegir, sin repetidas, con las del set que pedía la fila
+ * primero (conservando el orden de Scryfall: más nuevas arriba).
+ */
+export function rankCandidates(source: ImportRowSource, cards: readonly ScryfallCard[], max = 24): ImportCandidate[] {
+  const set = source.setCode?.trim().toLowerCase()
+  const seen = new Set<string>()
+  const unique = cards.filter(card => !seen.has(card.id) && seen.add(card.id))
+  const sameSet = unique.filter(card => set && card.set === set)
+  const rest = unique.filter(card => !(set && card.set === set))
+  return [...sameSet, ...rest].slice(0, max).map(toCandidate)
+}
+
+/** Nombres (únicos) de las filas que no tuvieron match exacto: van al reintento por nombre. */
+export function namesToRetry(sources: readonly ImportRowSource[], found: readonly ScryfallCard[]): string[] {
+  const rows = reconcileRows(sources, found)
+  const names = new Map<string, string>()
+  for (const row of rows) {
+    const name = row.source.name.trim()
+    if (row.status !== 'matched' && name && !names.has(normalizeName(name))) names.set(normalizeName(name), name)
+  }
+  return [...names.values()]
+}
+
+export const isRowResolved = (row: ImportReviewRow): boolean => row.skipped || row.choice !== null
+
+export function reviewSummary(rows: readonly ImportReviewRow[]): ImportReviewSummary {
+  const summary: ImportReviewSummary = { matched: 0, ambiguous: 0, unmatched: 0, skipped: 0, pending: 0 }
+  for (const row of rows) {
+    if (row.status === 'matched') summary.matched++
+    else if (row.status === 'ambiguous') summary.ambiguous++
+    else summary.unmatched++
+    if (row.skipped) summary.skipped++
+    else if (!row.choice) summary.pending++
+  }
+  return summary
+}
+
+/** Se puede confirmar si nada queda pendiente y queda al menos una fila para importar. */
+export const canCommitReview = (rows: readonly ImportReviewRow[]): boolean =>
+  rows.every(isRowResolved) && rows.some(row => !row.skipped)
+
+/**
+ * Vuelve a la lista original con la revisión aplicada: las filas saltadas se
+ * quitan y cada una de las demás pasa por `apply` con la impresión elegida.
+ */
+export function applyReview<T>(
+  items: readonly T[],
+  rows: readonly ImportReviewRow[],
+  apply: (item: T, choice: ImportCandidate) => T,
+): T[] {
+  return rows.flatMap(row => {
+    const item = items.at(row.key)
+    return item !== undefined && !row.skipped && row.choice ? [apply(item, row.choice)] : []
+  })
+}
@@ -1,9 +1,9 @@
 /**
  * Frank Karsten "How Many Sources Do You Need" thresholds.
  *
- * Source: Karsten 2022 update (TCGPlayer) for 60-card decks, Karsten 2018
- * Commander update for 99-card decks. Both target 90% confidence of casting
- * a spell on its earliest possible turn.
+ * Source: Karsten 2022 update (TCGPlayer) for 60- and 40-card decks, Karsten
+ * 2018 Commander update for 99-card decks. All target 90% confidence of
+ * casting a spell on its earliest possible turn.
  *
  * Each table is indexed by `[pips][cmc]` (1-based for both axes — index 0 is
  * a sentinel for "no demand"). Out-of-range CMC clamps to the nearest edge.
@@ -12,7 +12,7 @@
  * Public API: `karstenSourcesNeeded(cmc, pips, deckSize)`.
  */
 
-export type DeckSize = 60 | 99
+export type DeckSize = 40 | 60 | 99
 
 // 60-card constructed (Karsten 2022). Rows = pips of the analyzed color.
 // Cols = converted mana cost. -1 means "spell not playable on its expected turn"
@@ -23,6 +23,13 @@ const TABLE_60: Record<number, Record<number, number>> = {
     3: { 1: -1, 2: -1, 3: 23, 4: 22, 5: 20, 6: 19, 7: 18 },
 }
 
+// 40-card limited (Karsten 2022, same article as the 60-card table).
+const TABLE_40: Record<number, Record<number, number>> = {
+    1: { 1: 9,  2: 9,  3: 8,  4: 8,  5: 7,  6: 7,  7: 6 },
+    2: { 1: -1, 2: 14, 3: 13, 4: 12, 5: 11, 6: 10, 7: 10 },
+    3: { 1: -1, 2: -1, 3: 16, 4: 15, 5: 14, 6: 13, 7: 12 },
+}
+
 // 99-card Commander (Karsten 2018 EDH). Higher variance → more sources required.
 const TABLE_99: Record<number, Record<number, number>> = {
     1: { 1: 21, 2: 19, 3: 18, 4: 16, 5: 15, 6: 14, 7: 13 },
@@ -74,6 +81,7 @@ function lookup(table: Record<number, Record<number, number>>, cmc: number, pips
  *   karstenSourcesNeeded(1, 1, 60) === 14   // {U} on T1
  *   karstenSourcesNeeded(2, 2, 60) === 21   // {U}{U} on T2
  *   karstenSourcesNeeded(2, 2, 99) === 30   // same in Commander
+ *   karstenSourcesNeeded(2, 2, 40) === 14   // same in a 40-card limited deck
  *
  * Edge handling:
  *   - cmc <= 0 treated as cmc 1.
@@ -86,6 +94,6 @@ export function karstenSourcesNeeded(
     pips: number,
     deckSize: DeckSize
 ): number {
-    const table = deckSize === 99 ? TABLE_99 : TABLE_60
+    const table = deckSize === 99 ? TABLE_99 : deckSize === 40 ? TABLE_40 : TABLE_60
     return lookup(table, cmc, pips)
 }
@@ -0,0 +1,91 @@
+import type { Proximity } from '../types/location'
+import type { MatchScore, MatchScoreFactor } from '../types/matchScore'
+import type { ReputationSummary } from '../types/review'
+import { reputationScore } from './reputation'
+
+// Puntaje de un match: qué tan probable es que lo quiera hacer. Es una suma
+// de factores con peso fijo, sin nada escondido: el desglose es el tooltip
+// de MatchCard y las reglas son estas.
+
+const WEIGHT = {
+    balance: 25,    // equilibrio de valor entre las dos partes
+    coverage: 25,   // cartas buscadas que cubre el match
+    proximity: 20,  // en persona > mismo país > no se sabe > otro país
+    recency: 10,    // qué tan activo está el otro
+    reputation: 10, // sus reseñas
+    history: 10,    // lo que ya pasó con él: contacto guardado, matches descartados
+} as const
+
+/** Cada carta buscada cubierta suma lo mismo, hasta COVERAGE_CAP cartas. */
+const COVERAGE_CAP = 5
+const DISCARD_PENALTY = 2
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PROXIMITY_SHARE = new Map<Proximity, number>([['local', 1], ['national', 0.6], ['unknown', 0.4], ['international', 0.2]])
+
+export interface MatchScoreInput {
+    /** Equilibrio de valor 0–100 (priceMatchingHelper.calculateCompatibility). */
+    balance: number
+    /** Cartas distintas que el match cubre, de lo que busco yo y de lo que busca el otro. */
+    wantedCovered: number
+    proximity: Proximity
+    /** Última actualización de sus cartas/preferencias públicas; null si no se sabe. */
+    lastActiveAt: Date | null
+    reputation: ReputationSummary | null
+    isContact: boolean
+    /** Matches suyos que descarté antes. */
+    discardedCount: number
+    now?: Date
+}
+
+const recencyShare = (lastActiveAt: Date | null, now: Date): number => {
+    if (!lastActiveAt || Number.isNaN(lastActiveAt.getTime())) return 0.4
+    const days = (now.getTime() - lastActiveAt.getTime()) / DAY_MS
+    if (days <= 7) return 1
+    if (days <= 30) return 0.7
+    if (days <= 90) return 0.4
+    return 0.1
+}
+
+/** Sin reseñas = neutral (la mitad); con reseñas, la media bayesiana de 1 a 5. */
+const reputationShare = (summary: ReputationSummary | null): number => {
+    const score = reputationScore(summary)
+    return score < 0 ? 0.5 : (score - 1) / 4
+}
+
+/** Contacto guardado = todo; si no, la mitad. Cada descarte resta. */
+const historyPoints = (isContact: boolean, discardedCount: number): number =>
+    Math.max(0, (isContact ? WEIGHT.history : WEIGHT.history / 2) - DISCARD_PENALTY * Math.max(0, discardedCount))
+
+const share = (value: number): number => Math.min(1, Math.max(0, value))
+
+export function scoreMatch(input: MatchScoreInput): MatchScore {
+    const now = input.now ?? new Date()
+    const raw: MatchScoreFactor[] = [
+        { key: 'balance', points: WEIGHT.balance * share(input.balance / 100), max: WEIGHT.balance },
+        { key: 'coverage', points: WEIGHT.coverage * share(input.wantedCovered / COVERAGE_CAP), max: WEIGHT.coverage },
+        { key: 'proximity', points: WEIGHT.proximity * (PROXIMITY_SHARE.get(input.proximity) ?? 0), max: WEIGHT.proximity },
+        { key: 'recency', points: WEIGHT.recency * recencyShare(input.lastActiveAt, now), max: WEIGHT.recency },
+        { key: 'reputation', points: WEIGHT.reputation * share(reputationShare(input.reputation)), max: WEIGHT.reputation },
+        { key: 'history', points: historyPoints(input.isContact, input.discardedCount), max: WEIGHT.history },
+    ]
+    const factors = raw.map(factor => ({ ...factor, points: Math.round(factor.points) }))
+
+    return { total: factors.reduce((sum, factor) => sum + factor.points, 0), factors }
+}
+
+interface RankableMatch {
+    score?: number
+    compatibility?: number
+}
+
+/**
+ * Mejor puntaje primero. Los matches sin puntaje (guardados antes de que
+ * existiera, o avisos de otros) van después, por equilibrio de valor.
+ */
+export const compareByMatchScore = (a: RankableMatch, b: RankableMatch): number => {
+    if (a.score != null && b.score != null) return b.score - a.score
+    if (a.score != null) return -1
+    if (b.score != null) return 1
+    return (b.compatibility ?? 0) - (a.compatibility ?? 0)
+}
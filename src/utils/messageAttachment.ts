@@ -0,0 +1,163 @@
+import type { Card, CardCondition, CardStatus } from '@/types/card'
+import type { ExchangeCart, ExchangeCartItem } from '@/types/exchangeCart'
+import type { MessageAttachment, MessageAttachmentCard, MessageAttachmentKind } from '@/types/message'
+import type { MatchCard, SimpleMatch } from '@/stores/matches'
+
+// Tope de cartas por adjunto: el mensaje es un doc de Firestore, no un binder.
+export const MAX_ATTACHMENT_CARDS = 30
+
+const KINDS: MessageAttachmentKind[] = ['cards', 'match', 'cart']
+
+// Firestore no acepta undefined: los opcionales solo se escriben si tienen valor
+const withOptionals = (
+    base: Omit<MessageAttachmentCard, 'setCode' | 'language'>,
+    setCode?: string,
+    language?: string,
+): MessageAttachmentCard => ({
+    ...base,
+    ...(setCode ? { setCode } : {}),
+    ...(language ? { language } : {}),
+})
+
+const fromCard = (card: Card, ownerUsername: string): MessageAttachmentCard =>
+    withOptionals({
+        cardId: card.id,
+        scryfallId: card.scryfallId,
+        name: card.name,
+        edition: card.edition,
+        quantity: card.quantity,
+        condition: card.condition,
+        foil: card.foil,
+        price: card.price || 0,
+        image: card.image || '',
+        status: card.status,
+        ownerUsername,
+    }, card.setCode, card.language)
+
+// Las cartas de un match calculado son Card completas (traen id); las de un
+// match compartido viejo pueden no traerlo y quedan sin cardId.
+const fromMatchCard = (card: MatchCard & { id?: string; setCode?: string; language?: string }, ownerUsername: string): MessageAttachmentCard =>
+    withOptionals({
+        cardId: card.id ?? '',
+        scryfallId: card.scryfallId,
+        name: card.name,
+        edition: card.edition,
+        quantity: card.quantity || 1,
+        condition: card.condition as CardCondition,
+        foil: card.foil,
+        price: card.price || 0,
+        image: card.image || '',
+        status: card.status as CardStatus,
+        ownerUsername,
+    }, card.setCode, card.language)
+
+const fromCartItem = (item: ExchangeCartItem, ownerUsername: string): MessageAttachmentCard => ({
+    cardId: item.cardId,
+    scryfallId: item.scryfallId,
+    name: item.name,
+    edition: item.edition,
+    quantity: item.quantity,
+    condition: item.condition,
+    foil: item.foil,
+    price: item.price,
+    image: item.image,
+    status: item.status,
+    ownerUsername,
+})
+
+/** Cartas propias elegidas de la colección (sin wishlist: no se pueden ofrecer). */
+export function cardsAttachment(cards: Card[], ownerUsername: string): MessageAttachment {
+    return {
+        kind: 'cards',
+        cards: cards
+            .filter(c => c.status !== 'wishlist' && c.quantity > 0)
+            .slice(0, MAX_ATTACHMENT_CARDS)
+            .map(c => fromCard(c, ownerUsername)),
+    }
+}
+
+/**
+ * Un match visto por quien lo envía: myCards son suyas y otherCards del
+ * otro usuario. Cada carta guarda su dueño porque el receptor lo lee al revés.
+ */
+export function matchAttachment(match: SimpleMatch, myUsername: string): MessageAttachment {
+    const cards = [
+        ...(match.myCards ?? []).map(c => fromMatchCard(c, myUsername)),
+        ...(match.otherCards ?? []).map(c => fromMatchCard(c, match.otherUsername)),
+    ]
+    return { kind: 'match', matchId: match.id, cards: cards.slice(0, MAX_ATTACHMENT_CARDS) }
+}
+
+/** Snapshot del carrito armado sobre la colección de cart.username. */
+export function cartAttachment(cart: ExchangeCart): MessageAttachment {
+    return {
+        kind: 'cart',
+        cards: cart.items.slice(0, MAX_ATTACHMENT_CARDS).map(i => fromCartItem(i, cart.username)),
+    }
+}
+
+export function attachmentTotal(attachment: MessageAttachment): number {
+    return attachment.cards.reduce((sum, c) => sum + c.price * c.quantity, 0)
+}
+
+/** Cantidad de copias adjuntas (para el preview de lastMessage). */
+export function attachmentCardCount(attachment: MessageAttachment): number {
+    return attachment.cards.reduce((sum, c) => sum + c.quantity, 0)
+}
+
+/**
+ * Una carta adjunta se puede sumar al carrito si no es del que mira y se
+ * sabe qué carta de la colección es (sin cardId no hay buy request posible).
+ */
+export function canAddToCart(card: MessageAttachmentCard, viewerUsername: string | undefined): boolean {
+    return !!card.cardId && card.ownerUsername !== '' && card.ownerUsername !== viewerUsername && card.status !== 'wishlist'
+}
+
+export function attachmentCardToCartItem(card: MessageAttachmentCard): ExchangeCartItem {
+    return {
+        scryfallId: card.scryfallId,
+        cardId: card.cardId,
+        name: card.name,
+        edition: card.edition,
+        quantity: card.quantity,
+        maxQuantity: card.quantity,
+        condition: card.condition,
+        foil: card.foil,
+        price: card.price,
+        image: card.image,
+        status: card.status,
+    }
+}
+
+/**
+ * Lectura defensiva del adjunto guardado en Firestore: lo escribe el otro
+ * cliente, así que todo campo puede faltar. Devuelve undefined si no sirve.
+ */
+export function parseMessageAttachment(raw: unknown): MessageAttachment | undefined {
+    if (!raw || typeof raw !== 'object') return undefined
+    const data = raw as { kind?: unknown; cards?: unknown; matchId?: unknown }
+    if (!KINDS.includes(data.kind as MessageAttachmentKind) || !Array.isArray(data.cards)) return undefined
+
+    const cards = (data.cards as Partial<MessageAttachmentCard>[])
+        .filter(c => typeof c.scryfallId === 'string' && typeof c.name === 'string')
+        .map(c => withOptionals({
+            cardId: c.cardId ?? '',
+            scryfallId: c.scryfallId ?? '',
+            name: c.name ?? '',
+            edition: c.edition ?? '',
+            quantity: Math.max(1, Number(c.quantity) || 1),
+            condition: c.condition ?? 'NM',
+            foil: !!c.foil,
+            price: Number(c.price) || 0,
+            image: c.image ?? '',
+            status: c.status ?? 'collection',
+            ownerUsername: c.ownerUsername ?? '',
+        }, c.setCode, c.language))
+    if (cards.length === 0) return undefined
+
+    return {
+        kind: data.kind as MessageAttachmentKind,
+        cards,
+        ...(typeof data.matchId === 'string' && data.matchId ? { matchId: data.matchId } : {}),
+    }
+}
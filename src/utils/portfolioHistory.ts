@@ -0,0 +1,66 @@
+import type { PriceSnapshot } from '../composables/usePriceHistory'
+
+export type HistoryRange = '7d' | '30d' | '90d' | '1y'
+export type HistorySource = 'tcg' | 'ck' | 'buylist'
+
+export const HISTORY_RANGES: readonly HistoryRange[] = ['7d', '30d', '90d', '1y']
+
+const RANGE_DAYS: Record<HistoryRange, number> = { '7d': 7, '30d': 30, '90d': 90, '1y': 365 }
+
+/** Días que hay que pedir para cubrir el rango más largo. */
+export const MAX_HISTORY_DAYS = RANGE_DAYS['1y'] + 1
+
+const utcDateKey = (date: Date): string => date.toISOString().slice(0, 10)
+
+/**
+ * Snapshots dentro del rango, contando hacia atrás desde `today` (UTC, como
+ * los ids que escribe snapshotPortfolios). `history` viene en orden cronológico.
+ */
+export function sliceHistory(history: readonly PriceSnapshot[], range: HistoryRange, today: Date = new Date()): PriceSnapshot[] {
+  const from = new Date(today)
+  // eslint-disable-next-line security/detect-object-injection
+  from.setUTCDate(from.getUTCDate() - RANGE_DAYS[range])
+  const fromKey = utcDateKey(from)
+  return history.filter(s => s.date >= fromKey)
+}
+
+export const snapshotValue = (s: Pick<PriceSnapshot, 'tcg' | 'ck' | 'buylist'>, source: HistorySource): number => {
+  if (source === 'ck') return s.ck
+  if (source === 'buylist') return s.buylist
+  return s.tcg
+}
+
+/** Variación entre el primer y el último punto; null con menos de dos. */
+export function historyChange(
+  points: readonly PriceSnapshot[],
+  source: HistorySource,
+): { first: number; last: number; change: number; percent: number | null } | null {
+  const first = points.at(0)
+  const last = points.at(-1)
+  if (!first || !last || points.length < 2) return null
+  const a = snapshotValue(first, source)
+  const b = snapshotValue(last, source)
+  const change = Math.round((b - a) * 100) / 100
+  return { first: a, last: b, change, percent: a > 0 ? (change / a) * 100 : null }
+}
+
+/**
+ * Puntos de un <polyline> para `values` en un viewBox de w×h con `pad` de
+ * margen. Misma escala que el gráfico de CollectionTotalsPanel (10% de aire
+ * arriba y abajo).
+ */
+export function chartPolyline(values: readonly number[], w: number, h: number, pad = 10): string {
+  if (values.length < 2) return ''
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  const padding = (max - min) * 0.1 || 10
+  const lo = min - padding
+  const hi = max + padding
+  const plotW = w - pad * 2
+  const plotH = h - pad * 2
+  return values.map((v, i) => {
+    const x = pad + (i / (values.length - 1)) * plotW
+    const y = pad + plotH - ((v - lo) / (hi - lo)) * plotH
+    return `${Math.round(x * 10) / 10},${Math.round(y * 10) / 10}`
+  }).join(' ')
+}
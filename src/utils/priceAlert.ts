@@ -0,0 +1,40 @@
+import type { PriceAlertInput } from '../types/priceAlert'
+
+/** Una alerta por impresión: volver a guardar la misma carta la edita. */
+export const priceAlertDocId = (scryfallId: string, foil: boolean): string =>
+  `${scryfallId}_${foil ? 'f' : 'n'}`
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100
+
+/**
+ * Umbral absoluto a partir de un % sobre el precio actual: el servidor solo
+ * compara números, así que "avísame si sube un 20%" se guarda ya resuelto.
+ */
+export const thresholdFromPercent = (
+  basePrice: number,
+  percent: number,
+  direction: 'below' | 'above',
+): number | null => {
+  if (!(basePrice > 0) || !(percent > 0)) return null
+  if (direction === 'below' && percent >= 100) return null
+  const factor = direction === 'above' ? 1 + percent / 100 : 1 - percent / 100
+  return roundCents(basePrice * factor)
+}
+
+export type PriceAlertValidationError = 'empty' | 'invalid' | 'crossed'
+
+/**
+ * Al menos un umbral, ambos positivos, y si hay dos el de bajada tiene que
+ * quedar por debajo del de subida (si no, la alerta saltaría siempre).
+ */
+export const validatePriceAlert = (
+  input: Pick<PriceAlertInput, 'below' | 'above'>,
+): PriceAlertValidationError | null => {
+  const { below, above } = input
+  if (below === null && above === null) return 'empty'
+  for (const v of [below, above]) {
+    if (v !== null && (!Number.isFinite(v) || v <= 0)) return 'invalid'
+  }
+  if (below !== null && above !== null && below >= above) return 'crossed'
+  return null
+}
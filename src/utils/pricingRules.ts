@@ -0,0 +1,114 @@
+import type { Card, CardCondition } from '../types/card'
+import type { PricingRule, PricingRules } from '../types/pricing'
+import type { CardPrices } from '../services/mtgjson'
+import { getConditionMultiplier } from './conditionMultiplier'
+import { ckFirstUnitPrice } from './priceAggregation'
+
+// Reglas de precio del vendedor: "venta = 90% de CK en NM, multiplicadores de
+// condición propios, redondeo hacia arriba a $0.25, mínimo $0.50, foil ×1.2".
+// Todo en USD y en centavos al final, como el resto de los precios.
+
+export const PRICING_CONDITIONS: CardCondition[] = ['M', 'NM', 'LP', 'MP', 'HP', 'PO']
+export const PRICE_ROUNDING_STEPS = [0, 0.05, 0.1, 0.25, 0.5, 1]
+
+export const MIN_RULE_PERCENT = 1
+export const MAX_RULE_PERCENT = 500
+const MAX_MULTIPLIER = 5
+
+/** Regla apagada con la tabla de condición de siempre (conditionMultiplier.ts). */
+export function defaultPricingRule(): PricingRule {
+    return {
+        enabled: false,
+        base: 'ck',
+        percent: 100,
+        conditionMultipliers: Object.fromEntries(
+            PRICING_CONDITIONS.map(c => [c, getConditionMultiplier(c)]),
+        ) as Record<CardCondition, number>,
+        foilMultiplier: 1,
+        roundUpTo: 0,
+        minPrice: 0,
+    }
+}
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number => {
+    const n = typeof value === 'number' ? value : Number(value)
+    return Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback
+}
+
+/**
+ * Regla leída de Firestore o del formulario → regla válida. Lo que falta o no
+ * es un número toma el valor por defecto; lo demás se acota.
+ */
+export function normalizePricingRule(raw: unknown): PricingRule {
+    const rule = defaultPricingRule()
+    if (!raw || typeof raw !== 'object') return rule
+    const data = raw as Partial<Record<keyof PricingRule, unknown>>
+    const multipliers = new Map(Object.entries(
+        data.conditionMultipliers && typeof data.conditionMultipliers === 'object' ? data.conditionMultipliers : {},
+    ))
+    return {
+        enabled: data.enabled === true,
+        base: data.base === 'tcg' ? 'tcg' : 'ck',
+        percent: clamp(data.percent, MIN_RULE_PERCENT, MAX_RULE_PERCENT, rule.percent),
+        conditionMultipliers: Object.fromEntries(PRICING_CONDITIONS.map(c =>
+            [c, clamp(multipliers.get(c), 0, MAX_MULTIPLIER, getConditionMultiplier(c))],
+        )) as Record<CardCondition, number>,
+        foilMultiplier: clamp(data.foilMultiplier, 0, MAX_MULTIPLIER, rule.foilMultiplier),
+        roundUpTo: PRICE_ROUNDING_STEPS.includes(Number(data.roundUpTo)) ? Number(data.roundUpTo) : 0,
+        minPrice: clamp(data.minPrice, 0, Number.MAX_SAFE_INTEGER, 0),
+    }
+}
+
+/** users/{uid}.pricingRules → reglas, o null si el usuario nunca las definió. */
+export function normalizePricingRules(raw: unknown): PricingRules | null {
+    if (!raw || typeof raw !== 'object') return null
+    const data = raw as { sale?: unknown; trade?: unknown }
+    return { sale: normalizePricingRule(data.sale), trade: normalizePricingRule(data.trade) }
+}
+
+/** La regla que aplica a la carta según su estado; null si no está en venta/cambio o está apagada. */
+export function ruleForCard(card: Pick<Card, 'status'>, rules: PricingRules | null | undefined): PricingRule | null {
+    if (!rules) return null
+    const rule = card.status === 'sale' ? rules.sale : card.status === 'trade' ? rules.trade : null
+    return rule?.enabled ? rule : null
+}
+
+/**
+ * Precio base con la regla aplicada: porcentaje, condición, prima foil,
+ * redondeo hacia arriba y mínimo. null si no hay precio base.
+ */
+export function applyPricingRule(
+    basePrice: number,
+    card: Pick<Card, 'condition' | 'foil'>,
+    rule: PricingRule,
+): number | null {
+    if (!Number.isFinite(basePrice) || basePrice <= 0) return null
+    const conditionMultiplier = new Map(Object.entries(rule.conditionMultipliers)).get(card.condition)
+        ?? getConditionMultiplier(card.condition)
+    let cents = Math.round(basePrice * rule.percent * conditionMultiplier * (card.foil ? rule.foilMultiplier : 1))
+    const step = Math.round(rule.roundUpTo * 100)
+    if (step > 0) cents = Math.ceil(cents / step) * step
+    return Math.max(cents, Math.round(rule.minPrice * 100)) / 100
+}
+
+/**
+ * Precio que se publica para una carta en venta/cambio: el precio fijo de la
+ * carta si lo tiene, si no el de la regla de su estado. Una regla sobre CK
+ * cae al precio TCG de la carta mientras CK no tenga precio. null = no hay
+ * precio del vendedor y se publica el de mercado.
+ */
+export function listingPrice(
+    card: Pick<Card, 'status' | 'condition' | 'foil' | 'price' | 'priceOverride'>,
+    rules: PricingRules | null | undefined,
+    ckPrices?: CardPrices | null,
+): number | null {
+    if (card.status !== 'sale' && card.status !== 'trade') return null
+    if (typeof card.priceOverride === 'number' && card.priceOverride > 0) return card.priceOverride
+    const rule = ruleForCard(card, rules)
+    if (!rule) return null
+    const ck = card.foil ? ckPrices?.cardKingdom?.retailFoil : ckPrices?.cardKingdom?.retail
+    const basePrice = rule.base === 'ck'
+        ? ckFirstUnitPrice({ price: card.price || 0, quantity: 1 }, ck)
+        : card.price || 0
+    return applyPricingRule(basePrice, card, rule)
+}
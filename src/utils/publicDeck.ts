@@ -0,0 +1,177 @@
+/**
+ * Public deck pages (`/@:username/decks/:deckId`).
+ *
+ * The owner's deck and cards are owner-only in Firestore, so sharing a deck
+ * publishes a snapshot of its list to /public_decks (services/publicDecks).
+ * This module holds the pure parts:
+ *  - the snapshot shape built from the owner's display cards;
+ *  - the display cards the read-only page hands to DeckManaCurve /
+ *    DeckColorAnalysis, and the list grouped by type;
+ *  - the "copy to my decks" plan: which of the visitor's own cards get
+ *    allocated and what goes to the wishlist.
+ */
+
+import { getCardTypeCategory, typeOrder } from '@/composables/useCardFilter'
+import type { Card } from '@/types/card'
+import type { DisplayDeckCard, HydratedDeckCard, PublicDeck, PublicDeckCard } from '@/types/deck'
+import { isCommanderFormat } from '@/utils/deckFormats'
+
+export const publicDeckPath = (username: string, deckId: string): string =>
+    `/@${encodeURIComponent(username)}/decks/${encodeURIComponent(deckId)}`
+
+// Firestore rejects undefined, the snapshot only keeps what is set
+const withoutUndefined = <T extends object>(obj: T): T =>
+    Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as T
+
+/**
+ * Snapshot list for a deck: one row per print and board. Owned copies and
+ * wishlist copies of the same print are one row — the visitor sees the list,
+ * not what the owner still has to buy.
+ */
+export function buildPublicDeckCards(cards: readonly DisplayDeckCard[]): PublicDeckCard[] {
+    const rows = new Map<string, PublicDeckCard>()
+    for (const card of cards) {
+        if (card.allocatedQuantity <= 0) continue
+        const key = `${card.scryfallId || card.name}|${card.isInSideboard ? 'sb' : 'mb'}`
+        const row = rows.get(key)
+        if (row) {
+            row.quantity += card.allocatedQuantity
+            continue
+        }
+        rows.set(key, withoutUndefined({
+            scryfallId: card.scryfallId,
+            name: card.name,
+            edition: card.edition,
+            setCode: card.setCode,
+            quantity: card.allocatedQuantity,
+            isInSideboard: card.isInSideboard,
+            price: card.price || 0,
+            image: card.image || '',
+            cmc: card.cmc,
+            mana_cost: card.mana_cost,
+            type_line: card.type_line,
+            colors: card.colors,
+            produced_mana: card.produced_mana,
+        }))
+    }
+    return [...rows.values()].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export const publicDeckCardCount = (cards: readonly PublicDeckCard[]): number =>
+    cards.filter(c => !c.isInSideboard).reduce((sum, c) => sum + c.quantity, 0)
+
+export const publicDeckTotalPrice = (cards: readonly PublicDeckCard[]): number =>
+    Math.round(cards.reduce((sum, c) => sum + c.price * c.quantity, 0) * 100) / 100
+
+/**
+ * The snapshot as display cards, for the deck components that expect them.
+ * They are presented as owned so DeckColorAnalysis counts every card — on a
+ * public page there is no "owned vs wishlist".
+ */
+export function publicDeckDisplayCards(cards: readonly PublicDeckCard[]): HydratedDeckCard[] {
+    return cards.map((card, i) => ({
+        cardId: `public-${i}`,
+        scryfallId: card.scryfallId,
+        name: card.name,
+        edition: card.edition,
+        setCode: card.setCode,
+        condition: 'NM',
+        foil: false,
+        price: card.price,
+        image: card.image,
+        cmc: card.cmc,
+        mana_cost: card.mana_cost,
+        type_line: card.type_line,
+        colors: card.colors,
+        produced_mana: card.produced_mana,
+        allocatedQuantity: card.quantity,
+        isInSideboard: card.isInSideboard,
+        addedAt: new Date(0),
+        isWishlist: false,
+        availableInCollection: 0,
+        totalInCollection: 0,
+    }))
+}
+
+export interface PublicDeckSections {
+    commanders: PublicDeckCard[]
+    /** Mainboard by type, in typeOrder. */
+    groups: { type: string; cards: PublicDeckCard[]; count: number }[]
+    sideboard: PublicDeckCard[]
+}
+
+const nameKey = (name: string): string => name.trim().toLowerCase()
+
+const countOf = (cards: readonly PublicDeckCard[]): number => cards.reduce((sum, c) => sum + c.quantity, 0)
+
+/** Read-only list layout: commanders first, mainboard grouped by type, then sideboard. */
+export function groupPublicDeck(deck: Pick<PublicDeck, 'format' | 'commander' | 'cards'>): PublicDeckSections {
+    // Varios comandantes van unidos por " // " (toggleCommander). Sin partir por
+    // comas: "Krenko, Mob Boss" es un solo nombre. Una carta de dos caras se
+    // reconoce por cualquiera de ellas.
+    const commanderNames = new Set(isCommanderFormat(deck.format) && deck.commander
+        ? deck.commander.split(/\s*\/\/\s*/).map(nameKey).filter(Boolean)
+        : [])
+    const isCommander = (card: PublicDeckCard) =>
+        !card.isInSideboard && [card.name, ...card.name.split(' // ')].some(n => commanderNames.has(nameKey(n)))
+
+    const byType = new Map<string, PublicDeckCard[]>()
+    for (const card of deck.cards) {
+        if (card.isInSideboard || isCommander(card)) continue
+        const type = getCardTypeCategory(card)
+        const bucket = byType.get(type)
+        if (bucket) bucket.push(card)
+        else byType.set(type, [card])
+    }
+
+    return {
+        commanders: deck.cards.filter(isCommander),
+        groups: typeOrder
+            .filter(type => byType.has(type))
+            .map(type => {
+                const cards = byType.get(type) ?? []
+                return { type, cards, count: countOf(cards) }
+            }),
+        sideboard: deck.cards.filter(c => c.isInSideboard),
+    }
+}
+
+export interface PublicDeckCopyPlan {
+    allocations: { cardId: string; quantity: number; isInSideboard: boolean }[]
+    wishlist: PublicDeckCard[]
+}
+
+/**
+ * Plan for copying a public deck into the visitor's decks. Each row is
+ * covered first with free copies of the same print, then with any other
+ * print of the same card name; whatever is left goes to the wishlist.
+ * Free = quantity minus what other decks already use (`allocatedFor`), and
+ * it is consumed across rows so two rows never claim the same copy.
+ */
+export function planPublicDeckCopy(
+    cards: readonly PublicDeckCard[],
+    owned: readonly Card[],
+    allocatedFor: (cardId: string) => number,
+): PublicDeckCopyPlan {
+    const usable = owned.filter(c => c.status !== 'wishlist')
+    const free = new Map(usable.map(c => [c.id, Math.max(0, c.quantity - allocatedFor(c.id))]))
+    const plan: PublicDeckCopyPlan = { allocations: [], wishlist: [] }
+
+    for (const card of cards) {
+        let missing = card.quantity
+        const candidates = [
+            ...usable.filter(c => c.scryfallId === card.scryfallId),
+            ...usable.filter(c => c.scryfallId !== card.scryfallId && nameKey(c.name) === nameKey(card.name)),
+        ]
+        for (const candidate of candidates) {
+            if (missing === 0) break
+            const take = Math.min(missing, free.get(candidate.id) ?? 0)
+            if (take === 0) continue
+            free.set(candidate.id, (free.get(candidate.id) ?? 0) - take)
+            plan.allocations.push({ cardId: candidate.id, quantity: take, isInSideboard: card.isInSideboard })
+            missing -= take
+        }
+        if (missing > 0) plan.wishlist.push({ ...card, quantity: missing })
+    }
+    return plan
+}
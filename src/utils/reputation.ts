@@ -0,0 +1,46 @@
+/**
+ * Lógica pura de reseñas y reputación: id determinista, validación y orden.
+ * Sin Vue, sin stores, sin Firestore.
+ */
+import type { ReputationSummary, ReviewTradeType } from '../types/review'
+
+export const REVIEW_COMMENT_MAX = 500
+
+/**
+ * Id del documento de reseña. Determinista a propósito: las reglas solo
+ * permiten CREAR, así que un segundo intento sobre el mismo intercambio es un
+ * update y se deniega — la unicidad la garantiza la regla, no el cliente.
+ */
+export const reviewDocId = (tradeType: ReviewTradeType, tradeId: string, reviewerId: string): string =>
+  `${tradeType}_${tradeId}_${reviewerId}`
+
+export const isValidRating = (rating: number): boolean =>
+  Number.isInteger(rating) && rating >= 1 && rating <= 5
+
+/** Promedio redondeado a un decimal, como se muestra ("4.7"). */
+export const summarizeRatings = (ratings: readonly number[]): ReputationSummary => {
+  const valid = ratings.filter(isValidRating)
+  if (valid.length === 0) return { count: 0, average: 0 }
+  const sum = valid.reduce((acc, r) => acc + r, 0)
+  return { count: valid.length, average: Math.round((sum / valid.length) * 10) / 10 }
+}
+
+/**
+ * Orden por reputación, mejor primero. Con pocas reseñas el promedio dice poco,
+ * así que se ordena por una media bayesiana que arrastra hacia 3 (neutral) con
+ * el peso de REPUTATION_PRIOR_WEIGHT reseñas ficticias: un 5.0 con una sola
+ * reseña no le gana a un 4.8 con cuarenta. Sin reseñas = al final.
+ */
+const REPUTATION_PRIOR_WEIGHT = 3
+const REPUTATION_PRIOR_MEAN = 3
+
+export const reputationScore = (summary: ReputationSummary | null | undefined): number => {
+  if (!summary || summary.count === 0) return -1
+  return (summary.average * summary.count + REPUTATION_PRIOR_MEAN * REPUTATION_PRIOR_WEIGHT)
+    / (summary.count + REPUTATION_PRIOR_WEIGHT)
+}
+
+export const compareByReputation = (
+  a: ReputationSummary | null | undefined,
+  b: ReputationSummary | null | undefined,
+): number => reputationScore(b) - reputationScore(a)
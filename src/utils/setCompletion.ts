@@ -0,0 +1,139 @@
+import type { Card } from '../types/card'
+import type { ScryfallCard, ScryfallSet } from '../services/scryfall'
+
+// Rarezas del desglose; 'bonus' y cualquier otra rareza rara de Scryfall caen en 'special'
+export const SET_RARITIES = ['common', 'uncommon', 'rare', 'mythic', 'special'] as const
+export type SetRarity = typeof SET_RARITIES[number]
+
+export interface RarityCompletion {
+    rarity: SetRarity
+    owned: number
+    total: number
+}
+
+export interface SetCompletion {
+    owned: number
+    total: number
+    percent: number
+    byRarity: RarityCompletion[]
+    /** Impresiones del checklist que no tengo, en orden de número de colección. */
+    missing: ScryfallCard[]
+}
+
+/** Fila del resumen: un set en el que tengo al menos una carta. */
+export interface OwnedSetSummary {
+    code: string
+    name: string
+    iconSvgUri: string
+    releasedAt?: string
+    setSize: number
+    ownedUnique: number
+    percent: number
+}
+
+export const normalizeRarity = (rarity: string | undefined): SetRarity =>
+    (SET_RARITIES as readonly string[]).includes(rarity ?? '') ? rarity as SetRarity : 'special'
+
+const completionPercent = (owned: number, total: number): number =>
+    total > 0 ? Math.min(100, (owned / total) * 100) : 0
+
+// La wishlist no cuenta como tenida; foilOnly exige al menos una copia foil
+const isOwned = (card: Card, foilOnly: boolean): boolean =>
+    card.status !== 'wishlist' && card.quantity > 0 && (!foilOnly || card.foil)
+
+/** scryfallIds tenidos, agrupados por código de set en minúsculas. */
+const ownedIdsBySet = (cards: Card[], foilOnly: boolean): Map<string, Set<string>> => {
+    const bySet = new Map<string, Set<string>>()
+    for (const card of cards) {
+        if (!card.setCode || !card.scryfallId || !isOwned(card, foilOnly)) continue
+        const code = card.setCode.toLowerCase()
+        const ids = bySet.get(code) ?? new Set<string>()
+        ids.add(card.scryfallId)
+        bySet.set(code, ids)
+    }
+    return bySet
+}
+
+/**
+ * Resumen sin pedir checklists: impresiones distintas que tengo de cada set
+ * contra el card_count de Scryfall. Sets fuera de getAllSets (tokens,
+ * promos sueltas) no aparecen. Más completo primero.
+ */
+export function ownedSetSummaries(cards: Card[], sets: ScryfallSet[], foilOnly = false): OwnedSetSummary[] {
+    const owned = ownedIdsBySet(cards, foilOnly)
+    return sets
+        .filter(set => owned.has(set.code.toLowerCase()))
+        .map(set => {
+            const ownedUnique = owned.get(set.code.toLowerCase())?.size ?? 0
+            return {
+                code: set.code,
+                name: set.name,
+                iconSvgUri: set.icon_svg_uri,
+                ...(set.released_at ? { releasedAt: set.released_at } : {}),
+                setSize: set.card_count,
+                ownedUnique,
+                percent: completionPercent(ownedUnique, set.card_count),
+            }
+        })
+        .sort((a, b) => b.percent - a.percent || a.name.localeCompare(b.name))
+}
+
+/** Completitud de un set contra su checklist completo (getSetChecklist). */
+export function buildSetCompletion(checklist: ScryfallCard[], cards: Card[], foilOnly = false): SetCompletion {
+    const ownedIds = new Set(cards.filter(c => isOwned(c, foilOnly)).map(c => c.scryfallId))
+    const byRarity = new Map<SetRarity, RarityCompletion>(
+        SET_RARITIES.map(rarity => [rarity, { rarity, owned: 0, total: 0 }]),
+    )
+    const missing: ScryfallCard[] = []
+
+    for (const print of checklist) {
+        const bucket = byRarity.get(normalizeRarity(print.rarity))
+        const has = ownedIds.has(print.id)
+        if (bucket) {
+            bucket.total++
+            if (has) bucket.owned++
+        }
+        if (!has) missing.push(print)
+    }
+
+    const owned = checklist.length - missing.length
+    return {
+        owned,
+        total: checklist.length,
+        percent: completionPercent(owned, checklist.length),
+        byRarity: [...byRarity.values()].filter(r => r.total > 0),
+        missing,
+    }
+}
+
+export const checklistPrice = (print: ScryfallCard, foil: boolean): number => {
+    const raw = foil ? print.prices?.usd_foil ?? print.prices?.usd : print.prices?.usd
+    return raw ? Number.parseFloat(raw) || 0 : 0
+}
+
+/**
+ * Cartas de wishlist (una copia NM) para las faltantes que todavía no están
+ * en la wishlist. Listas para collectionStore.confirmImport.
+ */
+export function missingToWishlistCards(missing: ScryfallCard[], cards: Card[], foil = false): Omit<Card, 'id'>[] {
+    const wished = new Set(cards.filter(c => c.status === 'wishlist').map(c => c.scryfallId))
+    return missing
+        .filter(print => !wished.has(print.id))
+        .map(print => ({
+            scryfallId: print.id,
+            name: print.name,
+            edition: print.set_name,
+            setCode: print.set.toUpperCase(),
+            quantity: 1,
+            condition: 'NM',
+            foil,
+            price: checklistPrice(print, foil),
+            image: print.image_uris?.normal ?? print.card_faces?.[0]?.image_uris?.normal ?? '',
+            status: 'wishlist',
+            rarity: print.rarity,
+            type_line: print.type_line,
+            colors: print.colors ?? [],
+            ...(print.cmc === undefined ? {} : { cmc: print.cmc }),
+            updatedAt: new Date(),
+        }))
+}
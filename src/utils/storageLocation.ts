@@ -0,0 +1,18 @@
+// Ubicaciones físicas de las cartas ("Box A / row 3", "Red deckbox"): texto
+// libre definido por el usuario. Se comparan tal cual después de normalizar,
+// así que "Box A" y "box a" son dos ubicaciones distintas.
+
+export const LOCATION_MAX_LENGTH = 60
+
+/** Recorta y colapsa espacios; '' = sin ubicación. */
+export const normalizeLocation = (raw: string | null | undefined): string =>
+    (raw ?? '').replace(/\s+/g, ' ').trim().slice(0, LOCATION_MAX_LENGTH)
+
+/** Ubicaciones en uso, sin repetir y en orden alfabético. */
+export const collectLocations = (cards: { location?: string }[]): string[] => {
+    const locations = new Set<string>()
+    for (const card of cards) {
+        if (card.location) locations.add(card.location)
+    }
+    return [...locations].sort((a, b) => a.localeCompare(b))
+}
@@ -0,0 +1,154 @@
+/**
+ * Lógica pura de propuestas de intercambio (trade_proposals).
+ *
+ * El documento guarda las cartas por dueño (iniciador / destinatario); la UI
+ * trabaja con un TradeDraft en perspectiva (doy / recibo). Estas funciones
+ * hacen la conversión en ambos sentidos, calculan el balance con el efectivo
+ * incluido y deciden quién puede hacer qué en cada estado.
+ *
+ * Pura: sin Vue, sin stores, sin Firestore.
+ */
+import type { MatchCard } from '../stores/matches'
+import type { Card } from '../types/card'
+import type {
+  TradeDraft,
+  TradeProposal,
+  TradeProposalAction,
+  TradeProposalRevision,
+} from '../types/tradeProposal'
+
+type Participants = Pick<TradeProposal, 'initiatorId' | 'recipientId'>
+
+/** Dos filas son la misma carta si coinciden impresión, condición y foil. */
+export const tradeCardKey = (card: Pick<MatchCard, 'scryfallId' | 'condition' | 'foil'>): string =>
+  `${card.scryfallId}|${card.condition}|${card.foil ? 'f' : 'n'}`
+
+/** Fila de colección → carta de propuesta (mismo shape que guarda un match). */
+export const toMatchCard = (card: Card, quantity = 1): MatchCard => ({
+  scryfallId: card.scryfallId,
+  name: card.name,
+  edition: card.edition,
+  quantity,
+  condition: card.condition,
+  foil: card.foil,
+  price: card.price || 0,
+  image: card.image,
+  status: card.status,
+})
+
+export const latestRevision = (proposal: Pick<TradeProposal, 'revisions'>): TradeProposalRevision | null =>
+  proposal.revisions.at(-1) ?? null
+
+export const isParticipant = (proposal: Participants, uid: string): boolean =>
+  !!uid && (proposal.initiatorId === uid || proposal.recipientId === uid)
+
+/** Proyecta una revisión a la perspectiva de `uid`. */
+export const revisionToDraft = (
+  revision: TradeProposalRevision,
+  proposal: Participants,
+  uid: string,
+): TradeDraft => {
+  const iAmInitiator = proposal.initiatorId === uid
+  const cash = revision.cashFromId ? revision.cashAmount : 0
+  return {
+    myCards: (iAmInitiator ? revision.initiatorCards : revision.recipientCards).map(c => ({ ...c })),
+    otherCards: (iAmInitiator ? revision.recipientCards : revision.initiatorCards).map(c => ({ ...c })),
+    cashFromMe: revision.cashFromId === uid ? cash : -cash,
+    note: revision.note,
+  }
+}
+
+/** Inversa de revisionToDraft: la revisión que `uid` firma con este borrador. */
+export const draftToRevision = (
+  draft: TradeDraft,
+  proposal: Participants,
+  uid: string,
+  now: Date = new Date(),
+): TradeProposalRevision => {
+  const iAmInitiator = proposal.initiatorId === uid
+  const otherId = iAmInitiator ? proposal.recipientId : proposal.initiatorId
+  const cashAmount = Math.round(Math.abs(draft.cashFromMe) * 100) / 100
+  return {
+    authorId: uid,
+    initiatorCards: iAmInitiator ? draft.myCards : draft.otherCards,
+    recipientCards: iAmInitiator ? draft.otherCards : draft.myCards,
+    cashAmount,
+    cashFromId: cashAmount === 0 ? null : (draft.cashFromMe > 0 ? uid : otherId),
+    note: draft.note.trim(),
+    createdAt: now,
+  }
+}
+
+const sideValue = (cards: readonly MatchCard[]): number =>
+  cards.reduce((sum, c) => sum + (c.price || 0) * (c.quantity || 0), 0)
+
+/**
+ * Totales de un borrador. `balance` = lo que recibo − lo que doy, con el
+ * efectivo sumado al lado de quien lo pone: positivo = a mi favor, la misma
+ * lectura que el "+$" de MatchCard.
+ */
+export const computeDraftBalance = (draft: TradeDraft): { giveValue: number; receiveValue: number; balance: number } => {
+  const giveValue = sideValue(draft.myCards) + Math.max(draft.cashFromMe, 0)
+  const receiveValue = sideValue(draft.otherCards) + Math.max(-draft.cashFromMe, 0)
+  return { giveValue, receiveValue, balance: receiveValue - giveValue }
+}
+
+/**
+ * Efectivo que deja el balance en cero: positivo si me toca ponerlo a mí.
+ * Ignora el efectivo que ya tenga el borrador.
+ */
+export const cashToBalance = (draft: TradeDraft): number => {
+  const diff = sideValue(draft.otherCards) - sideValue(draft.myCards)
+  return Math.round(diff * 100) / 100
+}
+
+/**
+ * Fija la cantidad de una carta en un lado del borrador. 0 la quita; una carta
+ * que no estaba se agrega al final. No muta la entrada.
+ */
+export const setTradeCardQuantity = (cards: readonly MatchCard[], card: MatchCard, quantity: number): MatchCard[] => {
+  const key = tradeCardKey(card)
+  const exists = cards.some(c => tradeCardKey(c) === key)
+  if (quantity <= 0) return cards.filter(c => tradeCardKey(c) !== key)
+  if (!exists) return [...cards, { ...card, quantity }]
+  return cards.map(c => (tradeCardKey(c) === key ? { ...c, quantity } : c))
+}
+
+export const isDraftEmpty = (draft: TradeDraft): boolean =>
+  draft.myCards.length === 0 && draft.otherCards.length === 0 && draft.cashFromMe === 0
+
+/**
+ * Quién puede hacer qué:
+ *  - accept / decline / counter → solo quien NO escribió la última revisión
+ *    (no se acepta la oferta propia);
+ *  - withdraw → solo quien escribió la última revisión (retira lo que puso
+ *    sobre la mesa).
+ * Todas exigen que la propuesta siga abierta.
+ */
+export const canPerform = (
+  proposal: Pick<TradeProposal, 'initiatorId' | 'recipientId' | 'status' | 'revisions'>,
+  uid: string,
+  action: TradeProposalAction,
+): boolean => {
+  if (proposal.status !== 'open' || !isParticipant(proposal, uid)) return false
+  const last = latestRevision(proposal)
+  if (!last) return false
+  if (action === 'withdraw') return last.authorId === uid
+  return last.authorId !== uid
+}
+
+/**
+ * Completar (mover las cartas) lo puede pedir cualquiera de los dos una vez
+ * aceptada; la Cloud Function vuelve a chequear todo del lado del servidor.
+ */
+export const canComplete = (
+  proposal: Pick<TradeProposal, 'initiatorId' | 'recipientId' | 'status'>,
+  uid: string,
+): boolean => proposal.status === 'accepted' && isParticipant(proposal, uid)
+
+/** Estado final al que lleva cada acción terminal. */
+export const TERMINAL_STATUS = {
+  accept: 'accepted',
+  decline: 'declined',
+  withdraw: 'withdrawn',
+} as const
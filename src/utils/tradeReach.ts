@@ -0,0 +1,146 @@
+import type { Proximity, ShippingReach, StructuredLocation, TradeReach } from '../types/location'
+import { encodeGeohash, geohashDistanceKm } from './geohash'
+
+// Matching por ubicación: con quién tiene sentido cambiar según dónde vive
+// cada uno y hasta dónde cambia (en persona dentro de un radio, envío
+// nacional o internacional). Las dos puntas tienen que estar de acuerdo.
+
+/** 5 caracteres ≈ celdas de 5 km: alcanza para el radio y no ubica a nadie. */
+export const GEOHASH_PRECISION = 5
+export const RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100, 250]
+export const SHIPPING_REACHES: ShippingReach[] = ['local', 'national', 'international']
+const MAX_RADIUS_KM = 1000
+
+/** Sin configurar = como hasta ahora: cualquiera, en cualquier lado. */
+export const DEFAULT_TRADE_REACH: TradeReach = { shipping: 'international', radiusKm: 50, minShippingValue: 0 }
+
+const text = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+/** locationInfo leído de Firestore → ubicación válida, sin campos undefined. null si no hay país. */
+export function normalizeStructuredLocation(raw: unknown): StructuredLocation | null {
+    if (!raw || typeof raw !== 'object') return null
+    const data = raw as Record<keyof StructuredLocation, unknown>
+    const country = text(data.country)
+    if (!country) return null
+    const countryCode = text(data.countryCode)?.toUpperCase()
+    const region = text(data.region)
+    const city = text(data.city)
+    const geohash = text(data.geohash)?.toLowerCase().slice(0, GEOHASH_PRECISION)
+    return {
+        country,
+        ...(countryCode && /^[A-Z]{2}$/.test(countryCode) ? { countryCode } : {}),
+        ...(region ? { region } : {}),
+        ...(city ? { city } : {}),
+        ...(geohash && /^[0-9a-z]+$/.test(geohash) ? { geohash } : {}),
+    }
+}
+
+/** Ubicación detectada (GPS o IP) → ubicación estructurada, con geohash si hay coordenadas. */
+export function buildStructuredLocation(input: {
+    city?: string
+    region?: string
+    country?: string
+    countryCode?: string
+    lat?: number | string
+    lon?: number | string
+}): StructuredLocation | null {
+    const lat = Number(input.lat)
+    const lon = Number(input.lon)
+    const hasCoords = input.lat !== undefined && input.lon !== undefined
+        && Number.isFinite(lat) && Number.isFinite(lon)
+    return normalizeStructuredLocation({
+        ...input,
+        ...(hasCoords ? { geohash: encodeGeohash(lat, lon, GEOHASH_PRECISION) } : {}),
+    })
+}
+
+/**
+ * Texto libre "Ciudad, Provincia, País" → ubicación sin coordenadas. Lo
+ * último es el país y lo primero la ciudad; con una sola parte es el país.
+ */
+export function parseLocationLabel(label: string | null | undefined): StructuredLocation | null {
+    const parts = (label ?? '').split(',').map(p => p.trim()).filter(Boolean)
+    const country = parts.at(-1)
+    if (!country) return null
+    const city = parts.length > 1 ? parts[0] : undefined
+    const region = parts.length > 2 ? parts.slice(1, -1).join(', ') : undefined
+    return { country, ...(city ? { city } : {}), ...(region ? { region } : {}) }
+}
+
+/** users/{uid}.tradeReach → alcance válido; lo que falta toma el valor por defecto. */
+export function normalizeTradeReach(raw: unknown): TradeReach {
+    if (!raw || typeof raw !== 'object') return { ...DEFAULT_TRADE_REACH }
+    const data = raw as Partial<Record<keyof TradeReach, unknown>>
+    const radius = Number(data.radiusKm)
+    const minValue = Number(data.minShippingValue)
+    return {
+        shipping: SHIPPING_REACHES.find(s => s === data.shipping) ?? DEFAULT_TRADE_REACH.shipping,
+        radiusKm: Number.isFinite(radius) && radius > 0 ? Math.min(radius, MAX_RADIUS_KM) : DEFAULT_TRADE_REACH.radiusKm,
+        minShippingValue: Number.isFinite(minValue) && minValue > 0 ? minValue : 0,
+    }
+}
+
+export interface ReachParty {
+    location: StructuredLocation | null
+    reach: TradeReach
+}
+
+export interface ReachCheck {
+    allowed: boolean
+    proximity: Proximity
+    distanceKm: number | null
+    needsShipping: boolean
+}
+
+const sameText = (a: string | undefined, b: string | undefined): boolean | null =>
+    a && b ? a.toLowerCase() === b.toLowerCase() : null
+
+/**
+ * ¿Tiene sentido un match entre yo y el otro? Cada uno tiene que alcanzar
+ * al otro con su propio alcance:
+ * - international: cualquiera.
+ * - national: mismo país (o país desconocido), o dentro de su radio.
+ * - local: dentro de su radio. Sin coordenadas cuenta la misma ciudad; sin
+ *   datos, no.
+ * `proximity` se mide con MI radio y es lo que ordena los matches.
+ */
+export function checkTradeReach(me: ReachParty, them: ReachParty): ReachCheck {
+    const mine = me.location
+    const theirs = them.location
+    const distanceKm = mine?.geohash && theirs?.geohash ? geohashDistanceKm(mine.geohash, theirs.geohash) : null
+    const sameCountry = mine && theirs
+        ? sameText(mine.countryCode, theirs.countryCode) ?? sameText(mine.country, theirs.country)
+        : null
+    const sameCity = sameCountry === false ? false : sameText(mine?.city, theirs?.city)
+
+    const withinRadius = (radiusKm: number): boolean | null =>
+        distanceKm !== null ? distanceKm <= radiusKm : sameCity
+
+    const allows = ({ reach }: ReachParty): boolean => {
+        if (reach.shipping === 'international') return true
+        if (withinRadius(reach.radiusKm) === true) return true
+        return reach.shipping === 'national' && sameCountry !== false
+    }
+
+    const proximity: Proximity = withinRadius(me.reach.radiusKm) === true ? 'local'
+        : sameCountry === true ? 'national'
+        : sameCountry === false ? 'international'
+        : 'unknown'
+
+    return {
+        allowed: allows(me) && allows(them),
+        proximity,
+        distanceKm: distanceKm === null ? null : Math.round(distanceKm),
+        needsShipping: proximity !== 'local',
+    }
+}
+
+/**
+ * Un match que necesita envío solo vale si mueve al menos el mínimo de
+ * envío de los dos (un $2 a 1.500 km es ruido).
+ */
+export function worthShipping(check: ReachCheck, tradeValue: number, me: ReachParty, them: ReachParty): boolean {
+    if (!check.needsShipping) return true
+    return tradeValue >= Math.max(me.reach.minShippingValue, them.reach.minShippingValue)
+}
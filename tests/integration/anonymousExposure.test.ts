@@ -64,6 +64,22 @@ describeIf('TASK-188 — exposicion anonima de datos personales', () => {
     expect(withEmail.length, `${withEmail.length} documentos de /public_cards exponen 'email'`).toBe(0)
   }, 30000)
 
+  it('/public_decks (mazos compartidos) tampoco devuelve email ni ubicacion', async () => {
+    const { status, documents } = await fetchAnonymously('public_decks')
+    if (status !== 200) return
+
+    const exposed = documents.filter(d => d.fields && ('email' in d.fields || 'location' in d.fields))
+    expect(exposed.length, `${exposed.length} documentos de /public_decks exponen 'email' o 'location'`).toBe(0)
+  }, 30000)
+
+  it('/public_binders (escaparates) tampoco devuelve email ni ubicacion', async () => {
+    const { status, documents } = await fetchAnonymously('public_binders')
+    if (status !== 200) return
+
+    const exposed = documents.filter(d => d.fields && ('email' in d.fields || 'location' in d.fields))
+    expect(exposed.length, `${exposed.length} documentos de /public_binders exponen 'email' o 'location'`).toBe(0)
+  }, 30000)
+
   it('regresion TASK-169: /contact_info NO es legible sin sesion', async () => {
     // Aca el email SI vive, a proposito. Lo que lo protege es la regla.
     const { status, documents } = await fetchAnonymously('contact_info')
@@ -0,0 +1,98 @@
+/**
+ * Integration Tests - Public snapshots (public_decks / public_binders)
+ *
+ * Las páginas públicas leen public_decks/{ownerUid}_{deckId} y
+ * public_binders/{ownerUid}_{binderId}. Las reglas tienen que impedir que
+ * otro usuario con sesión pise esos documentos (o los cree antes que el
+ * dueño) poniendo su propio uid en userId.
+ *
+ * Run with: npm run test:integration
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import {
+  initFirebase,
+  loginAs,
+  logout,
+  validateTestCredentials,
+  getDb,
+} from './testHelpers'
+import { deleteDoc, doc, setDoc, Timestamp } from 'firebase/firestore'
+
+// Validate credentials before running tests
+validateTestCredentials()
+
+const snapshot = (userId: string, name: string) => ({
+  userId,
+  username: 'TEST_snapshot',
+  name,
+  cards: [],
+  updatedAt: Timestamp.now(),
+})
+
+describe('Public snapshot rules', () => {
+  let userAId: string
+  let userBId: string
+  const deckId = `TEST_deck_${Date.now()}`
+  const binderId = `TEST_binder_${Date.now()}`
+
+  beforeAll(async () => {
+    initFirebase()
+
+    const userAResult = await loginAs('userA')
+    userAId = userAResult.userId
+    await logout()
+
+    const userBResult = await loginAs('userB')
+    userBId = userBResult.userId
+    await logout()
+  })
+
+  afterAll(async () => {
+    try {
+      await loginAs('userA')
+      await deleteDoc(doc(getDb(), 'public_decks', `${userAId}_${deckId}`))
+      await deleteDoc(doc(getDb(), 'public_binders', `${userAId}_${binderId}`))
+      await logout()
+    } catch { /* ignore */ }
+  })
+
+  describe('public_decks', () => {
+    it('rejects a second user creating a deck under the owner\'s ID', async () => {
+      await loginAs('userB')
+      const ref = doc(getDb(), 'public_decks', `${userAId}_${deckId}`)
+      await expect(setDoc(ref, snapshot(userBId, 'Squatted'))).rejects.toThrow()
+      await logout()
+    })
+
+    it('rejects a second user overwriting the owner\'s published deck', async () => {
+      await loginAs('userA')
+      const ref = doc(getDb(), 'public_decks', `${userAId}_${deckId}`)
+      await setDoc(ref, snapshot(userAId, 'Original'))
+      await logout()
+
+      await loginAs('userB')
+      await expect(setDoc(ref, snapshot(userBId, 'Hijacked'))).rejects.toThrow()
+      await logout()
+    })
+  })
+
+  describe('public_binders', () => {
+    it('rejects a second user creating a storefront under the owner\'s ID', async () => {
+      await loginAs('userB')
+      const ref = doc(getDb(), 'public_binders', `${userAId}_${binderId}`)
+      await expect(setDoc(ref, snapshot(userBId, 'Squatted'))).rejects.toThrow()
+      await logout()
+    })
+
+    it('rejects a second user overwriting the owner\'s storefront', async () => {
+      await loginAs('userA')
+      const ref = doc(getDb(), 'public_binders', `${userAId}_${binderId}`)
+      await setDoc(ref, { ...snapshot(userAId, 'Original'), ckPricePercent: 80 })
+      await logout()
+
+      await loginAs('userB')
+      await expect(setDoc(ref, { ...snapshot(userBId, 'Hijacked'), ckPricePercent: 1 })).rejects.toThrow()
+      await logout()
+    })
+  })
+})
@@ -397,6 +397,39 @@ describe('BulkSelectionActionBar', () => {
       expect(wrapper.emitted('create-binder')).toBeTruthy()
     })
 
+    it('emits move-to-location with an existing location', async () => {
+      const wrapper = mount(BulkSelectionActionBar, {
+        props: {
+          selectedCount: 2,
+          bulkActionLoading: false,
+          bulkActionProgress: 0,
+          decks: [],
+          binders: [],
+          locations: ['Box A / row 3', 'Red deckbox'],
+        },
+      })
+      await wrapper.find('[data-testid="bulk-location-trigger"]').trigger('click')
+      const row = wrapper.findAll('button').find(b => b.text() === 'Red deckbox')
+      await row?.trigger('click')
+      expect(wrapper.emitted('move-to-location')![0]).toEqual(['Red deckbox'])
+    })
+
+    it('emits move-to-location with a new, trimmed location', async () => {
+      const wrapper = mount(BulkSelectionActionBar, {
+        props: {
+          selectedCount: 2,
+          bulkActionLoading: false,
+          bulkActionProgress: 0,
+          decks: [],
+          binders: [],
+        },
+      })
+      await wrapper.find('[data-testid="bulk-location-trigger"]').trigger('click')
+      await wrapper.find('[data-testid="bulk-location-input"]').setValue('  Box   B ')
+      await wrapper.find('form').trigger('submit')
+      expect(wrapper.emitted('move-to-location')![0]).toEqual(['Box B'])
+    })
+
     it('emits delete when the danger delete button clicked', async () => {
       const wrapper = mount(BulkSelectionActionBar, {
         props: {
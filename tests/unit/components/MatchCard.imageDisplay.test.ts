@@ -20,6 +20,7 @@ vi.mock('@/services/mtgjson', () => ({
   formatPrice: (n: number) => `$${n}`,
 }))
 vi.mock('@/services/firebase', () => ({ db: {}, auth: { currentUser: null } }))
+vi.mock('@/services/firestore', () => ({ db: {} }))
 vi.mock('@/stores/contacts', () => ({
   useContactsStore: vi.fn(() => ({ contacts: [], isContact: () => false, addContact: vi.fn() })),
 }))
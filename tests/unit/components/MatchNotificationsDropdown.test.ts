@@ -7,7 +7,7 @@
  * Fix: the load defers to the bell click (the user's gesture over the
  * notifications entry point) instead of firing on mount.
  */
-import { mount, RouterLinkStub } from '@vue/test-utils'
+import { flushPromises, mount, RouterLinkStub } from '@vue/test-utils'
 import { createPinia, setActivePinia } from 'pinia'
 import MatchNotificationsDropdown from '../../../src/components/layout/MatchNotificationsDropdown.vue'
 
@@ -20,6 +20,17 @@ vi.mock('@/stores/matches', () => ({
   }),
 }))
 
+const priceAlerts = {
+  events: [] as any[],
+  unreadCount: 0,
+  loadUnreadCount: vi.fn().mockResolvedValue(undefined),
+  loadEvents: vi.fn().mockResolvedValue(undefined),
+  markEventsRead: vi.fn().mockResolvedValue(undefined),
+}
+vi.mock('@/stores/priceAlerts', () => ({
+  usePriceAlertsStore: () => priceAlerts,
+}))
+
 vi.mock('../../../src/composables/useI18n', () => ({
   useI18n: () => ({
     t: (key: string, _params?: Record<string, unknown>) => key,
@@ -65,3 +76,52 @@ describe('MatchNotificationsDropdown: deferred load (TASK-148)', () => {
     expect(loadAllMatches).toHaveBeenCalledTimes(1)
   })
 })
+
+describe('MatchNotificationsDropdown: price alerts', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    priceAlerts.events = []
+    priceAlerts.unreadCount = 0
+  })
+
+  it('only asks for the unread count on mount, not the list', () => {
+    mount(MatchNotificationsDropdown, {
+      props: { active: false },
+      global: { stubs: { RouterLink: RouterLinkStub } },
+    })
+
+    expect(priceAlerts.loadUnreadCount).toHaveBeenCalledTimes(1)
+    expect(priceAlerts.loadEvents).not.toHaveBeenCalled()
+  })
+
+  it('counts unread price alerts in the badge', () => {
+    priceAlerts.unreadCount = 2
+    const wrapper = mount(MatchNotificationsDropdown, {
+      props: { active: false },
+      global: { stubs: { RouterLink: RouterLinkStub } },
+    })
+
+    expect(wrapper.find('button').text()).toContain('2')
+  })
+
+  it('lists fired alerts and marks them read when the bell opens', async () => {
+    priceAlerts.events = [{
+      id: 'e1', alertId: 'a1', scryfallId: 's1', cardName: 'Ragavan, Nimble Pilferer', setCode: 'mh2',
+      image: '', foil: false, source: 'cardkingdom', direction: 'below', threshold: 40, price: 38.5,
+      read: false, createdAt: new Date(),
+    }]
+    const wrapper = mount(MatchNotificationsDropdown, {
+      props: { active: false },
+      global: { stubs: { RouterLink: RouterLinkStub } },
+    })
+
+    await wrapper.find('button').trigger('click')
+    await flushPromises()
+
+    expect(priceAlerts.loadEvents).toHaveBeenCalledTimes(1)
+    expect(priceAlerts.markEventsRead).toHaveBeenCalled()
+    expect(wrapper.text()).toContain('Ragavan, Nimble Pilferer')
+    expect(wrapper.text()).toContain('priceAlerts.notification.below')
+  })
+})
@@ -342,3 +342,32 @@ describe("groupedCards with groupBy='name'", () => {
     scope.stop()
   })
 })
+
+describe('location filter', () => {
+  const makeCards = () => ref([
+    makeFilterableCard({ name: 'Lightning Bolt', location: 'Red deckbox' }),
+    makeFilterableCard({ name: 'Counterspell', location: 'Box A / row 3' }),
+    makeFilterableCard({ name: 'Llanowar Elves' }),
+  ])
+
+  it('lists the locations in use, sorted', () => {
+    const scope = effectScope()
+    const result = scope.run(() => useCardFilter(makeCards()))!
+    expect(result.collectionLocations.value).toEqual(['Box A / row 3', 'Red deckbox'])
+    scope.stop()
+  })
+
+  it('keeps only cards in the selected locations, "" for cards without one', () => {
+    const scope = effectScope()
+    const result = scope.run(() => useCardFilter(makeCards()))!
+
+    result.toggleAdvLocation('Red deckbox')
+    result.toggleAdvLocation('')
+    expect(result.filteredCards.value.map(c => c.name).sort()).toEqual(['Lightning Bolt', 'Llanowar Elves'])
+    expect(result.advancedFilterCount.value).toBe(1)
+
+    result.resetAdvancedFilters()
+    expect(result.filteredCards.value).toHaveLength(3)
+    scope.stop()
+  })
+})
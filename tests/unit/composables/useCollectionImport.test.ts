@@ -27,6 +27,11 @@ function makeStores() {
     collectionStore: {
       importing: false,
       confirmImport: vi.fn().mockResolvedValue([]),
+      planImport: vi.fn().mockReturnValue({
+        options: { mode: 'addQuantities', removeMissing: false },
+        targets: [], creates: [], updates: [], removals: [],
+        summary: { newCards: 0, newCopies: 0, updatedCards: 0, copiesAdded: 0, copiesRemoved: 0, unchangedCards: 0, removedCards: 0 },
+      }),
       refreshCards: vi.fn(),
       enrichCardsWithMissingMetadata: vi.fn().mockResolvedValue(undefined),
       queryPage: vi.fn(),
@@ -268,4 +273,33 @@ describe('useCollectionImport', () => {
       expect(typeof isImportRunning()).toBe('boolean')
     })
   })
+
+  describe('resumen del merge antes de escribir', () => {
+    const csvCard = { name: 'Lightning Bolt', quantity: 2, condition: 'NM' as const, foil: false, setCode: 'M10', scryfallId: 'bolt', price: 1, language: 'en' }
+
+    it('si el usuario cancela no se crea el mazo ni se escribe ninguna carta', async () => {
+      const stores = makeStores()
+      stores.confirmStore.show.mockResolvedValue(false)
+      const { handleImportCsv } = useCollectionImport(stores)
+
+      await handleImportCsv([csvCard], 'Mazo')
+
+      expect(stores.collectionStore.planImport).toHaveBeenCalledWith(expect.any(Array), { mode: 'addQuantities', removeMissing: false })
+      expect(stores.decksStore.createDeck).not.toHaveBeenCalled()
+      expect(stores.collectionStore.confirmImport).not.toHaveBeenCalled()
+      expect(stores.collectionStore.importing).toBe(false)
+    })
+
+    it('al confirmar, el plan llega a confirmImport', async () => {
+      const stores = makeStores()
+      const { handleImportCsv } = useCollectionImport(stores)
+      const merge = { mode: 'onlyNew' as const, removeMissing: false }
+
+      await handleImportCsv([csvCard], 'Mazo', false, 'modern', undefined, undefined, merge)
+
+      const plan = stores.collectionStore.planImport.mock.results[0]?.value
+      expect(stores.collectionStore.planImport).toHaveBeenCalledWith(expect.any(Array), merge)
+      expect(stores.collectionStore.confirmImport).toHaveBeenCalledWith(expect.any(Array), true, expect.any(Function), plan)
+    })
+  })
 })
@@ -23,6 +23,7 @@ function makeFilterState() {
     selectedRarities: ref(new Set<string>()),
     advFoilFilter: ref('any'),
     advSelectedSets: ref<string[]>([]),
+    advSelectedLocations: ref<string[]>([]),
     advPriceMin: ref<number | undefined>(undefined),
     advPriceMax: ref<number | undefined>(undefined),
   }
@@ -0,0 +1,56 @@
+/**
+ * acquisitions — FIFO cost basis on the server (trades, card_index `cb`).
+ *
+ * Same execution-lock technique as tradeCompletion.test.ts. The last block
+ * runs the same inputs through src/utils/costBasis.ts: the client shows the
+ * numbers the server writes, so the two must not drift.
+ */
+import { cleanLot, consumeLots, effectiveLots, lotsCost, tradeLot } from '../../../functions/lib/acquisitions.js'
+import * as client from '@/utils/costBasis'
+
+const lot = (quantity: number, unitPrice: number | null, date: string, source = 'buy') =>
+  ({ quantity, unitPrice, date, source, counterparty: '' })
+
+describe('acquisitions (server)', () => {
+  it('cleanLot normaliza y descarta lotes vacíos', () => {
+    expect(cleanLot({ quantity: '2', unitPrice: '1.239', date: '2026-01-01', source: 'weird' }))
+      .toEqual({ quantity: 2, unitPrice: 1.24, date: '2026-01-01', source: 'other', counterparty: '' })
+    expect(cleanLot({ quantity: 0, unitPrice: 1 })).toBeNull()
+    expect(cleanLot({ quantity: 1, unitPrice: -3 })?.unitPrice).toBeNull()
+  })
+
+  it('consumeLots saca primero el lote más antiguo y parte el que queda a medias', () => {
+    const { consumed, remaining } = consumeLots([lot(2, 5, '2026-03-01'), lot(2, 1, '2026-01-01')], 3)
+    expect(consumed).toEqual([lot(2, 1, '2026-01-01'), lot(1, 5, '2026-03-01')])
+    expect(remaining).toEqual([lot(1, 5, '2026-03-01')])
+  })
+
+  it('effectiveLots recorta el sobrante cuando la cantidad bajó a mano', () => {
+    expect(effectiveLots([lot(1, 1, '2025-01-01'), lot(1, 2, '2026-01-01')], 1)).toEqual([lot(1, 2, '2026-01-01')])
+    expect(effectiveLots(undefined, 4)).toEqual([])
+  })
+
+  it('lotsCost ignora las copias sin precio conocido', () => {
+    expect(lotsCost([lot(2, 1.5, 'a'), lot(3, null, 'b')])).toEqual({ quantity: 2, cost: 3 })
+  })
+
+  it('tradeLot valúa la copia al precio que tenía al cambiar de manos', () => {
+    expect(tradeLot({ price: 2.5 }, 2, 'ana', '2026-10-18'))
+      .toEqual({ quantity: 2, unitPrice: 2.5, date: '2026-10-18', source: 'trade', counterparty: 'ana' })
+    expect(tradeLot({ price: 0 }, 1, 'ana', '2026-10-18').unitPrice).toBeNull()
+  })
+})
+
+describe('acquisitions — paridad con src/utils/costBasis.ts', () => {
+  const lots = [lot(2, 5, '2026-03-01'), lot(1, null, '2026-02-01', 'gift'), lot(3, 1.25, '2025-12-24', 'pack')]
+
+  it.each([0, 1, 3, 4, 6, 9])('consumeLots(%i) coincide', (qty) => {
+    expect(client.consumeLots(lots as never, qty)).toEqual(consumeLots(lots, qty))
+  })
+
+  it.each([0, 2, 5, 6, 10])('effectiveLots + lotsCost(%i) coincide', (qty) => {
+    const server = effectiveLots(lots, qty)
+    expect(client.effectiveLots(lots as never, qty)).toEqual(server)
+    expect(client.lotsCost(server as never)).toEqual(lotsCost(server))
+  })
+})
@@ -231,6 +231,11 @@ describe('buildCardIndex — self-corrects drifted chunkId on every rebuild (TAS
     expect(fieldsMatch![1]).toMatch(/['"]chunkId['"]/)
   })
 
+  it('reads acquisitions in the Phase 1 projected query — the v4 `cb` cost basis is computed from them, a rebuild without it drops every cost basis', () => {
+    const fieldsMatch = source.match(/const INDEX_FIELDS = \[([\s\S]*?)\];/)
+    expect(fieldsMatch![1]).toMatch(/['"]acquisitions['"]/)
+  })
+
   it('batches the chunkId rewrites (bounded per-commit size), not one write per card', () => {
     expect(source).toMatch(/FIX_BATCH/)
     expect(source).toMatch(/batch\.update\(colRef\.doc\(fix\.id\),\s*\{\s*chunkId:\s*fix\.chunkId\s*\}\)/)
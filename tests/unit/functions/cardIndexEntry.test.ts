@@ -186,4 +186,45 @@ describe('card_index entry building — Scryfall metadata join (TASK-245)', () =
       expect(isDualFaced(null)).toBe(false)
     })
   })
+
+  describe('cb — cost basis summary (index v4)', () => {
+    it('is [copies with known cost, total cost] over the lots still held', () => {
+      const entry = toIndexCard('c1', {
+        ...userDocWithoutMetadata,
+        quantity: 2,
+        acquisitions: [
+          { quantity: 1, unitPrice: 9, date: '2025-01-01', source: 'buy', counterparty: '' },
+          { quantity: 1, unitPrice: 3, date: '2026-01-01', source: 'buy', counterparty: '' },
+          { quantity: 1, unitPrice: null, date: '2026-05-01', source: 'gift', counterparty: '' },
+        ],
+      })
+      // 3 lots for 2 copies: the oldest one already left (FIFO).
+      expect(entry.cb).toEqual([1, 3])
+    })
+
+    it('is absent when no purchase price is known', () => {
+      expect(toIndexCard('c1', userDocWithoutMetadata)).not.toHaveProperty('cb')
+    })
+  })
+
+  describe('lc — storage location (index v5)', () => {
+    it('carries the card location', () => {
+      expect(toIndexCard('c1', { ...userDocWithoutMetadata, location: 'Box A / row 3' }).lc).toBe('Box A / row 3')
+    })
+
+    it('is absent when the card has no location', () => {
+      expect(toIndexCard('c1', { ...userDocWithoutMetadata, location: '' })).not.toHaveProperty('lc')
+    })
+  })
+
+  describe('po — fixed sale/trade price (index v6)', () => {
+    it('carries the card price override', () => {
+      expect(toIndexCard('c1', { ...userDocWithoutMetadata, priceOverride: 4.5 }).po).toBe(4.5)
+    })
+
+    it('is absent when the card has none (missing or cleared to null)', () => {
+      expect(toIndexCard('c1', userDocWithoutMetadata)).not.toHaveProperty('po')
+      expect(toIndexCard('c1', { ...userDocWithoutMetadata, priceOverride: null })).not.toHaveProperty('po')
+    })
+  })
 })
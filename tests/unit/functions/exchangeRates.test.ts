@@ -0,0 +1,38 @@
+/**
+ * exchangeRates — what refreshExchangeRates writes to exchange_rates/latest.
+ *
+ * Same execution-lock technique as priceAlerts.test.ts: the module is
+ * dependency-free CommonJS, so these tests run the real code the scheduled
+ * function calls.
+ */
+import { FX_CURRENCIES, pickInformalRate, pickRates } from '../../../functions/lib/exchangeRates.js'
+
+describe('pickRates', () => {
+  it('keeps only the supported currencies with a positive rate', () => {
+    const payload = {
+      result: 'success',
+      rates: { USD: 1, ARS: 1012.5, MXN: 17.1, CLP: 940, COP: 0, EUR: '0.91', BRL: 5.4, GBP: 0.78 },
+    }
+    expect(pickRates(payload)).toEqual({ ARS: 1012.5, MXN: 17.1, CLP: 940, BRL: 5.4 })
+  })
+
+  it('returns nothing for an error response', () => {
+    expect(pickRates({ result: 'error', 'error-type': 'quota-reached' })).toEqual({})
+    expect(pickRates(null)).toEqual({})
+  })
+
+  it('covers the currencies the client offers', () => {
+    expect(FX_CURRENCIES).toEqual(['ARS', 'MXN', 'CLP', 'COP', 'EUR', 'BRL'])
+  })
+})
+
+describe('pickInformalRate', () => {
+  it('uses the selling side of the dólar blue quote', () => {
+    expect(pickInformalRate({ moneda: 'USD', casa: 'blue', compra: 1410, venta: 1450 })).toBe(1450)
+  })
+
+  it('returns null for junk', () => {
+    expect(pickInformalRate({ venta: null })).toBeNull()
+    expect(pickInformalRate(undefined)).toBeNull()
+  })
+})
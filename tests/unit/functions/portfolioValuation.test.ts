@@ -0,0 +1,63 @@
+/**
+ * portfolioValuation — the snapshot snapshotPortfolios writes per user.
+ *
+ * Same execution-lock technique as tradeCompletion.test.ts: dependency-free
+ * CommonJS, so these tests run the real code the scheduled function calls.
+ */
+import { ckPricesFrom, missingDates, priceAsOf, valueCollection } from '../../../functions/lib/portfolioValuation.js'
+
+const card = (over: Record<string, unknown> = {}) => ({
+  scryfallId: 's1', quantity: 1, status: 'collection', price: 10, ...over,
+})
+
+describe('valueCollection', () => {
+  it('suma como useCollectionTotals: solo lo propio, wishlist fuera del valor pero dentro del conteo', () => {
+    const prices: Record<string, { ck: number; buylist: number }> = { s1: { ck: 12, buylist: 6 }, s2: { ck: 5, buylist: 2 } }
+    const value = valueCollection(
+      [card({ quantity: 2 }), card({ scryfallId: 's2', status: 'sale', price: 4 }), card({ scryfallId: 's1', status: 'wishlist', quantity: 3 })],
+      (c: { scryfallId: string }) => prices[c.scryfallId] ?? null,
+    )
+    expect(value).toMatchObject({ tcg: 24, ck: 29, buylist: 14, cards: 6, unique: 3, owned: 2, priced: 2 })
+  })
+
+  it('sin precio CK conocido, la carta aporta solo su precio TCG', () => {
+    const value = valueCollection([card({ price: 3.333, quantity: 3 })], () => null)
+    expect(value).toMatchObject({ tcg: 10, ck: 0, buylist: 0, priced: 0 })
+  })
+
+  it('el tcg del historial reemplaza al precio guardado en la carta', () => {
+    const value = valueCollection([card({ price: 10 })], () => ({ tcg: 7, ck: 8, buylist: 3 }))
+    expect(value.tcg).toBe(7)
+  })
+})
+
+describe('ckPricesFrom', () => {
+  it('lee retail y buylist no-foil de la última fecha', () => {
+    expect(ckPricesFrom({
+      paper: { cardkingdom: { retail: { normal: { '2026-10-16': 9, '2026-10-17': 10 } }, buylist: { normal: { '2026-10-17': 4 } } } },
+    })).toEqual({ ck: 10, buylist: 4 })
+    expect(ckPricesFrom({ paper: {} })).toBeNull()
+  })
+})
+
+describe('missingDates', () => {
+  it('rellena huecos posteriores al primer snapshot, dentro de la ventana', () => {
+    expect(missingDates(['2026-10-10', '2026-10-13', '2026-10-15'], '2026-10-15', 7))
+      .toEqual(['2026-10-11', '2026-10-12', '2026-10-14'])
+  })
+
+  it('no extiende el historial hacia atrás ni inventa si solo existe hoy', () => {
+    expect(missingDates(['2026-10-15'], '2026-10-15', 7)).toEqual([])
+    expect(missingDates(['2026-09-01', '2026-10-15'], '2026-10-15', 3)).toEqual(['2026-10-12', '2026-10-13', '2026-10-14'])
+  })
+})
+
+describe('priceAsOf', () => {
+  it('usa el último precio conocido en o antes del día', () => {
+    const history = { '2026-10-01': [1, 2, 0.5], '2026-10-05': [3, 4, 1], '2026-10-09': [5, 6, 2] }
+    expect(priceAsOf(history, '2026-10-07')).toEqual({ tcg: 3, ck: 4, buylist: 1 })
+    expect(priceAsOf(history, '2026-10-05')).toEqual({ tcg: 3, ck: 4, buylist: 1 })
+    expect(priceAsOf(history, '2026-09-30')).toBeNull()
+    expect(priceAsOf(undefined, '2026-10-07')).toBeNull()
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * priceAlerts — what evaluatePriceAlerts compares on each run.
+ *
+ * Same execution-lock technique as tradeCompletion.test.ts: the module is
+ * dependency-free CommonJS, so these tests run the real code the scheduled
+ * function calls.
+ */
+import { evaluateAlert, latestPrice, priceFor, setsToResolve } from '../../../functions/lib/priceAlerts.js'
+
+const formats = {
+  paper: {
+    cardkingdom: {
+      retail: { normal: { '2026-10-16': 44.99, '2026-10-17': 39.99 }, foil: { '2026-10-17': '79.99' } },
+      buylist: { normal: { '2026-10-17': 30 } },
+      currency: 'USD',
+    },
+    tcgplayer: { retail: { normal: { '2026-10-17': 41.2 } }, currency: 'USD' },
+  },
+}
+
+describe('latestPrice / priceFor', () => {
+  it('toma la fecha más reciente y acepta strings numéricos', () => {
+    expect(latestPrice({ '2026-10-16': 44.99, '2026-10-17': 39.99 })).toBe(39.99)
+    expect(latestPrice({ '2026-10-17': ' 12.5 ' })).toBe(12.5)
+    expect(latestPrice({ '2026-10-17': '' })).toBeNull()
+    expect(latestPrice(undefined)).toBeNull()
+  })
+
+  it('elige fuente y acabado; fuente desconocida cae en Card Kingdom', () => {
+    expect(priceFor(formats, 'cardkingdom', false)).toBe(39.99)
+    expect(priceFor(formats, 'cardkingdom', true)).toBe(79.99)
+    expect(priceFor(formats, 'tcgplayer', false)).toBe(41.2)
+    expect(priceFor(formats, 'cardmarket', false)).toBeNull()
+    expect(priceFor(formats, 'ebay', false)).toBe(39.99)
+    expect(priceFor(undefined, 'cardkingdom', false)).toBeNull()
+  })
+})
+
+describe('evaluateAlert', () => {
+  it('dispara el objetivo de wishlist al llegar o bajar del precio', () => {
+    expect(evaluateAlert({ active: true, below: 40, above: null }, 39.99))
+      .toEqual({ direction: 'below', threshold: 40, price: 39.99 })
+    expect(evaluateAlert({ active: true, below: 40, above: null }, 40)).not.toBeNull()
+    expect(evaluateAlert({ active: true, below: 40, above: null }, 40.01)).toBeNull()
+  })
+
+  it('umbral de subida sobre una carta propia', () => {
+    expect(evaluateAlert({ active: true, below: 20, above: 60 }, 61))
+      .toEqual({ direction: 'above', threshold: 60, price: 61 })
+    expect(evaluateAlert({ active: true, below: 20, above: 60 }, 45)).toBeNull()
+  })
+
+  it('sin precio, inactiva o con umbrales inválidos no dispara', () => {
+    expect(evaluateAlert({ active: true, below: 40 }, null)).toBeNull()
+    expect(evaluateAlert({ active: false, below: 40 }, 10)).toBeNull()
+    expect(evaluateAlert({ active: true, below: 0, above: -1 }, 0)).toBeNull()
+  })
+})
+
+describe('setsToResolve', () => {
+  it('agrupa por set solo las alertas sin uuid', () => {
+    const sets = setsToResolve([
+      { scryfallId: 'a', setCode: 'mh2' },
+      { scryfallId: 'b', setCode: 'MH2' },
+      { scryfallId: 'c', setCode: 'lea', mtgjsonUuid: 'u-c' },
+      { scryfallId: 'd', setCode: '' },
+    ])
+    expect([...sets.keys()]).toEqual(['MH2'])
+    expect([...sets.get('MH2')!]).toEqual(['a', 'b'])
+  })
+})
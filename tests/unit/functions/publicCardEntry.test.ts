@@ -644,4 +644,14 @@ describe('publicCardEntry — public-profile index entry building (TASK-247 tand
     })
   })
 
+  describe('sp — the price is the seller\'s own (pricing rules / fixed price)', () => {
+    it('flags an entry whose public_cards doc is seller-priced', () => {
+      expect(buildPublicEntry({ ...basePublicCard, sellerPriced: true }, null).sp).toBe(1)
+    })
+
+    it('is absent for a market-priced doc', () => {
+      expect(buildPublicEntry(basePublicCard, null)).not.toHaveProperty('sp')
+    })
+  })
+
 })
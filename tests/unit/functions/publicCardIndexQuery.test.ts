@@ -1301,6 +1301,18 @@ describe('MEDIUM-3 RED — lands must keep the colour they PRODUCE', () => {
   })
 })
 
+describe('sp — the seller-priced flag reaches the client only when set', () => {
+  it('ships sp on a seller-priced row so the cart keeps that price', () => {
+    const row = toPublicIndexCard({ ...(PROFILE[0] as SyntheticEntry), sp: 1 }) as Record<string, unknown>
+    expect(row.sp).toBe(1)
+  })
+
+  it('omits sp on a market-priced row', () => {
+    const row = toPublicIndexCard(PROFILE[0] as SyntheticEntry) as Record<string, unknown>
+    expect(row).not.toHaveProperty('sp')
+  })
+})
+
 describe('MEDIUM-1 RED — an INCOMPLETE chunk snapshot must never clear partial', () => {
   /**
    * The real shape of the growth window, which the round-1 test missed by
@@ -229,6 +229,24 @@ describe('filterIndexCards', () => {
     })
   })
 
+  describe('location filter', () => {
+    const located = [
+      makeIndexCard({ i: 'a', lc: 'Box A' }),
+      makeIndexCard({ i: 'b', lc: 'Red deckbox' }),
+      makeIndexCard({ i: 'c' }),
+    ]
+
+    it('should filter by exact location (OR)', () => {
+      const result = filterIndexCards(located, { location: ['Box A', 'Red deckbox'] })
+      expect(result.map(c => c.i)).toEqual(['a', 'b'])
+    })
+
+    it('should match cards without a location with an empty string', () => {
+      const result = filterIndexCards(located, { location: [''] })
+      expect(result.map(c => c.i)).toEqual(['c'])
+    })
+  })
+
   describe('price filter', () => {
     it('should filter by min price', () => {
       const result = filterIndexCards(cards, { minPrice: 10 })
@@ -0,0 +1,204 @@
+/**
+ * tradeCompletion — plan of what completeTrade writes on each collection.
+ *
+ * Same execution-lock technique as cardIndexEntry.test.ts: the planner is a
+ * dependency-free CommonJS module, so these tests run the real code that
+ * functions/index.js calls inside its transaction.
+ */
+import {
+  docsAfterGiving,
+  planGiverSide,
+  planReceiverSide,
+  settleSameDocWrites,
+  tradeActivityEntry,
+} from '../../../functions/lib/tradeCompletion.js'
+
+const FIELDS = new Set(['scryfallId', 'quantity', 'condition', 'foil', 'status', 'public', 'price', 'language', 'name', 'deckName'])
+
+const line = (over: Record<string, unknown> = {}) => ({
+  scryfallId: 's1', name: 'Bolt', condition: 'NM', foil: false, quantity: 1,
+  ...over,
+})
+
+const doc = (id: string, over: Record<string, unknown> = {}) => ({
+  id,
+  data: { scryfallId: 's1', name: 'Bolt', condition: 'NM', foil: false, quantity: 1, status: 'trade', public: true, language: 'en', ...over },
+})
+
+describe('planGiverSide', () => {
+  it('descuenta de un doc con más copias y borra el que queda en cero', () => {
+    const plan = planGiverSide(
+      [line({ quantity: 2 }), line({ scryfallId: 's2', name: 'Path' })],
+      [doc('a', { quantity: 3 }), doc('b', { scryfallId: 's2', name: 'Path' })],
+    )
+    expect(plan.shortages).toEqual([])
+    expect(plan.updates).toEqual([expect.objectContaining({ id: 'a', quantity: 1 })])
+    expect(plan.updates[0]).not.toHaveProperty('acquisitions')
+    expect(plan.deletes.map(d => d.id)).toEqual(['b'])
+    expect(plan.transfers.map(t => t.quantity)).toEqual([2, 1])
+  })
+
+  it('las copias que salen se descuentan de los lotes más antiguos', () => {
+    const plan = planGiverSide(
+      [line({ quantity: 2 })],
+      [doc('a', {
+        quantity: 3,
+        acquisitions: [
+          { quantity: 1, unitPrice: 5, date: '2026-03-01', source: 'buy', counterparty: '' },
+          { quantity: 2, unitPrice: 2, date: '2026-01-10', source: 'pack', counterparty: '' },
+        ],
+      })],
+    )
+    expect(plan.updates[0].acquisitions).toEqual([
+      { quantity: 1, unitPrice: 5, date: '2026-03-01', source: 'buy', counterparty: '' },
+    ])
+  })
+
+  it('reparte una línea entre varios docs, primero los listados', () => {
+    const plan = planGiverSide(
+      [line({ quantity: 3 })],
+      [doc('binder', { status: 'collection', quantity: 5 }), doc('sale', { status: 'sale', quantity: 2 })],
+    )
+    expect(plan.deletes.map(d => d.id)).toEqual(['sale'])
+    expect(plan.updates).toEqual([expect.objectContaining({ id: 'binder', quantity: 4 })])
+  })
+
+  it('condición y foil tienen que coincidir; wishlist no cuenta', () => {
+    const plan = planGiverSide(
+      [line({ quantity: 1, foil: true })],
+      [doc('a', { foil: false, quantity: 4 }), doc('w', { foil: true, status: 'wishlist' }), doc('lp', { foil: true, condition: 'LP' })],
+    )
+    expect(plan.shortages).toEqual([
+      { scryfallId: 's1', name: 'Bolt', condition: 'NM', foil: true, requested: 1, available: 0 },
+    ])
+    expect(plan.updates).toEqual([])
+    expect(plan.deletes).toEqual([])
+  })
+
+  it('informa cuántas quedan cuando ya no alcanza', () => {
+    const plan = planGiverSide([line({ quantity: 3 })], [doc('a', { quantity: 2 })])
+    expect(plan.shortages[0]).toMatchObject({ requested: 3, available: 2 })
+  })
+})
+
+describe('planReceiverSide', () => {
+  it('suma a un doc de colección de la misma impresión, condición, foil e idioma', () => {
+    const plan = planReceiverSide(
+      [{ data: doc('x').data, quantity: 2 }],
+      [doc('mine', { status: 'collection', quantity: 1 }), doc('forSale', { status: 'sale', quantity: 1 })],
+      FIELDS,
+    )
+    expect(plan.merges).toEqual([expect.objectContaining({ id: 'mine', quantity: 3 })])
+    expect(plan.creates).toEqual([])
+  })
+
+  it('crea un doc privado de colección cuando el idioma difiere', () => {
+    const plan = planReceiverSide(
+      [{ data: doc('x', { language: 'ja', deckName: 'Burn' }).data, quantity: 1 }],
+      [doc('mine', { status: 'collection' })],
+      FIELDS,
+    )
+    expect(plan.merges).toEqual([])
+    expect(plan.creates).toEqual([
+      expect.objectContaining({ scryfallId: 's1', language: 'ja', quantity: 1, status: 'collection', public: false }),
+    ])
+    expect(plan.creates[0]).not.toHaveProperty('deckName')
+  })
+
+  it('dos transferencias de la misma carta nueva se juntan en un solo doc', () => {
+    const plan = planReceiverSide(
+      [{ data: doc('a').data, quantity: 1 }, { data: doc('b', { status: 'sale' }).data, quantity: 2 }],
+      [],
+      FIELDS,
+    )
+    expect(plan.creates).toHaveLength(1)
+    expect(plan.creates[0].quantity).toBe(3)
+  })
+
+  it('cada copia recibida entra como lote de trade con la contraparte', () => {
+    const acquisition = { counterparty: 'ana', date: '2026-10-18' }
+    const received = doc('x', {
+      price: 4.5,
+      acquisitions: [{ quantity: 1, unitPrice: 1, date: '2025-01-01', source: 'buy', counterparty: '' }],
+    }).data
+    const plan = planReceiverSide(
+      [{ data: received, quantity: 2 }],
+      [doc('mine', {
+        status: 'collection',
+        quantity: 1,
+        acquisitions: [{ quantity: 1, unitPrice: 3, date: '2026-02-01', source: 'buy', counterparty: '' }],
+      })],
+      new Set([...FIELDS, 'acquisitions']),
+      acquisition,
+    )
+    expect(plan.merges[0].acquisitions).toEqual([
+      { quantity: 1, unitPrice: 3, date: '2026-02-01', source: 'buy', counterparty: '' },
+      { quantity: 2, unitPrice: 4.5, date: '2026-10-18', source: 'trade', counterparty: 'ana' },
+    ])
+
+    const created = planReceiverSide([{ data: received, quantity: 1 }], [], new Set([...FIELDS, 'acquisitions']), acquisition)
+    // Los lotes del que entrega no viajan con la carta.
+    expect(created.creates[0].acquisitions).toEqual([
+      { quantity: 1, unitPrice: 4.5, date: '2026-10-18', source: 'trade', counterparty: 'ana' },
+    ])
+  })
+})
+
+describe('doc que se da y a la vez recibe', () => {
+  const mine = () => doc('mine', { status: 'collection', quantity: 3 })
+
+  it('el merge parte de lo que quedó después de dar y es la única escritura del doc', () => {
+    const given = planGiverSide([line({ quantity: 2 })], [mine()])
+    const received = planReceiverSide(
+      [{ data: doc('theirs').data, quantity: 1 }],
+      docsAfterGiving([mine()], given),
+      FIELDS,
+    )
+    const settled = settleSameDocWrites(given, received)
+
+    expect(settled.given.updates).toEqual([])
+    expect(settled.received.merges).toEqual([expect.objectContaining({ id: 'mine', quantity: 2 })])
+    const entry = tradeActivityEntry(settled.given, { merges: settled.received.merges, created: [] })
+    const changes = JSON.parse(entry?.parts[0]?.changes ?? '[]')
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toMatchObject({ cardId: 'mine', before: { quantity: 3, acquisitions: null }, after: { quantity: 2 } })
+  })
+
+  it('si el doc se dio entero, lo recibido va a un doc nuevo', () => {
+    const given = planGiverSide([line({ quantity: 3 })], [mine()])
+    const received = planReceiverSide(
+      [{ data: doc('theirs').data, quantity: 1 }],
+      docsAfterGiving([mine()], given),
+      FIELDS,
+    )
+    const settled = settleSameDocWrites(given, received)
+
+    expect(settled.given.deletes.map(d => d.id)).toEqual(['mine'])
+    expect(settled.received.merges).toEqual([])
+    expect(settled.received.creates).toEqual([expect.objectContaining({ quantity: 1, status: 'collection' })])
+  })
+})
+
+describe('tradeActivityEntry', () => {
+  it('registra lo que se dio y lo que se recibió con el formato del cliente', () => {
+    const given = planGiverSide(
+      [line({ quantity: 2 }), line({ scryfallId: 's2', name: 'Path' })],
+      [doc('a', { quantity: 3 }), doc('b', { scryfallId: 's2', name: 'Path', chunkId: 0 })],
+    )
+    const entry = tradeActivityEntry(given, {
+      merges: [],
+      created: [{ id: 'new', data: { scryfallId: 's9', name: 'Opt', quantity: 1, status: 'collection' } }],
+    })
+
+    expect(entry?.header).toMatchObject({ kind: 'trade', bulk: false, count: 3, names: ['Bolt', 'Path', 'Opt'], fields: ['quantity'], parts: 1 })
+    expect(JSON.parse(entry?.parts[0]?.changes ?? '[]')).toEqual([
+      { cardId: 'a', name: 'Bolt', before: { quantity: 3 }, after: { quantity: 1 } },
+      { cardId: 'b', name: 'Path', before: expect.not.objectContaining({ chunkId: 0 }), after: null },
+      { cardId: 'new', name: 'Opt', before: null, after: { scryfallId: 's9', name: 'Opt', quantity: 1, status: 'collection' } },
+    ])
+  })
+
+  it('no deja entrada si la colección de ese lado no cambió', () => {
+    expect(tradeActivityEntry({ updates: [], deletes: [] }, { merges: [], created: [] })).toBeNull()
+  })
+})
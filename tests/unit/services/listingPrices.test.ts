@@ -0,0 +1,66 @@
+/**
+ * priceCardsForListing: resuelve el precio del vendedor antes de publicar.
+ * mtgjson mockeado.
+ */
+import { getCardPrices, preloadSetMappings } from '@/services/mtgjson'
+import { priceCardsForListing } from '@/services/listingPrices'
+import { defaultPricingRule } from '@/utils/pricingRules'
+import type { Card } from '@/types/card'
+import type { PricingRules } from '@/types/pricing'
+
+vi.mock('@/services/mtgjson', () => ({
+    getCardPrices: vi.fn(),
+    preloadSetMappings: vi.fn(),
+}))
+
+const makeCard = (overrides: Partial<Card> = {}): Card => ({
+    id: 'c1',
+    scryfallId: 'sf-1',
+    name: 'Sol Ring',
+    edition: 'Commander 2021',
+    setCode: 'C21',
+    quantity: 1,
+    condition: 'NM',
+    foil: false,
+    price: 2,
+    image: '',
+    status: 'sale',
+    public: true,
+    updatedAt: new Date(),
+    ...overrides,
+})
+
+const rules: PricingRules = { sale: { ...defaultPricingRule(), enabled: true, percent: 90 }, trade: defaultPricingRule() }
+
+describe('priceCardsForListing', () => {
+    beforeEach(() => {
+        vi.mocked(getCardPrices).mockReset().mockResolvedValue({
+            cardKingdom: { retail: 3, retailFoil: null, buylist: null, buylistFoil: null },
+        })
+        vi.mocked(preloadSetMappings).mockReset().mockResolvedValue()
+    })
+
+    it('prices sale cards from CK, looking each print up once', async () => {
+        const priced = await priceCardsForListing([makeCard(), makeCard({ id: 'c2' })], rules)
+
+        expect(priced.map(c => c.listingPrice)).toEqual([2.7, 2.7])
+        expect(getCardPrices).toHaveBeenCalledTimes(1)
+        expect(preloadSetMappings).toHaveBeenCalledWith(['C21'])
+    })
+
+    it('leaves cards without a seller price untouched and skips CK entirely', async () => {
+        const trade = makeCard({ status: 'trade' })
+        const fixed = makeCard({ id: 'c2', priceOverride: 5 })
+
+        const [tradeOut, fixedOut] = await priceCardsForListing([trade, fixed], rules)
+
+        expect(tradeOut).toBe(trade)
+        expect(fixedOut?.listingPrice).toBe(5)
+        expect(getCardPrices).not.toHaveBeenCalled()
+    })
+
+    it('without rules only fixed prices apply', async () => {
+        const priced = await priceCardsForListing([makeCard()], null)
+        expect(priced[0]).not.toHaveProperty('listingPrice')
+    })
+})
@@ -81,7 +81,7 @@ vi.mock('firebase/auth', () => ({
 }))
 
 // eslint-disable-next-line import/first
-import { __resetReconcileStateForTests, batchSyncCardsToPublic, buildPublicCardDoc, chunkList, getUserPublicCardsCount, getUserPublicCardStatusCounts, mapWithConcurrency, RECONCILE_DEBOUNCE_MS, removeCardFromPublic, syncAllUserCards, syncCardToPublic } from '@/services/publicCards'
+import { __resetReconcileStateForTests, batchSyncCardsToPublic, buildPublicCardDoc, chunkList, getUserPublicBuylist, getUserPublicCardsCount, getUserPublicCardStatusCounts, mapWithConcurrency, RECONCILE_DEBOUNCE_MS, removeCardFromPublic, syncAllUserCards, syncAllUserPreferences, syncCardToPublic, syncPreferenceToPublic } from '@/services/publicCards'
 // Static (not dynamic) import purely to pre-warm the module cache — the SUT's
 // scheduleIndexReconcile/triggerIndexReconcileNow reach cloudFunctions.ts via
 // `import('./cloudFunctions')` (see that function's doc comment for why it's
@@ -154,6 +154,16 @@ describe('buildPublicCardDoc', () => {
     expect(payload).not.toHaveProperty('email')
   })
 
+  it('publishes the seller\'s listing price and flags it, when the card arrives priced', () => {
+    const card = makeCard({ status: 'sale', public: true, price: 10 })
+
+    const payload = buildPublicCardDoc({ ...card, listingPrice: 9.25 }, 'user-1', 'alice')
+
+    expect(payload.price).toBe(9.25)
+    expect(payload.sellerPriced).toBe(true)
+    expect(buildPublicCardDoc(card, 'user-1', 'alice')).not.toHaveProperty('sellerPriced')
+  })
+
   it('carries userId/username/avatarUrl/location straight from the arguments', () => {
     const card = makeCard({ name: 'Sol Ring', status: 'trade', public: true })
 
@@ -810,3 +820,72 @@ describe('public_cards / public_preferences never publish the owner email (TASK-
     expect(JSON.stringify(payload)).not.toContain(emailArg)
   })
 })
+
+describe('buylist entries in public_preferences', () => {
+  const buylistEntry = {
+    id: 'pref-b1',
+    name: 'Ragavan, Nimble Pilferer',
+    scryfallId: 'sf-ragavan',
+    type: 'COMPRO' as const,
+    offerPrice: 35,
+    minCondition: 'LP',
+    quantity: 4,
+    budget: 200,
+  }
+
+  it('syncPreferenceToPublic publishes the offer, minimum condition, copies and budget', async () => {
+    await syncPreferenceToPublic(buylistEntry, 'store-1', 'tienda', 'Montevideo', null)
+
+    const payload = setDocMock.mock.calls.at(-1)?.[1] as Record<string, unknown>
+    expect(payload).toMatchObject({
+      prefId: 'pref-b1',
+      cardName: 'Ragavan, Nimble Pilferer',
+      type: 'COMPRO',
+      offerPrice: 35,
+      minCondition: 'LP',
+      quantity: 4,
+      budget: 200,
+    })
+  })
+
+  it('leaves budget out when the buyer has no cap (Firestore rejects undefined)', async () => {
+    await syncPreferenceToPublic({ ...buylistEntry, budget: null }, 'store-1', 'tienda')
+
+    const payload = setDocMock.mock.calls.at(-1)?.[1] as Record<string, unknown>
+    expect(payload).not.toHaveProperty('budget')
+  })
+
+  it('a wishlist entry carries no buylist fields', async () => {
+    await syncPreferenceToPublic({ id: 'w1', name: 'Brainstorm' }, 'user-1', 'someone')
+
+    const payload = setDocMock.mock.calls.at(-1)?.[1] as Record<string, unknown>
+    expect(payload).not.toHaveProperty('type')
+    expect(payload).not.toHaveProperty('offerPrice')
+  })
+
+  it('syncAllUserPreferences from the wishlist does not delete the buylist docs', async () => {
+    const wishlistDoc = { id: 'user-1_w1', ref: 'wishlist-ref', data: () => ({ cardName: 'Brainstorm' }) }
+    const buylistDoc = { id: 'user-1_b1', ref: 'buylist-ref', data: () => ({ cardName: 'Ragavan', type: 'COMPRO' }) }
+    getDocsMock.mockResolvedValueOnce({ docs: [wishlistDoc, buylistDoc] })
+
+    await syncAllUserPreferences([{ id: 'w2', name: 'Ponder' }], 'user-1', 'someone')
+
+    expect(batchDeleteMock).toHaveBeenCalledWith('wishlist-ref')
+    expect(batchDeleteMock).not.toHaveBeenCalledWith('buylist-ref')
+  })
+
+  it('getUserPublicBuylist filters on type so anonymous visitors pass the security rule', async () => {
+    getDocsMock.mockResolvedValueOnce({
+      docs: [
+        { id: 'u_b2', data: () => ({ cardName: 'Thoughtseize', type: 'COMPRO' }) },
+        { id: 'u_b1', data: () => ({ cardName: 'Force of Will', type: 'COMPRO' }) },
+      ],
+    })
+
+    const buylist = await getUserPublicBuylist('store-1')
+
+    expect(whereMock).toHaveBeenCalledWith('userId', '==', 'store-1')
+    expect(whereMock).toHaveBeenCalledWith('type', '==', 'COMPRO')
+    expect(buylist.map(e => e.docId)).toEqual(['u_b1', 'u_b2'])
+  })
+})
@@ -12,6 +12,7 @@ vi.mock('firebase/firestore', () => ({
   query: vi.fn((...a: unknown[]) => a),
   where: vi.fn((...a: unknown[]) => ({ where: a })),
   limit: vi.fn((n: number) => ({ limit: n })),
+  documentId: vi.fn(() => '__name__'),
 }));
 vi.mock('@/services/firebase', () => ({ db: {} }));
 vi.mock('@/services/firestore', () => ({ db: {} }))
@@ -22,7 +23,7 @@ beforeEach(() => {
   docArgs.length = 0;
 });
 
-import { resolveUsernameToUid } from '@/services/userLookup';
+import { loadUserReachProfiles, resolveUsernameToUid } from '@/services/userLookup';
 
 describe('resolveUsernameToUid', () => {
   it('index hit: returns user doc when /usernames/{norm} exists', async () => {
@@ -71,3 +72,31 @@ describe('resolveUsernameToUid', () => {
     expect(getDocMock).not.toHaveBeenCalled();
   });
 });
+
+describe('loadUserReachProfiles', () => {
+  const userDoc = (id: string, data: Record<string, unknown>) => ({ id, data: () => data });
+
+  it('reads users in chunks of 30 and normalizes location and reach', async () => {
+    getDocsMock.mockImplementation(async ([, clause]: [unknown, { where: [string, string, string[]] }]) => ({
+      docs: clause.where[2].map(id => userDoc(id, id === 'U1'
+        ? { location: 'Rosario, Argentina', tradeReach: { shipping: 'local', radiusKm: 25 } }
+        : { locationInfo: { country: 'Chile', geohash: '66jcf' } })),
+    }));
+    const uids = Array.from({ length: 31 }, (_, i) => `U${i + 1}`);
+    const profiles = await loadUserReachProfiles([...uids, 'U1']);
+
+    expect(getDocsMock).toHaveBeenCalledTimes(2);
+    expect(profiles.size).toBe(31);
+    expect(profiles.get('U1')).toEqual({
+      location: { country: 'Argentina', city: 'Rosario' },
+      reach: { shipping: 'local', radiusKm: 25, minShippingValue: 0 },
+    });
+    expect(profiles.get('U2')?.location).toEqual({ country: 'Chile', geohash: '66jcf' });
+    expect(profiles.get('U2')?.reach.shipping).toBe('international');
+  });
+
+  it('does not query without ids', async () => {
+    expect((await loadUserReachProfiles([])).size).toBe(0);
+    expect(getDocsMock).not.toHaveBeenCalled();
+  });
+});
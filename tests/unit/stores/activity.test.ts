@@ -0,0 +1,105 @@
+/**
+ * activity store: registro de operaciones de la colección, deshacer y
+ * restaurar. Firestore y el store de colección mockeados.
+ */
+import { createPinia, setActivePinia } from 'pinia'
+
+let changeDocs: any[] = []
+const batchSet = vi.fn()
+const batchCommit = vi.fn().mockResolvedValue(undefined)
+const restoreActivityChanges = vi.fn().mockResolvedValue(true)
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  query: vi.fn((col: { path: string }) => ({ path: col.path })),
+  orderBy: vi.fn(() => ({})),
+  limit: vi.fn(() => ({})),
+  doc: vi.fn((parent: { path?: string }, ...path: string[]) => {
+    // doc(collectionRef) sin path = id autogenerado
+    const full = [...(parent?.path ? [parent.path] : []), ...(path.length ? path : ['new-entry'])].join('/')
+    return { id: full.split('/').pop(), path: full }
+  }),
+  getDocs: vi.fn(async () => ({ docs: changeDocs })),
+  setDoc: vi.fn().mockResolvedValue(undefined),
+  updateDoc: vi.fn().mockResolvedValue(undefined),
+  arrayUnion: vi.fn((...values: unknown[]) => ({ arrayUnion: values })),
+  writeBatch: vi.fn(() => ({ set: batchSet, commit: batchCommit })),
+}))
+
+vi.mock('@/services/firestore', () => ({ db: {} }))
+vi.mock('@/stores/auth', () => ({
+  useAuthStore: () => ({ user: { id: 'alice', username: 'alice' } }),
+}))
+vi.mock('@/stores/collection', () => ({
+  useCollectionStore: () => ({ restoreActivityChanges }),
+}))
+
+import { setDoc, updateDoc } from 'firebase/firestore'
+import { useActivityStore } from '@/stores/activity'
+import { ACTIVITY_UNDO_WINDOW_MS, deletedCardChanges, updatedCardChanges } from '@/utils/activityLog'
+import type { Card } from '@/types/card'
+
+const card = (id: string, over: Partial<Card> = {}): Card => ({
+  id, scryfallId: 's1', name: `Card ${id}`, edition: 'M21', quantity: 1, condition: 'NM',
+  foil: false, price: 1, image: '', status: 'trade', updatedAt: new Date(0),
+  ...over,
+})
+
+describe('useActivityStore', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    changeDocs = []
+  })
+
+  it('escribe los cambios en partes y la cabecera al final', async () => {
+    const store = useActivityStore()
+    const cards = Array.from({ length: 450 }, (_, i) => card(`c${i}`))
+
+    const entry = await store.record('update', updatedCardChanges(cards, { status: 'collection' }), true)
+
+    expect(batchSet).toHaveBeenCalledTimes(3)
+    expect(batchSet.mock.calls.map(([ref]) => ref.path)).toEqual([
+      'users/alice/activity/new-entry/changes/0',
+      'users/alice/activity/new-entry/changes/1',
+      'users/alice/activity/new-entry/changes/2',
+    ])
+    expect(batchCommit.mock.invocationCallOrder[0]).toBeLessThan((setDoc as any).mock.invocationCallOrder[0])
+    expect((setDoc as any).mock.calls[0][1]).toMatchObject({ kind: 'update', bulk: true, count: 450, parts: 3, fields: ['status'], undoneAt: null })
+    expect(store.lastBulk?.id).toBe(entry?.id)
+  })
+
+  it('no registra nada sin cambios', async () => {
+    const store = useActivityStore()
+    expect(await store.record('update', [])).toBeNull()
+    expect(setDoc).not.toHaveBeenCalled()
+  })
+
+  it('deshace la última operación masiva y la marca como deshecha', async () => {
+    const store = useActivityStore()
+    const changes = deletedCardChanges([card('a'), card('b')])
+    const entry = await store.record('delete', changes, true)
+    changeDocs = [{ data: () => ({ index: 0, changes: JSON.stringify(changes) }) }]
+
+    expect(await store.undoEntry(entry!)).toBe(true)
+
+    expect(restoreActivityChanges).toHaveBeenCalledWith(changes)
+    expect((updateDoc as any).mock.calls[0][1]).toEqual({ undoneAt: expect.any(Date) })
+    expect(store.lastBulk).toBeNull()
+  })
+
+  it('no deshace fuera de la ventana, pero sí restaura una carta suelta', async () => {
+    const store = useActivityStore()
+    const changes = deletedCardChanges([card('a'), card('b')])
+    const entry = await store.record('delete', changes, true)
+    const old = { ...entry!, createdAt: new Date(Date.now() - ACTIVITY_UNDO_WINDOW_MS - 1) }
+    changeDocs = [{ data: () => ({ index: 0, changes: JSON.stringify(changes) }) }]
+
+    expect(await store.undoEntry(old)).toBe(false)
+    expect(restoreActivityChanges).not.toHaveBeenCalled()
+
+    expect(await store.restoreChange(old, 'b')).toBe(true)
+    expect(restoreActivityChanges).toHaveBeenCalledWith([changes[1]])
+    expect((updateDoc as any).mock.calls[0][1]).toEqual({ restoredCardIds: { arrayUnion: ['b'] } })
+  })
+})
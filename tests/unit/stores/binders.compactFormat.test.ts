@@ -23,7 +23,7 @@ vi.mock('@/composables/useI18n', () => ({
   t: (key: string) => key,
 }))
 
-import { serializeAllocations, deserializeAllocationMap } from '@/stores/binders'
+import { serializeAllocations, deserializeAllocationMap, serializeLayout, deserializeLayout } from '@/stores/binders'
 import type { BinderAllocation } from '@/types/binder'
 
 beforeEach(() => {
@@ -133,3 +133,24 @@ describe('deserializeAllocationMap', () => {
     expect(deserialized[1]).toMatchObject({ cardId: 'card-B', quantity: 1 })
   })
 })
+
+// ==========================================================================
+// serializeLayout / deserializeLayout: page-mode pocket order
+// ==========================================================================
+
+describe('serializeLayout / deserializeLayout', () => {
+  it('roundtrips cardIds and empty pockets', () => {
+    const layout = ['card-A', null, 'card-A', 'card-B']
+    expect(deserializeLayout(serializeLayout(layout))).toEqual(layout)
+  })
+
+  it('turns anything that is not a cardId into an empty pocket', () => {
+    expect(deserializeLayout(JSON.stringify(['card-A', 3, '', null, { id: 'x' }]))).toEqual(['card-A', null, null, null, null])
+  })
+
+  it('returns empty layout for missing, malformed or non-array data', () => {
+    expect(deserializeLayout(undefined)).toEqual([])
+    expect(deserializeLayout('not valid json')).toEqual([])
+    expect(deserializeLayout('{"card-A":1}')).toEqual([])
+  })
+})
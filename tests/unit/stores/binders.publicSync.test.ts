@@ -0,0 +1,92 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+
+// Mock Firebase before importing the store
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  addDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  deleteField: vi.fn(() => '__DELETE__'),
+  Timestamp: { now: () => ({ toDate: () => new Date() }) },
+}))
+
+vi.mock('@/services/firebase', () => ({
+  db: {},
+}))
+vi.mock('@/services/firestore', () => ({ db: {} }))
+
+vi.mock('@/composables/useI18n', () => ({
+  t: (key: string) => key,
+}))
+
+vi.mock('@/services/listingPrices', () => ({
+  priceCardsForListing: vi.fn(async (cards: unknown[]) => cards),
+}))
+
+vi.mock('@/services/publicBinders', () => ({
+  loadUserPublicBinderIds: vi.fn(),
+  removeBinderFromPublic: vi.fn().mockResolvedValue(undefined),
+  syncBinderToPublic: vi.fn().mockResolvedValue(undefined),
+}))
+
+import { useBindersStore } from '@/stores/binders'
+import { useAuthStore } from '@/stores/auth'
+import { loadUserPublicBinderIds, removeBinderFromPublic, syncBinderToPublic } from '@/services/publicBinders'
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  vi.clearAllMocks()
+})
+
+const binder = (id: string, published: boolean) => ({
+  id,
+  userId: 'user-1',
+  name: id,
+  description: '',
+  allocations: [],
+  thumbnail: '',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  stats: { totalCards: 0, totalPrice: 0 },
+  isPublic: published,
+  publishedAt: published ? new Date() : null,
+  forSale: true,
+})
+
+describe('syncAllPublicBinders — after restoring a backup', () => {
+  it('republishes published binders and removes every other snapshot', async () => {
+    const authStore = useAuthStore()
+    authStore.user = { id: 'user-1', username: 'seller', pricingRules: [] } as any
+    vi.mocked(loadUserPublicBinderIds).mockResolvedValue(['restored-public', 'now-private', 'deleted'])
+
+    const store = useBindersStore()
+    store.binders.push(
+      binder('restored-public', true) as any,
+      binder('now-private', false) as any,
+      binder('never-published', false) as any,
+    )
+
+    await store.syncAllPublicBinders()
+
+    expect(vi.mocked(syncBinderToPublic).mock.calls.map(call => call[0].id)).toEqual(['restored-public'])
+    expect(vi.mocked(removeBinderFromPublic).mock.calls.map(call => call[0]).sort()).toEqual(['deleted', 'now-private'])
+  })
+
+  it('still republishes when the online snapshots cannot be listed', async () => {
+    const authStore = useAuthStore()
+    authStore.user = { id: 'user-1', username: 'seller', pricingRules: [] } as any
+    vi.mocked(loadUserPublicBinderIds).mockRejectedValue(new Error('offline'))
+
+    const store = useBindersStore()
+    store.binders.push(binder('restored-public', true) as any)
+
+    await store.syncAllPublicBinders()
+
+    expect(syncBinderToPublic).toHaveBeenCalledTimes(1)
+    expect(removeBinderFromPublic).not.toHaveBeenCalled()
+  })
+})
@@ -7,12 +7,31 @@ import { createPinia, setActivePinia } from 'pinia'
 vi.mock('firebase/firestore', () => ({
   collection: vi.fn(() => ({})),
   getDocs: vi.fn().mockResolvedValue({ docs: [] }),
+  query: vi.fn(() => ({})),
+  orderBy: vi.fn(() => ({})),
+  limit: vi.fn(() => ({})),
   addDoc: vi.fn().mockResolvedValue({ id: 'req-1' }),
   deleteDoc: vi.fn().mockResolvedValue(undefined),
   updateDoc: vi.fn().mockResolvedValue(undefined),
-  doc: vi.fn(() => ({})),
+  // doc(collection(...)) = id nuevo (la venta); con ruta completa, el último tramo
+  doc: vi.fn((...path: unknown[]) => ({ id: typeof path.at(-1) === 'string' ? path.at(-1) : 'sale-1' })),
+  writeBatch: vi.fn(() => ({ set: batchSet, update: batchUpdate, commit: batchCommit })),
+  getDoc: vi.fn(async (ref: { id: string }) => ({
+    id: ref.id,
+    exists: () => ref.id in remote,
+    data: () => remote[ref.id],
+  })),
+  collectionGroup: vi.fn(() => ({})),
+  where: vi.fn(() => ({})),
 }))
 
+// Lo que hay en Firestore: fulfill/respond releen la solicitud antes de tocarla
+const remote: Record<string, any> = {}
+// Cada línea vendida: venta + avance de la solicitud en un batch
+const batchSet = vi.fn()
+const batchUpdate = vi.fn()
+const batchCommit = vi.fn().mockResolvedValue(undefined)
+
 vi.mock('@/services/firebase', () => ({ db: {} }))
 vi.mock('@/services/firestore', () => ({ db: {} }))
 vi.mock('@/stores/auth', () => ({
@@ -25,17 +44,25 @@ const cards: Record<string, any> = {
   c1: { id: 'c1', quantity: 1 },
   c2: { id: 'c2', quantity: 10 },
 }
+const getFullCard = vi.fn(async (id: string) => cards[id] ?? null)
 vi.mock('@/stores/collection', () => ({
   useCollectionStore: () => ({
     getCardById: (id: string) => cards[id],
+    getFullCard,
     deleteCard,
     updateCard,
   }),
 }))
 
-import { addDoc, updateDoc } from 'firebase/firestore'
+import { addDoc, getDocs, updateDoc } from 'firebase/firestore'
 import { useBuyRequestsStore } from '@/stores/buyRequests'
 
+/** Solicitud en memoria y en Firestore (la copia remota es la que manda). */
+const seed = (store: ReturnType<typeof useBuyRequestsStore>, request: any) => {
+  store.buyRequests.push(request)
+  remote[request.id] = { ...request, items: [...request.items] }
+}
+
 const item = (over: Partial<any> = {}) => ({
   scryfallId: 's', cardId: 'c1', name: 'N', edition: '', quantity: 1,
   maxQuantity: 9, condition: 'NM', foil: false, price: 2, image: '', status: 'sale',
@@ -67,14 +94,25 @@ describe('useBuyRequestsStore — submitBuyRequest (SCRUM-70.1)', () => {
     expect((addDoc as any).mock.calls[0][1].buyerName).toBe('Guest')
     expect((await store.submitBuyRequest('owner-id', { name: 'x', phone: '1', email: 'a@b.com' }, [])).ok).toBe(false)
   })
+  it('asocia la compra a la cuenta del comprador si hay sesión (anónimo → buyerId vacío)', async () => {
+    const store = useBuyRequestsStore()
+    await store.submitBuyRequest('owner-id', { name: 'Rafa', phone: '1', email: '' }, [item()], { id: 'buyer-id', username: 'rafa' })
+    await store.submitBuyRequest('owner-id', { name: 'Anon', phone: '1', email: '' }, [item()])
+    expect((addDoc as any).mock.calls[0][1]).toMatchObject({ buyerId: 'buyer-id', buyerUsername: 'rafa' })
+    expect((addDoc as any).mock.calls[1][1]).toMatchObject({ buyerId: '', buyerUsername: '' })
+  })
 })
 
 describe('useBuyRequestsStore — fulfillRequest (SCRUM-70.3)', () => {
-  beforeEach(() => { setActivePinia(createPinia()); vi.clearAllMocks() })
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    for (const id of Object.keys(remote)) delete remote[id]
+  })
 
-  it('descuenta de la colección (delete/update) y marca fulfilled', async () => {
+  it('descuenta de la colección (delete/update); con una carta faltante queda vendida en parte', async () => {
     const store = useBuyRequestsStore()
-    store.buyRequests.push({
+    seed(store, {
       id: 'req-1', buyerName: 'Rafa', totalValue: 0, status: 'pending', createdAt: new Date(),
       items: [item({ cardId: 'c1', quantity: 1 }), item({ cardId: 'c2', quantity: 3 }), item({ cardId: 'gone', quantity: 1 })],
     })
@@ -85,7 +123,245 @@ describe('useBuyRequestsStore — fulfillRequest (SCRUM-70.3)', () => {
     expect(deleteCard).toHaveBeenCalledWith('c1')           // c1: 1-1=0 → delete
     expect(updateCard).toHaveBeenCalledWith('c2', { quantity: 7 }) // c2: 10-3=7 → update
     expect(res.missing).toEqual(['gone'])                   // carta inexistente → fallback
-    expect(updateDoc).toHaveBeenCalled()                    // marca status fulfilled
+    expect(updateDoc).toHaveBeenCalled()
+    expect(store.buyRequests[0].status).toBe('partially_fulfilled')
+    expect(store.buyRequests[0].items.map((i: any) => i.soldQuantity)).toEqual([1, 3, 0])
+  })
+
+  it('entregando todo queda fulfilled', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-4', buyerName: 'Rafa', totalValue: 0, status: 'accepted', createdAt: new Date(),
+      items: [item({ cardId: 'c2', quantity: 2 })],
+    })
+
+    await store.fulfillRequest('req-4')
+
     expect(store.buyRequests[0].status).toBe('fulfilled')
   })
+
+  it('solo vende los items aceptados, al precio de la contraoferta', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-5', buyerName: 'Rafa', totalValue: 0, status: 'accepted', createdAt: new Date(),
+      items: [
+        item({ cardId: 'c1', quantity: 1, decision: 'rejected' }),
+        item({ cardId: 'c2', quantity: 2, price: 4, decision: 'accepted', counterPrice: 3 }),
+      ],
+    })
+
+    await store.fulfillRequest('req-5')
+
+    expect(deleteCard).not.toHaveBeenCalled()
+    expect(updateCard).toHaveBeenCalledWith('c2', { quantity: 8 })
+    expect(batchSet.mock.calls[0][1]).toMatchObject({ cardId: 'c2', unitPrice: 3, proceeds: 6 })
+    expect(store.buyRequests[0].status).toBe('partially_fulfilled')
+  })
+
+  it('si no queda ninguna carta no marca nada vendido y la solicitud sigue abierta', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-7', buyerName: 'Rafa', totalValue: 0, status: 'accepted', createdAt: new Date(),
+      items: [item({ cardId: 'gone', quantity: 2 })],
+    })
+
+    const res = await store.fulfillRequest('req-7')
+
+    expect(res).toEqual({ ok: false, missing: ['gone'] })
+    expect(updateDoc).not.toHaveBeenCalled()
+    expect(store.buyRequests[0].status).toBe('accepted')
+  })
+
+  it('no cumple una solicitud rechazada o cancelada', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-6', buyerName: 'Rafa', totalValue: 0, status: 'cancelled', createdAt: new Date(),
+      items: [item({ cardId: 'c1' })],
+    })
+
+    const res = await store.fulfillRequest('req-6')
+
+    expect(res.ok).toBe(false)
+    expect(updateDoc).not.toHaveBeenCalled()
+  })
+
+  it('relee la solicitud: si el comprador ya la canceló no toca la colección', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-10', buyerName: 'Rafa', totalValue: 0, status: 'accepted', createdAt: new Date(),
+      items: [item({ cardId: 'c1' })],
+    })
+    remote['req-10'].status = 'cancelled'
+
+    const res = await store.fulfillRequest('req-10')
+
+    expect(res.ok).toBe(false)
+    expect(deleteCard).not.toHaveBeenCalled()
+    expect(batchSet).not.toHaveBeenCalled()
+    expect(updateDoc).not.toHaveBeenCalled()
+    expect(store.buyRequests[0].status).toBe('cancelled')
+  })
+
+  it('un reintento no vuelve a vender las líneas que ya quedaron vendidas', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-12', buyerName: 'Rafa', totalValue: 0, status: 'accepted', createdAt: new Date(),
+      items: [item({ cardId: 'c1', quantity: 1 }), item({ cardId: 'c2', quantity: 3 })],
+    })
+    // El intento anterior vendió c1 y se cortó antes de c2
+    remote['req-12'].items[0] = { ...remote['req-12'].items[0], soldQuantity: 1 }
+
+    const res = await store.fulfillRequest('req-12')
+
+    expect(res.ok).toBe(true)
+    expect(deleteCard).not.toHaveBeenCalled()
+    expect(updateCard).toHaveBeenCalledWith('c2', { quantity: 7 })
+    expect(batchSet).toHaveBeenCalledTimes(1)
+    expect(batchSet.mock.calls[0][1]).toMatchObject({ cardId: 'c2', quantity: 3 })
+    expect(store.buyRequests[0].status).toBe('fulfilled')
+    expect(store.buyRequests[0].items.map((i: any) => i.soldQuantity)).toEqual([1, 3])
+  })
+
+  it('si falla a mitad la solicitud sigue abierta con lo ya vendido marcado', async () => {
+    updateCard.mockResolvedValueOnce(false)
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-13', buyerName: 'Rafa', totalValue: 0, status: 'accepted', createdAt: new Date(),
+      items: [item({ cardId: 'c1', quantity: 1 }), item({ cardId: 'c2', quantity: 3 })],
+    })
+
+    const res = await store.fulfillRequest('req-13')
+
+    expect(res.ok).toBe(false)
+    expect(updateDoc).not.toHaveBeenCalled()
+    // Cada venta viaja con el avance de su línea
+    expect(batchUpdate.mock.calls.map(call => call[1].items.map((i: any) => i.soldQuantity))).toEqual([[1, 0], [1, 3]])
+    expect(store.buyRequests[0].status).toBe('accepted')
+  })
+
+  it('registra la ganancia realizada y deja en la carta los lotes que quedan', async () => {
+    getFullCard.mockResolvedValueOnce({
+      id: 'c2',
+      quantity: 10,
+      acquisitions: [
+        { quantity: 2, unitPrice: 1, date: '2025-01-01', source: 'buy', counterparty: '' },
+        { quantity: 8, unitPrice: 3, date: '2026-01-01', source: 'pack', counterparty: '' },
+      ],
+    })
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-2', buyerName: 'Rafa', buyerUsername: 'rafa', totalValue: 0, status: 'pending', createdAt: new Date(),
+      items: [item({ cardId: 'c2', quantity: 3, price: 4 })],
+    })
+
+    await store.fulfillRequest('req-2')
+
+    expect(updateCard).toHaveBeenCalledWith('c2', {
+      quantity: 7,
+      acquisitions: [{ quantity: 7, unitPrice: 3, date: '2026-01-01', source: 'pack', counterparty: '' }],
+    })
+    // 3 copias a $4 = 12; costo FIFO 2×1 + 1×3 = 5
+    expect(batchSet.mock.calls[0][1]).toMatchObject({
+      buyRequestId: 'req-2', cardId: 'c2', quantity: 3, proceeds: 12, cost: 5, profit: 7, counterparty: 'rafa',
+    })
+    expect(store.realizedSummary).toEqual({ proceeds: 12, cost: 5, profit: 7, unknownCost: 0 })
+  })
+
+  it('sin lotes conocidos la venta queda con costo y ganancia null', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-3', buyerName: 'Anon', buyerUsername: '', totalValue: 0, status: 'pending', createdAt: new Date(),
+      items: [item({ cardId: 'c1', quantity: 1, price: 2 })],
+    })
+
+    await store.fulfillRequest('req-3')
+
+    expect(batchSet.mock.calls[0][1]).toMatchObject({ proceeds: 2, cost: null, profit: null, counterparty: 'Anon' })
+    expect(store.realizedSummary.unknownCost).toBe(1)
+  })
+})
+
+describe('useBuyRequestsStore — respuesta del dueño y lado comprador', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    for (const id of Object.keys(remote)) delete remote[id]
+  })
+
+  it('respondToRequest guarda decisiones, contraoferta y nota', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-7', buyerName: 'Rafa', totalValue: 10, status: 'seen', ownerNote: '', createdAt: new Date(),
+      items: [item({ cardId: 'c1', price: 2 }), item({ cardId: 'c2', price: 8 })],
+    })
+
+    const ok = await store.respondToRequest('req-7', {
+      decisions: [undefined, 'rejected'],
+      counterPrices: [1.5, null],
+      note: ' Te dejo la primera más barata ',
+    })
+
+    expect(ok).toBe(true)
+    const payload = (updateDoc as any).mock.calls[0][1]
+    expect(payload.status).toBe('accepted')
+    expect(payload.ownerNote).toBe('Te dejo la primera más barata')
+    expect(payload.items[0]).toMatchObject({ decision: 'accepted', counterPrice: 1.5 })
+    expect(payload.items[1]).toMatchObject({ decision: 'rejected' })
+    expect('counterPrice' in payload.items[1]).toBe(false)
+  })
+
+  it('declineRequest rechaza todos los items', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-8', buyerName: 'Rafa', totalValue: 2, status: 'pending', ownerNote: '', createdAt: new Date(),
+      items: [item({ cardId: 'c1' })],
+    })
+
+    await store.declineRequest('req-8', 'Ya no la tengo')
+
+    expect(store.buyRequests[0].status).toBe('declined')
+    expect(store.buyRequests[0].ownerNote).toBe('Ya no la tengo')
+  })
+
+  it('no contesta ni rechaza una solicitud que el comprador ya canceló', async () => {
+    const store = useBuyRequestsStore()
+    seed(store, {
+      id: 'req-11', buyerName: 'Rafa', totalValue: 2, status: 'seen', ownerNote: '', createdAt: new Date(),
+      items: [item({ cardId: 'c1' })],
+    })
+    remote['req-11'].status = 'cancelled'
+
+    expect(await store.declineRequest('req-11', 'Ya no la tengo')).toBe(false)
+    expect(updateDoc).not.toHaveBeenCalled()
+    expect(store.buyRequests[0].status).toBe('cancelled')
+  })
+
+  it('loadSentRequests toma el dueño de la ruta del doc', async () => {
+    ;(getDocs as any).mockResolvedValueOnce({
+      docs: [{
+        id: 'req-9',
+        ref: { parent: { parent: { id: 'seller-id' } } },
+        data: () => ({ buyerId: 'owner-id', ownerUsername: 'seller', items: [], totalValue: 3, status: 'accepted' }),
+      }],
+    })
+    const store = useBuyRequestsStore()
+
+    await store.loadSentRequests()
+
+    expect(store.sentRequests[0]).toMatchObject({ id: 'req-9', ownerId: 'seller-id', ownerUsername: 'seller', status: 'accepted' })
+  })
+
+  it('cancelSentRequest solo cancela solicitudes abiertas', async () => {
+    const store = useBuyRequestsStore()
+    store.sentRequests.push(
+      { id: 'open', ownerId: 'seller-id', status: 'seen', items: [] } as any,
+      { id: 'done', ownerId: 'seller-id', status: 'fulfilled', items: [] } as any,
+    )
+
+    expect(await store.cancelSentRequest('open')).toBe(true)
+    expect(await store.cancelSentRequest('done')).toBe(false)
+    expect(updateDoc).toHaveBeenCalledTimes(1)
+    expect((updateDoc as any).mock.calls[0][1]).toMatchObject({ status: 'cancelled' })
+    expect(store.sentRequests[0].status).toBe('cancelled')
+  })
 })
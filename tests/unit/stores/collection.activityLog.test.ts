@@ -0,0 +1,134 @@
+/**
+ * Registro de actividad al borrar: lo que se guarda como `before` es lo que
+ * deshacer/restaurar vuelve a escribir con batch.set. Las cartas en memoria
+ * suelen ser la proyección del card_index (sin lotes, idioma, notas...), así
+ * que el registro tiene que llevar el documento completo leído antes de
+ * borrar — si no, restaurar deja la carta sin esos campos.
+ */
+
+vi.mock('@/services/firebase', () => ({
+  db: {},
+  auth: { currentUser: { uid: 'test-user-id' } },
+}))
+vi.mock('@/services/firestore', () => ({ db: {} }))
+
+vi.mock('@/services/cloudFunctions', () => ({
+  queryCardIndex: vi.fn().mockResolvedValue({ cards: [], total: 0, page: 0, pageSize: 50, hasMore: false }),
+  buildCardIndex: vi.fn(),
+  applyCardIndexDelta: vi.fn().mockResolvedValue({ applied: 1, skipped: 0, skippedIds: [], fallbackUsed: 0 }),
+  loadCollectionChunk: vi.fn(),
+  loadCardPage: vi.fn(),
+}))
+
+vi.mock('@/services/publicCards', () => ({
+  scheduleIndexReconcile: vi.fn(),
+  batchSyncCardsToPublic: vi.fn().mockResolvedValue(undefined),
+  removeCardFromPublic: vi.fn().mockResolvedValue(undefined),
+  syncAllUserCards: vi.fn(),
+  syncAllUserPreferences: vi.fn(),
+  syncCardToPublic: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('@/services/scryfallCache', () => ({
+  getCardsByIds: vi.fn().mockResolvedValue([]),
+}))
+
+vi.mock('@/composables/useI18n', () => ({
+  t: (key: string) => key,
+}))
+
+const mockRecord = vi.fn()
+vi.mock('@/stores/activity', () => ({
+  useActivityStore: () => ({ record: mockRecord }),
+}))
+
+const mockGetDocs = vi.fn()
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  deleteDoc: vi.fn().mockResolvedValue(undefined),
+  doc: vi.fn((...args: unknown[]) => ({ path: args.join('/') })),
+  documentId: vi.fn(),
+  getCountFromServer: vi.fn().mockResolvedValue({ data: () => ({ count: 0 }) }),
+  getDocs: (...args: unknown[]) => mockGetDocs(...args),
+  query: vi.fn(),
+  setDoc: vi.fn().mockResolvedValue(undefined),
+  Timestamp: { now: () => ({ seconds: 0, nanoseconds: 0 }) },
+  updateDoc: vi.fn().mockResolvedValue(undefined),
+  where: vi.fn(),
+  writeBatch: vi.fn(() => ({
+    set: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    commit: vi.fn().mockResolvedValue(undefined),
+  })),
+}))
+
+vi.mock('@/stores/auth', () => ({
+  useAuthStore: vi.fn(() => ({
+    user: { id: 'test-user-id', email: 'test@example.com', username: 'testuser' },
+  })),
+}))
+
+vi.mock('@/stores/toast', () => ({
+  useToastStore: vi.fn(() => ({ show: vi.fn() })),
+}))
+
+import { setActivePinia, createPinia } from 'pinia'
+import { useCollectionStore } from '@/stores/collection'
+import { makeCard } from '../helpers/fixtures'
+
+const lots = [{ quantity: 4, unitPrice: 1, date: '2025-01-01', source: 'buy', counterparty: '' }]
+
+// Documento completo tal como está en Firestore
+const fullDoc = (id: string) => ({
+  id,
+  data: () => ({ name: 'Lightning Bolt', quantity: 4, language: 'ja', acquisitions: lots, chunkId: 3 }),
+})
+
+describe('collection store: el registro de un borrado lleva la carta completa', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+  })
+
+  it('deleteCard registra el documento leído, no la proyección en memoria', async () => {
+    mockGetDocs.mockResolvedValue({ docs: [fullDoc('card-1')] })
+    const store = useCollectionStore()
+    store.cards = [makeCard({ id: 'card-1', language: undefined })] as any
+
+    expect(await store.deleteCard('card-1')).toBe(true)
+
+    const [kind, changes] = mockRecord.mock.calls[0]
+    expect(kind).toBe('delete')
+    expect(changes).toEqual([{
+      cardId: 'card-1',
+      name: 'Lightning Bolt',
+      before: { name: 'Lightning Bolt', quantity: 4, language: 'ja', acquisitions: lots },
+      after: null,
+    }])
+  })
+
+  it('batchDeleteCards registra también las cartas que no estaban en memoria', async () => {
+    mockGetDocs.mockResolvedValue({ docs: [fullDoc('card-1'), fullDoc('card-2')] })
+    const store = useCollectionStore()
+    store.cards = [makeCard({ id: 'card-1' })] as any
+
+    await store.batchDeleteCards(['card-1', 'card-2'])
+
+    const changes = mockRecord.mock.calls[0][1]
+    expect(changes.map((c: any) => c.cardId)).toEqual(['card-1', 'card-2'])
+    expect(changes.every((c: any) => c.before.acquisitions === lots)).toBe(true)
+  })
+
+  it('si no se pueden leer los documentos borra igual pero no registra una copia incompleta', async () => {
+    mockGetDocs.mockRejectedValue(new Error('offline'))
+    const store = useCollectionStore()
+    store.cards = [makeCard({ id: 'card-1' })] as any
+
+    const result = await store.batchDeleteCards(['card-1'])
+
+    expect(result.deleted).toBe(1)
+    expect(mockRecord).not.toHaveBeenCalled()
+  })
+})
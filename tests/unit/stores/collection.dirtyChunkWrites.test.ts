@@ -46,6 +46,8 @@ vi.mock('@/services/firebase', () => ({
   auth: { currentUser: { uid: 'test-user-id' } },
 }))
 vi.mock('@/services/firestore', () => ({ db: {} }))
+// The activity log writes its own docs; these tests count card/card_index writes only
+vi.mock('@/stores/activity', () => ({ useActivityStore: () => ({ record: vi.fn() }) }))
 
 vi.mock('@/services/cloudFunctions', () => ({
   queryCardIndex: vi.fn().mockResolvedValue({ cards: [], total: 0, page: 0, pageSize: 50, hasMore: false }),
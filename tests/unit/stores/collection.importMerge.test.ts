@@ -0,0 +1,131 @@
+/**
+ * confirmImport con plan de merge cuando un lote de bulkImportCards falla:
+ * los ids que devuelve van por posición (plan.creates / toCreate), así que un
+ * lote caído tiene que dejar su hueco en vez de correr los ids de las filas
+ * de después. Y con creaciones faltantes no se aplican updates ni borrados.
+ */
+
+vi.mock('@/services/firebase', () => ({
+  db: {},
+  auth: { currentUser: { uid: 'test-user-id' } },
+}))
+vi.mock('@/services/firestore', () => ({ db: {} }))
+
+const mockBulkImportCards = vi.fn()
+vi.mock('@/services/cloudFunctions', () => ({
+  queryCardIndex: vi.fn().mockResolvedValue({ cards: [], total: 0, page: 0, pageSize: 50, hasMore: false }),
+  buildCardIndex: vi.fn().mockResolvedValue({ totalCards: 0, chunks: 0 }),
+  applyCardIndexDelta: vi.fn().mockResolvedValue({ applied: 1, skipped: 0, skippedIds: [], fallbackUsed: 0 }),
+  bulkImportCards: (...args: unknown[]) => mockBulkImportCards(...args),
+  loadCollectionChunk: vi.fn(),
+  loadCardPage: vi.fn(),
+}))
+
+vi.mock('@/services/publicCards', () => ({
+  scheduleIndexReconcile: vi.fn(),
+  batchSyncCardsToPublic: vi.fn().mockResolvedValue(undefined),
+  removeCardFromPublic: vi.fn().mockResolvedValue(undefined),
+  syncAllUserCards: vi.fn(),
+  syncAllUserPreferences: vi.fn(),
+  syncCardToPublic: vi.fn().mockResolvedValue(undefined),
+}))
+
+vi.mock('@/services/scryfallCache', () => ({
+  getCardsByIds: vi.fn().mockResolvedValue([]),
+}))
+
+vi.mock('@/composables/useI18n', () => ({
+  t: (key: string) => key,
+}))
+
+vi.mock('@/stores/activity', () => ({
+  useActivityStore: () => ({ record: vi.fn() }),
+}))
+
+const mockBatchUpdate = vi.fn()
+const mockBatchDelete = vi.fn()
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  deleteDoc: vi.fn().mockResolvedValue(undefined),
+  doc: vi.fn((...args: unknown[]) => ({ path: args.join('/') })),
+  documentId: vi.fn(),
+  getCountFromServer: vi.fn().mockResolvedValue({ data: () => ({ count: 0 }) }),
+  getDocs: vi.fn().mockResolvedValue({ docs: [] }),
+  query: vi.fn(),
+  setDoc: vi.fn().mockResolvedValue(undefined),
+  Timestamp: { now: () => ({ seconds: 0, nanoseconds: 0 }) },
+  updateDoc: vi.fn().mockResolvedValue(undefined),
+  where: vi.fn(),
+  writeBatch: vi.fn(() => ({
+    set: vi.fn(),
+    update: mockBatchUpdate,
+    delete: mockBatchDelete,
+    commit: vi.fn().mockResolvedValue(undefined),
+  })),
+}))
+
+vi.mock('@/stores/auth', () => ({
+  useAuthStore: vi.fn(() => ({
+    user: { id: 'test-user-id', email: 'test@example.com', username: 'testuser' },
+  })),
+}))
+
+const mockToast = vi.fn()
+vi.mock('@/stores/toast', () => ({
+  useToastStore: vi.fn(() => ({ show: mockToast })),
+}))
+
+import { setActivePinia, createPinia } from 'pinia'
+import { useCollectionStore } from '@/stores/collection'
+import type { ImportMergePlan } from '@/utils/importMerge'
+import { makeCard } from '../helpers/fixtures'
+
+// Dos lotes de creación (500 + 2), una carta existente a actualizar y otra a borrar
+const ROWS = 502
+const rows = Array.from({ length: ROWS }, (_, i) => {
+  const { id: _id, ...card } = makeCard({ id: `row-${i}`, name: `Card ${i}` })
+  return card
+})
+const plan: ImportMergePlan = {
+  options: { mode: 'replaceSnapshot', removeMissing: true },
+  targets: rows.map((_, i) => ({ kind: 'create' as const, leader: i })),
+  creates: rows.map((_, i) => ({ index: i, quantity: 1, acquisitions: [] })),
+  updates: [{ cardId: 'existing-1', name: 'Kept', from: 1, to: 3, acquisitions: [] }],
+  removals: [{ cardId: 'existing-2', name: 'Gone', quantity: 1 }],
+  summary: { newCards: ROWS, newCopies: ROWS, updatedCards: 1, copiesAdded: 2, copiesRemoved: 1, unchangedCards: 0, removedCards: 1 },
+}
+
+describe('collection store: confirmImport con un lote de creación caído', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    mockBulkImportCards
+      .mockRejectedValueOnce(new Error('deadline-exceeded'))
+      .mockResolvedValueOnce({ cardIds: ['new-500', 'new-501'] })
+  })
+
+  it('las filas del lote caído quedan sin id y las de después conservan el suyo', async () => {
+    const store = useCollectionStore()
+
+    const ids = await store.confirmImport(rows, true, undefined, plan)
+
+    expect(ids).toHaveLength(ROWS)
+    expect(ids.slice(0, 500).every(id => id === '')).toBe(true)
+    expect(ids.slice(500)).toEqual(['new-500', 'new-501'])
+    expect(store.getCardById('new-500')?.name).toBe('Card 500')
+    expect(store.getCardById('new-501')?.name).toBe('Card 501')
+  })
+
+  it('no aplica updates ni borrados y avisa el error aunque sea silent', async () => {
+    const store = useCollectionStore()
+    store.cards = [makeCard({ id: 'existing-1' }), makeCard({ id: 'existing-2' })] as any
+
+    await store.confirmImport(rows, true, undefined, plan)
+
+    expect(mockBatchUpdate).not.toHaveBeenCalled()
+    expect(mockBatchDelete).not.toHaveBeenCalled()
+    expect(store.cards.some(c => c.id === 'existing-2')).toBe(true)
+    expect(mockToast).toHaveBeenCalledWith('collection.messages.importIncomplete', 'error')
+  })
+})
@@ -60,11 +60,14 @@ vi.mock('firebase/firestore', () => ({
   collection: vi.fn(),
   deleteDoc: (...args: unknown[]) => mockDeleteDoc(...args),
   doc: vi.fn((...args: unknown[]) => ({ path: args.join('/') })),
+  documentId: vi.fn(),
   getCountFromServer: vi.fn().mockResolvedValue({ data: () => ({ count: 0 }) }),
   getDocs: (...args: unknown[]) => mockGetDocs(...args),
+  query: vi.fn(),
   setDoc: (...args: unknown[]) => mockSetDoc(...args),
   Timestamp: { now: () => ({ seconds: 0, nanoseconds: 0 }) },
   updateDoc: (...args: unknown[]) => mockUpdateDoc(...args),
+  where: vi.fn(),
   writeBatch: vi.fn(() => ({
     set: vi.fn(),
     update: vi.fn(),
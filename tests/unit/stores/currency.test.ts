@@ -0,0 +1,62 @@
+/**
+ * currency store: moneda de display del usuario y carga perezosa de las
+ * tasas. Auth y el servicio de tasas mockeados.
+ */
+import { createPinia, setActivePinia } from 'pinia'
+import { reactive } from 'vue'
+
+const authState = reactive<{ user: { currency?: string; fxRateOverride?: number | null } | null }>({ user: null })
+const getExchangeRates = vi.fn()
+
+vi.mock('@/stores/auth', () => ({ useAuthStore: () => authState }))
+vi.mock('@/services/exchangeRates', () => ({ getExchangeRates }))
+
+import { useCurrencyStore } from '@/stores/currency'
+
+const plain = (text: string | undefined) => text?.replace(/ /g, ' ')
+
+describe('useCurrencyStore', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    authState.user = null
+    getExchangeRates.mockResolvedValue({
+      rates: new Map([['ARS', 1000]]),
+      informal: new Map([['ARS', 1450]]),
+      updatedAt: null,
+    })
+  })
+
+  it('sin sesión muestra USD y no carga tasas', () => {
+    const store = useCurrencyStore()
+    expect(store.format(12.5)).toBe('$12.50')
+    expect(store.usdTitle(12.5)).toBeUndefined()
+    expect(getExchangeRates).not.toHaveBeenCalled()
+  })
+
+  it('convierte con la tasa oficial y deja el USD en el tooltip', async () => {
+    authState.user = { currency: 'ARS', fxRateOverride: null }
+    const store = useCurrencyStore()
+    await store.loadRates()
+
+    expect(getExchangeRates).toHaveBeenCalledTimes(1)
+    expect(plain(store.format(12.5))).toBe('ARS 12.500')
+    expect(plain(store.formatChange(-1))).toBe('-ARS 1.000')
+    expect(plain(store.usdTitle(12.5))).toBe('US$12.50 · 1 USD = ARS 1.000')
+  })
+
+  it('la tasa manual pisa la oficial', async () => {
+    authState.user = { currency: 'ARS', fxRateOverride: 1450 }
+    const store = useCurrencyStore()
+    await store.loadRates()
+    expect(plain(store.format(10))).toBe('ARS 14.500')
+  })
+
+  it('sin tasa para la moneda sigue en USD', async () => {
+    authState.user = { currency: 'BRL', fxRateOverride: null }
+    const store = useCurrencyStore()
+    await store.loadRates()
+    expect(store.display).toBeNull()
+    expect(store.format(3)).toBe('$3.00')
+  })
+})
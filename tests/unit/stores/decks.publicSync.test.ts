@@ -0,0 +1,77 @@
+import { createPinia, setActivePinia } from 'pinia'
+import { vi } from 'vitest'
+
+// Mock Firebase before importing the store
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(),
+  doc: vi.fn(),
+  getDoc: vi.fn(),
+  getDocs: vi.fn(),
+  addDoc: vi.fn(),
+  updateDoc: vi.fn(),
+  deleteDoc: vi.fn(),
+  Timestamp: { now: () => ({ toDate: () => new Date() }) },
+}))
+
+vi.mock('@/services/firebase', () => ({
+  db: {},
+}))
+vi.mock('@/services/firestore', () => ({ db: {} }))
+
+vi.mock('@/composables/useI18n', () => ({
+  t: (key: string) => key,
+}))
+
+vi.mock('@/services/publicDecks', () => ({
+  loadUserPublicDecks: vi.fn(),
+  removeDeckFromPublic: vi.fn().mockResolvedValue(undefined),
+  syncDeckToPublic: vi.fn().mockResolvedValue(undefined),
+}))
+
+import { useDecksStore } from '@/stores/decks'
+import { useAuthStore } from '@/stores/auth'
+import { loadUserPublicDecks, removeDeckFromPublic, syncDeckToPublic } from '@/services/publicDecks'
+
+beforeEach(() => {
+  setActivePinia(createPinia())
+  vi.clearAllMocks()
+})
+
+const deck = (id: string, isPublic: boolean) => ({
+  id,
+  userId: 'user-1',
+  name: id,
+  format: 'modern',
+  description: '',
+  colors: [],
+  allocations: [],
+  wishlist: [],
+  isPublic,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+})
+
+describe('syncAllPublicDecks — after restoring a backup', () => {
+  it('republishes shared decks with their list and removes stale snapshots', async () => {
+    const authStore = useAuthStore()
+    authStore.user = { id: 'user-1', username: 'owner' } as any
+    vi.mocked(loadUserPublicDecks).mockResolvedValue([
+      { deckId: 'restored-shared' },
+      { deckId: 'now-private' },
+      { deckId: 'deleted' },
+    ] as any)
+
+    const store = useDecksStore()
+    store.decks = [deck('restored-shared', true), deck('now-private', false)] as any
+    const list = [{ scryfallId: 's1' }] as any
+    const cardsOf = vi.fn(() => list)
+
+    await store.syncAllPublicDecks(cardsOf)
+
+    expect(cardsOf).toHaveBeenCalledTimes(1)
+    expect(vi.mocked(syncDeckToPublic).mock.calls).toEqual([
+      [expect.objectContaining({ id: 'restored-shared' }), list, 'owner'],
+    ])
+    expect(vi.mocked(removeDeckFromPublic).mock.calls.map(call => call[0]).sort()).toEqual(['deleted', 'now-private'])
+  })
+})
@@ -354,6 +354,30 @@ describe('exchangeCart store', () => {
       expect(store.getCartTotalValue('alice')).toBe(19.98)
     })
 
+    it('applies the binder storefront percentage to the CK retail (80% CK)', async () => {
+      mockGetCardPrices.mockResolvedValue({
+        cardKingdom: { retail: 10, retailFoil: null, buylist: null, buylistFoil: null },
+      })
+      const store = useExchangeCartStore()
+      store.addItem('alice', makeItem({ price: 2.8, quantity: 2, binderId: 'b1', ckPricePercent: 80 }))
+      await flushCKLookup()
+
+      expect(store.getCart('alice')!.items[0].price).toBe(8)
+      expect(store.getCartTotalValue('alice')).toBe(16)
+    })
+
+    it('keeps a seller-priced item at the seller\'s price (no CK lookup)', async () => {
+      mockGetCardPrices.mockResolvedValue({
+        cardKingdom: { retail: 10, retailFoil: null, buylist: null, buylistFoil: null },
+      })
+      const store = useExchangeCartStore()
+      store.addItem('alice', makeItem({ price: 4.25, quantity: 2, sellerPriced: true }))
+      await flushCKLookup()
+
+      expect(mockGetCardPrices).not.toHaveBeenCalled()
+      expect(store.getCartTotalValue('alice')).toBe(8.5)
+    })
+
     it('passes setCode through to getCardPrices for the CK lookup', async () => {
       mockGetCardPrices.mockResolvedValue(null)
       const store = useExchangeCartStore()
@@ -177,6 +177,16 @@ describe('useMatchesStore — persistCalculatedMatches', () => {
     expect(notifyMatchUser).toHaveBeenCalledTimes(2)
   })
 
+  it('stores the score apart from the value balance and notifies the other user with the balance only', async () => {
+    ;(getDocs as any).mockResolvedValueOnce({ docs: [] })
+    const store = useMatchesStore()
+    const scoreFactors = [{ key: 'balance', points: 20, max: 25 }]
+    await store.persistCalculatedMatches([makeMatch({ compatibility: 80, score: 72, scoreFactors })])
+    expect((addDoc as any).mock.calls[0][1]).toMatchObject({ compatibility: 80, score: 72, scoreFactors })
+    expect((notifyMatchUser as any).mock.calls[0][0].compatibility).toBe(80)
+    expect((notifyMatchUser as any).mock.calls[0][0]).not.toHaveProperty('score')
+  })
+
   // Amendment H.1: _notificationOf preservation
   it('[H.1] skips deleting matches_nuevos docs with truthy _notificationOf', async () => {
     const refA = { id: 'a' }
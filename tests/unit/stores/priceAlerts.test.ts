@@ -0,0 +1,97 @@
+/**
+ * priceAlerts store: alta/rearme de alertas y eventos de la campanita.
+ * Firestore completamente mockeado.
+ */
+import { createPinia, setActivePinia } from 'pinia'
+
+let eventDocs: any[] = []
+const batchUpdate = vi.fn()
+const batchCommit = vi.fn().mockResolvedValue(undefined)
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  query: vi.fn((col: { path: string }) => ({ path: col.path })),
+  where: vi.fn(() => ({})),
+  orderBy: vi.fn(() => ({})),
+  limit: vi.fn(() => ({})),
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ id: path[path.length - 1], path: path.join('/') })),
+  getDocs: vi.fn(async (q: { path: string }) => ({ docs: q.path.endsWith('price_alert_events') ? eventDocs : [] })),
+  setDoc: vi.fn().mockResolvedValue(undefined),
+  deleteDoc: vi.fn().mockResolvedValue(undefined),
+  getCountFromServer: vi.fn().mockResolvedValue({ data: () => ({ count: 3 }) }),
+  writeBatch: vi.fn(() => ({ update: batchUpdate, commit: batchCommit })),
+}))
+
+vi.mock('@/services/firestore', () => ({ db: {} }))
+vi.mock('@/services/mtgjson', () => ({ getMtgjsonUuid: (id: string) => (id === 'rag' ? 'uuid-rag' : '') }))
+vi.mock('@/stores/auth', () => ({
+  useAuthStore: () => ({ user: { id: 'alice', username: 'alice' } }),
+}))
+
+import { setDoc } from 'firebase/firestore'
+import { usePriceAlertsStore } from '@/stores/priceAlerts'
+import type { PriceAlertInput } from '@/types/priceAlert'
+
+const input = (over: Partial<PriceAlertInput> = {}): PriceAlertInput => ({
+  scryfallId: 'rag', cardName: 'Ragavan, Nimble Pilferer', setCode: 'mh2', edition: 'Modern Horizons 2',
+  image: '', foil: false, source: 'cardkingdom', origin: 'wishlist',
+  below: 40, above: null, basePrice: 52,
+  ...over,
+})
+
+describe('usePriceAlertsStore — alertas', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+  })
+
+  it('guarda la alerta activa con id por impresión y el uuid de MTGJSON', async () => {
+    const store = usePriceAlertsStore()
+    expect(await store.saveAlert(input({ deckId: 'd1', origin: 'deckWishlist' }))).toEqual({ ok: true })
+    const [ref, payload] = (setDoc as any).mock.calls[0]
+    expect(ref.path).toBe('users/alice/price_alerts/rag_n')
+    expect(payload).toMatchObject({ below: 40, above: null, active: true, mtgjsonUuid: 'uuid-rag', deckId: 'd1', firedAt: null })
+    expect(store.alertFor('rag', false)?.origin).toBe('deckWishlist')
+  })
+
+  it('volver a guardar reemplaza la alerta (rearme) en vez de duplicarla', async () => {
+    const store = usePriceAlertsStore()
+    await store.saveAlert(input())
+    await store.saveAlert(input({ below: 35 }))
+    expect(store.alerts).toHaveLength(1)
+    expect(store.alertFor('rag', false)?.below).toBe(35)
+  })
+
+  it('valida antes de escribir', async () => {
+    const store = usePriceAlertsStore()
+    expect(await store.saveAlert(input({ below: 70, above: 60, origin: 'owned' }))).toEqual({ ok: false, error: 'crossed' })
+    expect(setDoc).not.toHaveBeenCalled()
+  })
+})
+
+describe('usePriceAlertsStore — campanita', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    eventDocs = [
+      { id: 'e1', data: () => ({ alertId: 'rag_n', cardName: 'Ragavan', direction: 'below', threshold: 40, price: 38, read: false }) },
+      { id: 'e2', data: () => ({ alertId: 'x_n', cardName: 'Force', direction: 'above', threshold: 90, price: 95, read: true }) },
+    ]
+  })
+
+  it('el contador sale de un count() y marcar leídas solo toca las no leídas', async () => {
+    const store = usePriceAlertsStore()
+    await store.loadUnreadCount()
+    expect(store.unreadCount).toBe(3)
+
+    await store.loadEvents()
+    expect(store.events.map(e => e.direction)).toEqual(['below', 'above'])
+
+    await store.markEventsRead()
+    expect(batchUpdate).toHaveBeenCalledTimes(1)
+    expect(batchUpdate.mock.calls[0][0].id).toBe('e1')
+    expect(batchUpdate.mock.calls[0][1]).toEqual({ read: true })
+    expect(store.unreadCount).toBe(2)
+    expect(store.events.every(e => e.read)).toBe(true)
+  })
+})
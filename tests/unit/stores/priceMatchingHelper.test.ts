@@ -192,6 +192,29 @@ describe('priceMatchingHelper', () => {
       expect(result).not.toBeNull()
       expect(result!.compatibility).toBe(100)
     })
+
+    it('counts distinct wanted cards covered on both sides', () => {
+      const store = usePriceMatchingStore()
+
+      const myCards = [
+        makeCard({ id: 'c1', name: 'Lightning Bolt', price: 5, quantity: 2, status: 'trade' }),
+        makeCard({ id: 'c3', name: 'Brainstorm', price: 2, quantity: 1, status: 'trade' }),
+      ]
+      const myPrefs = [makePreference({ name: 'Counterspell', type: 'BUSCO', quantity: 2 })]
+      const theirCards = [
+        makeCard({ id: 'c2', name: 'Counterspell', price: 5, quantity: 1, status: 'trade', edition: 'Alpha' }),
+        makeCard({ id: 'c4', name: 'Counterspell', price: 4, quantity: 1, status: 'trade', edition: 'Beta' }),
+      ]
+      const theirPrefs = [
+        makePreference({ name: 'Lightning Bolt', type: 'BUSCO', quantity: 2 }),
+        makePreference({ name: 'Brainstorm', type: 'BUSCO', quantity: 1 }),
+      ]
+
+      const result = store.calculateBidirectionalMatch(myCards, myPrefs, theirCards, theirPrefs)
+
+      // Bolt + Brainstorm from me, Counterspell (two printings) from them
+      expect(result!.wantedCovered).toBe(3)
+    })
   })
 
   // ─── calculateUnidirectionalMatch ──────────────────────────────────
@@ -448,3 +471,49 @@ describe('indexing must preserve the existing matching semantics', () => {
     expect(result!.theirCardsInfo.map(c => c.id)).toEqual(['t1', 't3'])
   })
 })
+
+describe('buylist cash offer', () => {
+  it('matches my cards against their buylist and shows what they would pay', () => {
+    const store = usePriceMatchingStore()
+    const result = store.calculateUnidirectionalMatch(
+      [makeCard({ id: 'm1', name: 'Sol Ring', status: 'sale', condition: 'NM', quantity: 2, price: 3 })],
+      [],
+      [],
+      [makePreference({ name: 'Sol Ring', type: 'COMPRO', quantity: 4, condition: 'LP', offerPrice: 2.5 })],
+    )
+
+    expect(result).not.toBeNull()
+    expect(result!.myCardsInfo.map(c => c.id)).toEqual(['m1'])
+    expect(result!.cashOffer).toEqual({
+      total: 5,
+      capped: false,
+      lines: [expect.objectContaining({ cardId: 'm1', quantity: 2, offerPrice: 2.5 })],
+    })
+  })
+
+  it('caps the cash offer at their budget', () => {
+    const store = usePriceMatchingStore()
+    const result = store.calculateBidirectionalMatch(
+      [makeCard({ id: 'm1', name: 'Sol Ring', status: 'trade', condition: 'NM', quantity: 4, price: 3 })],
+      [makePreference({ name: 'Black Lotus', type: 'BUSCO', quantity: 1 })],
+      [makeCard({ id: 't1', name: 'Black Lotus', status: 'trade', quantity: 1, price: 500 })],
+      [makePreference({ name: 'Sol Ring', type: 'COMPRO', quantity: 4, condition: 'NM', offerPrice: 2 })],
+      5,
+    )
+
+    expect(result!.cashOffer?.total).toBe(4)
+    expect(result!.cashOffer?.capped).toBe(true)
+  })
+
+  it('has no cash offer when they only trade', () => {
+    const store = usePriceMatchingStore()
+    const result = store.calculateUnidirectionalMatch(
+      [makeCard({ id: 'm1', name: 'Sol Ring', status: 'trade', quantity: 1, price: 3 })],
+      [],
+      [],
+      [makePreference({ name: 'Sol Ring', type: 'BUSCO', quantity: 1 })],
+    )
+
+    expect(result!.cashOffer).toBeNull()
+  })
+})
@@ -0,0 +1,134 @@
+/**
+ * reviews store: agregado de reputación, alta de reseñas y qué intercambios
+ * quedan por reseñar. Firestore y los stores vecinos completamente mockeados.
+ */
+import { createPinia, setActivePinia } from 'pinia'
+
+const existing = new Set<string>()
+let buyerQueryDocs: any[] = []
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn((_db: unknown, ...path: string[]) => ({ path: path.join('/') })),
+  query: vi.fn((col: { path: string }) => ({ path: col.path })),
+  where: vi.fn(() => ({})),
+  orderBy: vi.fn(() => ({})),
+  limit: vi.fn(() => ({})),
+  count: vi.fn(() => ({})),
+  average: vi.fn(() => ({})),
+  doc: vi.fn((_db: unknown, ...path: string[]) => ({ id: path[path.length - 1] })),
+  getDoc: vi.fn(async (ref: { id: string }) => ({ exists: () => existing.has(ref.id) })),
+  getDocs: vi.fn(async (q: { path: string }) => ({ docs: q.path.endsWith('buyRequests') ? buyerQueryDocs : [] })),
+  setDoc: vi.fn(async (ref: { id: string }) => { existing.add(ref.id) }),
+  getAggregateFromServer: vi.fn().mockResolvedValue({ data: () => ({ total: 3, avgRating: 4.333 }) }),
+}))
+
+vi.mock('@/services/firestore', () => ({ db: {} }))
+let currentUser = { id: 'alice', username: 'alice' }
+vi.mock('@/stores/auth', () => ({
+  useAuthStore: () => ({ user: currentUser }),
+}))
+
+const proposals: any[] = []
+vi.mock('@/stores/tradeProposals', () => ({
+  useTradeProposalsStore: () => ({ proposals, loadProposals: vi.fn() }),
+}))
+const buyRequests: any[] = []
+vi.mock('@/stores/buyRequests', () => ({
+  useBuyRequestsStore: () => ({ buyRequests, loadBuyRequests: vi.fn() }),
+}))
+
+import { getAggregateFromServer, setDoc } from 'firebase/firestore'
+import { useReviewsStore } from '@/stores/reviews'
+
+const trade = {
+  tradeType: 'proposal' as const, tradeId: 'p1', tradeOwnerId: '',
+  revieweeId: 'bob', revieweeUsername: 'bob', date: new Date(0),
+}
+
+describe('useReviewsStore — reputación', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+  })
+
+  it('agrega count y promedio del servidor y los cachea', async () => {
+    const store = useReviewsStore()
+    expect(await store.loadReputation('bob')).toEqual({ count: 3, average: 4.3 })
+    await store.loadReputations(['bob', 'bob'])
+    expect(getAggregateFromServer).toHaveBeenCalledTimes(1)
+    expect(store.reputationOf('bob')).toEqual({ count: 3, average: 4.3 })
+  })
+})
+
+describe('useReviewsStore — submitReview', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    existing.clear()
+    currentUser = { id: 'alice', username: 'alice' }
+  })
+
+  it('escribe la reseña con id determinista y refresca el agregado del reseñado', async () => {
+    const store = useReviewsStore()
+    expect(await store.submitReview(trade, 5, '  todo perfecto ')).toEqual({ ok: true })
+    const [ref, payload] = (setDoc as any).mock.calls[0]
+    expect(ref.id).toBe('proposal_p1_alice')
+    expect(payload).toMatchObject({ reviewerId: 'alice', revieweeId: 'bob', rating: 5, comment: 'todo perfecto' })
+    expect(getAggregateFromServer).toHaveBeenCalled()
+  })
+
+  it('una sola reseña por intercambio', async () => {
+    const store = useReviewsStore()
+    await store.submitReview(trade, 4, '')
+    expect(await store.submitReview(trade, 1, '')).toEqual({ ok: false, error: 'already-reviewed' })
+    expect(setDoc).toHaveBeenCalledTimes(1)
+  })
+
+  it('rechaza puntuaciones fuera de 1–5 y reseñarse a uno mismo', async () => {
+    const store = useReviewsStore()
+    expect((await store.submitReview(trade, 0, '')).error).toBe('invalid')
+    expect((await store.submitReview({ ...trade, revieweeId: 'alice' }, 5, '')).error).toBe('invalid')
+    expect(setDoc).not.toHaveBeenCalled()
+  })
+})
+
+describe('useReviewsStore — findReviewableTrades', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    existing.clear()
+    proposals.length = 0
+    buyRequests.length = 0
+    buyerQueryDocs = []
+    currentUser = { id: 'alice', username: 'alice' }
+  })
+
+  it('solo propuestas completadas con esa persona y compras cumplidas en ambas direcciones', async () => {
+    const base = { initiatorId: 'alice', initiatorUsername: 'alice', recipientId: 'bob', recipientUsername: 'bob', participantIds: ['alice', 'bob'], updatedAt: new Date(1), completedAt: null }
+    proposals.push(
+      { ...base, id: 'done', status: 'completed' },
+      { ...base, id: 'open', status: 'open' },
+      { ...base, id: 'other', status: 'completed', participantIds: ['alice', 'carol'] },
+    )
+    buyRequests.push(
+      { id: 'sold', status: 'fulfilled', buyerId: 'bob', buyerUsername: 'bob', buyerName: 'Bob', createdAt: new Date(2) },
+      { id: 'anon', status: 'fulfilled', buyerId: '', buyerUsername: '', buyerName: 'Anon', createdAt: new Date(3) },
+    )
+    buyerQueryDocs = [{ id: 'bought', data: () => ({ createdAt: new Date(4) }) }]
+
+    const store = useReviewsStore()
+    const trades = await store.findReviewableTrades('bob')
+    expect(trades.map(t => `${t.tradeType}:${t.tradeId}:${t.tradeOwnerId}`)).toEqual([
+      'buyRequest:bought:bob',
+      'buyRequest:sold:alice',
+      'proposal:done:',
+    ])
+  })
+
+  it('omite los ya reseñados', async () => {
+    proposals.push({ id: 'done', status: 'completed', initiatorId: 'alice', recipientId: 'bob', participantIds: ['alice', 'bob'], updatedAt: new Date(0), completedAt: null })
+    existing.add('proposal_done_alice')
+    const store = useReviewsStore()
+    expect(await store.findReviewableTrades('bob')).toEqual([])
+  })
+})
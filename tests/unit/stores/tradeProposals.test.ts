@@ -0,0 +1,182 @@
+/**
+ * tradeProposals store: crear desde un match, contraofertar y cerrar.
+ * Firestore completamente mockeado; runTransaction ejecuta el callback contra
+ * un documento en memoria para poder simular que el otro participante cambió
+ * la propuesta entre medio. completeTrade (Cloud Function) también mockeado.
+ */
+import { createPinia, setActivePinia } from 'pinia'
+
+let remoteDoc: Record<string, unknown> | null = null
+const txUpdate = vi.fn()
+
+vi.mock('firebase/firestore', () => ({
+  collection: vi.fn(() => ({})),
+  query: vi.fn(() => ({})),
+  where: vi.fn(() => ({})),
+  doc: vi.fn(() => ({})),
+  getDocs: vi.fn().mockResolvedValue({ docs: [] }),
+  addDoc: vi.fn().mockResolvedValue({ id: 'prop-1' }),
+  runTransaction: vi.fn(async (_db: unknown, fn: (tx: unknown) => Promise<unknown>) => fn({
+    get: async () => ({ id: 'prop-1', exists: () => remoteDoc !== null, data: () => remoteDoc }),
+    update: txUpdate,
+  })),
+}))
+
+vi.mock('@/services/firestore', () => ({ db: {} }))
+const completeTradeFn = vi.fn()
+vi.mock('@/services/cloudFunctions', () => ({ completeTrade: (id: string) => completeTradeFn(id) }))
+const loadCollection = vi.fn().mockResolvedValue(undefined)
+vi.mock('@/stores/collection', () => ({ useCollectionStore: () => ({ loadCollection }) }))
+let currentUser = { id: 'alice', username: 'alice' }
+vi.mock('@/stores/auth', () => ({
+  useAuthStore: () => ({ user: currentUser }),
+}))
+
+import { addDoc, getDocs } from 'firebase/firestore'
+import { useTradeProposalsStore } from '@/stores/tradeProposals'
+
+const card = (over: Partial<any> = {}) => ({
+  scryfallId: 's1', name: 'Bolt', edition: 'M10', quantity: 1,
+  condition: 'NM', foil: false, price: 2, image: '', status: 'trade',
+  ...over,
+})
+
+const match = {
+  id: 'm-1', type: 'BIDIRECTIONAL', otherUserId: 'bob', otherUsername: 'bob',
+  createdAt: new Date(),
+} as any
+
+describe('useTradeProposalsStore — createProposal', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    currentUser = { id: 'alice', username: 'alice' }
+  })
+
+  it('escribe una propuesta abierta con la primera revisión', async () => {
+    const store = useTradeProposalsStore()
+    const created = await store.createProposal(match, { myCards: [card()], otherCards: [card({ scryfallId: 's2' })], cashFromMe: 1, note: '' })
+
+    expect(created?.id).toBe('prop-1')
+    const payload = (addDoc as any).mock.calls[0][1]
+    expect(payload).toMatchObject({
+      matchId: 'm-1',
+      initiatorId: 'alice',
+      recipientId: 'bob',
+      participantIds: ['alice', 'bob'],
+      status: 'open',
+    })
+    expect(payload.revisions).toHaveLength(1)
+    expect(payload.revisions[0]).toMatchObject({ authorId: 'alice', cashAmount: 1, cashFromId: 'alice' })
+    expect(store.findByMatch('m-1')?.id).toBe('prop-1')
+  })
+
+  it('no crea una propuesta vacía', async () => {
+    const store = useTradeProposalsStore()
+    expect(await store.createProposal(match, { myCards: [], otherCards: [], cashFromMe: 0, note: '' })).toBeNull()
+    expect(addDoc).not.toHaveBeenCalled()
+  })
+})
+
+describe('useTradeProposalsStore — contraoferta y cierre', () => {
+  const seed = () => {
+    const base = {
+      matchId: 'm-1', initiatorId: 'alice', initiatorUsername: 'alice', recipientId: 'bob', recipientUsername: 'bob',
+      participantIds: ['alice', 'bob'], status: 'open',
+      revisions: [{ authorId: 'alice', initiatorCards: [card()], recipientCards: [], cashAmount: 0, cashFromId: null, note: '', createdAt: new Date(0) }],
+      createdAt: new Date(0), updatedAt: new Date(0),
+    }
+    remoteDoc = { ...base }
+    const store = useTradeProposalsStore()
+    store.proposals.push({ id: 'prop-1', ...base } as any)
+    return store
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    currentUser = { id: 'bob', username: 'bob' }
+  })
+
+  it('el destinatario contraoferta y se agrega una revisión', async () => {
+    const store = seed()
+    const res = await store.counterOffer('prop-1', { myCards: [card({ scryfallId: 'b1' })], otherCards: [card()], cashFromMe: 0, note: 'ok?' })
+
+    expect(res.ok).toBe(true)
+    const patch = txUpdate.mock.calls[0][1]
+    expect(patch.revisions).toHaveLength(2)
+    expect(patch.revisions[1]).toMatchObject({ authorId: 'bob', note: 'ok?' })
+    expect(store.proposals[0].revisions).toHaveLength(2)
+  })
+
+  it('aceptar cierra la propuesta como accepted', async () => {
+    const store = seed()
+    expect((await store.acceptProposal('prop-1')).ok).toBe(true)
+    expect(txUpdate.mock.calls[0][1]).toMatchObject({ status: 'accepted', acceptedBy: 'bob' })
+    expect(store.proposals[0].status).toBe('accepted')
+  })
+
+  it('el autor de la última revisión no puede aceptarla, solo retirarla', async () => {
+    currentUser = { id: 'alice', username: 'alice' }
+    const store = seed()
+    expect((await store.acceptProposal('prop-1')).error).toBe('not-allowed')
+    expect((await store.withdrawProposal('prop-1')).ok).toBe(true)
+    expect(txUpdate.mock.calls[0][1].status).toBe('withdrawn')
+    expect(txUpdate.mock.calls[0][1]).not.toHaveProperty('acceptedBy')
+  })
+
+  it('si el otro contraofertó entre medio, aborta como stale y recarga', async () => {
+    const store = seed()
+    remoteDoc = {
+      ...remoteDoc,
+      revisions: [...(remoteDoc!.revisions as unknown[]), { authorId: 'alice', initiatorCards: [], recipientCards: [], cashAmount: 0, cashFromId: null, note: '' }],
+    }
+    const res = await store.acceptProposal('prop-1')
+    expect(res).toEqual({ ok: false, error: 'stale' })
+    expect(txUpdate).not.toHaveBeenCalled()
+    expect(getDocs).toHaveBeenCalled()
+  })
+})
+
+describe('useTradeProposalsStore — completeTrade', () => {
+  const seedAccepted = () => {
+    const store = useTradeProposalsStore()
+    store.proposals.push({
+      id: 'prop-1', matchId: 'm-1', initiatorId: 'alice', initiatorUsername: 'alice', recipientId: 'bob', recipientUsername: 'bob',
+      participantIds: ['alice', 'bob'], status: 'accepted', revisions: [], createdAt: new Date(0), updatedAt: new Date(0), completedAt: null,
+    } as any)
+    return store
+  }
+
+  beforeEach(() => {
+    setActivePinia(createPinia())
+    vi.clearAllMocks()
+    currentUser = { id: 'bob', username: 'bob' }
+  })
+
+  it('marca la propuesta como completed y recarga la colección', async () => {
+    completeTradeFn.mockResolvedValueOnce({ ok: true, touchedCards: {} })
+    const store = seedAccepted()
+    expect(await store.completeTrade('prop-1')).toEqual({ ok: true })
+    expect(completeTradeFn).toHaveBeenCalledWith('prop-1')
+    expect(store.proposals[0].status).toBe('completed')
+    expect(store.proposals[0].completedAt).toBeInstanceOf(Date)
+    expect(loadCollection).toHaveBeenCalled()
+  })
+
+  it('devuelve las líneas que no alcanzan y no toca el estado local', async () => {
+    const shortages = [{ userId: 'bob', scryfallId: 's1', name: 'Bolt', condition: 'NM', foil: false, requested: 2, available: 1 }]
+    completeTradeFn.mockRejectedValueOnce({ code: 'functions/failed-precondition', details: { reason: 'shortage', shortages } })
+    const store = seedAccepted()
+    expect(await store.completeTrade('prop-1')).toEqual({ ok: false, error: 'shortage', shortages })
+    expect(store.proposals[0].status).toBe('accepted')
+    expect(loadCollection).not.toHaveBeenCalled()
+  })
+
+  it('no llama a la función si la propuesta no está aceptada', async () => {
+    const store = seedAccepted()
+    store.proposals[0].status = 'open'
+    expect((await store.completeTrade('prop-1')).error).toBe('not-allowed')
+    expect(completeTradeFn).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,128 @@
+import {
+  BACKUP_COLLECTIONS,
+  BACKUP_FORMAT,
+  BACKUP_VERSION,
+  backupFileName,
+  buildBackupArchive,
+  decodeBackupValue,
+  encodeBackupValue,
+  isBackupFromOtherAccount,
+  parseBackupArchive,
+  planRestore,
+} from '@/utils/accountBackup'
+
+const fakeTimestamp = (millis: number) => ({ seconds: Math.floor(millis / 1000), nanoseconds: 0, toMillis: () => millis })
+const user = { id: 'u1', username: 'rafa' }
+const now = new Date('2026-10-18T12:00:00Z')
+
+describe('encode/decodeBackupValue', () => {
+  it('serializa Timestamps y Dates anidados como { $ts } y los revive', () => {
+    const encoded = encodeBackupValue({
+      createdAt: fakeTimestamp(1000),
+      cards: [{ addedAt: new Date(2000), qty: 2 }],
+      skip: undefined,
+    })
+    expect(encoded).toEqual({ createdAt: { $ts: 1000 }, cards: [{ addedAt: { $ts: 2000 }, qty: 2 }] })
+
+    const decoded = decodeBackupValue(JSON.parse(JSON.stringify(encoded)), ms => `ts:${ms}`)
+    expect(decoded).toEqual({ createdAt: 'ts:1000', cards: [{ addedAt: 'ts:2000', qty: 2 }] })
+  })
+
+  it('un objeto con $ts y otras claves no es un timestamp', () => {
+    expect(decodeBackupValue({ $ts: 1, other: true }, () => 'x')).toEqual({ $ts: 1, other: true })
+  })
+})
+
+describe('buildBackupArchive', () => {
+  it('incluye todas las colecciones y descarta campos derivados de las cartas', () => {
+    const archive = buildBackupArchive(user, new Map([
+      ['cards', [{ id: 'c1', data: { name: 'Sol Ring', chunkId: 3 } }]],
+    ]), now)
+
+    expect(archive.format).toBe(BACKUP_FORMAT)
+    expect(archive.version).toBe(BACKUP_VERSION)
+    expect(archive.exportedAt).toBe('2026-10-18T12:00:00.000Z')
+    expect(Object.keys(archive.collections)).toEqual([...BACKUP_COLLECTIONS])
+    expect(archive.collections.cards).toEqual([{ id: 'c1', data: { name: 'Sol Ring' } }])
+    expect(archive.collections.decks).toEqual([])
+  })
+
+  it('nunca incluye card_index (se reconstruye, no se respalda)', () => {
+    expect(BACKUP_COLLECTIONS).not.toContain('card_index')
+  })
+})
+
+describe('parseBackupArchive', () => {
+  const valid = () => buildBackupArchive(user, new Map([['decks', [{ id: 'd1', data: { name: 'Atraxa' } }]]]), now)
+
+  it('acepta un archivo generado por buildBackupArchive', () => {
+    const result = parseBackupArchive(JSON.stringify(valid()))
+    expect(result.ok && result.archive.collections.decks).toEqual([{ id: 'd1', data: { name: 'Atraxa' } }])
+  })
+
+  it('rechaza JSON inválido, otro formato y versiones futuras', () => {
+    expect(parseBackupArchive('{nope')).toEqual({ ok: false, error: 'invalidJson' })
+    expect(parseBackupArchive('{"cards":[]}')).toEqual({ ok: false, error: 'wrongFormat' })
+    expect(parseBackupArchive(JSON.stringify({ ...valid(), version: BACKUP_VERSION + 1 })))
+      .toEqual({ ok: false, error: 'unsupportedVersion' })
+  })
+
+  it('descarta entradas con id inválido o repetido y completa colecciones faltantes', () => {
+    const raw = {
+      format: BACKUP_FORMAT,
+      version: 1,
+      collections: {
+        cards: [
+          { id: 'ok', data: {} },
+          { id: 'ok', data: { dup: true } },
+          { id: 'a/b', data: {} },
+          { id: '', data: {} },
+          { id: 'nodata' },
+        ],
+      },
+    }
+    const result = parseBackupArchive(JSON.stringify(raw))
+    if (!result.ok) throw new Error('expected ok')
+    expect(result.archive.collections.cards).toEqual([{ id: 'ok', data: {} }])
+    expect(result.archive.collections.binders).toEqual([])
+  })
+})
+
+describe('planRestore', () => {
+  const archive = buildBackupArchive(user, new Map([
+    ['cards', [{ id: 'c1', data: { name: 'A' } }, { id: 'c2', data: { name: 'B' } }]],
+    ['decks', [{ id: 'd1', data: { name: 'Deck' } }]],
+  ]), now)
+  const existing = new Map([['cards', ['c1', 'c9']], ['decks', ['d2']], ['binders', ['b1']]] as const)
+
+  it('merge: escribe el archivo conservando ids y no borra nada', () => {
+    const plan = planRestore(archive, existing, 'merge')
+    expect(plan.writes.map(w => `${w.collection}/${w.id}`)).toEqual(['cards/c1', 'cards/c2', 'decks/d1'])
+    expect(plan.deletes).toEqual([])
+    expect(plan.counts.cards).toBe(2)
+  })
+
+  it('replace: además borra lo que no está en el archivo', () => {
+    const plan = planRestore(archive, existing, 'replace')
+    expect(plan.deletes).toEqual([
+      { collection: 'cards', id: 'c9' },
+      { collection: 'decks', id: 'd2' },
+      { collection: 'binders', id: 'b1' },
+    ])
+  })
+})
+
+describe('isBackupFromOtherAccount', () => {
+  it('un backup de otra cuenta o sin dueño no es de la cuenta actual', () => {
+    const archive = buildBackupArchive(user, new Map(), now)
+    expect(isBackupFromOtherAccount(archive, 'u1')).toBe(false)
+    expect(isBackupFromOtherAccount(archive, 'u2')).toBe(true)
+    expect(isBackupFromOtherAccount({ userId: '' }, 'u1')).toBe(true)
+  })
+})
+
+describe('backupFileName', () => {
+  it('usa el usuario saneado y la fecha', () => {
+    expect(backupFileName('ra fa/x', now)).toBe('cranial-backup-ra_fa_x-2026-10-18.json')
+  })
+})
@@ -0,0 +1,136 @@
+import {
+    ACTIVITY_PART_SIZE,
+    ACTIVITY_UNDO_WINDOW_MS,
+    activityCardData,
+    buildActivityHeader,
+    canUndoActivity,
+    deletedCardChanges,
+    parseActivityChanges,
+    planActivityRestore,
+    splitActivityChanges,
+    updatedCardChanges,
+} from '@/utils/activityLog'
+import type { Card } from '@/types/card'
+import type { ActivityEntry } from '@/types/activity'
+
+const card = (overrides: Partial<Card>): Card => ({
+    id: 'c1',
+    scryfallId: 's1',
+    name: 'Lightning Bolt',
+    edition: 'Magic 2021',
+    quantity: 1,
+    condition: 'NM',
+    foil: false,
+    price: 2,
+    image: '',
+    status: 'trade',
+    updatedAt: new Date(0),
+    ...overrides,
+})
+
+const entry = (overrides: Partial<ActivityEntry>): ActivityEntry => ({
+    id: 'e1',
+    kind: 'update',
+    bulk: true,
+    count: 1,
+    names: [],
+    fields: [],
+    parts: 1,
+    restoredCardIds: [],
+    undoneAt: null,
+    createdAt: new Date(1_000_000),
+    ...overrides,
+})
+
+describe('activityCardData', () => {
+    it('drops the id, timestamps and server-derived fields', () => {
+        const data = activityCardData({ ...card({ costBasis: { quantity: 1, cost: 1 } }), createdAt: new Date(0), chunkId: 3 } as Card)
+        expect(data).not.toHaveProperty('id')
+        expect(data).not.toHaveProperty('updatedAt')
+        expect(data).not.toHaveProperty('createdAt')
+        expect(data).not.toHaveProperty('costBasis')
+        expect(data).not.toHaveProperty('chunkId')
+        expect(data).toMatchObject({ name: 'Lightning Bolt', status: 'trade' })
+    })
+})
+
+describe('updatedCardChanges', () => {
+    it('keeps only the touched fields, null when the card did not have one', () => {
+        const changes = updatedCardChanges(
+            [card({ id: 'a' }), card({ id: 'b', status: 'sale', public: true }), card({ id: 'c', status: 'collection' })],
+            { status: 'collection', public: false },
+        )
+        expect(changes).toEqual([
+            { cardId: 'a', name: 'Lightning Bolt', before: { status: 'trade', public: null }, after: { status: 'collection', public: false } },
+            { cardId: 'b', name: 'Lightning Bolt', before: { status: 'sale', public: true }, after: { status: 'collection', public: false } },
+            { cardId: 'c', name: 'Lightning Bolt', before: { status: 'collection', public: null }, after: { status: 'collection', public: false } },
+        ])
+    })
+
+    it('skips cards that already had the new values', () => {
+        expect(updatedCardChanges([card({ status: 'collection' })], { status: 'collection' })).toEqual([])
+    })
+})
+
+describe('buildActivityHeader', () => {
+    it('summarises names, edited fields and how many parts the changes need', () => {
+        const changes = [
+            ...updatedCardChanges([card({ id: 'a' }), card({ id: 'b', name: 'Opt' })], { status: 'collection' }),
+            ...deletedCardChanges([card({ id: 'd', name: 'Path' })]),
+        ]
+        expect(buildActivityHeader('update', changes, true)).toEqual({
+            kind: 'update',
+            bulk: true,
+            count: 3,
+            names: ['Lightning Bolt', 'Opt', 'Path'],
+            fields: ['status'],
+            parts: 1,
+        })
+    })
+
+    it('splits 2,000 changes into documents of ACTIVITY_PART_SIZE', () => {
+        const changes = deletedCardChanges(Array.from({ length: 2000 }, (_, i) => card({ id: `c${i}` })))
+        expect(buildActivityHeader('delete', changes, true).parts).toBe(2000 / ACTIVITY_PART_SIZE)
+        expect(splitActivityChanges(changes).map(p => p.length)).toEqual(Array(2000 / ACTIVITY_PART_SIZE).fill(ACTIVITY_PART_SIZE))
+    })
+})
+
+describe('parseActivityChanges', () => {
+    it('reads a stored part and ignores malformed rows', () => {
+        const raw = JSON.stringify([{ cardId: 'a', name: 'Bolt', before: null, after: { quantity: 1 } }, { name: 'no id' }, 3])
+        expect(parseActivityChanges(raw)).toEqual([{ cardId: 'a', name: 'Bolt', before: null, after: { quantity: 1 } }])
+        expect(parseActivityChanges('not json')).toEqual([])
+        expect(parseActivityChanges(undefined)).toEqual([])
+    })
+})
+
+describe('planActivityRestore', () => {
+    it('recreates deleted cards, removes created ones and groups reverts by previous values', () => {
+        const plan = planActivityRestore([
+            { cardId: 'a', name: '', before: { status: 'trade' }, after: { status: 'collection' } },
+            { cardId: 'b', name: '', before: { status: 'sale' }, after: { status: 'collection' } },
+            { cardId: 'c', name: '', before: { status: 'trade' }, after: { status: 'collection' } },
+            { cardId: 'd', name: '', before: { name: 'Path' }, after: null },
+            { cardId: 'e', name: '', before: null, after: { name: 'Opt' } },
+        ])
+        expect(plan).toEqual({
+            recreate: [{ cardId: 'd', data: { name: 'Path' } }],
+            remove: ['e'],
+            revert: [
+                { cardIds: ['a', 'c'], updates: { status: 'trade' } },
+                { cardIds: ['b'], updates: { status: 'sale' } },
+            ],
+        })
+    })
+})
+
+describe('canUndoActivity', () => {
+    const created = new Date(1_000_000).getTime()
+
+    it('allows undoing a bulk operation inside the window, once', () => {
+        expect(canUndoActivity(entry({}), created + 1000)).toBe(true)
+        expect(canUndoActivity(entry({}), created + ACTIVITY_UNDO_WINDOW_MS)).toBe(false)
+        expect(canUndoActivity(entry({ undoneAt: new Date() }), created + 1000)).toBe(false)
+        expect(canUndoActivity(entry({ bulk: false }), created + 1000)).toBe(false)
+    })
+})
@@ -1,7 +1,12 @@
 import { describe, expect, it } from 'vitest'
 import {
+  binderPageCount,
+  binderPageSlots,
   buildOriginalBinderSlots,
   computeBinderSlotOps,
+  moveBinderSlot,
+  normalizeBinderPageSize,
+  reconcileBinderLayout,
   type BinderSlotOp,
 } from '@/utils/binderSlotDiff'
 
@@ -139,3 +144,61 @@ describe('computeBinderSlotOps — diff per binder', () => {
     expect(deallocCardIds).toEqual(['owned-1', 'wish-1', 'legacy-dupe'])
   })
 })
+
+describe('reconcileBinderLayout', () => {
+  it('places one pocket per copy for a binder without layout', () => {
+    expect(reconcileBinderLayout([], [
+      { cardId: 'A', quantity: 2 },
+      { cardId: 'B', quantity: 1 },
+    ])).toEqual(['A', 'A', 'B'])
+  })
+
+  it('keeps the existing order and gaps, appending new copies after the last pocket', () => {
+    const layout = ['B', null, 'A']
+    expect(reconcileBinderLayout(layout, [
+      { cardId: 'A', quantity: 1 },
+      { cardId: 'B', quantity: 1 },
+      { cardId: 'C', quantity: 1 },
+    ])).toEqual(['B', null, 'A', 'C'])
+  })
+
+  it('empties the pockets of deallocated or reduced copies and trims trailing empties', () => {
+    const layout = ['A', 'B', 'A', 'A', 'C']
+    expect(reconcileBinderLayout(layout, [
+      { cardId: 'A', quantity: 2 },
+      { cardId: 'B', quantity: 1 },
+    ])).toEqual(['A', 'B', 'A'])
+  })
+})
+
+describe('moveBinderSlot', () => {
+  it('swaps two occupied pockets', () => {
+    expect(moveBinderSlot(['A', 'B', 'C'], 0, 2)).toEqual(['C', 'B', 'A'])
+  })
+
+  it('moves into an empty pocket past the end, leaving a gap', () => {
+    expect(moveBinderSlot(['A', 'B'], 0, 4)).toEqual([null, 'B', null, null, 'A'])
+  })
+
+  it('ignores out-of-range sources', () => {
+    expect(moveBinderSlot(['A'], 3, 0)).toEqual(['A'])
+  })
+})
+
+describe('binder pages', () => {
+  it('pads the last page with empty pockets', () => {
+    const layout = Array.from({ length: 10 }, (_, i) => `c${i}`)
+    expect(binderPageCount(layout, 9)).toBe(2)
+    expect(binderPageSlots(layout, 9, 1)).toEqual(['c9', null, null, null, null, null, null, null, null])
+  })
+
+  it('always has at least one page', () => {
+    expect(binderPageCount([], 12)).toBe(1)
+  })
+
+  it('falls back to 9 pockets for unknown page sizes', () => {
+    expect(normalizeBinderPageSize(18)).toBe(18)
+    expect(normalizeBinderPageSize(10)).toBe(9)
+    expect(normalizeBinderPageSize(undefined)).toBe(9)
+  })
+})
@@ -0,0 +1,148 @@
+import {
+    applyCkPricePercent,
+    binderStorefrontPath,
+    buildPublicBinderCards,
+    isBinderPublished,
+    normalizeCkPricePercent,
+    storefrontCards,
+    storefrontForCard,
+    storefrontTotal,
+} from '@/utils/binderStorefront'
+import type { PublicBinder, PublicBinderCard } from '@/types/binder'
+import type { Card } from '@/types/card'
+
+const card = (overrides: Partial<Card>): Card => ({
+    id: 'c1',
+    scryfallId: 's1',
+    name: 'Lightning Bolt',
+    edition: 'M21',
+    quantity: 4,
+    condition: 'NM',
+    foil: false,
+    price: 2,
+    image: '',
+    status: 'sale',
+    public: true,
+    updatedAt: new Date(0),
+    ...overrides,
+})
+
+const row = (overrides: Partial<PublicBinderCard>): PublicBinderCard => ({
+    cardId: 'c1',
+    scryfallId: 's1',
+    name: 'Lightning Bolt',
+    edition: 'M21',
+    quantity: 1,
+    condition: 'NM',
+    foil: false,
+    price: 10,
+    image: '',
+    status: 'sale',
+    ...overrides,
+})
+
+const storefront = (overrides: Partial<PublicBinder>): PublicBinder => ({
+    binderId: 'b1',
+    userId: 'u1',
+    username: 'seller',
+    name: 'Binder',
+    description: '',
+    forSale: true,
+    ckPricePercent: null,
+    cards: [],
+    cardCount: 0,
+    updatedAt: new Date(0),
+    ...overrides,
+})
+
+describe('binderStorefront', () => {
+    it('arma la URL del escaparate', () => {
+        expect(binderStorefrontPath('seller', 'b 1')).toBe('/@seller/binders/b%201')
+    })
+
+    describe('normalizeCkPricePercent', () => {
+        it('vacío o no numérico es sin precio de binder', () => {
+            expect(normalizeCkPricePercent('')).toBeNull()
+            expect(normalizeCkPricePercent(null)).toBeNull()
+            expect(normalizeCkPricePercent('abc')).toBeNull()
+        })
+
+        it('redondea y limita a 1–100', () => {
+            expect(normalizeCkPricePercent('79.6')).toBe(80)
+            expect(normalizeCkPricePercent(0)).toBe(1)
+            expect(normalizeCkPricePercent(150)).toBe(100)
+        })
+    })
+
+    it('aplica el porcentaje en centavos y deja el precio igual sin porcentaje', () => {
+        expect(applyCkPricePercent(9.99, 80)).toBe(7.99)
+        expect(applyCkPricePercent(9.99, null)).toBe(9.99)
+    })
+
+    it('el snapshot omite wishlist y limita la cantidad a lo que hay en la colección', () => {
+        const rows = buildPublicBinderCards(
+            { allocations: [
+                { cardId: 'c1', quantity: 6, addedAt: new Date(0) },
+                { cardId: 'c2', quantity: 1, addedAt: new Date(0) },
+                { cardId: 'gone', quantity: 1, addedAt: new Date(0) },
+            ] },
+            [card({ id: 'c1' }), card({ id: 'c2', name: 'Counterspell', status: 'wishlist' })],
+        )
+        expect(rows).toHaveLength(1)
+        expect(rows[0]).toMatchObject({ cardId: 'c1', quantity: 4 })
+        expect(Object.values(rows[0] ?? {})).not.toContain(undefined)
+    })
+
+    it('el snapshot solo publica cartas en venta o cambio marcadas como públicas', () => {
+        const allocations = ['sale', 'trade', 'collection', 'private', 'unset'].map(cardId => ({ cardId, quantity: 1, addedAt: new Date(0) }))
+        const rows = buildPublicBinderCards({ allocations }, [
+            card({ id: 'sale' }),
+            card({ id: 'trade', status: 'trade' }),
+            card({ id: 'collection', status: 'collection' }),
+            card({ id: 'private', public: false }),
+            card({ id: 'unset', public: undefined }),
+        ])
+        expect(rows.map(r => r.cardId).sort()).toEqual(['sale', 'trade'])
+    })
+
+    it('el snapshot lleva el precio del vendedor cuando la carta tiene uno', () => {
+        const allocations = ['c1', 'c2'].map(cardId => ({ cardId, quantity: 1, addedAt: new Date(0) }))
+        const rows = buildPublicBinderCards({ allocations }, [
+            { ...card({ id: 'c1', price: 2 }), listingPrice: 1.5 },
+            card({ id: 'c2', name: 'Counterspell', price: 3 }),
+        ])
+        expect(rows).toEqual([
+            expect.objectContaining({ cardId: 'c2', price: 3 }),
+            expect.objectContaining({ cardId: 'c1', price: 1.5, sellerPriced: true }),
+        ])
+        expect(rows[0]?.sellerPriced).toBeUndefined()
+        expect(storefrontCards(storefront({ cards: rows }))[1]).toMatchObject({ price: 1.5, sellerPriced: true })
+    })
+
+    it('solo se publica un binder que el dueño hizo público', () => {
+        expect(isBinderPublished({ isPublic: true, publishedAt: new Date(0) })).toBe(true)
+        expect(isBinderPublished({ isPublic: true, publishedAt: null })).toBe(false)
+        expect(isBinderPublished({ isPublic: false, publishedAt: new Date(0) })).toBe(false)
+    })
+
+    it('total y grilla usan el precio del binder', () => {
+        const sf = storefront({ ckPricePercent: 80, cards: [row({ price: 10, quantity: 2 }), row({ cardId: 'c2', price: 2.5 })] })
+        expect(storefrontTotal(sf)).toBe(18)
+        expect(storefrontCards(sf).map(c => c.price)).toEqual([8, 2])
+    })
+
+    describe('storefrontForCard', () => {
+        it('elige el porcentaje más bajo entre escaparates a la venta', () => {
+            const a = storefront({ binderId: 'a', ckPricePercent: 90, cards: [row({})] })
+            const b = storefront({ binderId: 'b', ckPricePercent: 75, cards: [row({})] })
+            const notForSale = storefront({ binderId: 'c', ckPricePercent: 50, forSale: false, cards: [row({})] })
+            expect(storefrontForCard([a, b, notForSale], 'c1')?.binderId).toBe('b')
+        })
+
+        it('sin porcentaje o sin la carta no aplica ninguno', () => {
+            const plain = storefront({ cards: [row({})] })
+            const other = storefront({ ckPricePercent: 80, cards: [row({ cardId: 'c9' })] })
+            expect(storefrontForCard([plain, other], 'c1')).toBeNull()
+        })
+    })
+})
@@ -4,7 +4,16 @@
  *  - planFulfillment: decide por carta si decrementar, borrar (queda 0) o marcar
  *    como faltante (la carta ya no existe en la colección).
  */
-import { computeTotalValue, planFulfillment } from '@/utils/buyRequest'
+import {
+  applyBuyRequestResponse,
+  buildPickList,
+  computeAcceptedValue,
+  computeTotalValue,
+  formatPickList,
+  fulfillmentStatus,
+  isOpenBuyRequest,
+  planFulfillment,
+} from '@/utils/buyRequest'
 
 const item = (over: Partial<any> = {}) => ({
   scryfallId: 's', cardId: 'c1', name: 'N', edition: '', quantity: 1,
@@ -54,3 +63,85 @@ describe('planFulfillment', () => {
     ])
   })
 })
+
+describe('lista de picking', () => {
+  const cards: Record<string, any> = {
+    bolt: { quantity: 4, location: 'Red deckbox' },
+    opt: { quantity: 1, location: 'Box A / row 3' },
+    path: { quantity: 2, location: 'Red deckbox' },
+    elf: { quantity: 3 },
+  }
+  const items = [
+    item({ cardId: 'bolt', name: 'Lightning Bolt', edition: 'M21', quantity: 2 }),
+    item({ cardId: 'elf', name: 'Llanowar Elves', edition: 'DOM', quantity: 1, foil: true }),
+    item({ cardId: 'opt', name: 'Opt', edition: 'XLN', quantity: 1 }),
+    item({ cardId: 'gone', name: 'Gone', quantity: 1 }),
+    item({ cardId: 'path', name: 'Path to Exile', edition: '2XM', quantity: 1, condition: 'LP' }),
+  ]
+  const plan = planFulfillment(items, (id: string) => cards[id])
+
+  it('el plan lleva la ubicación de cada carta', () => {
+    expect(plan.at(0)).toEqual({ cardId: 'bolt', action: 'update', newQuantity: 2, location: 'Red deckbox' })
+    expect(plan.at(2)).toEqual({ cardId: 'opt', action: 'delete', location: 'Box A / row 3' })
+    expect(plan.at(1)).not.toHaveProperty('location')
+  })
+
+  it('agrupa por ubicación, sin ubicación al final y sin faltantes', () => {
+    const groups = buildPickList(items as any, plan)
+    expect(groups.map(g => g.location)).toEqual(['Box A / row 3', 'Red deckbox', ''])
+    expect(groups.at(1)!.lines.map(l => l.name)).toEqual(['Lightning Bolt', 'Path to Exile'])
+    expect(groups.flatMap(g => g.lines).some(l => l.cardId === 'gone')).toBe(false)
+  })
+
+  it('arma el texto para copiar', () => {
+    const text = formatPickList(buildPickList(items as any, plan), 'No location')
+    expect(text).toBe([
+      '[Box A / row 3]',
+      '1x Opt (XLN) NM',
+      '',
+      '[Red deckbox]',
+      '2x Lightning Bolt (M21) NM',
+      '1x Path to Exile (2XM) LP',
+      '',
+      '[No location]',
+      '1x Llanowar Elves (DOM) NM foil',
+    ].join('\n'))
+  })
+})
+
+describe('respuesta del dueño', () => {
+  it('sin decisión se da por aceptado; todo rechazado es declined', () => {
+    const items = [item({ price: 2 }), item({ price: 3 })]
+    expect(applyBuyRequestResponse(items as any, { decisions: [], counterPrices: [], note: '' }).status).toBe('accepted')
+    expect(applyBuyRequestResponse(items as any, { decisions: ['rejected', 'rejected'], counterPrices: [], note: '' }).status).toBe('declined')
+  })
+
+  it('descarta contraofertas iguales al precio, inválidas o sobre items rechazados', () => {
+    const items = [item({ price: 2 }), item({ price: 3 }), item({ price: 4 })]
+    const { items: answered } = applyBuyRequestResponse(items as any, {
+      decisions: ['accepted', 'rejected', 'accepted'],
+      counterPrices: [2, 1, Number.NaN],
+      note: '',
+    })
+    expect(answered.map(i => i.counterPrice)).toEqual([undefined, undefined, undefined])
+  })
+
+  it('el valor aceptado suma los no rechazados a su precio vigente', () => {
+    expect(computeAcceptedValue([
+      item({ price: 2, quantity: 2, counterPrice: 1.5 }),
+      item({ price: 5, quantity: 1, decision: 'rejected' }),
+      item({ price: 3, quantity: 1, decision: 'accepted' }),
+    ] as any)).toBe(6)
+  })
+
+  it('solo pending, seen y accepted siguen abiertas', () => {
+    expect(['pending', 'seen', 'accepted', 'declined', 'fulfilled', 'partially_fulfilled', 'cancelled'].filter(s => isOpenBuyRequest(s as any)))
+      .toEqual(['pending', 'seen', 'accepted'])
+  })
+
+  it('fulfilled solo si se entregó todo', () => {
+    expect(fulfillmentStatus([{ quantity: 2, soldQuantity: 2 }])).toBe('fulfilled')
+    expect(fulfillmentStatus([{ quantity: 2, soldQuantity: 1 }])).toBe('partially_fulfilled')
+    expect(fulfillmentStatus([{ quantity: 1 }])).toBe('partially_fulfilled')
+  })
+})
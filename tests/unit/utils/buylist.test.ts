@@ -0,0 +1,107 @@
+import { calculateCashOffer, meetsMinCondition, normalizeBuylistBudget, normalizeOfferPrice } from '@/utils/buylist'
+import { makeCard, makePreference } from '../helpers/fixtures'
+
+describe('normalizeOfferPrice', () => {
+  it('rounds to cents', () => {
+    expect(normalizeOfferPrice(1.234)).toBe(1.23)
+    expect(normalizeOfferPrice('2.5')).toBe(2.5)
+  })
+
+  it('rejects zero, negatives and non-numbers', () => {
+    expect(normalizeOfferPrice(0)).toBeNull()
+    expect(normalizeOfferPrice(-3)).toBeNull()
+    expect(normalizeOfferPrice('abc')).toBeNull()
+  })
+})
+
+describe('normalizeBuylistBudget', () => {
+  it('treats missing or empty as no cap', () => {
+    expect(normalizeBuylistBudget(undefined)).toBeNull()
+    expect(normalizeBuylistBudget(null)).toBeNull()
+    expect(normalizeBuylistBudget('')).toBeNull()
+  })
+
+  it('keeps a positive budget', () => {
+    expect(normalizeBuylistBudget(150)).toBe(150)
+  })
+})
+
+describe('meetsMinCondition', () => {
+  it('accepts the minimum condition and anything better', () => {
+    expect(meetsMinCondition('LP', 'LP')).toBe(true)
+    expect(meetsMinCondition('NM', 'LP')).toBe(true)
+    expect(meetsMinCondition('M', 'NM')).toBe(true)
+  })
+
+  it('rejects anything worse than the minimum', () => {
+    expect(meetsMinCondition('MP', 'LP')).toBe(false)
+    expect(meetsMinCondition('PO', 'HP')).toBe(false)
+  })
+
+  it('accepts any condition when there is no minimum', () => {
+    expect(meetsMinCondition('PO', undefined)).toBe(true)
+  })
+})
+
+describe('calculateCashOffer', () => {
+  const buylist = [
+    makePreference({ name: 'Lightning Bolt', type: 'COMPRO', offerPrice: 1.5, quantity: 4, condition: 'LP' }),
+    makePreference({ name: 'Counterspell', type: 'COMPRO', offerPrice: 2, quantity: 1, condition: 'NM' }),
+  ]
+
+  it('pays the offer price per copy, up to the copies the buyer wants', () => {
+    const myCards = [makeCard({ id: 'c1', name: 'Lightning Bolt', condition: 'NM', quantity: 6, status: 'trade' })]
+
+    const offer = calculateCashOffer(myCards, buylist)
+
+    expect(offer).toEqual({
+      total: 6,
+      capped: false,
+      lines: [expect.objectContaining({ cardId: 'c1', quantity: 4, offerPrice: 1.5 })],
+    })
+  })
+
+  it('matches by name across printings and spreads the wanted copies over them', () => {
+    const myCards = [
+      makeCard({ id: 'c1', name: 'Lightning Bolt', condition: 'NM', quantity: 3, status: 'sale' }),
+      makeCard({ id: 'c2', name: 'lightning bolt', condition: 'LP', quantity: 3, status: 'trade', edition: 'M10' }),
+    ]
+
+    const offer = calculateCashOffer(myCards, buylist)
+
+    expect(offer?.lines.map(l => [l.cardId, l.quantity])).toEqual([['c1', 3], ['c2', 1]])
+    expect(offer?.total).toBe(6)
+  })
+
+  it('leaves out cards below the minimum condition', () => {
+    const myCards = [
+      makeCard({ id: 'c1', name: 'Lightning Bolt', condition: 'MP', status: 'trade' }),
+      makeCard({ id: 'c2', name: 'Counterspell', condition: 'LP', status: 'trade' }),
+    ]
+
+    expect(calculateCashOffer(myCards, buylist)).toBeNull()
+  })
+
+  it('never offers more than the budget and flags the cap', () => {
+    const myCards = [
+      makeCard({ id: 'c1', name: 'Counterspell', condition: 'NM', quantity: 1, status: 'trade' }),
+      makeCard({ id: 'c2', name: 'Lightning Bolt', condition: 'NM', quantity: 4, status: 'trade' }),
+    ]
+
+    const offer = calculateCashOffer(myCards, buylist, 5)
+
+    expect(offer?.lines.map(l => [l.cardId, l.quantity])).toEqual([['c1', 1], ['c2', 2]])
+    expect(offer?.total).toBe(5)
+    expect(offer?.capped).toBe(true)
+  })
+
+  it('ignores wishlist cards and non-buylist preferences', () => {
+    const myCards = [
+      makeCard({ id: 'c1', name: 'Lightning Bolt', condition: 'NM', status: 'wishlist' }),
+      makeCard({ id: 'c2', name: 'Brainstorm', condition: 'NM', status: 'trade' }),
+    ]
+    const prefs = [...buylist, makePreference({ name: 'Brainstorm', type: 'BUSCO', offerPrice: 1 })]
+
+    expect(calculateCashOffer(myCards, prefs)).toBeNull()
+  })
+})
@@ -8,6 +8,12 @@ import {
   isUrzasGathererCsv,
   parseUrzasGathererConditions,
   parseUrzasGathererCsv,
+  detectCsvFormat,
+  parseCsvImport,
+  parseCsvWithMapping,
+  guessCsvColumnMapping,
+  readCsvHeaders,
+  normalizeCsvLanguage,
 } from '@/utils/cardHelpers'
 import { makeCsvCard } from '../helpers/fixtures'
 
@@ -159,6 +165,7 @@ describe('parseCsvDeckImport', () => {
       quantity: 3,
       condition: 'LP',
       price: 1.50,
+      purchasePrice: 1.50,
     })
   })
 
@@ -247,7 +254,7 @@ describe('buildMoxfieldCsv', () => {
   it('produces correct header and data line for a single card', () => {
     const csv = buildMoxfieldCsv([makeCsvCard()])
     const lines = csv.split('\n')
-    expect(lines[0]).toBe('Count,Name,Edition,Condition,Language,Foil,Collector Number,Alter,Proxy,Purchase Price')
+    expect(lines[0]).toBe('Count,Name,Edition,Condition,Language,Foil,Collector Number,Alter,Proxy,Purchase Price,Location')
     expect(lines[1]).toContain('Sol Ring')
     expect(lines[1]).toContain('C21')
   })
@@ -628,3 +635,112 @@ describe('parseUrzasGathererCsv', () => {
     expect(isCsvFormat(csv)).toBe(true)
   })
 })
+
+// ─── detectCsvFormat / parseCsvImport (Deckbox, TCGplayer, Archidekt, Dragon Shield, Delver Lens) ──
+
+describe('detectCsvFormat', () => {
+  it('distingue Deckbox de Moxfield aunque ambos traigan "Tradelist Count"', () => {
+    const deckbox = 'Count,Tradelist Count,Name,Edition,Card Number,Condition,Language,Foil,Signed,Artist Proof,Altered Art,Misprint,Promo,Textless,My Price\n1,0,Sol Ring,Commander 2021,263,Near Mint,English,,,,,,,,$1.50'
+    const moxfield = 'Count,Tradelist Count,Name,Edition,Condition,Language,Foil,Tags,Last Modified,Collector Number,Alter,Proxy,Purchase Price\n1,0,Sol Ring,c21,Near Mint,English,,,,263,False,False,'
+    expect(detectCsvFormat(deckbox)).toBe('deckbox')
+    expect(detectCsvFormat(moxfield)).toBe('moxfield')
+  })
+
+  it('reconoce TCGplayer, Archidekt, Dragon Shield y Delver Lens', () => {
+    expect(detectCsvFormat('Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition,Language,Rarity,Product ID,SKU,Price\n1,x,x,x,1,X,Normal,Near Mint,English,R,1,1,1')).toBe('tcgplayer')
+    expect(detectCsvFormat('Quantity,Name,Finish,Condition,Language,Edition Name,Edition Code,Scryfall ID,Collector Number\n1,x,Normal,NM,EN,x,x,x,1')).toBe('archidekt')
+    expect(detectCsvFormat('"sep=,"\nFolder Name,Quantity,Trade Quantity,Card Name,Set Code,Set Name,Card Number,Condition,Printing,Language,Price Bought\nBinder,1,0,x,X,x,1,NearMint,Normal,English,1')).toBe('dragonShield')
+    expect(detectCsvFormat("Name,Quantity,Edition,Collector's number,Foil,Condition,Language\nx,1,x,1,,Near Mint,English")).toBe('delverLens')
+  })
+
+  it('sigue detectando ManaBox y Urza\'s Gatherer como antes', () => {
+    expect(detectCsvFormat('Name,Set code,Set name,Collector number,Foil,Quantity,Scryfall ID\nx,X,x,1,,1,id')).toBe('manabox')
+    expect(detectCsvFormat('Name,Type,Color,Rarity,Set code,Count,Foil count,Multiverse ID\nx,x,x,x,X,1,0,1')).toBe('urzasGatherer')
+  })
+
+  it('una tabla desconocida con columna de nombre es "generic"; una lista de texto no es CSV', () => {
+    expect(detectCsvFormat('Card,Qty,Set\nSol Ring,2,C21')).toBe('generic')
+    expect(detectCsvFormat('4 Lightning Bolt\n2 Counterspell')).toBeNull()
+  })
+})
+
+describe('parseCsvImport', () => {
+  it('Deckbox: nombre de set sin código, vocabulario de condición propio y precio con $', () => {
+    const csv = [
+      'Count,Tradelist Count,Name,Edition,Card Number,Condition,Language,Foil,Signed,Artist Proof,Altered Art,Misprint,Promo,Textless,My Price',
+      '2,0,Sol Ring,Commander 2021,263,Good (Lightly Played),Japanese,foil,,,,,,,$1.50',
+      '1,0,Counterspell,Masters 25,50,Played,English,,,,,,,,',
+    ].join('\n')
+    const [ring, spell] = parseCsvImport(csv)
+    expect(ring).toMatchObject({ name: 'Sol Ring', setCode: '', setName: 'Commander 2021', collectorNumber: '263', quantity: 2, condition: 'LP', language: 'ja', foil: true, price: 1.5 })
+    // "My Price" es el precio de venta, no lo que se pagó
+    expect(ring?.purchasePrice).toBeUndefined()
+    expect(spell).toMatchObject({ condition: 'MP', foil: false, language: 'en' })
+  })
+
+  it('TCGplayer: usa Simple Name, foil por Printing o dentro de la condición', () => {
+    const csv = [
+      'Quantity,Name,Simple Name,Set,Card Number,Set Code,Printing,Condition,Language,Rarity,Product ID,SKU,Price',
+      '1,Lightning Bolt (Borderless),Lightning Bolt,Double Masters 2022,1,2X2,Foil,Lightly Played,English,U,1,2,3.25',
+      '3,Opt,Opt,Dominaria,60,DOM,Normal,Near Mint Foil,English,C,3,4,0.10',
+    ].join('\n')
+    const [bolt, opt] = parseCsvImport(csv)
+    expect(bolt).toMatchObject({ name: 'Lightning Bolt', setCode: '2X2', foil: true, condition: 'LP', price: 3.25 })
+    expect(bolt?.purchasePrice).toBeUndefined()
+    expect(opt).toMatchObject({ name: 'Opt', quantity: 3, foil: true, condition: 'NM' })
+  })
+
+  it('Archidekt: condición y lenguaje en códigos, Etched cuenta como foil', () => {
+    const csv = [
+      'Quantity,Name,Finish,Condition,Date Added,Language,Purchase Price,Tags,Edition Name,Edition Code,Scryfall ID,Collector Number',
+      '1,Sol Ring,Etched,D,2024-01-01,JP,2.5,,Commander Masters,cmm,sc-1,400',
+    ].join('\n')
+    expect(parseCsvImport(csv)[0]).toMatchObject({ setCode: 'CMM', foil: true, condition: 'PO', language: 'ja', scryfallId: 'sc-1', price: 2.5, purchasePrice: 2.5 })
+  })
+
+  it('Dragon Shield: salta "sep=," y usa la escala europea (LightPlayed = MP)', () => {
+    const csv = [
+      '"sep=,"',
+      'Folder Name,Quantity,Trade Quantity,Card Name,Set Code,Set Name,Card Number,Condition,Printing,Language,Price Bought,Date Bought',
+      'Binder,2,0,"Jace, the Mind Sculptor",A25,Masters 25,62,LightPlayed,Foil,German,"12,50",2024-01-01',
+    ].join('\r\n')
+    expect(parseCsvImport(csv)[0]).toMatchObject({ name: 'Jace, the Mind Sculptor', quantity: 2, condition: 'MP', foil: true, language: 'de', price: 12.5, purchasePrice: 12.5 })
+  })
+
+  it('Delver Lens: set por nombre en "Edition"', () => {
+    const csv = "Name,Quantity,Edition,Collector's number,Foil,Condition,Language\nOpt,4,Dominaria,60,,Excellent,Spanish"
+    expect(parseCsvImport(csv)[0]).toMatchObject({ name: 'Opt', quantity: 4, setName: 'Dominaria', collectorNumber: '60', condition: 'LP', language: 'es' })
+  })
+})
+
+describe('column mapping fallback', () => {
+  it('adivina las columnas por sinónimos y quita el BOM', () => {
+    const headers = readCsvHeaders('\uFEFFCarta,Cantidad,Edition,Idioma\nSol Ring,2,C21,EN')
+    expect(headers[0]).toBe('Carta')
+    expect(guessCsvColumnMapping(headers)).toEqual({ name: 0, quantity: 1, setName: 2, language: 3 })
+  })
+
+  it('el precio de compra va en su propia columna, separado del precio', () => {
+    expect(guessCsvColumnMapping(['Name', 'Price', 'Purchase Price'])).toEqual({ name: 0, price: 1, purchasePrice: 2 })
+    expect(guessCsvColumnMapping(['Name', 'Cost'])).toEqual({ name: 0 })
+  })
+
+  it('parsea con un mapeo explícito; sin columna de cantidad cada fila es una copia', () => {
+    const csv = 'a,b,c\nSol Ring,C21,nm\nOpt,DOM,hp'
+    expect(parseCsvWithMapping(csv, { name: 0, setCode: 1, condition: 2 })).toEqual([
+      { name: 'Sol Ring', setCode: 'C21', quantity: 1, foil: false, language: undefined, scryfallId: '', price: 0, condition: 'NM' },
+      { name: 'Opt', setCode: 'DOM', quantity: 1, foil: false, language: undefined, scryfallId: '', price: 0, condition: 'HP' },
+    ])
+    expect(parseCsvWithMapping(csv, { setCode: 1 })).toEqual([])
+  })
+})
+
+describe('normalizeCsvLanguage', () => {
+  it('acepta nombres, códigos Scryfall y alias de otras apps', () => {
+    expect(normalizeCsvLanguage('Chinese Simplified')).toBe('zhs')
+    expect(normalizeCsvLanguage('KR')).toBe('ko')
+    expect(normalizeCsvLanguage('pt')).toBe('pt')
+    expect(normalizeCsvLanguage('')).toBeUndefined()
+    expect(normalizeCsvLanguage('Klingon dialect')).toBeUndefined()
+  })
+})
@@ -137,6 +137,23 @@ describe('collectionFilters', () => {
       expect(result.edition).toEqual(['M25', 'NEO'])
     })
 
+    it('maps selected storage locations, undefined when none', () => {
+      const params = {
+        statusFilter: 'all' as const,
+        selectedColors: new Set(['White', 'Blue', 'Black', 'Red', 'Green', 'Colorless']),
+        selectedTypes: new Set(['Creatures', 'Instants', 'Sorceries', 'Enchantments', 'Artifacts', 'Planeswalkers', 'Lands']),
+        selectedRarities: new Set(['Common', 'Uncommon', 'Rare', 'Mythic']),
+        selectedManaValues: new Set(['0', '1', '2', '3', '4', '5', '6', '7', '8', '9', '10+', 'Lands']),
+        filterQuery: '',
+        advFoilFilter: 'any' as const,
+        advSelectedSets: [],
+        advPriceMin: undefined,
+        advPriceMax: undefined,
+      }
+      expect(buildPaginationFilters({ ...params, advSelectedLocations: ['Box A', ''] }).location).toEqual(['Box A', ''])
+      expect(buildPaginationFilters(params).location).toBeUndefined()
+    })
+
     it('maps minPrice and maxPrice', () => {
       const result = buildPaginationFilters({
         statusFilter: 'all',
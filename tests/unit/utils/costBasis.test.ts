@@ -0,0 +1,67 @@
+import { collectionGain, costBasisOf, realizeSale, unrealizedGain } from '@/utils/costBasis'
+import type { AcquisitionLot } from '@/types/card'
+
+const lot = (quantity: number, unitPrice: number | null, date: string): AcquisitionLot =>
+  ({ quantity, unitPrice, date, source: 'buy', counterparty: '' })
+
+describe('costBasisOf', () => {
+  it('usa los lotes del doc completo, recortados a la cantidad actual', () => {
+    expect(costBasisOf({ quantity: 2, acquisitions: [lot(1, 10, '2025-01-01'), lot(2, 4, '2026-01-01')] }))
+      .toEqual({ quantity: 2, cost: 8 })
+  })
+
+  it('sin lotes cae al resumen del card_index', () => {
+    expect(costBasisOf({ quantity: 3, costBasis: { quantity: 1, cost: 2 } })).toEqual({ quantity: 1, cost: 2 })
+  })
+
+  it('null cuando no se conoce ningún precio de compra', () => {
+    expect(costBasisOf({ quantity: 1, acquisitions: [lot(1, null, '2026-01-01')] })).toBeNull()
+    expect(costBasisOf({ quantity: 1 })).toBeNull()
+  })
+})
+
+describe('unrealizedGain', () => {
+  it('valúa solo las copias con costo conocido', () => {
+    expect(unrealizedGain({ quantity: 2, cost: 8 }, 5)).toEqual({ quantity: 2, cost: 8, value: 10, gain: 2, percent: 25 })
+  })
+
+  it('percent null con costo cero (regalo valuado en 0)', () => {
+    expect(unrealizedGain({ quantity: 1, cost: 0 }, 3)?.percent).toBeNull()
+    expect(unrealizedGain(null, 3)).toBeNull()
+  })
+})
+
+describe('realizeSale', () => {
+  it('descuenta FIFO y calcula la ganancia realizada', () => {
+    const res = realizeSale([lot(1, 2, '2025-01-01'), lot(2, 6, '2026-01-01')], 2, 7)
+    expect(res.proceeds).toBe(14)
+    expect(res.cost).toBe(8)
+    expect(res.profit).toBe(6)
+    expect(res.remaining).toEqual([lot(1, 6, '2026-01-01')])
+  })
+
+  it('sin costo conocido para todas las copias vendidas no inventa la ganancia', () => {
+    const res = realizeSale([lot(1, 2, '2025-01-01')], 2, 5)
+    expect(res.proceeds).toBe(10)
+    expect(res.cost).toBeNull()
+    expect(res.profit).toBeNull()
+  })
+})
+
+describe('collectionGain', () => {
+  it('suma solo cartas poseídas con costo conocido y precio', () => {
+    const cards = [
+      { status: 'collection' as const, quantity: 2, costBasis: { quantity: 2, cost: 4 } },
+      { status: 'sale' as const, quantity: 1, acquisitions: [lot(1, 10, '2026-01-01')] },
+      { status: 'wishlist' as const, quantity: 1, costBasis: { quantity: 1, cost: 99 } },
+      { status: 'trade' as const, quantity: 1 },
+    ]
+    const values = [5, 6, 1, 1]
+    expect(collectionGain(cards, c => values[cards.indexOf(c)] ?? null))
+      .toEqual({ quantity: 3, cost: 14, value: 16, gain: 2, percent: (2 / 14) * 100 })
+  })
+
+  it('null si ninguna carta tiene costo', () => {
+    expect(collectionGain([{ status: 'collection', quantity: 1 }], () => 3)).toBeNull()
+  })
+})
@@ -0,0 +1,68 @@
+import { formatMoney, isCurrencyCode, resolveRate, usdSourceLabel } from '@/utils/currency'
+import type { ExchangeRates } from '@/types/currency'
+
+// Intl separa moneda y número con un espacio duro
+const plain = (text: string) => text.replace(/\u00a0/g, ' ')
+
+const rates: ExchangeRates = {
+    rates: new Map([['ARS', 1000], ['EUR', 0.9]]),
+    informal: new Map([['ARS', 1450]]),
+    updatedAt: null,
+}
+
+describe('resolveRate', () => {
+    it('USD is always 1', () => {
+        expect(resolveRate('USD', null, 1450)).toBe(1)
+    })
+
+    it('uses the official rate unless the user set a manual one', () => {
+        expect(resolveRate('ARS', rates, null)).toBe(1000)
+        expect(resolveRate('ARS', rates, 1450)).toBe(1450)
+    })
+
+    it('ignores junk overrides and returns null without a rate', () => {
+        expect(resolveRate('ARS', rates, 0)).toBe(1000)
+        expect(resolveRate('ARS', rates, Number.NaN)).toBe(1000)
+        expect(resolveRate('BRL', rates, null)).toBeNull()
+        expect(resolveRate('ARS', null, undefined)).toBeNull()
+    })
+})
+
+describe('formatMoney', () => {
+    it('keeps the plain USD format without a display', () => {
+        expect(formatMoney(12.5)).toBe('$12.50')
+        expect(formatMoney(12.5, null)).toBe('$12.50')
+        expect(formatMoney(12.5, { currency: 'USD', rate: 1 })).toBe('$12.50')
+    })
+
+    it('converts and labels pesos with their code', () => {
+        expect(plain(formatMoney(12.5, { currency: 'ARS', rate: 1450 }))).toBe('ARS 18.125')
+        expect(plain(formatMoney(10, { currency: 'CLP', rate: 950.4 }))).toBe('CLP 9.504')
+        expect(plain(formatMoney(10, { currency: 'MXN', rate: 17.2 }))).toBe('MXN 172.00')
+    })
+
+    it('uses the symbol for euros and reais', () => {
+        expect(plain(formatMoney(10, { currency: 'EUR', rate: 0.9 }))).toBe('9,00 €')
+        expect(plain(formatMoney(10, { currency: 'BRL', rate: 5.5 }))).toBe('R$ 55,00')
+    })
+})
+
+describe('usdSourceLabel', () => {
+    it('shows the USD source and the rate used', () => {
+        expect(plain(usdSourceLabel(12.5, { currency: 'ARS', rate: 1450 }) ?? '')).toBe('US$12.50 · 1 USD = ARS 1.450')
+    })
+
+    it('is undefined without conversion or without a number', () => {
+        expect(usdSourceLabel(12.5, null)).toBeUndefined()
+        expect(usdSourceLabel(12.5, { currency: 'USD', rate: 1 })).toBeUndefined()
+        expect(usdSourceLabel('12.5', { currency: 'ARS', rate: 1450 })).toBeUndefined()
+    })
+})
+
+describe('isCurrencyCode', () => {
+    it('accepts only the supported codes', () => {
+        expect(isCurrencyCode('COP')).toBe(true)
+        expect(isCurrencyCode('GBP')).toBe(false)
+        expect(isCurrencyCode(undefined)).toBe(false)
+    })
+})
@@ -0,0 +1,30 @@
+import { DECK_FORMATS, formatFromMoxfield, isCommanderFormat, karstenDeckSize } from '@/utils/deckFormats'
+
+describe('deckFormats', () => {
+  it('incluye los formatos nuevos y custom al final', () => {
+    expect(DECK_FORMATS).toEqual(expect.arrayContaining(['pioneer', 'legacy', 'pauper', 'premodern', 'brawl', 'oathbreaker']))
+    expect(DECK_FORMATS.at(-1)).toBe('custom')
+  })
+
+  it('commander, brawl y oathbreaker llevan comandante', () => {
+    expect(DECK_FORMATS.filter(isCommanderFormat)).toEqual(['commander', 'brawl', 'oathbreaker'])
+    expect(isCommanderFormat(undefined)).toBe(false)
+  })
+
+  it('formatFromMoxfield entiende los alias y manda lo desconocido a custom', () => {
+    expect(formatFromMoxfield('pauper')).toBe('pauper')
+    expect(formatFromMoxfield('EDH')).toBe('commander')
+    expect(formatFromMoxfield('historicBrawl')).toBe('brawl')
+    expect(formatFromMoxfield('penny')).toBe('custom')
+    expect(formatFromMoxfield(undefined)).toBe('custom')
+  })
+
+  it('karstenDeckSize: 99 en commander/brawl, 40 en custom de limitado, 60 el resto', () => {
+    expect(karstenDeckSize('commander', 100)).toBe(99)
+    expect(karstenDeckSize('brawl', 100)).toBe(99)
+    expect(karstenDeckSize('oathbreaker', 60)).toBe(60)
+    expect(karstenDeckSize('custom', 40)).toBe(40)
+    expect(karstenDeckSize('custom', 60)).toBe(60)
+    expect(karstenDeckSize('pauper', 40)).toBe(60)
+  })
+})
@@ -0,0 +1,106 @@
+import { colorIdentityOf, type LegalityCardInput, validateDeck } from '@/utils/deckLegality'
+
+const legalIn = (...formats: string[]): Record<string, string> =>
+  Object.fromEntries(['standard', 'modern', 'vintage', 'pauper', 'commander', 'oathbreaker'].map(f => [f, formats.includes(f) ? 'legal' : 'not_legal']))
+
+const card = (over: Partial<LegalityCardInput> = {}): LegalityCardInput => ({
+  name: 'Lightning Bolt',
+  quantity: 4,
+  isInSideboard: false,
+  type_line: 'Instant',
+  legalities: legalIn('modern', 'vintage', 'commander'),
+  colorIdentity: ['R'],
+  ...over,
+})
+
+const basics = (quantity: number, isInSideboard = false): LegalityCardInput =>
+  card({ name: 'Mountain', quantity, isInSideboard, type_line: 'Basic Land — Mountain', legalities: legalIn('standard', 'modern', 'vintage', 'pauper', 'commander', 'oathbreaker'), colorIdentity: ['R'] })
+
+const kinds = (report: ReturnType<typeof validateDeck>) => report.issues.map(i => i.kind)
+
+describe('validateDeck', () => {
+  it('custom no se comprueba', () => {
+    expect(validateDeck('custom', [card({ quantity: 40 })])).toEqual({ format: 'custom', checked: false, legal: true, issues: [] })
+  })
+
+  it('modern: 60 con 4 copias y basicas sin limite es legal', () => {
+    const report = validateDeck('modern', [card(), basics(56)])
+    expect(report.legal).toBe(true)
+    expect(report.issues).toEqual([])
+  })
+
+  it('tamaño de main y banquillo', () => {
+    expect(kinds(validateDeck('modern', [card(), basics(50)]))).toEqual(['mainTooSmall'])
+    expect(kinds(validateDeck('modern', [card(), basics(56), basics(16, true)]))).toEqual(['sideboardTooLarge'])
+  })
+
+  it('las copias se cuentan por nombre entre main y banquillo', () => {
+    const report = validateDeck('modern', [card({ quantity: 3 }), card({ quantity: 2, isInSideboard: true }), basics(57)])
+    expect(report.issues).toEqual([expect.objectContaining({ kind: 'tooManyCopies', cardName: 'Lightning Bolt', count: 5, limit: 4 })])
+  })
+
+  it('prohibida, no legal y restringida en vintage', () => {
+    const report = validateDeck('vintage', [
+      card({ name: 'Chaos Orb', quantity: 1, legalities: { vintage: 'banned' } }),
+      card({ name: 'Ancestral Recall', quantity: 2, legalities: { vintage: 'restricted' } }),
+      card({ name: 'Black Lotus', quantity: 1, legalities: { vintage: 'restricted' } }),
+      card({ name: 'Token', quantity: 1, legalities: { vintage: 'not_legal' } }),
+      basics(56),
+    ])
+    expect(report.legal).toBe(false)
+    expect(kinds(report).sort()).toEqual(['banned', 'notLegal', 'restricted'])
+  })
+
+  it('sin datos de legalidad es un aviso, no un error', () => {
+    const report = validateDeck('modern', [card({ legalities: undefined }), basics(56)])
+    expect(report.legal).toBe(true)
+    expect(report.issues).toEqual([{ kind: 'unverified', severity: 'warning', cardName: 'Lightning Bolt' }])
+  })
+})
+
+describe('validateDeck — commander', () => {
+  const commander = card({ name: 'Krenko, Mob Boss', quantity: 1, type_line: 'Legendary Creature — Goblin Warrior' })
+
+  it('100 singleton dentro de la identidad del comandante es legal; el banquillo no cuenta', () => {
+    const report = validateDeck('commander', [commander, card({ quantity: 1 }), basics(98), card({ name: 'Counterspell', quantity: 3, isInSideboard: true, colorIdentity: ['U'] })], ['Krenko, Mob Boss'])
+    expect(report.issues).toEqual([])
+  })
+
+  it('singleton, identidad de color y comandante ausente', () => {
+    const report = validateDeck('commander', [
+      commander,
+      card({ quantity: 2 }),
+      card({ name: 'Counterspell', quantity: 1, colorIdentity: ['U'] }),
+      basics(96),
+    ], ['Krenko, Mob Boss'])
+    expect(kinds(report).sort()).toEqual(['colorIdentity', 'tooManyCopies'])
+    expect(kinds(validateDeck('commander', [card({ quantity: 1 }), basics(99)], ['Krenko, Mob Boss']))).toEqual(['commanderMissing'])
+  })
+
+  it('un comandante de dos caras se reconoce por cualquiera de sus caras', () => {
+    const dfc = card({ name: 'Esika, God of the Tree // The Prismatic Bridge', quantity: 1, colorIdentity: ['G', 'W', 'U', 'B', 'R'] })
+    expect(kinds(validateDeck('commander', [dfc, basics(99)], ['Esika, God of the Tree']))).toEqual([])
+  })
+})
+
+describe('validateDeck — formatos nuevos', () => {
+  it('pauper mira la legalidad de pauper', () => {
+    const report = validateDeck('pauper', [card({ legalities: { pauper: 'not_legal' } }), basics(56)])
+    expect(kinds(report)).toEqual(['notLegal'])
+  })
+
+  it('oathbreaker: 60 exactas, singleton y con comandante', () => {
+    const walker = card({ name: 'Chandra, Torch of Defiance', quantity: 1, legalities: { oathbreaker: 'legal' } })
+    const bolt = card({ quantity: 1, legalities: { oathbreaker: 'legal' } })
+    const mountains = basics(58)
+    expect(kinds(validateDeck('oathbreaker', [walker, bolt, mountains], ['Chandra, Torch of Defiance']))).toEqual([])
+    expect(kinds(validateDeck('oathbreaker', [walker, bolt, basics(59)], ['Chandra, Torch of Defiance']))).toEqual(['mainTooLarge'])
+  })
+})
+
+describe('colorIdentityOf', () => {
+  it('une colores, coste y símbolos del texto, con híbridos', () => {
+    expect(colorIdentityOf({ colors: ['G'], mana_cost: '{1}{G}', oracle_text: '{T}: Add {R}. Pay {W/U}.' })).toEqual(['W', 'U', 'R', 'G'])
+    expect(colorIdentityOf({})).toEqual([])
+  })
+})
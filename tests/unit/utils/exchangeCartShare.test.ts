@@ -21,6 +21,13 @@ function makeItem(overrides: Partial<ExchangeCartItem> = {}): ExchangeCartItem {
 const BASE_URL = 'https://cranial-trading.web.app'
 
 describe('formatCartAsText', () => {
+  it('converts to the viewer currency and keeps the USD total', () => {
+    const items = [makeItem({ quantity: 2, price: 1.5 })]
+    const text = formatCartAsText('rafael', items, BASE_URL, { currency: 'ARS', rate: 1000 }).replace(/\u00a0/g, ' ')
+    expect(text).toContain('2x Lightning Bolt (MH2) - ARS 1.500 each')
+    expect(text).toContain('Total: ARS 3.000 (US$3.00)')
+  })
+
   it('formats a single item correctly', () => {
     const items = [makeItem()]
     const text = formatCartAsText('rafael', items, BASE_URL)
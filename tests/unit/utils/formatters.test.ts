@@ -50,4 +50,19 @@ describe('formatters', () => {
       expect(formatDollarChange(-99.99)).toBe('-$99.99')
     })
   })
+
+  describe('con moneda local', () => {
+    const ars = { currency: 'ARS' as const, rate: 1000 }
+
+    it('formatPrice convierte y sigue devolviendo N/A para basura', () => {
+      expect(formatPrice(1.5, ars).replace(/\u00a0/g, ' ')).toBe('ARS 1.500')
+      expect(formatPrice('2', ars).replace(/\u00a0/g, ' ')).toBe('ARS 2.000')
+      expect(formatPrice(undefined, ars)).toBe('N/A')
+    })
+
+    it('formatDollarChange pone el signo delante del monto convertido', () => {
+      expect(formatDollarChange(-0.5, ars).replace(/\u00a0/g, ' ')).toBe('-ARS 500')
+      expect(formatDollarChange(0, ars).replace(/\u00a0/g, ' ')).toBe('ARS 0')
+    })
+  })
 })
@@ -181,6 +181,56 @@ describe('importHelpers', () => {
       expect(result.image).toContain('xyz-789')
     })
 
+    it('el Purchase price del CSV queda como lote de compra importado', () => {
+      const csvCard = {
+        name: 'Counterspell',
+        setCode: 'MH2',
+        quantity: 4,
+        foil: false,
+        scryfallId: 'xyz-789',
+        price: 2.5,
+        purchasePrice: 2.5,
+        condition: 'NM' as const,
+      }
+      expect(buildRawCsvCard(csvCard, 'collection', false).acquisitions).toEqual([
+        expect.objectContaining({ quantity: 4, unitPrice: 2.5, source: 'import' }),
+      ])
+      expect(buildRawCsvCard({ ...csvCard, purchasePrice: undefined }, 'collection', false).acquisitions?.[0]?.unitPrice).toBeNull()
+    })
+
+    it('un precio de mercado o de venta no se toma como costo', () => {
+      const csvCard = {
+        name: 'Sol Ring',
+        setCode: '',
+        setName: 'Commander 2021',
+        quantity: 2,
+        foil: false,
+        scryfallId: '',
+        price: 1.5,
+        condition: 'NM' as const,
+      }
+      const result = buildRawCsvCard(csvCard, 'collection', false)
+      expect(result.price).toBe(1.5)
+      expect(result.acquisitions?.[0]?.unitPrice).toBeNull()
+    })
+
+    it('sin código de set (Deckbox) usa el nombre del set como edición', () => {
+      const csvCard = {
+        name: 'Sol Ring',
+        setCode: '',
+        setName: 'Commander 2021',
+        quantity: 1,
+        foil: false,
+        scryfallId: '',
+        price: 0,
+        condition: 'NM' as const,
+      }
+      const result = buildRawCsvCard(csvCard, 'collection', false)
+      expect(result.edition).toBe('Commander 2021')
+      expect(result.setCode).toBeUndefined()
+      expect(buildRawCsvCard({ ...csvCard, setName: undefined }, 'collection', false).edition).toBe('Unknown')
+    })
+
     it('defaults status to collection when undefined', () => {
       const csvCard = {
         name: 'Test',
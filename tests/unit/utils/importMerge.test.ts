@@ -0,0 +1,69 @@
+import { planImportMerge, resolveImportTargets } from '@/utils/importMerge'
+import type { AcquisitionLot } from '@/types/card'
+
+const lot = (quantity: number, unitPrice: number | null): AcquisitionLot =>
+  ({ quantity, unitPrice, date: '2026-01-01', source: 'buy', counterparty: '' })
+
+const row = (over: Partial<{ scryfallId: string; name: string; quantity: number; foil: boolean; status: 'collection' | 'sale' | 'wishlist'; acquisitions: AcquisitionLot[] }> = {}) => ({
+  scryfallId: 'bolt', name: 'Lightning Bolt', edition: 'M10', condition: 'NM' as const, foil: false,
+  status: 'collection' as const, quantity: 1, ...over,
+})
+
+const owned = (id: string, over: Parameters<typeof row>[0] = {}) => ({ id, ...row(over) })
+
+describe('planImportMerge', () => {
+  it('addQuantities suma al doc existente y crea lo desconocido', () => {
+    const plan = planImportMerge(
+      [row({ quantity: 2 }), row({ scryfallId: 'mesa', name: 'Arid Mesa', quantity: 1 })],
+      [owned('c1', { quantity: 3 })],
+      { mode: 'addQuantities', removeMissing: false },
+    )
+    expect(plan.updates).toEqual([expect.objectContaining({ cardId: 'c1', from: 3, to: 5 })])
+    expect(plan.creates).toEqual([expect.objectContaining({ index: 1, quantity: 1 })])
+    expect(plan.summary).toEqual(expect.objectContaining({ newCards: 1, newCopies: 1, updatedCards: 1, copiesAdded: 2 }))
+  })
+
+  it('las filas repetidas del archivo se agrupan en un solo doc', () => {
+    const plan = planImportMerge([row({ quantity: 1 }), row({ quantity: 2 })], [], { mode: 'addQuantities', removeMissing: false })
+    expect(plan.creates).toEqual([expect.objectContaining({ index: 0, quantity: 3 })])
+    expect(resolveImportTargets(plan, ['nuevo'])).toEqual(['nuevo', 'nuevo'])
+  })
+
+  it('foil, condición o status distintos son otra impresión', () => {
+    const plan = planImportMerge([row({ foil: true }), row({ status: 'sale' })], [owned('c1')], { mode: 'addQuantities', removeMissing: false })
+    expect(plan.updates).toEqual([])
+    expect(plan.creates).toHaveLength(2)
+  })
+
+  it('onlyNew deja como están las impresiones conocidas', () => {
+    const plan = planImportMerge([row({ quantity: 4 })], [owned('c1', { quantity: 1 })], { mode: 'onlyNew', removeMissing: false })
+    expect(plan.updates).toEqual([])
+    expect(plan.summary.unchangedCards).toBe(1)
+    expect(resolveImportTargets(plan, [])).toEqual(['c1'])
+  })
+
+  it('replaceSnapshot fija la cantidad del archivo y recorta los lotes FIFO', () => {
+    const plan = planImportMerge(
+      [row({ quantity: 1 })],
+      [owned('c1', { quantity: 3, acquisitions: [lot(2, 1), lot(1, 5)] })],
+      { mode: 'replaceSnapshot', removeMissing: false },
+    )
+    expect(plan.updates).toEqual([expect.objectContaining({ from: 3, to: 1, acquisitions: [lot(1, 5)] })])
+    expect(plan.summary.copiesRemoved).toBe(2)
+  })
+
+  it('removeMissing borra lo que el archivo no trae, sin tocar otros status', () => {
+    const plan = planImportMerge(
+      [row()],
+      [owned('c1'), owned('c2', { scryfallId: 'mesa', quantity: 2 }), owned('c3', { scryfallId: 'x', status: 'wishlist' })],
+      { mode: 'replaceSnapshot', removeMissing: true },
+    )
+    expect(plan.removals.map(r => r.cardId)).toEqual(['c2'])
+    expect(plan.summary).toEqual(expect.objectContaining({ removedCards: 1, copiesRemoved: 2, unchangedCards: 1 }))
+  })
+
+  it('removeMissing no hace nada fuera de replaceSnapshot', () => {
+    const plan = planImportMerge([row()], [owned('c2', { scryfallId: 'mesa' })], { mode: 'addQuantities', removeMissing: true })
+    expect(plan.removals).toEqual([])
+  })
+})
@@ -0,0 +1,156 @@
+import {
+  applyReview,
+  buildSetCodeLookup,
+  canCommitReview,
+  type ImportReviewRow,
+  namesToRetry,
+  parseTextImportRows,
+  rankCandidates,
+  reconcileRows,
+  resolveSetNames,
+  reviewSummary,
+  rowIdentifier,
+} from '@/utils/importReconciliation'
+import type { ScryfallCard } from '@/services/scryfall'
+
+const card = (over: Partial<ScryfallCard>): ScryfallCard => ({
+  id: 'id',
+  name: 'Card',
+  set: 'set',
+  set_name: 'Set',
+  collector_number: '1',
+  rarity: 'common',
+  type_line: 'Instant',
+  ...over,
+})
+
+const bolt2x2 = card({ id: 'bolt-2x2', name: 'Lightning Bolt', set: '2x2', set_name: 'Double Masters 2022', collector_number: '117', prices: { usd: '1.50' } })
+const boltM10 = card({ id: 'bolt-m10', name: 'Lightning Bolt', set: 'm10', set_name: 'Magic 2010', collector_number: '146' })
+const delver = card({
+  id: 'delver-isd', name: 'Delver of Secrets // Insectile Aberration', set: 'isd', collector_number: '51',
+  card_faces: [{ name: 'Delver of Secrets' }, { name: 'Insectile Aberration' }],
+})
+
+describe('parseTextImportRows', () => {
+  it('lee cantidad, nombre de varias palabras, set, número y foil', () => {
+    expect(parseTextImportRows('1 Lightning Bolt\n2x Arid Mesa (MH2) 244 *F*')).toEqual([
+      { name: 'Lightning Bolt', quantity: 1, setCode: undefined, collectorNumber: undefined, foil: false, isInSideboard: false },
+      { name: 'Arid Mesa', quantity: 2, setCode: 'MH2', collectorNumber: '244', foil: true, isInSideboard: false },
+    ])
+  })
+
+  it('todo lo que sigue a una línea de sideboard es banquillo y lo ilegible se ignora', () => {
+    const rows = parseTextImportRows('4 Counterspell\nbasura\n\nSIDEBOARD:\n2 Pyroblast (ICE)')
+    expect(rows.map(r => [r.name, r.isInSideboard])).toEqual([['Counterspell', false], ['Pyroblast', true]])
+  })
+})
+
+describe('rowIdentifier', () => {
+  it('usa el identificador más preciso disponible', () => {
+    expect(rowIdentifier({ name: 'X', quantity: 1, scryfallId: 'abc', setCode: 'M10' })).toEqual({ id: 'abc' })
+    expect(rowIdentifier({ name: 'X', quantity: 1, setCode: 'M10', collectorNumber: '146' })).toEqual({ set: 'm10', collector_number: '146' })
+    expect(rowIdentifier({ name: ' X ', quantity: 1, setCode: 'M10' })).toEqual({ name: 'X', set: 'm10' })
+    expect(rowIdentifier({ name: 'X', quantity: 1 })).toEqual({ name: 'X' })
+  })
+})
+
+describe('resolveSetNames', () => {
+  const setCodes = buildSetCodeLookup([
+    { code: 'c21', name: 'Commander 2021' },
+    { code: 'dom', name: 'Dominaria' },
+  ])
+
+  it('completa el código de set de las filas que solo traen el nombre (Deckbox, Delver)', () => {
+    const [ring, opt] = resolveSetNames([
+      { name: 'Sol Ring', quantity: 1, setName: 'Commander 2021', collectorNumber: '263' },
+      { name: 'Opt', quantity: 1, setName: 'dominaria' },
+    ], setCodes)
+    expect(ring).toMatchObject({ setCode: 'c21' })
+    expect(rowIdentifier(ring!)).toEqual({ set: 'c21', collector_number: '263' })
+    expect(rowIdentifier(opt!)).toEqual({ name: 'Opt', set: 'dom' })
+  })
+
+  it('no pisa un código que ya venía y deja igual un nombre desconocido', () => {
+    const rows = [
+      { name: 'Opt', quantity: 1, setCode: 'XLN', setName: 'Dominaria' },
+      { name: 'Opt', quantity: 1, setName: 'Set Inventado' },
+    ]
+    expect(resolveSetNames(rows, setCodes)).toEqual(rows)
+  })
+})
+
+describe('reconcileRows', () => {
+  it('matched cuando aparece la impresión pedida; sin impresión pedida, basta el nombre', () => {
+    const rows = reconcileRows([
+      { name: 'Lightning Bolt', quantity: 1, setCode: '2X2', collectorNumber: '117' },
+      { name: 'lightning bolt', quantity: 2 },
+      { name: 'Delver of Secrets', quantity: 1, setCode: 'ISD' },
+    ], [bolt2x2, delver])
+    expect(rows.map(r => r.status)).toEqual(['matched', 'matched', 'matched'])
+    expect(rows[0]?.choice).toEqual(expect.objectContaining({ scryfallId: 'bolt-2x2', setCode: '2x2', price: 1.5 }))
+    expect(rows[2]?.choice?.name).toBe('Delver of Secrets // Insectile Aberration')
+  })
+
+  it('ambiguous cuando la carta existe pero no esa impresión, sin elección por defecto', () => {
+    const [row] = reconcileRows([{ name: 'Lightning Bolt', quantity: 1, setCode: 'XYZ' }], [boltM10])
+    expect(row?.status).toBe('ambiguous')
+    expect(row?.choice).toBeNull()
+    expect(row?.candidates.map(c => c.scryfallId)).toEqual(['bolt-m10'])
+  })
+
+  it('unmatched cuando ni el nombre aparece', () => {
+    const [row] = reconcileRows([{ name: 'Lightnig Blot', quantity: 1 }], [bolt2x2])
+    expect(row).toEqual(expect.objectContaining({ key: 0, status: 'unmatched', candidates: [], choice: null }))
+  })
+})
+
+describe('namesToRetry', () => {
+  it('devuelve una vez cada nombre que no tuvo match exacto', () => {
+    const sources = [
+      { name: 'Lightning Bolt', quantity: 1, setCode: 'XYZ' },
+      { name: 'lightning bolt', quantity: 1, scryfallId: 'viejo' },
+      { name: 'Delver of Secrets', quantity: 1 },
+    ]
+    expect(namesToRetry(sources, [delver])).toEqual(['Lightning Bolt'])
+  })
+})
+
+describe('rankCandidates', () => {
+  it('quita repetidas y pone primero las del set pedido', () => {
+    const ranked = rankCandidates({ name: 'Lightning Bolt', quantity: 1, setCode: 'M10' }, [bolt2x2, boltM10, bolt2x2])
+    expect(ranked.map(c => c.scryfallId)).toEqual(['bolt-m10', 'bolt-2x2'])
+  })
+})
+
+describe('revisión: resumen, confirmación y aplicación', () => {
+  const rows = (): ImportReviewRow[] => reconcileRows([
+    { name: 'Lightning Bolt', quantity: 1 },
+    { name: 'Lightning Bolt', quantity: 1, setCode: 'XYZ' },
+    { name: 'Nope', quantity: 3 },
+  ], [boltM10])
+
+  it('no se puede confirmar mientras quede una fila sin elección ni saltada', () => {
+    const review = rows()
+    expect(reviewSummary(review)).toEqual({ matched: 1, ambiguous: 1, unmatched: 1, skipped: 0, pending: 2 })
+    expect(canCommitReview(review)).toBe(false)
+
+    review[1]!.choice = review[1]!.candidates[0]!
+    review[2]!.skipped = true
+    expect(reviewSummary(review).pending).toBe(0)
+    expect(canCommitReview(review)).toBe(true)
+  })
+
+  it('todo saltado no es un import', () => {
+    const review = rows().map(r => ({ ...r, skipped: true }))
+    expect(canCommitReview(review)).toBe(false)
+  })
+
+  it('applyReview quita las saltadas y aplica la impresión elegida a la fila original', () => {
+    const review = rows()
+    review[1]!.choice = review[1]!.candidates[0]!
+    review[2]!.skipped = true
+    const items = [{ n: 'a' }, { n: 'b' }, { n: 'c' }]
+    expect(applyReview(items, review, (item, choice) => ({ n: `${item.n}:${choice.scryfallId}` })))
+      .toEqual([{ n: 'a:bolt-m10' }, { n: 'b:bolt-m10' }])
+  })
+})
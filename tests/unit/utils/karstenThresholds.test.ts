@@ -26,6 +26,17 @@ describe('karstenSourcesNeeded — 60-card', () => {
     })
 })
 
+describe('karstenSourcesNeeded — 40-card (Limited)', () => {
+    it('returns 9 for {U} cmc 1 and 14 for {U}{U} cmc 2', () => {
+        expect(karstenSourcesNeeded(1, 1, 40)).toBe(9)
+        expect(karstenSourcesNeeded(2, 2, 40)).toBe(14)
+    })
+
+    it('is lower than 60-card for the same spell', () => {
+        expect(karstenSourcesNeeded(3, 3, 40)).toBeLessThan(karstenSourcesNeeded(3, 3, 60))
+    })
+})
+
 describe('karstenSourcesNeeded — 99-card (Commander)', () => {
     it('is higher than 60-card for the same spell', () => {
         const sixty = karstenSourcesNeeded(2, 2, 60)
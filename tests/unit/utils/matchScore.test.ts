@@ -0,0 +1,103 @@
+import { compareByMatchScore, type MatchScoreInput, scoreMatch } from '@/utils/matchScore'
+
+const NOW = new Date('2026-10-18T12:00:00Z')
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000)
+
+const input = (overrides: Partial<MatchScoreInput> = {}): MatchScoreInput => ({
+  balance: 100,
+  wantedCovered: 5,
+  proximity: 'local',
+  lastActiveAt: daysAgo(1),
+  reputation: { count: 20, average: 5 },
+  isContact: true,
+  discardedCount: 0,
+  now: NOW,
+  ...overrides,
+})
+
+const points = (overrides: Partial<MatchScoreInput>, key: string) =>
+  scoreMatch(input(overrides)).factors.find(f => f.key === key)?.points
+
+describe('scoreMatch', () => {
+  it('the breakdown adds up to the total and the weights to 100', () => {
+    const score = scoreMatch(input({ balance: 73, wantedCovered: 2, proximity: 'national', discardedCount: 1 }))
+    expect(score.factors.map(f => f.key)).toEqual(['balance', 'coverage', 'proximity', 'recency', 'reputation', 'history'])
+    expect(score.factors.reduce((sum, f) => sum + f.points, 0)).toBe(score.total)
+    expect(score.factors.reduce((sum, f) => sum + f.max, 0)).toBe(100)
+  })
+
+  it('a perfect match scores close to 100', () => {
+    expect(scoreMatch(input()).total).toBeGreaterThanOrEqual(95)
+  })
+
+  it('value balance is proportional', () => {
+    expect(points({ balance: 100 }, 'balance')).toBe(25)
+    expect(points({ balance: 50 }, 'balance')).toBe(13)
+    expect(points({ balance: 0 }, 'balance')).toBe(0)
+  })
+
+  it('each wanted card covered counts, up to five', () => {
+    expect(points({ wantedCovered: 1 }, 'coverage')).toBe(5)
+    expect(points({ wantedCovered: 3 }, 'coverage')).toBe(15)
+    expect(points({ wantedCovered: 12 }, 'coverage')).toBe(25)
+  })
+
+  it('in person beats same country, which beats unknown and abroad', () => {
+    const local = points({ proximity: 'local' }, 'proximity') ?? 0
+    const national = points({ proximity: 'national' }, 'proximity') ?? 0
+    const unknown = points({ proximity: 'unknown' }, 'proximity') ?? 0
+    const international = points({ proximity: 'international' }, 'proximity') ?? 0
+    expect(local).toBeGreaterThan(national)
+    expect(national).toBeGreaterThan(unknown)
+    expect(unknown).toBeGreaterThan(international)
+  })
+
+  it('recent activity counts more than stale listings', () => {
+    expect(points({ lastActiveAt: daysAgo(2) }, 'recency')).toBe(10)
+    expect(points({ lastActiveAt: daysAgo(20) }, 'recency')).toBe(7)
+    expect(points({ lastActiveAt: daysAgo(200) }, 'recency')).toBe(1)
+    expect(points({ lastActiveAt: null }, 'recency')).toBe(4)
+  })
+
+  it('no reviews is neutral; good reviews add, bad ones subtract', () => {
+    expect(points({ reputation: null }, 'reputation')).toBe(5)
+    expect(points({ reputation: { count: 40, average: 4.9 } }, 'reputation')).toBe(9)
+    expect(points({ reputation: { count: 40, average: 1.2 } }, 'reputation')).toBe(1)
+  })
+
+  it('saved contacts add and discarded matches subtract', () => {
+    expect(points({ isContact: true, discardedCount: 0 }, 'history')).toBe(10)
+    expect(points({ isContact: false, discardedCount: 0 }, 'history')).toBe(5)
+    expect(points({ isContact: false, discardedCount: 1 }, 'history')).toBe(3)
+    expect(points({ isContact: false, discardedCount: 5 }, 'history')).toBe(0)
+  })
+})
+
+describe('ranking', () => {
+  it('puts the matches worth acting on first', () => {
+    const base = { isContact: false, reputation: null, discardedCount: 0 }
+    const candidates = [
+      { id: 'balanced-but-abroad-and-stale', ...input({ ...base, balance: 100, wantedCovered: 1, proximity: 'international', lastActiveAt: daysAgo(300) }) },
+      { id: 'nearby-active-covers-a-lot', ...input({ ...base, balance: 80, wantedCovered: 4, proximity: 'local' }) },
+      { id: 'repeatedly-discarded', ...input({ ...base, balance: 90, wantedCovered: 2, proximity: 'national', discardedCount: 3 }) },
+      { id: 'trusted-contact', ...input({ ...base, balance: 85, wantedCovered: 3, proximity: 'national', isContact: true, reputation: { count: 12, average: 4.8 } }) },
+    ].map(c => ({ id: c.id, score: scoreMatch(c).total }))
+
+    expect(candidates.sort(compareByMatchScore).map(c => c.id)).toEqual([
+      'nearby-active-covers-a-lot',
+      'trusted-contact',
+      'repeatedly-discarded',
+      'balanced-but-abroad-and-stale',
+    ])
+  })
+
+  it('matches without a score go last, by value balance', () => {
+    const sorted = [
+      { id: 'old-unbalanced', compatibility: 30 },
+      { id: 'scored', score: 40, compatibility: 20 },
+      { id: 'old-balanced', compatibility: 95 },
+      { id: 'no-data' },
+    ].sort(compareByMatchScore)
+    expect(sorted.map(m => m.id)).toEqual(['scored', 'old-balanced', 'old-unbalanced', 'no-data'])
+  })
+})
@@ -0,0 +1,89 @@
+import {
+    attachmentCardToCartItem,
+    attachmentTotal,
+    canAddToCart,
+    cardsAttachment,
+    cartAttachment,
+    matchAttachment,
+    MAX_ATTACHMENT_CARDS,
+    parseMessageAttachment,
+} from '@/utils/messageAttachment'
+import type { Card } from '@/types/card'
+import type { SimpleMatch } from '@/stores/matches'
+
+const card = (overrides: Partial<Card>): Card => ({
+    id: 'c1',
+    scryfallId: 's1',
+    name: 'Lightning Bolt',
+    edition: 'M21',
+    quantity: 2,
+    condition: 'NM',
+    foil: false,
+    price: 2,
+    image: 'img',
+    status: 'trade',
+    updatedAt: new Date(0),
+    ...overrides,
+})
+
+describe('messageAttachment', () => {
+    it('cartas de la colección: sin wishlist, con la impresión exacta y sin undefined', () => {
+        const att = cardsAttachment([
+            card({ setCode: 'm21', foil: true, language: 'ja' }),
+            card({ id: 'c2', status: 'wishlist' }),
+        ], 'me')
+        expect(att.kind).toBe('cards')
+        expect(att.cards).toHaveLength(1)
+        expect(att.cards[0]).toMatchObject({ cardId: 'c1', setCode: 'm21', foil: true, language: 'ja', ownerUsername: 'me' })
+        expect(Object.values(att.cards[0] ?? {})).not.toContain(undefined)
+    })
+
+    it('limita la cantidad de cartas adjuntas', () => {
+        const many = Array.from({ length: MAX_ATTACHMENT_CARDS + 5 }, (_, i) => card({ id: `c${i}` }))
+        expect(cardsAttachment(many, 'me').cards).toHaveLength(MAX_ATTACHMENT_CARDS)
+    })
+
+    it('un match guarda el dueño de cada lado', () => {
+        const match = {
+            id: 'm1',
+            otherUsername: 'rafa',
+            myCards: [{ ...card({ id: 'mine' }) }],
+            otherCards: [{ scryfallId: 's2', name: 'Counterspell', edition: 'MH2', quantity: 1, condition: 'LP', foil: false, price: 1, image: '', status: 'sale' }],
+        } as unknown as SimpleMatch
+        const att = matchAttachment(match, 'me')
+        expect(att.matchId).toBe('m1')
+        expect(att.cards.map(c => [c.ownerUsername, c.cardId])).toEqual([['me', 'mine'], ['rafa', '']])
+    })
+
+    it('el carrito es del dueño de la colección y suma su total', () => {
+        const att = cartAttachment({
+            username: 'rafa',
+            items: [{ ...attachmentCardToCartItem({ ...cardsAttachment([card({})], 'x').cards[0]! }), quantity: 1 }],
+            createdAt: 0,
+            expiresAt: 0,
+        })
+        expect(att.cards[0]?.ownerUsername).toBe('rafa')
+        expect(attachmentTotal(att)).toBe(2)
+    })
+
+    it('solo se agregan al carrito cartas ajenas con cardId', () => {
+        const [mine] = cardsAttachment([card({})], 'me').cards
+        expect(canAddToCart(mine!, 'me')).toBe(false)
+        expect(canAddToCart(mine!, 'rafa')).toBe(true)
+        expect(canAddToCart({ ...mine!, cardId: '' }, 'rafa')).toBe(false)
+        expect(attachmentCardToCartItem(mine!)).toMatchObject({ cardId: 'c1', quantity: 2, maxQuantity: 2 })
+    })
+
+    describe('parseMessageAttachment', () => {
+        it('descarta datos inválidos', () => {
+            expect(parseMessageAttachment(undefined)).toBeUndefined()
+            expect(parseMessageAttachment({ kind: 'otro', cards: [] })).toBeUndefined()
+            expect(parseMessageAttachment({ kind: 'cards', cards: [{ foo: 1 }] })).toBeUndefined()
+        })
+
+        it('completa los campos faltantes', () => {
+            const att = parseMessageAttachment({ kind: 'cart', cards: [{ scryfallId: 's1', name: 'Bolt', price: '3' }] })
+            expect(att?.cards[0]).toMatchObject({ cardId: '', quantity: 1, condition: 'NM', price: 3, ownerUsername: '' })
+        })
+    })
+})
@@ -0,0 +1,42 @@
+/**
+ * portfolioHistory — rangos del gráfico de valor en PortfolioSummaryBanner.
+ */
+import { chartPolyline, historyChange, sliceHistory } from '@/utils/portfolioHistory'
+import type { PriceSnapshot } from '@/composables/usePriceHistory'
+
+const snap = (date: string, ck: number): PriceSnapshot => ({ date, tcg: ck + 1, ck, buylist: ck / 2, cards: 10, unique: 5 })
+
+const history = [
+  snap('2025-09-01', 50),
+  snap('2026-08-01', 80),
+  snap('2026-10-01', 90),
+  snap('2026-10-12', 100),
+  snap('2026-10-18', 110),
+]
+const today = new Date('2026-10-18T12:00:00Z')
+
+describe('sliceHistory', () => {
+  it('recorta por rango contando desde hoy (UTC)', () => {
+    expect(sliceHistory(history, '7d', today).map(s => s.date)).toEqual(['2026-10-12', '2026-10-18'])
+    expect(sliceHistory(history, '30d', today)).toHaveLength(3)
+    expect(sliceHistory(history, '90d', today)).toHaveLength(4)
+    expect(sliceHistory(history, '1y', today)).toHaveLength(4)
+  })
+})
+
+describe('historyChange', () => {
+  it('variación absoluta y % en la fuente elegida', () => {
+    expect(historyChange(sliceHistory(history, '30d', today), 'ck')).toEqual({ first: 90, last: 110, change: 20, percent: (20 / 90) * 100 })
+    expect(historyChange([snap('2026-10-18', 1)], 'ck')).toBeNull()
+  })
+})
+
+describe('chartPolyline', () => {
+  it('un punto por valor, extremos en los márgenes', () => {
+    const points = chartPolyline([1, 2, 3], 100, 50, 10).split(' ')
+    expect(points).toHaveLength(3)
+    expect(points[0]!.startsWith('10,')).toBe(true)
+    expect(points[2]!.startsWith('90,')).toBe(true)
+    expect(chartPolyline([1], 100, 50)).toBe('')
+  })
+})
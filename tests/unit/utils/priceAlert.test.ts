@@ -0,0 +1,38 @@
+/**
+ * Alertas de precio — lógica pura: id por impresión, umbrales en % y validación.
+ */
+import { priceAlertDocId, thresholdFromPercent, validatePriceAlert } from '@/utils/priceAlert'
+
+describe('priceAlertDocId', () => {
+  it('una alerta por impresión y acabado', () => {
+    expect(priceAlertDocId('abc', false)).toBe('abc_n')
+    expect(priceAlertDocId('abc', true)).toBe('abc_f')
+  })
+})
+
+describe('thresholdFromPercent', () => {
+  it('convierte % de subida y bajada a dólares redondeados', () => {
+    expect(thresholdFromPercent(50, 20, 'above')).toBe(60)
+    expect(thresholdFromPercent(49.99, 20, 'below')).toBe(39.99)
+  })
+
+  it('sin precio base o con % imposible no hay umbral', () => {
+    expect(thresholdFromPercent(0, 20, 'above')).toBeNull()
+    expect(thresholdFromPercent(10, 0, 'below')).toBeNull()
+    expect(thresholdFromPercent(10, 100, 'below')).toBeNull()
+  })
+})
+
+describe('validatePriceAlert', () => {
+  it('acepta un objetivo solo o un rango', () => {
+    expect(validatePriceAlert({ below: 40, above: null })).toBeNull()
+    expect(validatePriceAlert({ below: 20, above: 60 })).toBeNull()
+  })
+
+  it('rechaza vacía, no positiva o con los umbrales cruzados', () => {
+    expect(validatePriceAlert({ below: null, above: null })).toBe('empty')
+    expect(validatePriceAlert({ below: 0, above: null })).toBe('invalid')
+    expect(validatePriceAlert({ below: Number.NaN, above: null })).toBe('invalid')
+    expect(validatePriceAlert({ below: 60, above: 60 })).toBe('crossed')
+  })
+})
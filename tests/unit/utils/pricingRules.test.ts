@@ -0,0 +1,96 @@
+import {
+    applyPricingRule,
+    defaultPricingRule,
+    listingPrice,
+    normalizePricingRule,
+    normalizePricingRules,
+} from '@/utils/pricingRules'
+import type { PricingRule, PricingRules } from '@/types/pricing'
+
+const rule = (overrides: Partial<PricingRule> = {}): PricingRule => ({
+    ...defaultPricingRule(),
+    enabled: true,
+    ...overrides,
+})
+
+const ck = (retail: number | null, retailFoil: number | null = null) => ({
+    cardKingdom: { retail, retailFoil, buylist: null, buylistFoil: null },
+})
+
+describe('applyPricingRule', () => {
+    it('takes the percentage of the base price for an NM card', () => {
+        expect(applyPricingRule(10, { condition: 'NM', foil: false }, rule({ percent: 90 }))).toBe(9)
+    })
+
+    it('applies the seller\'s condition multipliers and the foil premium', () => {
+        const r = rule({ percent: 90, foilMultiplier: 1.2, conditionMultipliers: { ...defaultPricingRule().conditionMultipliers, LP: 0.8 } })
+        expect(applyPricingRule(10, { condition: 'LP', foil: true }, r)).toBe(8.64)
+    })
+
+    it('rounds up to the chosen step', () => {
+        expect(applyPricingRule(3.33, { condition: 'NM', foil: false }, rule({ roundUpTo: 0.25 }))).toBe(3.5)
+        expect(applyPricingRule(3.5, { condition: 'NM', foil: false }, rule({ roundUpTo: 0.25 }))).toBe(3.5)
+    })
+
+    it('never goes below the minimum price', () => {
+        expect(applyPricingRule(0.1, { condition: 'NM', foil: false }, rule({ minPrice: 0.5 }))).toBe(0.5)
+    })
+
+    it('returns null without a base price', () => {
+        expect(applyPricingRule(0, { condition: 'NM', foil: false }, rule({ minPrice: 0.5 }))).toBeNull()
+    })
+})
+
+describe('listingPrice', () => {
+    const rules: PricingRules = { sale: rule({ percent: 90 }), trade: defaultPricingRule() }
+    const saleCard = { status: 'sale' as const, condition: 'NM' as const, foil: false, price: 8 }
+
+    it('prices a sale card from Card Kingdom retail', () => {
+        expect(listingPrice(saleCard, rules, ck(10))).toBe(9)
+    })
+
+    it('uses the CK foil retail for a foil card', () => {
+        expect(listingPrice({ ...saleCard, foil: true }, rules, ck(10, 20))).toBe(18)
+    })
+
+    it('falls back to the card\'s TCG price while CK has none', () => {
+        expect(listingPrice(saleCard, rules, null)).toBe(7.2)
+    })
+
+    it('uses the TCG price when the rule says so', () => {
+        const tcgRules = { ...rules, sale: rule({ base: 'tcg', percent: 50 }) }
+        expect(listingPrice(saleCard, tcgRules, ck(10))).toBe(4)
+    })
+
+    it('a fixed per-card price wins over the rules', () => {
+        expect(listingPrice({ ...saleCard, priceOverride: 12.5 }, rules, ck(10))).toBe(12.5)
+    })
+
+    it('is null for a status whose rule is off, and for cards not for sale/trade', () => {
+        expect(listingPrice({ ...saleCard, status: 'trade' }, rules, ck(10))).toBeNull()
+        expect(listingPrice({ ...saleCard, status: 'collection', priceOverride: 5 }, rules, ck(10))).toBeNull()
+    })
+})
+
+describe('normalizePricingRule(s)', () => {
+    it('is null when the user never saved rules', () => {
+        expect(normalizePricingRules(undefined)).toBeNull()
+    })
+
+    it('fills what is missing with the defaults and clamps the rest', () => {
+        const normalized = normalizePricingRule({
+            enabled: true,
+            base: 'nope',
+            percent: 9000,
+            conditionMultipliers: { LP: 0.9, HP: 'x' },
+            roundUpTo: 0.3,
+            minPrice: -1,
+        })
+        expect(normalized.base).toBe('ck')
+        expect(normalized.percent).toBe(500)
+        expect(normalized.conditionMultipliers.LP).toBe(0.9)
+        expect(normalized.conditionMultipliers.HP).toBe(0.5)
+        expect(normalized.roundUpTo).toBe(0)
+        expect(normalized.minPrice).toBe(0)
+    })
+})
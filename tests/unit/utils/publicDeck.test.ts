@@ -0,0 +1,96 @@
+import { buildPublicDeckCards, groupPublicDeck, planPublicDeckCopy, publicDeckCardCount, publicDeckPath, publicDeckTotalPrice } from '@/utils/publicDeck'
+import type { Card } from '@/types/card'
+import type { DisplayDeckCard, PublicDeckCard } from '@/types/deck'
+
+const display = (over: Partial<DisplayDeckCard> = {}): DisplayDeckCard => ({
+  cardId: 'c1', scryfallId: 'bolt', name: 'Lightning Bolt', edition: 'M10', condition: 'NM', foil: false,
+  price: 2, image: 'img', type_line: 'Instant', allocatedQuantity: 4, isInSideboard: false,
+  addedAt: new Date(), isWishlist: false, availableInCollection: 0, totalInCollection: 4,
+  ...over,
+} as DisplayDeckCard)
+
+const row = (over: Partial<PublicDeckCard> = {}): PublicDeckCard => ({
+  scryfallId: 'bolt', name: 'Lightning Bolt', edition: 'M10', quantity: 4, isInSideboard: false, price: 2, image: '', type_line: 'Instant',
+  ...over,
+})
+
+const owned = (id: string, over: Partial<Card> = {}): Card => ({
+  id, scryfallId: 'bolt', name: 'Lightning Bolt', edition: 'M10', quantity: 4, condition: 'NM', foil: false,
+  price: 2, image: '', status: 'collection', updatedAt: new Date(),
+  ...over,
+})
+
+describe('buildPublicDeckCards', () => {
+  it('une copias propias y de wishlist de la misma impresión y tablero, sin campos undefined', () => {
+    const cards = buildPublicDeckCards([
+      display({ allocatedQuantity: 2 }),
+      display({ cardId: 'w1', allocatedQuantity: 2, isWishlist: true } as Partial<DisplayDeckCard>),
+      display({ allocatedQuantity: 1, isInSideboard: true }),
+    ])
+    expect(cards).toHaveLength(2)
+    expect(cards.find(c => !c.isInSideboard)?.quantity).toBe(4)
+    expect(Object.values(cards[0] ?? {})).not.toContain(undefined)
+  })
+
+  it('cuenta el main sin banquillo y suma el precio de todo', () => {
+    const cards = [row(), row({ quantity: 2, isInSideboard: true, price: 0.5 })]
+    expect(publicDeckCardCount(cards)).toBe(4)
+    expect(publicDeckTotalPrice(cards)).toBe(9)
+  })
+})
+
+describe('groupPublicDeck', () => {
+  it('comandante primero, main por tipo en orden y banquillo aparte', () => {
+    const sections = groupPublicDeck({
+      format: 'commander',
+      commander: 'Krenko, Mob Boss',
+      cards: [
+        row({ name: 'Mountain', type_line: 'Basic Land — Mountain', quantity: 30 }),
+        row({ name: 'Krenko, Mob Boss', type_line: 'Legendary Creature — Goblin', quantity: 1 }),
+        row({ name: 'Goblin Guide', type_line: 'Creature — Goblin', quantity: 1 }),
+        row({ name: 'Pyroblast', quantity: 1, isInSideboard: true }),
+      ],
+    })
+    expect(sections.commanders.map(c => c.name)).toEqual(['Krenko, Mob Boss'])
+    expect(sections.groups.map(g => [g.type, g.count])).toEqual([['Creatures', 1], ['Lands', 30]])
+    expect(sections.sideboard.map(c => c.name)).toEqual(['Pyroblast'])
+  })
+
+  it('fuera de formatos de comandante no separa comandante', () => {
+    expect(groupPublicDeck({ format: 'modern', commander: 'Lightning Bolt', cards: [row()] }).commanders).toEqual([])
+  })
+})
+
+describe('planPublicDeckCopy', () => {
+  it('usa primero la misma impresión, luego otra del mismo nombre y el resto a wishlist', () => {
+    const plan = planPublicDeckCopy(
+      [row({ quantity: 4 })],
+      [owned('same', { quantity: 1 }), owned('other', { scryfallId: 'bolt-2ed', quantity: 2 })],
+      () => 0,
+    )
+    expect(plan.allocations).toEqual([
+      { cardId: 'same', quantity: 1, isInSideboard: false },
+      { cardId: 'other', quantity: 2, isInSideboard: false },
+    ])
+    expect(plan.wishlist).toEqual([expect.objectContaining({ scryfallId: 'bolt', quantity: 1 })])
+  })
+
+  it('respeta lo asignado a otros mazos, no reparte la misma copia dos veces e ignora la wishlist', () => {
+    const plan = planPublicDeckCopy(
+      [row({ quantity: 2 }), row({ quantity: 2, isInSideboard: true })],
+      [owned('c1', { quantity: 4 }), owned('wish', { status: 'wishlist', quantity: 10 })],
+      id => (id === 'c1' ? 1 : 0),
+    )
+    expect(plan.allocations).toEqual([
+      { cardId: 'c1', quantity: 2, isInSideboard: false },
+      { cardId: 'c1', quantity: 1, isInSideboard: true },
+    ])
+    expect(plan.wishlist).toEqual([expect.objectContaining({ isInSideboard: true, quantity: 1 })])
+  })
+})
+
+describe('publicDeckPath', () => {
+  it('arma la ruta pública del mazo', () => {
+    expect(publicDeckPath('rafa', 'abc')).toBe('/@rafa/decks/abc')
+  })
+})
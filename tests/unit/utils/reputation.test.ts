@@ -0,0 +1,43 @@
+/**
+ * Reputación — lógica pura: id de reseña, validación, agregado y orden.
+ */
+import {
+  compareByReputation,
+  isValidRating,
+  reputationScore,
+  reviewDocId,
+  summarizeRatings,
+} from '@/utils/reputation'
+
+describe('reviewDocId', () => {
+  it('una reseña por tipo de intercambio, intercambio y autor', () => {
+    expect(reviewDocId('proposal', 'p1', 'alice')).toBe('proposal_p1_alice')
+    expect(reviewDocId('buyRequest', 'p1', 'alice')).not.toBe(reviewDocId('proposal', 'p1', 'alice'))
+  })
+})
+
+describe('isValidRating / summarizeRatings', () => {
+  it('solo enteros de 1 a 5', () => {
+    expect([1, 5].every(isValidRating)).toBe(true)
+    expect([0, 6, 4.5, NaN].some(isValidRating)).toBe(false)
+  })
+
+  it('promedio a un decimal, ignorando valores inválidos', () => {
+    expect(summarizeRatings([5, 4, 4, 9])).toEqual({ count: 3, average: 4.3 })
+    expect(summarizeRatings([])).toEqual({ count: 0, average: 0 })
+  })
+})
+
+describe('compareByReputation', () => {
+  it('un 5.0 con una reseña no le gana a un 4.8 con cuarenta', () => {
+    const few = { count: 1, average: 5 }
+    const many = { count: 40, average: 4.8 }
+    expect(reputationScore(many)).toBeGreaterThan(reputationScore(few))
+    expect([few, many].sort(compareByReputation)[0]).toBe(many)
+  })
+
+  it('sin reseñas (o sin datos) va al final', () => {
+    const sorted = [null, { count: 0, average: 0 }, { count: 2, average: 2 }].sort(compareByReputation)
+    expect(sorted[0]).toEqual({ count: 2, average: 2 })
+  })
+})
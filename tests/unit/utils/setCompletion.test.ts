@@ -0,0 +1,134 @@
+import {
+    buildSetCompletion,
+    missingToWishlistCards,
+    normalizeRarity,
+    ownedSetSummaries,
+} from '@/utils/setCompletion'
+import type { Card } from '@/types/card'
+import type { ScryfallCard, ScryfallSet } from '@/services/scryfall'
+
+const card = (overrides: Partial<Card>): Card => ({
+    id: 'c1',
+    scryfallId: 's1',
+    name: 'Lightning Bolt',
+    edition: 'Magic 2021',
+    setCode: 'M21',
+    quantity: 1,
+    condition: 'NM',
+    foil: false,
+    price: 2,
+    image: '',
+    status: 'collection',
+    updatedAt: new Date(0),
+    ...overrides,
+})
+
+const print = (id: string, rarity: string, overrides: Partial<ScryfallCard> = {}): ScryfallCard => ({
+    id,
+    name: `Card ${id}`,
+    set: 'm21',
+    set_name: 'Magic 2021',
+    collector_number: id,
+    rarity,
+    type_line: 'Instant',
+    prices: { usd: '1.50', usd_foil: '4.00' },
+    ...overrides,
+})
+
+const set = (overrides: Partial<ScryfallSet>): ScryfallSet => ({
+    id: 'set-m21',
+    code: 'm21',
+    name: 'Magic 2021',
+    set_type: 'core',
+    card_count: 4,
+    icon_svg_uri: '',
+    ...overrides,
+})
+
+describe('normalizeRarity', () => {
+    it('keeps the four main rarities and folds the rest into special', () => {
+        expect(normalizeRarity('mythic')).toBe('mythic')
+        expect(normalizeRarity('bonus')).toBe('special')
+        expect(normalizeRarity(undefined)).toBe('special')
+    })
+})
+
+describe('ownedSetSummaries', () => {
+    it('counts distinct owned prints per set against card_count, most complete first', () => {
+        const cards = [
+            card({ id: 'a', scryfallId: 's1', setCode: 'M21' }),
+            card({ id: 'b', scryfallId: 's1', setCode: 'M21', foil: true }),
+            card({ id: 'c', scryfallId: 's2', setCode: 'm21', status: 'trade' }),
+            card({ id: 'd', scryfallId: 'z1', setCode: 'ZNR' }),
+            card({ id: 'e', scryfallId: 's3', setCode: 'M21', status: 'wishlist' }),
+        ]
+        const sets = [set({}), set({ id: 'set-znr', code: 'znr', name: 'Zendikar Rising', card_count: 10 }), set({ id: 'x', code: 'khm', name: 'Kaldheim' })]
+
+        const result = ownedSetSummaries(cards, sets)
+
+        expect(result.map(s => [s.code, s.ownedUnique, s.percent])).toEqual([
+            ['m21', 2, 50],
+            ['znr', 1, 10],
+        ])
+    })
+
+    it('only counts foil copies in foil mode', () => {
+        const cards = [
+            card({ id: 'a', scryfallId: 's1', foil: true }),
+            card({ id: 'b', scryfallId: 's2', foil: false }),
+        ]
+        expect(ownedSetSummaries(cards, [set({})], true)[0]?.ownedUnique).toBe(1)
+    })
+})
+
+describe('buildSetCompletion', () => {
+    const checklist = [print('1', 'common'), print('2', 'common'), print('3', 'rare'), print('4', 'bonus')]
+
+    it('breaks completion down by rarity and lists missing prints in checklist order', () => {
+        const cards = [card({ scryfallId: '1' }), card({ id: 'c3', scryfallId: '3' })]
+
+        const result = buildSetCompletion(checklist, cards)
+
+        expect(result.owned).toBe(2)
+        expect(result.total).toBe(4)
+        expect(result.percent).toBe(50)
+        expect(result.byRarity).toEqual([
+            { rarity: 'common', owned: 1, total: 2 },
+            { rarity: 'rare', owned: 1, total: 1 },
+            { rarity: 'special', owned: 0, total: 1 },
+        ])
+        expect(result.missing.map(p => p.id)).toEqual(['2', '4'])
+    })
+
+    it('treats non-foil copies as missing in foil mode', () => {
+        const result = buildSetCompletion(checklist, [card({ scryfallId: '1' })], true)
+        expect(result.owned).toBe(0)
+    })
+
+    it('returns zero percent for an empty checklist', () => {
+        expect(buildSetCompletion([], []).percent).toBe(0)
+    })
+})
+
+describe('missingToWishlistCards', () => {
+    it('builds one NM wishlist copy per missing print, skipping prints already wished', () => {
+        const missing = [print('2', 'common'), print('4', 'rare', { cmc: 3 })]
+        const cards = [card({ id: 'w', scryfallId: '2', status: 'wishlist' })]
+
+        const result = missingToWishlistCards(missing, cards, true)
+
+        expect(result).toHaveLength(1)
+        expect(result[0]).toMatchObject({
+            scryfallId: '4',
+            edition: 'Magic 2021',
+            setCode: 'M21',
+            quantity: 1,
+            condition: 'NM',
+            foil: true,
+            price: 4,
+            status: 'wishlist',
+            rarity: 'rare',
+            cmc: 3,
+        })
+    })
+})
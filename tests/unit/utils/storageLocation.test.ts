@@ -0,0 +1,29 @@
+import { collectLocations, LOCATION_MAX_LENGTH, normalizeLocation } from '@/utils/storageLocation'
+
+describe('normalizeLocation', () => {
+    it('trims and collapses whitespace', () => {
+        expect(normalizeLocation('  Box A   /  row 3 ')).toBe('Box A / row 3')
+    })
+
+    it('returns an empty string for missing or blank values', () => {
+        expect(normalizeLocation(undefined)).toBe('')
+        expect(normalizeLocation(null)).toBe('')
+        expect(normalizeLocation('   ')).toBe('')
+    })
+
+    it('caps the length', () => {
+        expect(normalizeLocation('x'.repeat(100))).toHaveLength(LOCATION_MAX_LENGTH)
+    })
+})
+
+describe('collectLocations', () => {
+    it('lists each location once, sorted, skipping cards without one', () => {
+        expect(collectLocations([
+            { location: 'Red deckbox' },
+            {},
+            { location: 'Box A / row 3' },
+            { location: 'Red deckbox' },
+            { location: '' },
+        ])).toEqual(['Box A / row 3', 'Red deckbox'])
+    })
+})
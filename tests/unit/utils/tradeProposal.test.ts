@@ -0,0 +1,139 @@
+/**
+ * Propuestas de intercambio — lógica pura.
+ *  - revisionToDraft / draftToRevision: ida y vuelta entre el documento (por
+ *    dueño) y el borrador (por perspectiva), efectivo incluido.
+ *  - computeDraftBalance / cashToBalance: balance con el efectivo sumado.
+ *  - setTradeCardQuantity: agregar, cambiar y quitar cartas sin mutar.
+ *  - canPerform: quién puede contraofertar, aceptar, rechazar o retirar.
+ */
+import {
+  canPerform,
+  cashToBalance,
+  computeDraftBalance,
+  draftToRevision,
+  revisionToDraft,
+  setTradeCardQuantity,
+  toMatchCard,
+} from '@/utils/tradeProposal'
+
+const card = (over: Partial<any> = {}) => ({
+  scryfallId: 's1', name: 'Bolt', edition: 'M10', quantity: 1,
+  condition: 'NM', foil: false, price: 2, image: '', status: 'trade',
+  ...over,
+})
+
+const participants = { initiatorId: 'alice', recipientId: 'bob' }
+
+const revision = (over: Partial<any> = {}) => ({
+  authorId: 'alice',
+  initiatorCards: [card({ scryfallId: 'a', price: 10 })],
+  recipientCards: [card({ scryfallId: 'b', price: 4 })],
+  cashAmount: 0,
+  cashFromId: null,
+  note: '',
+  createdAt: new Date(0),
+  ...over,
+})
+
+const proposal = (over: Partial<any> = {}) => ({
+  ...participants,
+  status: 'open',
+  revisions: [revision()],
+  ...over,
+})
+
+describe('revisionToDraft / draftToRevision', () => {
+  it('proyecta las cartas según quién mira', () => {
+    const asAlice = revisionToDraft(revision() as any, participants, 'alice')
+    const asBob = revisionToDraft(revision() as any, participants, 'bob')
+    expect(asAlice.myCards[0].scryfallId).toBe('a')
+    expect(asAlice.otherCards[0].scryfallId).toBe('b')
+    expect(asBob.myCards[0].scryfallId).toBe('b')
+    expect(asBob.otherCards[0].scryfallId).toBe('a')
+  })
+
+  it('el efectivo tiene signo desde la perspectiva de cada uno', () => {
+    const rev = revision({ cashAmount: 6, cashFromId: 'bob' })
+    expect(revisionToDraft(rev as any, participants, 'bob').cashFromMe).toBe(6)
+    expect(revisionToDraft(rev as any, participants, 'alice').cashFromMe).toBe(-6)
+  })
+
+  it('ida y vuelta conserva cartas, efectivo y autor', () => {
+    const draft = { myCards: [card({ scryfallId: 'b' })], otherCards: [card({ scryfallId: 'a' })], cashFromMe: -3.5, note: '  hola ' }
+    const rev = draftToRevision(draft as any, participants, 'bob', new Date(5))
+    expect(rev).toMatchObject({
+      authorId: 'bob',
+      cashAmount: 3.5,
+      cashFromId: 'alice',
+      note: 'hola',
+    })
+    expect(rev.recipientCards[0].scryfallId).toBe('b')
+    expect(rev.initiatorCards[0].scryfallId).toBe('a')
+    expect(revisionToDraft(rev, participants, 'bob').cashFromMe).toBe(-3.5)
+  })
+
+  it('sin efectivo → cashFromId null', () => {
+    const rev = draftToRevision({ myCards: [], otherCards: [card()], cashFromMe: 0, note: '' } as any, participants, 'alice')
+    expect(rev.cashFromId).toBeNull()
+    expect(rev.cashAmount).toBe(0)
+  })
+})
+
+describe('computeDraftBalance / cashToBalance', () => {
+  it('balance = recibo − doy, con el efectivo del lado de quien paga', () => {
+    const draft = { myCards: [card({ price: 10, quantity: 2 })], otherCards: [card({ price: 15 })], cashFromMe: 0, note: '' }
+    expect(computeDraftBalance(draft as any)).toEqual({ giveValue: 20, receiveValue: 15, balance: -5 })
+    expect(computeDraftBalance({ ...draft, cashFromMe: -5 } as any).balance).toBe(0)
+  })
+
+  it('cashToBalance devuelve el efectivo que deja el balance en cero', () => {
+    const draft = { myCards: [card({ price: 3 })], otherCards: [card({ price: 10.255 })], cashFromMe: 99, note: '' }
+    const cash = cashToBalance(draft as any)
+    expect(cash).toBe(7.26)
+    expect(Math.abs(computeDraftBalance({ ...draft, cashFromMe: cash } as any).balance)).toBeLessThan(0.01)
+  })
+})
+
+describe('setTradeCardQuantity', () => {
+  it('agrega, actualiza y quita por impresión + condición + foil', () => {
+    const base = [card()]
+    const foil = card({ foil: true })
+    const added = setTradeCardQuantity(base as any, foil as any, 2)
+    expect(added).toHaveLength(2)
+    expect(added[1]).toMatchObject({ foil: true, quantity: 2 })
+
+    const updated = setTradeCardQuantity(added, card() as any, 3)
+    expect(updated[0].quantity).toBe(3)
+    expect(base[0].quantity).toBe(1) // no muta
+
+    expect(setTradeCardQuantity(updated, foil as any, 0)).toHaveLength(1)
+  })
+
+  it('toMatchCard copia la impresión de una fila de colección', () => {
+    const mc = toMatchCard({ id: 'x', scryfallId: 's', name: 'N', edition: 'E', quantity: 4, condition: 'LP', foil: true, price: 0, image: 'i', status: 'sale', updatedAt: new Date() }, 2)
+    expect(mc).toEqual({ scryfallId: 's', name: 'N', edition: 'E', quantity: 2, condition: 'LP', foil: true, price: 0, image: 'i', status: 'sale' })
+  })
+})
+
+describe('canPerform', () => {
+  it('solo quien no escribió la última revisión acepta, rechaza o contraoferta', () => {
+    const p = proposal()
+    for (const action of ['accept', 'decline', 'counter'] as const) {
+      expect(canPerform(p as any, 'bob', action)).toBe(true)
+      expect(canPerform(p as any, 'alice', action)).toBe(false)
+    }
+  })
+
+  it('solo el autor de la última revisión retira', () => {
+    const p = proposal({ revisions: [revision(), revision({ authorId: 'bob' })] })
+    expect(canPerform(p as any, 'bob', 'withdraw')).toBe(true)
+    expect(canPerform(p as any, 'alice', 'withdraw')).toBe(false)
+    expect(canPerform(p as any, 'alice', 'accept')).toBe(true)
+  })
+
+  it('nada se puede hacer sobre una propuesta cerrada o ajena', () => {
+    expect(canPerform(proposal({ status: 'accepted' }) as any, 'bob', 'accept')).toBe(false)
+    expect(canPerform(proposal() as any, 'eve', 'accept')).toBe(false)
+    expect(canPerform(proposal({ revisions: [] }) as any, 'bob', 'accept')).toBe(false)
+  })
+})
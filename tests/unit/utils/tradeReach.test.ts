@@ -0,0 +1,148 @@
+import { decodeGeohash, encodeGeohash, geohashDistanceKm } from '@/utils/geohash'
+import {
+  buildStructuredLocation,
+  checkTradeReach,
+  DEFAULT_TRADE_REACH,
+  normalizeStructuredLocation,
+  normalizeTradeReach,
+  parseLocationLabel,
+  type ReachParty,
+  worthShipping,
+} from '@/utils/tradeReach'
+import type { StructuredLocation, TradeReach } from '@/types/location'
+
+const BUENOS_AIRES = buildStructuredLocation({ city: 'Buenos Aires', country: 'Argentina', countryCode: 'ar', lat: -34.6037, lon: -58.3816 })
+const LA_PLATA = buildStructuredLocation({ city: 'La Plata', country: 'Argentina', countryCode: 'AR', lat: -34.9214, lon: -57.9545 })
+const CORDOBA = buildStructuredLocation({ city: 'Córdoba', country: 'Argentina', countryCode: 'AR', lat: -31.4201, lon: -64.1888 })
+const MENDOZA = buildStructuredLocation({ city: 'Mendoza', country: 'Argentina', countryCode: 'AR', lat: -32.8895, lon: -68.8458 })
+const SANTIAGO = buildStructuredLocation({ city: 'Santiago', country: 'Chile', countryCode: 'CL', lat: -33.4489, lon: -70.6693 })
+
+const party = (location: StructuredLocation | null, reach: Partial<TradeReach> = {}): ReachParty =>
+  ({ location, reach: { ...DEFAULT_TRADE_REACH, ...reach } })
+
+describe('geohash', () => {
+  it('encodes the reference point', () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe('u4pruydqqvj')
+  })
+
+  it('decodes to the center of the cell', () => {
+    const point = decodeGeohash(encodeGeohash(-34.6037, -58.3816, 5))
+    expect(point?.lat).toBeCloseTo(-34.6, 0)
+    expect(point?.lon).toBeCloseTo(-58.4, 0)
+    expect(decodeGeohash('not a hash!')).toBeNull()
+  })
+
+  it('measures distance between cells', () => {
+    expect(geohashDistanceKm(BUENOS_AIRES?.geohash ?? '', CORDOBA?.geohash ?? '')).toBeGreaterThan(600)
+    expect(geohashDistanceKm(BUENOS_AIRES?.geohash ?? '', CORDOBA?.geohash ?? '')).toBeLessThan(700)
+    expect(geohashDistanceKm('', 'abc')).toBeNull()
+  })
+})
+
+describe('normalizeStructuredLocation', () => {
+  it('drops empty fields and requires a country', () => {
+    expect(normalizeStructuredLocation({ country: ' Argentina ', city: '', countryCode: 'ar' }))
+      .toEqual({ country: 'Argentina', countryCode: 'AR' })
+    expect(normalizeStructuredLocation({ city: 'Rosario' })).toBeNull()
+    expect(normalizeStructuredLocation('Argentina')).toBeNull()
+  })
+
+  it('truncates the geohash to the stored precision', () => {
+    expect(normalizeStructuredLocation({ country: 'AR', geohash: 'U4PRUYDQQVJ' })?.geohash).toBe('u4pru')
+  })
+})
+
+describe('buildStructuredLocation', () => {
+  it('adds a geohash only with coordinates', () => {
+    expect(BUENOS_AIRES?.geohash).toHaveLength(5)
+    expect(buildStructuredLocation({ city: 'Rosario', country: 'Argentina' })).toEqual({ country: 'Argentina', city: 'Rosario' })
+  })
+})
+
+describe('parseLocationLabel', () => {
+  it('reads city, region and country from the free text', () => {
+    expect(parseLocationLabel('Rosario, Santa Fe, Argentina')).toEqual({ country: 'Argentina', city: 'Rosario', region: 'Santa Fe' })
+    expect(parseLocationLabel('Rosario, Argentina')).toEqual({ country: 'Argentina', city: 'Rosario' })
+    expect(parseLocationLabel('Argentina')).toEqual({ country: 'Argentina' })
+  })
+
+  it('returns null without text', () => {
+    expect(parseLocationLabel('')).toBeNull()
+    expect(parseLocationLabel(undefined)).toBeNull()
+  })
+})
+
+describe('normalizeTradeReach', () => {
+  it('defaults to shipping internationally', () => {
+    expect(normalizeTradeReach(undefined)).toEqual(DEFAULT_TRADE_REACH)
+  })
+
+  it('keeps valid values and rejects the rest', () => {
+    expect(normalizeTradeReach({ shipping: 'local', radiusKm: 25, minShippingValue: 10 }))
+      .toEqual({ shipping: 'local', radiusKm: 25, minShippingValue: 10 })
+    expect(normalizeTradeReach({ shipping: 'mars', radiusKm: -3, minShippingValue: 'x' })).toEqual(DEFAULT_TRADE_REACH)
+  })
+})
+
+describe('checkTradeReach', () => {
+  it('in person only: allows within the radius, hides farther away', () => {
+    const me = party(BUENOS_AIRES, { shipping: 'local', radiusKm: 100 })
+    const near = checkTradeReach(me, party(LA_PLATA))
+    expect(near).toMatchObject({ allowed: true, proximity: 'local', needsShipping: false })
+    expect(near.distanceKm).toBeGreaterThan(40)
+    expect(near.distanceKm).toBeLessThan(70)
+    expect(checkTradeReach(me, party(CORDOBA)).allowed).toBe(false)
+  })
+
+  it('in person only without coordinates falls back to the same city', () => {
+    const me = party(parseLocationLabel('Rosario, Argentina'), { shipping: 'local' })
+    expect(checkTradeReach(me, party(parseLocationLabel('rosario, Santa Fe, Argentina'))).allowed).toBe(true)
+    expect(checkTradeReach(me, party(parseLocationLabel('Córdoba, Argentina'))).allowed).toBe(false)
+    expect(checkTradeReach(me, party(null)).allowed).toBe(false)
+  })
+
+  it('ships nationally: same country, not abroad', () => {
+    const me = party(BUENOS_AIRES, { shipping: 'national' })
+    expect(checkTradeReach(me, party(CORDOBA))).toMatchObject({ allowed: true, proximity: 'national', needsShipping: true })
+    expect(checkTradeReach(me, party(SANTIAGO))).toMatchObject({ allowed: false, proximity: 'international' })
+  })
+
+  it('ships nationally: a neighbour across the border within the radius still counts', () => {
+    const me = party(MENDOZA, { shipping: 'national', radiusKm: 250 })
+    expect(checkTradeReach(me, party(SANTIAGO))).toMatchObject({ allowed: true, proximity: 'local' })
+  })
+
+  it('needs both sides to agree', () => {
+    const me = party(BUENOS_AIRES)
+    expect(checkTradeReach(me, party(SANTIAGO, { shipping: 'national' })).allowed).toBe(false)
+    expect(checkTradeReach(me, party(CORDOBA, { shipping: 'local' })).allowed).toBe(false)
+    expect(checkTradeReach(me, party(LA_PLATA, { shipping: 'local', radiusKm: 100 })).allowed).toBe(true)
+  })
+
+  it('unknown location is not ranked as near or far', () => {
+    expect(checkTradeReach(party(null), party(CORDOBA))).toMatchObject({ allowed: true, proximity: 'unknown', distanceKm: null })
+  })
+})
+
+describe('worthShipping', () => {
+  it('hides a $2 trade 1,500 km away when the minimum is higher', () => {
+    const me = party(BUENOS_AIRES, { minShippingValue: 20 })
+    const them = party(SANTIAGO)
+    const check = checkTradeReach(me, them)
+    expect(check.distanceKm).toBeGreaterThan(1000)
+    expect(worthShipping(check, 2, me, them)).toBe(false)
+    expect(worthShipping(check, 25, me, them)).toBe(true)
+  })
+
+  it('uses the higher minimum of the two', () => {
+    const me = party(BUENOS_AIRES, { minShippingValue: 5 })
+    const them = party(CORDOBA, { minShippingValue: 50 })
+    expect(worthShipping(checkTradeReach(me, them), 20, me, them)).toBe(false)
+  })
+
+  it('in-person trades have no minimum', () => {
+    const me = party(BUENOS_AIRES, { radiusKm: 100, minShippingValue: 100 })
+    const them = party(LA_PLATA)
+    expect(worthShipping(checkTradeReach(me, them), 2, me, them)).toBe(true)
+  })
+})